@@ -0,0 +1,38 @@
+import { HardhatUserConfig, subtask } from "hardhat/config";
+import { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS } from "hardhat/builtin-tasks/task-names";
+import "@nomicfoundation/hardhat-ethers";
+import "@nomicfoundation/hardhat-chai-matchers";
+
+// Foundry builds and deploys the contracts (foundry.toml, script/); Hardhat only runs the TypeScript tests of
+// tools/ (test/**/*.test.ts) against its in-process chain. It compiles the contracts those tests deploy.
+const SOLC_VERSION = "0.8.26";
+const TEST_CONTRACTS = ["FP1155.sol", "Booster.sol", "DailyLottery.sol"];
+
+// Staking and Deposit import through Foundry remappings, which Hardhat does not read
+subtask(TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS).setAction(async (args, hre, runSuper) => {
+  const paths: string[] = await runSuper(args);
+  return paths.filter((file) => TEST_CONTRACTS.some((name) => file.endsWith(`/${name}`)));
+});
+
+// Use the solc-js that Hardhat installs when it is the configured version, instead of downloading a compiler
+subtask(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD).setAction(async (args: { solcVersion: string }, hre, runSuper) => {
+  const solc = require("solc/package.json");
+  if (args.solcVersion !== solc.version) return runSuper(args);
+  return {
+    compilerPath: require.resolve("solc/soljson.js"),
+    isSolcJs: true,
+    version: args.solcVersion,
+    longVersion: require("solc").version(),
+  };
+});
+
+const config: HardhatUserConfig = {
+  solidity: {
+    version: SOLC_VERSION,
+    settings: { optimizer: { enabled: true, runs: 800 }, viaIR: true },
+  },
+  paths: { sources: "./src", tests: "./test" },
+  mocha: { timeout: 120_000 },
+};
+
+export default config;
@@ -0,0 +1,44 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { getLogsInChunks } from "../../tools/booster/booster.utils";
+
+const FILTER = { address: ethers.ZeroAddress, topics: [] };
+
+// Provider whose getLogs rejects ranges wider than maxRange with the given message
+function rangeLimitedProvider(maxRange: number, message: string) {
+  const requests: Array<[number, number]> = [];
+  const provider = {
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+      requests.push([fromBlock, toBlock]);
+      if (toBlock - fromBlock + 1 > maxRange) throw new Error(message);
+      return [];
+    },
+  } as unknown as ethers.Provider;
+  return { provider, requests };
+}
+
+describe("booster.utils getLogsInChunks", () => {
+  for (const message of [
+    "exceed maximum block range: 5000",
+    "query returned more than 10000 results",
+    "Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range",
+    "eth_getLogs is limited to a 10,000 range",
+    "block range is too wide",
+  ]) {
+    it(`halves the chunk on "${message}"`, async () => {
+      const { provider, requests } = rangeLimitedProvider(250, message);
+      await getLogsInChunks(provider, FILTER, 0, 999, 1000);
+      expect(requests.filter(([from, to]) => to - from + 1 <= 250)).to.have.length(4);
+    });
+  }
+
+  for (const message of ["rate limit exceeded", "exceeds block gas limit", "Too Many Requests"]) {
+    it(`surfaces "${message}" instead of retrying`, async () => {
+      const { provider, requests } = rangeLimitedProvider(0, message);
+      let error: Error | undefined;
+      await getLogsInChunks(provider, FILTER, 0, 999, 1000).catch((err) => (error = err));
+      expect(error?.message).to.equal(message);
+      expect(requests).to.have.length(1);
+    });
+  }
+});
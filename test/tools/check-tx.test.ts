@@ -0,0 +1,58 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { main } from "../../tools/check-tx";
+import { LocalChain, deployProxy, startLocalChain } from "./local-chain";
+
+// stdout of a command, which --json keeps to the JSON document
+async function captureStdout(run: () => Promise<void>): Promise<string> {
+  const lines: string[] = [];
+  const log = console.log;
+  console.log = (...parts: unknown[]) => lines.push(parts.join(" "));
+  try {
+    await run();
+  } finally {
+    console.log = log;
+  }
+  return lines.join("\n");
+}
+
+describe("check-tx --json", () => {
+  let chain: LocalChain;
+
+  before(async () => {
+    chain = await startLocalChain();
+  });
+
+  after(async () => {
+    await chain.close();
+  });
+
+  it("prints the decoded call, the revert and the events as tx.check-tx/1", async () => {
+    const admin = chain.wallet(0);
+    const user = chain.wallet(1);
+    const fp1155 = await deployProxy(admin, "FP1155", ["ipfs://fp/", admin.address]);
+    const address = await fp1155.getAddress();
+    const network = ["--network", "local", "--rpc", chain.rpcUrl, "--contract", address, "--json"];
+
+    const pauser = ethers.Wallet.createRandom().address;
+    const grant = await (await fp1155.grantRole(ethers.id("PAUSER_ROLE"), pauser)).wait();
+    const granted = JSON.parse(await captureStdout(() => main([grant!.hash, ...network])));
+    expect(granted).to.include({ schema: "tx.check-tx/1", contract: address, status: "success" });
+    expect(granted.call).to.deep.include({ name: "grantRole", args: { role: ethers.id("PAUSER_ROLE"), account: pauser } });
+    expect(granted.events.map((event: any) => event.name)).to.deep.equal(["RoleGranted"]);
+
+    // Automine rejects a reverting transaction instead of mining it
+    await chain.provider.send("evm_setAutomine", [false]);
+    let pause: ethers.TransactionResponse;
+    try {
+      pause = await user.sendTransaction({ to: address, data: fp1155.interface.encodeFunctionData("pause"), gasLimit: 200_000n });
+      await chain.provider.send("evm_mine", []);
+    } finally {
+      await chain.provider.send("evm_setAutomine", [true]);
+    }
+    const paused = JSON.parse(await captureStdout(() => main([pause.hash, ...network])));
+    expect(paused).to.include({ status: "failure" });
+    expect(paused.revert.reason).to.match(/^AccessControlUnauthorizedAccount\(/);
+    expect(paused.events).to.deep.equal([]);
+  });
+});
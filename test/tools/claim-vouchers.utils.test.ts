@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import {
+  ClaimRequest,
+  LedgerVoucher,
+  appendVoucherLedger,
+  planClaimNonces,
+  readVoucherLedger,
+} from "../../tools/fp/claim-vouchers.utils";
+
+const CONTRACT = "0x1000000000000000000000000000000000000001";
+const ALICE = ethers.getAddress("0xa11ce00000000000000000000000000000000001");
+const BOB = ethers.getAddress("0xb0b0000000000000000000000000000000000002");
+const NOW = 1_800_000_000n;
+
+function request(account: string, line: number): ClaimRequest {
+  return { line, account, seasonId: 323n, amount: 100n, deadline: NOW + 3600n };
+}
+
+function signed(account: string, nonce: bigint, deadline: bigint, contract = CONTRACT): LedgerVoucher {
+  return {
+    contract,
+    chainId: "97",
+    account,
+    seasonId: "323",
+    amount: "100",
+    nonce: nonce.toString(),
+    deadline: deadline.toString(),
+    signature: "0x",
+    file: `vouchers/nonce-${nonce}.json`,
+    signedAt: "2026-10-01T00:00:00.000Z",
+  };
+}
+
+const nonces = (plan: { vouchers: { nonce: bigint }[] }) => plan.vouchers.map((voucher) => voucher.nonce);
+
+describe("claim-vouchers.utils planClaimNonces", () => {
+  it("numbers the requests of each account from its on-chain nonce, in file order", () => {
+    const plans = planClaimNonces(
+      [request(ALICE, 2), request(BOB, 3), request(ALICE, 4)],
+      new Map([[ALICE, 5n], [BOB, 0n]]),
+      [],
+      CONTRACT,
+      NOW
+    );
+    expect(plans.map((plan) => plan.account)).to.deep.equal([ALICE, BOB]);
+    expect(nonces(plans[0])).to.deep.equal([5n, 6n]);
+    expect(plans[0].vouchers.map((voucher) => voucher.request.line)).to.deep.equal([2, 4]);
+    expect(nonces(plans[1])).to.deep.equal([0n]);
+  });
+
+  it("skips the nonces of live vouchers handed out earlier", () => {
+    const ledger = [signed(ALICE, 5n, NOW + 60n), signed(ALICE, 6n, NOW + 60n)];
+    const [plan] = planClaimNonces([request(ALICE, 2)], new Map([[ALICE, 5n]]), ledger, CONTRACT, NOW);
+    expect(nonces(plan)).to.deep.equal([7n]);
+    expect(plan.outstanding.map((voucher) => voucher.nonce)).to.deep.equal(["5", "6"]);
+    expect(plan.replaced).to.deep.equal([]);
+  });
+
+  it("fills the gap an expired voucher leaves before a live one", () => {
+    const ledger = [signed(ALICE, 6n, NOW + 60n), signed(ALICE, 5n, NOW - 1n)];
+    const [plan] = planClaimNonces([request(ALICE, 2), request(ALICE, 3)], new Map([[ALICE, 5n]]), ledger, CONTRACT, NOW);
+    expect(nonces(plan)).to.deep.equal([5n, 7n]);
+    expect(plan.outstanding.map((voucher) => voucher.nonce)).to.deep.equal(["6"]);
+    expect(plan.replaced.map((voucher) => voucher.nonce)).to.deep.equal(["5"]);
+  });
+
+  it("only reports an expired voucher as replaced when its nonce is signed again", () => {
+    const ledger = [signed(ALICE, 5n, NOW - 1n), signed(ALICE, 6n, NOW - 1n)];
+    const [plan] = planClaimNonces([request(ALICE, 2)], new Map([[ALICE, 5n]]), ledger, CONTRACT, NOW);
+    expect(nonces(plan)).to.deep.equal([5n]);
+    expect(plan.replaced.map((voucher) => voucher.nonce)).to.deep.equal(["5"]);
+  });
+
+  it("keeps a voucher whose deadline is the current block time", () => {
+    const [plan] = planClaimNonces([request(ALICE, 2)], new Map([[ALICE, 5n]]), [signed(ALICE, 5n, NOW)], CONTRACT, NOW);
+    expect(nonces(plan)).to.deep.equal([6n]);
+  });
+
+  it("ignores claimed vouchers, other contracts and other accounts", () => {
+    const ledger = [
+      signed(ALICE, 4n, NOW + 60n), // claimed: below the on-chain nonce
+      signed(ALICE, 5n, NOW + 60n, "0x2000000000000000000000000000000000000002"),
+      signed(BOB, 5n, NOW + 60n),
+    ];
+    const [plan] = planClaimNonces([request(ALICE, 2)], new Map([[ALICE, 5n]]), ledger, CONTRACT, NOW);
+    expect(nonces(plan)).to.deep.equal([5n]);
+    expect(plan.outstanding).to.deep.equal([]);
+  });
+
+  it("matches ledger accounts and contracts whatever their case", () => {
+    const ledger = [signed(ALICE.toLowerCase(), 5n, NOW + 60n, CONTRACT.toUpperCase().replace("0X", "0x"))];
+    const [plan] = planClaimNonces([request(ALICE, 2)], new Map([[ALICE, 5n]]), ledger, CONTRACT, NOW);
+    expect(nonces(plan)).to.deep.equal([6n]);
+  });
+
+  it("throws when the on-chain nonce of an account was not read", () => {
+    expect(() => planClaimNonces([request(ALICE, 2)], new Map(), [], CONTRACT, NOW)).to.throw(`No on-chain nonce read for ${ALICE}`);
+  });
+});
+
+describe("claim-vouchers.utils readVoucherLedger", () => {
+  it("skips a line truncated by an interrupted run", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "vouchers-"));
+    try {
+      const file = path.join(dir, "claims.ledger.jsonl");
+      appendVoucherLedger(file, [signed(ALICE, 5n, NOW)]);
+      fs.appendFileSync(file, JSON.stringify(signed(ALICE, 6n, NOW)).slice(0, 40));
+      expect(readVoucherLedger(file).map((voucher) => voucher.nonce)).to.deep.equal(["5"]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
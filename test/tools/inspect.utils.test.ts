@@ -0,0 +1,43 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { replayTransaction } from "../../tools/tx/inspect.utils";
+import { LocalChain, deployProxy, startLocalChain } from "./local-chain";
+
+describe("inspect.utils replayTransaction", () => {
+  let chain: LocalChain;
+
+  before(async () => {
+    chain = await startLocalChain();
+  });
+
+  after(async () => {
+    await chain.close();
+  });
+
+  it("replays on the state before the block, not after it", async () => {
+    const admin = chain.wallet(0);
+    const user = chain.wallet(1);
+    const fp1155 = await deployProxy(admin, "FP1155", ["ipfs://fp/", admin.address]);
+
+    // The user's pause() reverts, then a later transaction of the same block makes the user a pauser
+    await chain.provider.send("evm_setAutomine", [false]);
+    try {
+      const pause = await user.sendTransaction({
+        to: await fp1155.getAddress(),
+        data: fp1155.interface.encodeFunctionData("pause"),
+        gasLimit: 200_000n,
+      });
+      await fp1155.grantRole(ethers.id("PAUSER_ROLE"), user.address, { gasLimit: 200_000n });
+      await chain.provider.send("evm_mine", []);
+      const receipt = await chain.provider.getTransactionReceipt(pause.hash);
+      expect(receipt?.status).to.equal(0);
+
+      const replay = await replayTransaction(chain.provider, pause, receipt!.blockNumber);
+      expect(replay.reverted).to.equal(true);
+      const error = fp1155.interface.parseError(replay.data!);
+      expect(error?.name).to.equal("AccessControlUnauthorizedAccount");
+    } finally {
+      await chain.provider.send("evm_setAutomine", [true]);
+    }
+  });
+});
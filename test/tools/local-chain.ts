@@ -0,0 +1,55 @@
+import hre from "hardhat";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import { ethers } from "ethers";
+import ERC1967Proxy from "@openzeppelin/contracts/build/contracts/ERC1967Proxy.json";
+
+// Private keys of Hardhat's default accounts (mnemonic "test test ... junk"), each funded with 10000 ETH
+export const ACCOUNT_KEYS = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804e8ab365a",
+  "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6",
+  "0x47e179ec197488593b187f80a00eb0da91f1b9d0b13f8733639f19c30a34926a",
+];
+
+export interface LocalChain {
+  rpcUrl: string;
+  provider: ethers.JsonRpcProvider;
+  wallet(index: number): ethers.Wallet;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve the in-process Hardhat chain over HTTP on a free port, for tools that connect with
+ * --network local --rpc <url>. The wallets sign locally, as the tools' env signers do.
+ */
+export async function startLocalChain(): Promise<LocalChain> {
+  const server = await hre.run(TASK_NODE_CREATE_SERVER, { hostname: "127.0.0.1", port: 0, provider: hre.network.provider });
+  const { port } = await server.listen();
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  // No request cache: back-to-back sends of a wallet would otherwise read the same "pending" nonce
+  const provider = new ethers.JsonRpcProvider(rpcUrl, 31337, { staticNetwork: true, cacheTimeout: -1, pollingInterval: 100 });
+  return {
+    rpcUrl,
+    provider,
+    wallet: (index) => new ethers.Wallet(ACCOUNT_KEYS[index], provider),
+    close: async () => {
+      provider.destroy();
+      await server.close();
+    },
+  };
+}
+
+// Deploy a contract of src/ behind an ERC1967 proxy initialized with initArgs, as script/ does
+export async function deployProxy(deployer: ethers.Signer, name: string, initArgs: unknown[]): Promise<ethers.Contract> {
+  const artifact = await hre.artifacts.readArtifact(name);
+  const implementation = await new ethers.ContractFactory(artifact.abi, artifact.bytecode, deployer).deploy();
+  await implementation.waitForDeployment();
+  const data = new ethers.Interface(artifact.abi).encodeFunctionData("initialize", initArgs);
+  const proxy = await new ethers.ContractFactory(ERC1967Proxy.abi, ERC1967Proxy.bytecode, deployer).deploy(
+    await implementation.getAddress(),
+    data
+  );
+  await proxy.waitForDeployment();
+  return new ethers.Contract(await proxy.getAddress(), artifact.abi, deployer);
+}
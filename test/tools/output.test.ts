@@ -0,0 +1,25 @@
+import { expect } from "chai";
+import { parseCsv } from "../../tools/cli/output";
+
+describe("output parseCsv", () => {
+  it("reads the quoted fields printCsv writes", () => {
+    const content = 'account,note\n0xa11ce,"Smith, ""Jr."""\n0xb0b,"two\nlines"\n';
+    expect(parseCsv(content, "rows.csv")).to.deep.equal([
+      { line: 2, values: { account: "0xa11ce", note: 'Smith, "Jr."' } },
+      { line: 3, values: { account: "0xb0b", note: "two\nlines" } },
+    ]);
+  });
+
+  it("skips blank and comment lines and trims unquoted fields", () => {
+    const content = "# rewards\r\naccount , amount\r\n\r\n 0xa11ce , 100 \r\n# end\r\n";
+    expect(parseCsv(content, "rows.csv", ["account", "amount"])).to.deep.equal([
+      { line: 4, values: { account: "0xa11ce", amount: "100" } },
+    ]);
+  });
+
+  it("reports a missing column and the line of a short row", () => {
+    expect(() => parseCsv("account\n0xa11ce\n", "rows.csv", ["amount"])).to.throw("rows.csv: the header row has no amount column");
+    expect(() => parseCsv("account,amount\n0xa11ce,1\n0xb0b\n", "rows.csv")).to.throw("rows.csv:3: expected 2 columns");
+    expect(() => parseCsv('account,note\n0xa11ce,"open\n', "rows.csv")).to.throw("rows.csv:2: unterminated quoted field");
+  });
+});
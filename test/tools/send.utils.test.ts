@@ -0,0 +1,146 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NETWORK_PROFILES } from "../../tools/cli/networks";
+import { RoleSigner } from "../../tools/signers/signers.utils";
+import { TxPipeline, openTxPipeline, sendTx, submitTx, waitForTx } from "../../tools/tx/send.utils";
+import { ACCOUNT_KEYS, LocalChain, deployProxy, startLocalChain } from "./local-chain";
+
+type BroadcastFailure = "lost" | "timeout" | "insufficientFunds" | "nonceTooLow";
+
+// Provider whose next broadcasts fail as queued: before reaching the node, after it, or rejected by it
+class FlakyProvider extends ethers.JsonRpcProvider {
+  failures: BroadcastFailure[] = [];
+  broadcasts = 0;
+
+  async broadcastTransaction(signedTx: string): Promise<ethers.TransactionResponse> {
+    this.broadcasts++;
+    const failure = this.failures.shift();
+    if (failure === "lost") throw ethers.makeError("request timeout", "TIMEOUT");
+    if (failure === "insufficientFunds") {
+      throw ethers.makeError("insufficient funds for gas * price + value", "INSUFFICIENT_FUNDS", { transaction: {} });
+    }
+    if (failure === "nonceTooLow") throw ethers.makeError("nonce too low", "NONCE_EXPIRED", { transaction: {} });
+    const response = await super.broadcastTransaction(signedTx);
+    if (failure === "timeout") throw ethers.makeError("request timeout", "TIMEOUT");
+    return response;
+  }
+}
+
+describe("send.utils sendTx broadcast failures", () => {
+  let chain: LocalChain;
+  let provider: FlakyProvider;
+  let fp1155: ethers.Contract;
+  let pipeline: TxPipeline;
+  let journalDir: string;
+  const pauser = () => ethers.Wallet.createRandom().address;
+
+  before(async () => {
+    chain = await startLocalChain();
+    fp1155 = await deployProxy(chain.wallet(0), "FP1155", ["ipfs://fp/", chain.wallet(0).address]);
+    provider = new FlakyProvider(chain.rpcUrl, 31337, { staticNetwork: true, pollingInterval: 100 });
+    journalDir = fs.mkdtempSync(path.join(os.tmpdir(), "tx-journal-"));
+  });
+
+  after(async () => {
+    provider.destroy();
+    await chain.close();
+    fs.rmSync(journalDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    const signer = new ethers.Wallet(ACCOUNT_KEYS[0], provider) as RoleSigner;
+    const txJournal = path.join(journalDir, `${Date.now()}.jsonl`);
+    pipeline = await openTxPipeline(signer, NETWORK_PROFILES.local, { txJournal });
+    provider.failures = [];
+    provider.broadcasts = 0;
+  });
+
+  const grantPauser = () => sendTx(pipeline, fp1155, "grantRole", [ethers.id("PAUSER_ROLE"), pauser()]);
+
+  it("waits for a transaction whose broadcast timed out after reaching the node", async () => {
+    const nonce = pipeline.nextNonce;
+    provider.failures = ["timeout"];
+    const receipt = await grantPauser();
+    expect(receipt.status).to.equal(1);
+    expect(pipeline.entries.get(nonce)?.outcome).to.equal("mined");
+
+    // The nonce stays used: the next send takes the following one
+    await grantPauser();
+    expect(pipeline.entries.get(nonce + 1)?.outcome).to.equal("mined");
+  });
+
+  it("rebroadcasts a transaction that never reached the node", async () => {
+    const nonce = pipeline.nextNonce;
+    provider.failures = ["lost"];
+    const receipt = await grantPauser();
+    expect(receipt.status).to.equal(1);
+    expect(provider.broadcasts).to.equal(2);
+    expect(await provider.getTransaction(receipt.hash)).to.have.property("nonce", nonce);
+  });
+
+  it("gives the nonce back when the node refuses the transaction", async () => {
+    const nonce = pipeline.nextNonce;
+    provider.failures = ["insufficientFunds"];
+    let error: any;
+    await grantPauser().catch((err) => (error = err));
+    expect(error?.code).to.equal("INSUFFICIENT_FUNDS");
+    expect(pipeline.entries.get(nonce)?.outcome).to.equal("dropped");
+    expect(pipeline.nextNonce).to.equal(nonce);
+
+    const receipt = await grantPauser();
+    expect(await provider.getTransaction(receipt.hash)).to.have.property("nonce", nonce);
+  });
+
+  it("moves past a nonce the node reports as used", async () => {
+    const nonce = pipeline.nextNonce;
+    provider.failures = ["nonceTooLow"];
+    let error: any;
+    await grantPauser().catch((err) => (error = err));
+    expect(error?.code).to.equal("NONCE_EXPIRED");
+    expect(pipeline.entries.get(nonce)?.outcome).to.equal("dropped");
+    expect(pipeline.nextNonce).to.equal(nonce + 1);
+  });
+});
+
+describe("send.utils submitTx", () => {
+  let chain: LocalChain;
+  let fp1155: ethers.Contract;
+  let journalDir: string;
+
+  before(async () => {
+    chain = await startLocalChain();
+    fp1155 = await deployProxy(chain.wallet(0), "FP1155", ["ipfs://fp/", chain.wallet(0).address]);
+    journalDir = fs.mkdtempSync(path.join(os.tmpdir(), "tx-journal-"));
+  });
+
+  after(async () => {
+    await chain.close();
+    fs.rmSync(journalDir, { recursive: true, force: true });
+  });
+
+  it("keeps several transactions in flight with consecutive local nonces", async () => {
+    const signer = new ethers.Wallet(ACCOUNT_KEYS[0], chain.provider) as RoleSigner;
+    const pipeline = await openTxPipeline(signer, NETWORK_PROFILES.local, { txJournal: path.join(journalDir, "pipelined.jsonl") });
+    const first = pipeline.nextNonce;
+
+    await chain.provider.send("evm_setAutomine", [false]);
+    try {
+      const nonces = [];
+      for (let i = 0; i < 3; i++) {
+        nonces.push(await submitTx(pipeline, fp1155, "grantRole", [ethers.id("PAUSER_ROLE"), ethers.Wallet.createRandom().address]));
+      }
+      expect(nonces).to.deep.equal([first, first + 1, first + 2]);
+      expect(await chain.provider.getTransactionCount(signer.address, "pending")).to.equal(first + 3);
+
+      await chain.provider.send("evm_mine", []);
+      const receipts = [];
+      for (const nonce of nonces) receipts.push(await waitForTx(pipeline, nonce));
+      expect(new Set(receipts.map((receipt) => receipt.blockNumber)).size).to.equal(1);
+    } finally {
+      await chain.provider.send("evm_setAutomine", [true]);
+    }
+  });
+});
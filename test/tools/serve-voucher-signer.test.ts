@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { readVoucherLedger } from "../../tools/fp/claim-vouchers.utils";
+import { VoucherServer, startVoucherServer } from "../../tools/signers/serve-voucher-signer";
+import { ACCOUNT_KEYS, LocalChain, deployProxy, startLocalChain } from "./local-chain";
+
+const SEASON = 323n;
+const CAPPED_SEASON = 324n;
+
+interface Reply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// POST with Node's http client, which reports the reply even when the server closes the connection early
+function post(url: string, body: string, headers: Record<string, string> = {}): Promise<Reply> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, { method: "POST", headers: { "content-type": "application/json", ...headers } }, (res) => {
+      let raw = "";
+      res.setEncoding("utf8");
+      res.on("data", (chunk) => (raw += chunk));
+      res.on("end", () => resolve({ status: res.statusCode!, headers: res.headers, body: raw ? JSON.parse(raw) : undefined }));
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+describe("serve-voucher-signer", () => {
+  let chain: LocalChain;
+  let fp1155: ethers.Contract;
+  let lottery: ethers.Contract;
+  let server: VoucherServer;
+  let dir: string;
+  let ledgerFile: string;
+  const env = { ...process.env };
+
+  const claim = (key: string, request: Record<string, unknown>) =>
+    post(`${server.url}/claim`, JSON.stringify(request), { "idempotency-key": key });
+  const freeEntry = (key: string, account: string) =>
+    post(`${server.url}/free-entry`, JSON.stringify({ account }), { "idempotency-key": key });
+  const randomAccount = () => ethers.Wallet.createRandom().address;
+
+  before(async () => {
+    chain = await startLocalChain();
+    const admin = chain.wallet(0);
+    const claimSigner = chain.wallet(1);
+    const freeEntrySigner = chain.wallet(2);
+    fp1155 = await deployProxy(admin, "FP1155", ["ipfs://fp/", admin.address]);
+    lottery = await deployProxy(admin, "DailyLottery", [await fp1155.getAddress(), admin.address, freeEntrySigner.address]);
+    await (await fp1155.grantRole(ethers.id("CLAIM_SIGNER_ROLE"), claimSigner.address)).wait();
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "voucher-signer-"));
+    ledgerFile = path.join(dir, "claims.ledger.jsonl");
+    process.env.CLAIM_SIGNER_PK = ACCOUNT_KEYS[1];
+    process.env.FREE_ENTRY_SIGNER_PK = ACCOUNT_KEYS[2];
+    server = await startVoucherServer({
+      network: "local",
+      rpc: chain.rpcUrl,
+      fp1155: await fp1155.getAddress(),
+      lottery: await lottery.getAddress(),
+      signer: "env",
+      port: "0",
+      auditLog: path.join(dir, "audit.jsonl"),
+      ledger: ledgerFile,
+      rateLimit: "3",
+      seasonCap: "1000",
+      dayCap: "2",
+    });
+  });
+
+  after(async () => {
+    await server?.close();
+    await chain.close();
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    process.env = env;
+  });
+
+  it("signs a claim voucher that FP1155.claim accepts", async () => {
+    const user = chain.wallet(3);
+    const reply = await claim("claim-1", { account: user.address, seasonId: SEASON.toString(), amount: "100" });
+    expect(reply.status).to.equal(200);
+    expect(reply.body).to.include({ account: user.address, seasonId: "323", amount: "100", nonce: "0" });
+
+    const { seasonId, amount, deadline, signature } = reply.body;
+    await (await (fp1155.connect(user) as ethers.Contract).claim(seasonId, amount, deadline, signature)).wait();
+    expect(await fp1155.balanceOf(user.address, SEASON)).to.equal(100n);
+  });
+
+  it("answers a retry with the same key with the same voucher", async () => {
+    const account = randomAccount();
+    const request = { account, seasonId: SEASON.toString(), amount: "5" };
+    const first = await claim("retry-1", request);
+    const retry = await claim("retry-1", request);
+    expect(retry.status).to.equal(200);
+    expect(retry.headers["idempotent-replayed"]).to.equal("true");
+    expect(retry.body).to.deep.equal(first.body);
+    expect(readVoucherLedger(ledgerFile).filter((voucher) => voucher.account === account)).to.have.length(1);
+  });
+
+  it("refuses a key reused for a different request", async () => {
+    const account = randomAccount();
+    await claim("reused-1", { account, seasonId: SEASON.toString(), amount: "5" });
+    const reply = await claim("reused-1", { account, seasonId: SEASON.toString(), amount: "6" });
+    expect(reply.status).to.equal(409);
+    expect(reply.body.error).to.match(/already used for a different request/);
+  });
+
+  it("rate limits each account", async () => {
+    const account = randomAccount();
+    const request = { account, seasonId: SEASON.toString(), amount: "1" };
+    const replies = [];
+    for (const key of ["rate-1", "rate-2", "rate-3", "rate-4"]) replies.push(await claim(key, request));
+    expect(replies.map((reply) => reply.status)).to.deep.equal([200, 200, 200, 429]);
+    // Consecutive vouchers of one account take consecutive nonces
+    expect(replies.slice(0, 3).map((reply) => reply.body.nonce)).to.deep.equal(["0", "1", "2"]);
+  });
+
+  it("gives concurrent requests of one account distinct nonces", async () => {
+    const account = randomAccount();
+    const request = { account, seasonId: SEASON.toString(), amount: "1" };
+    const replies = await Promise.all([claim("parallel-1", request), claim("parallel-2", request)]);
+    expect(replies.map((reply) => reply.body.nonce).sort()).to.deep.equal(["0", "1"]);
+  });
+
+  it("caps the amount signed per season", async () => {
+    const first = await claim("cap-1", { account: randomAccount(), seasonId: CAPPED_SEASON.toString(), amount: "900" });
+    expect(first.status).to.equal(200);
+    const over = await claim("cap-2", { account: randomAccount(), seasonId: CAPPED_SEASON.toString(), amount: "101" });
+    expect(over.status).to.equal(403);
+    expect(over.body.error).to.match(/Season 324 cap reached: 900 of 1000/);
+  });
+
+  it("signs a free entry that DailyLottery.claimFreeEntry accepts, then caps the day", async () => {
+    const user = chain.wallet(4);
+    const reply = await freeEntry("entry-1", user.address);
+    expect(reply.status).to.equal(200);
+    await (await (lottery.connect(user) as ethers.Contract).claimFreeEntry(reply.body.signature)).wait();
+    expect(await lottery.getUserNonce(reply.body.dayId, user.address)).to.equal(1n);
+
+    expect((await freeEntry("entry-2", randomAccount())).status).to.equal(200);
+    const capped = await freeEntry("entry-3", randomAccount());
+    expect(capped.status).to.equal(403);
+    expect(capped.body.error).to.match(/cap reached: 2 free-entry voucher\(s\) signed/);
+  });
+
+  it("refuses to start without a token on a network other than local", async () => {
+    let error: any;
+    await startVoucherServer({ network: "testnet", rpc: chain.rpcUrl, port: "0" }).catch((err) => (error = err));
+    expect(error?.message).to.match(/--token is required on testnet/);
+  });
+
+  it("rejects an oversized body with 413", async () => {
+    const reply = await claim("large-1", { account: randomAccount(), padding: "x".repeat(64 * 1024) });
+    expect(reply.status).to.equal(413);
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from "chai";
+import { Corner, WinMethod } from "../../tools/booster/booster.utils";
+import {
+  BoostRecord,
+  FightOutcome,
+  calculateUserPoints,
+  computeFightSettlement,
+  quoteBoostPayout,
+  simulateFightPayouts,
+} from "../../tools/booster/settlement.utils";
+
+const ALICE = "0x00000000000000000000000000000000000000A1";
+const BOB = "0x00000000000000000000000000000000000000B0";
+const CAROL = "0x00000000000000000000000000000000000000C0";
+
+function boost(boostIndex: number, user: string, amount: bigint, predictedWinner: number, predictedMethod: number): BoostRecord {
+  return { fightId: 1, boostIndex, user, amount, predictedWinner, predictedMethod };
+}
+
+// Alice has winner and method right, Bob the winner only, Carol neither
+const BOOSTS = [
+  boost(0, ALICE, 100n, Corner.RED, WinMethod.KNOCKOUT),
+  boost(1, BOB, 300n, Corner.RED, WinMethod.DECISION),
+  boost(2, CAROL, 600n, Corner.BLUE, WinMethod.KNOCKOUT),
+];
+const RED_BY_KNOCKOUT: FightOutcome = { winner: Corner.RED, method: WinMethod.KNOCKOUT, pointsForWinner: 10n, pointsForWinnerMethod: 20n };
+const NO_CONTEST: FightOutcome = { winner: Corner.NONE, method: WinMethod.NO_CONTEST, pointsForWinner: 0n, pointsForWinnerMethod: 0n };
+
+describe("settlement.utils", () => {
+  describe("calculateUserPoints", () => {
+    it("gives the method points when winner and method are right", () => {
+      expect(calculateUserPoints(Corner.RED, WinMethod.KNOCKOUT, Corner.RED, WinMethod.KNOCKOUT, 10n, 20n)).to.equal(20n);
+    });
+
+    it("gives the winner points when only the winner is right", () => {
+      expect(calculateUserPoints(Corner.RED, WinMethod.DECISION, Corner.RED, WinMethod.KNOCKOUT, 10n, 20n)).to.equal(10n);
+    });
+
+    it("gives nothing for the wrong winner, even with the right method", () => {
+      expect(calculateUserPoints(Corner.BLUE, WinMethod.KNOCKOUT, Corner.RED, WinMethod.KNOCKOUT, 10n, 20n)).to.equal(0n);
+    });
+  });
+
+  describe("computeFightSettlement", () => {
+    it("weights winning stakes by their points", () => {
+      expect(computeFightSettlement(BOOSTS, RED_BY_KNOCKOUT)).to.deep.equal({
+        sumWinnersStakes: 400n,
+        winningPoolTotalShares: 20n * 100n + 10n * 300n,
+        totalAmountStaked: 1000n,
+        winningBoosts: 2,
+      });
+    });
+
+    it("has no winners when nobody picked the winning corner", () => {
+      const settlement = computeFightSettlement(BOOSTS.slice(0, 2), { ...RED_BY_KNOCKOUT, winner: Corner.BLUE });
+      expect(settlement).to.deep.equal({ sumWinnersStakes: 0n, winningPoolTotalShares: 0n, totalAmountStaked: 400n, winningBoosts: 0 });
+    });
+
+    it("has no winners on a no-contest", () => {
+      const settlement = computeFightSettlement(BOOSTS, NO_CONTEST);
+      expect(settlement).to.deep.equal({ sumWinnersStakes: 0n, winningPoolTotalShares: 0n, totalAmountStaked: 1000n, winningBoosts: 0 });
+    });
+  });
+
+  describe("simulateFightPayouts", () => {
+    const totals = computeFightSettlement(BOOSTS, RED_BY_KNOCKOUT);
+
+    it("splits the prize pool (losing stakes + bonus) by shares and returns the principal", () => {
+      // prizePool = 1000 - 400 + 50 = 650; Alice holds 2000 of 5000 shares, Bob 3000
+      const simulation = simulateFightPayouts(BOOSTS, RED_BY_KNOCKOUT, totals, { originalPool: 1000n, bonusPool: 50n });
+      expect(simulation.payouts.map((p) => [p.user, p.points, p.payout])).to.deep.equal([
+        [ALICE, 20n, 100n + 260n],
+        [BOB, 10n, 300n + 390n],
+      ]);
+      expect(simulation.totalPayout).to.equal(1050n);
+      expect(simulation.pool).to.equal(1050n);
+      expect(simulation.dust).to.equal(0n);
+    });
+
+    it("rounds each payout down and leaves the remainder as dust", () => {
+      // prizePool = 651: 651 * 2000 / 5000 = 260.4, 651 * 3000 / 5000 = 390.6
+      const simulation = simulateFightPayouts(BOOSTS, RED_BY_KNOCKOUT, totals, { originalPool: 1000n, bonusPool: 51n });
+      expect(simulation.payouts.map((p) => p.payout)).to.deep.equal([360n, 690n]);
+      expect(simulation.dust).to.equal(1n);
+    });
+
+    it("pays nobody when there is no winner: the whole pool stays in the contract", () => {
+      const outcome = { ...RED_BY_KNOCKOUT, winner: Corner.BLUE };
+      const boosts = BOOSTS.slice(0, 2);
+      const simulation = simulateFightPayouts(boosts, outcome, computeFightSettlement(boosts, outcome), { originalPool: 400n, bonusPool: 25n });
+      expect(simulation.payouts).to.deep.equal([]);
+      expect(simulation.dust).to.equal(425n);
+    });
+
+    it("refunds every principal on a no-contest and leaves the bonus", () => {
+      const simulation = simulateFightPayouts(BOOSTS, NO_CONTEST, computeFightSettlement(BOOSTS, NO_CONTEST), { originalPool: 1000n, bonusPool: 50n });
+      expect(simulation.payouts.map((p) => [p.user, p.payout])).to.deep.equal([
+        [ALICE, 100n],
+        [BOB, 300n],
+        [CAROL, 600n],
+      ]);
+      expect(simulation.dust).to.equal(50n);
+    });
+
+    it("rejects totals whose winning stakes exceed the pool", () => {
+      expect(() => simulateFightPayouts(BOOSTS, RED_BY_KNOCKOUT, totals, { originalPool: 399n, bonusPool: 0n })).to.throw(/exceeds originalPool/);
+    });
+  });
+
+  describe("quoteBoostPayout", () => {
+    const totals = computeFightSettlement(BOOSTS, RED_BY_KNOCKOUT);
+    const fight = { ...RED_BY_KNOCKOUT, ...totals, originalPool: 1000n, bonusPool: 51n, cancelled: false };
+
+    it("matches the simulated payout of each boost", () => {
+      const simulation = simulateFightPayouts(BOOSTS, RED_BY_KNOCKOUT, totals, fight);
+      for (const payout of simulation.payouts) {
+        expect(quoteBoostPayout(fight, BOOSTS[payout.boostIndex])).to.deep.equal({ points: payout.points, payout: payout.payout });
+      }
+    });
+
+    it("pays nothing on a losing boost", () => {
+      expect(quoteBoostPayout(fight, BOOSTS[2])).to.deep.equal({ points: 0n, payout: 0n });
+    });
+
+    it("pays nothing when the fight has no winners", () => {
+      expect(quoteBoostPayout({ ...fight, sumWinnersStakes: 0n, winningPoolTotalShares: 0n }, BOOSTS[0]).payout).to.equal(0n);
+    });
+
+    it("refunds the principal of a cancelled fight, losing boosts included", () => {
+      expect(quoteBoostPayout({ ...fight, cancelled: true }, BOOSTS[2])).to.deep.equal({ points: 0n, payout: 600n });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @notice Script to compute sumWinnersStakes, winningPoolTotalShares and totalAmountStaked from on-chain boosts
+ *
+ * Reads a resolutions file where only fightId, winner, method, pointsForWinner and pointsForWinnerMethod
+ * need to be filled in, replays the event's BoostPlaced/BoostIncreased logs and writes back a fully
+ * populated file ready for submit-batch-results.ts.
+ *
+ * @example Fill in resolutions.json in place (same folder by default)
+ * ts-node tools/booster/batch-submit/compute-resolutions.ts --network mainnet
+ *
+ * @example Read outcomes from one file and write the populated file elsewhere
+ * ts-node tools/booster/batch-submit/compute-resolutions.ts \
+ *   --network testnet \
+ *   --file tools/booster/batch-submit/outcomes.json \
+ *   --out tools/booster/batch-submit/resolutions.json \
+ *   --fromBlock 87000000
+ *
+ * @example Smaller log ranges for RPCs with tight eth_getLogs limits
+ * ts-node tools/booster/batch-submit/compute-resolutions.ts --network mainnet --blockRange 1000
+ *
+ * @env MAINNET_BOOSTER_FROM_BLOCK / TESTNET_BOOSTER_FROM_BLOCK - First block to scan for boost logs
+ */
+import "dotenv/config";
+import {
+  parseArgs,
+  setupBoosterConfig,
+  resolveFromBlock,
+  parseWinner,
+  parseMethod,
+  getWinnerName,
+  getMethodName,
+  askConfirmation,
+} from "../booster.utils";
+import { loadEventBoosts, computeFightSettlement } from "../settlement.utils";
+import { connectBooster } from "../../contracts/booster";
+import {
+  DEFAULT_RESOLUTIONS_PATH,
+  FightResultsFile,
+  readResolutionsFile,
+  writeResolutionsFile,
+} from "./resolutions.utils";
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const config = await setupBoosterConfig(args);
+
+  const filePath = args.file || DEFAULT_RESOLUTIONS_PATH;
+  const outPath = args.out || filePath;
+  const data = readResolutionsFile(filePath);
+  const eventId = args.eventId || args.event || data.eventId;
+  if (eventId !== data.eventId) {
+    throw new Error(`--eventId "${eventId}" does not match file eventId "${data.eventId}"`);
+  }
+
+  const booster = connectBooster(config.contractAddress, config.provider);
+  const eventResult = await booster.getFunction("getEvent")(eventId);
+  if (!eventResult.exists) {
+    throw new Error(`Event "${eventId}" does not exist`);
+  }
+  const numFights = Number(eventResult.numFights);
+
+  const fromBlock = resolveFromBlock(args, config.networkMode);
+  const toBlock = args.toBlock ? Number(args.toBlock) : await config.provider.getBlockNumber();
+  const blockRange = args.blockRange ? Number(args.blockRange) : undefined;
+
+  console.log("\n" + "=".repeat(60));
+  console.log("COMPUTE RESOLUTIONS FROM ON-CHAIN BOOSTS");
+  console.log("=".repeat(60));
+  console.log(`Network mode:      ${config.networkMode.toUpperCase()}`);
+  console.log(`Contract Address:  ${config.contractAddress}`);
+  console.log(`Event ID:          ${eventId}`);
+  console.log(`Input File:        ${filePath}`);
+  console.log(`Output File:       ${outPath}`);
+  console.log(`Blocks:            ${fromBlock} → ${toBlock}`);
+  console.log("=".repeat(60));
+
+  console.log("\n⏳ Replaying BoostPlaced/BoostIncreased logs...");
+  const boostsByFight = await loadEventBoosts(
+    config.provider,
+    config.contractAddress,
+    eventId,
+    fromBlock,
+    toBlock,
+    blockRange
+  );
+
+  const output: FightResultsFile = { eventId, fights: [] };
+
+  for (const fight of data.fights) {
+    if (!fight.fightId || fight.fightId <= 0 || fight.fightId > numFights) {
+      throw new Error(`Fight ${fight.fightId}: fightId must be between 1 and ${numFights}`);
+    }
+    const winner = parseWinner(fight.winner);
+    const method = parseMethod(fight.method);
+    const pointsForWinner = BigInt(fight.pointsForWinner);
+    const pointsForWinnerMethod = BigInt(fight.pointsForWinnerMethod);
+
+    const boosts = boostsByFight.get(fight.fightId) ?? [];
+    const settlement = computeFightSettlement(boosts, {
+      winner,
+      method,
+      pointsForWinner,
+      pointsForWinnerMethod,
+    });
+
+    // The replayed stakes must add up to the contract's originalPool, otherwise logs are missing
+    const { originalPool } = await booster.getFight(eventId, fight.fightId);
+    if (settlement.totalAmountStaked !== originalPool) {
+      throw new Error(
+        `Fight ${fight.fightId}: replayed stakes (${settlement.totalAmountStaked}) do not match contract originalPool ` +
+          `(${originalPool}). Check --fromBlock/--toBlock.`
+      );
+    }
+
+    console.log(`\nFight ${fight.fightId}:`);
+    console.log(`  Winner:                 ${getWinnerName(winner)} (${winner})`);
+    console.log(`  Method:                 ${getMethodName(method)} (${method})`);
+    console.log(`  Boosts:                 ${boosts.length} (${settlement.winningBoosts} winning)`);
+    console.log(`  Total Amount Staked:    ${settlement.totalAmountStaked}`);
+    console.log(`  Sum Winners Stakes:     ${formatChange(fight.sumWinnersStakes, settlement.sumWinnersStakes)}`);
+    console.log(`  Winning Pool Shares:    ${formatChange(fight.winningPoolTotalShares, settlement.winningPoolTotalShares)}`);
+
+    output.fights.push({
+      fightId: fight.fightId,
+      winner: fight.winner,
+      method: fight.method,
+      pointsForWinner: pointsForWinner.toString(),
+      pointsForWinnerMethod: pointsForWinnerMethod.toString(),
+      sumWinnersStakes: settlement.sumWinnersStakes.toString(),
+      winningPoolTotalShares: settlement.winningPoolTotalShares.toString(),
+      totalAmountStaked: settlement.totalAmountStaked.toString(),
+    });
+  }
+
+  console.log("\n" + "=".repeat(60));
+
+  if (!args.yes) {
+    const confirmed = await askConfirmation(`\nWrite ${output.fights.length} computed fights to ${outPath}? (y/n): `);
+    if (!confirmed) {
+      console.log("\n❌ Cancelled by user. Nothing written.");
+      process.exit(0);
+    }
+  }
+
+  writeResolutionsFile(outPath, output);
+  console.log(`\n✅ Wrote ${outPath}`);
+}
+
+// Show the previous file value next to the computed one when they differ
+function formatChange(previous: string | undefined, computed: bigint): string {
+  if (previous === undefined || previous === "" || BigInt(previous) === computed) {
+    return computed.toString();
+  }
+  return `${computed} (file had ${previous})`;
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
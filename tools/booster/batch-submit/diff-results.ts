@@ -0,0 +1,59 @@
+/**
+ * @notice Script to diff a resolutions file against the results already submitted on-chain
+ *
+ * Reads getFight for every fight in the file and prints field-by-field differences
+ * (status, winner, method, points, sumWinnersStakes, winningPoolTotalShares). Read-only.
+ * submit-batch-results.ts uses the same comparison to resubmit only the fights that changed.
+ *
+ * @example Diff resolutions.json (same folder by default)
+ * ts-node tools/booster/batch-submit/diff-results.ts --network mainnet
+ *
+ * @example Diff a custom file
+ * ts-node tools/booster/batch-submit/diff-results.ts --network testnet --file tools/booster/batch-submit/custom-resolutions.json
+ */
+import "dotenv/config";
+import { parseArgs, setupBoosterConfig } from "../booster.utils";
+import { connectBooster } from "../../contracts/booster";
+import {
+  DEFAULT_RESOLUTIONS_PATH,
+  diffResolutionsAgainstChain,
+  printFightDiffs,
+  readResolutionsFile,
+} from "./resolutions.utils";
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const config = await setupBoosterConfig(args);
+
+  const filePath = args.file || DEFAULT_RESOLUTIONS_PATH;
+  const data = readResolutionsFile(filePath);
+
+  console.log(`Network mode: ${config.networkMode.toUpperCase()}`);
+  console.log(`Contract: ${config.contractAddress}`);
+  console.log(`File: ${filePath}`);
+  console.log(`Event ID: ${data.eventId}`);
+
+  const booster = connectBooster(config.contractAddress, config.provider);
+  const entries = await diffResolutionsAgainstChain(booster, data);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("RESOLUTIONS DIFF (file vs on-chain)");
+  console.log("=".repeat(60));
+  printFightDiffs(entries);
+
+  const changed = entries.filter((e) => e.diffs.length > 0);
+  console.log("\n" + "=".repeat(60));
+  console.log(`Changed:   ${changed.length}`);
+  console.log(`Unchanged: ${entries.length - changed.length}`);
+  if (changed.length > 0) {
+    console.log(`Fights to resubmit: ${changed.map((e) => e.fight.fightId).join(", ")}`);
+  }
+  console.log("=".repeat(60));
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,152 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BoosterContract } from "../../contracts/booster";
+import { FightStatus, getFightStatusName, getMethodName, getWinnerName, parseMethod, parseWinner } from "../booster.utils";
+
+// Interface for fight result data
+export interface FightResult {
+  fightId: number;
+  winner: string;
+  method: string;
+  pointsForWinner: string;
+  pointsForWinnerMethod: string;
+  sumWinnersStakes: string;
+  winningPoolTotalShares: string;
+  totalAmountStaked?: string; // Optional: used for validation against contract
+}
+
+export interface FightResultsFile {
+  eventId: string;
+  fights: FightResult[];
+}
+
+// resolutions.json next to the batch-submit scripts
+export const DEFAULT_RESOLUTIONS_PATH = path.join(__dirname, "resolutions.json");
+
+export function readResolutionsFile(filePath: string): FightResultsFile {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const fileContent = fs.readFileSync(filePath, "utf-8");
+  let data: FightResultsFile;
+  try {
+    data = JSON.parse(fileContent);
+  } catch (err) {
+    throw new Error(`Invalid JSON file: ${err}`);
+  }
+
+  if (!data.eventId) {
+    throw new Error("Missing eventId in JSON file");
+  }
+
+  if (!data.fights || !Array.isArray(data.fights) || data.fights.length === 0) {
+    throw new Error("Missing or empty fights array in JSON file");
+  }
+
+  return data;
+}
+
+export function writeResolutionsFile(filePath: string, data: FightResultsFile): void {
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2) + "\n");
+}
+
+// Result fields of a fight as currently stored on-chain (from getFight)
+export interface OnChainFightResult {
+  status: number;
+  winner: number;
+  method: number;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  cancelled: boolean;
+}
+
+export interface FieldDiff {
+  field: string;
+  file: string;
+  chain: string;
+}
+
+export async function readOnChainResult(
+  booster: BoosterContract,
+  eventId: string,
+  fightId: number
+): Promise<OnChainFightResult> {
+  const result = await booster.getFight(eventId, fightId);
+  return {
+    status: Number(result.status),
+    winner: Number(result.winner),
+    method: Number(result.method),
+    sumWinnersStakes: result.sumWinnersStakes,
+    winningPoolTotalShares: result.winningPoolTotalShares,
+    pointsForWinner: result.pointsForWinner,
+    pointsForWinnerMethod: result.pointsForWinnerMethod,
+    cancelled: result.cancelled,
+  };
+}
+
+// Field-by-field differences between a file entry and what is on-chain (empty = nothing to resubmit)
+export function diffFightResult(fight: FightResult, chain: OnChainFightResult): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  if (chain.status !== FightStatus.RESOLVED) {
+    diffs.push({ field: "status", file: "RESOLVED", chain: getFightStatusName(chain.status) });
+  }
+
+  const winner = parseWinner(fight.winner);
+  const method = parseMethod(fight.method);
+  if (winner !== chain.winner) {
+    diffs.push({ field: "winner", file: getWinnerName(winner), chain: getWinnerName(chain.winner) });
+  }
+  if (method !== chain.method) {
+    diffs.push({ field: "method", file: getMethodName(method), chain: getMethodName(chain.method) });
+  }
+
+  const numeric: Array<[keyof FightResult & keyof OnChainFightResult, string]> = [
+    ["pointsForWinner", fight.pointsForWinner],
+    ["pointsForWinnerMethod", fight.pointsForWinnerMethod],
+    ["sumWinnersStakes", fight.sumWinnersStakes],
+    ["winningPoolTotalShares", fight.winningPoolTotalShares],
+  ];
+  for (const [field, fileValue] of numeric) {
+    const chainValue = chain[field] as bigint;
+    if (BigInt(fileValue) !== chainValue) {
+      diffs.push({ field, file: BigInt(fileValue).toString(), chain: chainValue.toString() });
+    }
+  }
+  return diffs;
+}
+
+export interface FightDiffEntry {
+  fight: FightResult;
+  chain: OnChainFightResult;
+  diffs: FieldDiff[];
+}
+
+// Compare every fight of a resolutions file with the on-chain result
+export async function diffResolutionsAgainstChain(
+  booster: BoosterContract,
+  data: FightResultsFile
+): Promise<FightDiffEntry[]> {
+  const entries: FightDiffEntry[] = [];
+  for (const fight of data.fights) {
+    const chain = await readOnChainResult(booster, data.eventId, fight.fightId);
+    entries.push({ fight, chain, diffs: diffFightResult(fight, chain) });
+  }
+  return entries;
+}
+
+export function printFightDiffs(entries: FightDiffEntry[]): void {
+  for (const { fight, chain, diffs } of entries) {
+    if (diffs.length === 0) {
+      console.log(`\nFight ${fight.fightId}: ✅ unchanged`);
+      continue;
+    }
+    console.log(`\nFight ${fight.fightId}: ✏️  ${diffs.length} field(s) differ${chain.cancelled ? " (⚠️  cancelled on-chain)" : ""}`);
+    console.log(`  ${"Field".padEnd(24)} ${"File".padEnd(20)} On-chain`);
+    for (const diff of diffs) {
+      console.log(`  ${diff.field.padEnd(24)} ${diff.file.padEnd(20)} ${diff.chain}`);
+    }
+  }
+}
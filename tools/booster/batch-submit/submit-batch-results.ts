@@ -10,119 +10,62 @@
  *   --network testnet \
  *   --file tools/booster/batch-submit/custom-resolutions.json
  *
+ * @example Dry-run: print the per-user payout table and pool dust without submitting
+ * ts-node tools/booster/batch-submit/submit-batch-results.ts --network mainnet --simulate
+ *
+ * @example Only show which fights differ from what is already on-chain (no submission)
+ * ts-node tools/booster/batch-submit/submit-batch-results.ts --network mainnet --diff
+ *
+ * @example Resubmit every fight in the file, including unchanged ones
+ * ts-node tools/booster/batch-submit/submit-batch-results.ts --network mainnet --all
+ *
+ * @example Skip the boost-log recomputation check (not recommended)
+ * ts-node tools/booster/batch-submit/submit-batch-results.ts --network testnet --skipRecompute
+ *
+ * @example Continue an interrupted run from its operation journal (the path is printed when the run starts)
+ * ts-node tools/booster/batch-submit/submit-batch-results.ts --network mainnet --resume operations/submit-batch-results-mainnet-20260214-031500.jsonl
+ *
+ * sumWinnersStakes/winningPoolTotalShares are checked against a replay of the event's boost logs
+ * (see compute-resolutions.ts). The scan starts at --fromBlock, MAINNET_BOOSTER_FROM_BLOCK /
+ * TESTNET_BOOSTER_FROM_BLOCK, or the known Booster deployment block. Every payout is then simulated
+ * with the contract formula and the script refuses to submit if payouts would exceed originalPool + bonusPool.
+ *
+ * By default the file is first diffed against getFight (see diff-results.ts) and only fights whose
+ * on-chain result differs are validated and submitted. Fights cancelled on-chain are never resubmitted.
+ *
  * Winner values: RED (0), BLUE (1), NONE (2)
  * Method values: KNOCKOUT/KO (0), SUBMISSION/SUB (1), DECISION/DEC (2), NO_CONTEST (3)
  */
 import "dotenv/config";
-import { ethers } from "ethers";
-import * as readline from "readline";
-import * as fs from "fs";
-import * as path from "path";
-
-// Corner enum: RED=0, BLUE=1, NONE=2
-// WinMethod enum: KNOCKOUT=0, SUBMISSION=1, DECISION=2, NO_CONTEST=3
-const ABI = [
-  "function submitFightResult(string calldata eventId, uint256 fightId, uint8 winner, uint8 method, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 sumWinnersStakes, uint256 winningPoolTotalShares) external",
-  "function submitFightResults(string calldata eventId, tuple(uint256 fightId, uint8 winner, uint8 method, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 sumWinnersStakes, uint256 winningPoolTotalShares)[] inputs) external",
-  "function getFight(string calldata eventId, uint256 fightId) external view returns (uint8 status, uint8 winner, uint8 method, uint256 bonusPool, uint256 originalPool, uint256 sumWinnersStakes, uint256 winningPoolTotalShares, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 claimedAmount, uint256 boostCutoff, bool cancelled)",
-];
-
-// Network name to environment variable mapping
-const NETWORK_ENV_MAP: Record<string, string> = {
-  testnet: "TESTNET_BSC_RPC_URL",
-  mainnet: "MAINNET_BSC_RPC_URL",
-};
-
-// Interface for fight result data
-interface FightResult {
-  fightId: number;
-  winner: string;
-  method: string;
-  pointsForWinner: string;
-  pointsForWinnerMethod: string;
-  sumWinnersStakes: string;
-  winningPoolTotalShares: string;
-  totalAmountStaked?: string; // Optional: used for validation against contract
-}
-
-interface FightResultsFile {
-  eventId: string;
-  fights: FightResult[];
-}
-
-function getRpcUrl(args: Record<string, string>): string {
-  const networkName = args.network || args.net;
-  if (!networkName) {
-    throw new Error("Missing --network (required: testnet or mainnet)");
-  }
-
-  const envVar = NETWORK_ENV_MAP[networkName.toLowerCase()];
-  if (!envVar) {
-    throw new Error(
-      `Unknown network "${networkName}". Supported: ${Object.keys(
-        NETWORK_ENV_MAP
-      ).join(", ")}`
-    );
-  }
-
-  const url = process.env[envVar];
-  if (!url) {
-    throw new Error(
-      `Network "${networkName}" requires ${envVar} to be set in .env`
-    );
-  }
-
-  return url;
-}
-
-// Helper function to format method name
-function getMethodName(method: number): string {
-  const methods = ["KNOCKOUT", "SUBMISSION", "DECISION", "NO_CONTEST"];
-  return methods[method] || `UNKNOWN (${method})`;
-}
-
-// Helper function to format winner name
-function getWinnerName(winner: number): string {
-  const winners = ["RED", "BLUE", "NONE"];
-  return winners[winner] || `UNKNOWN (${winner})`;
-}
-
-// Function to ask for user confirmation
-function askConfirmation(question: string): Promise<boolean> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(question, (answer) => {
-      rl.close();
-      const normalized = answer.trim().toLowerCase();
-      resolve(normalized === "y" || normalized === "yes");
-    });
-  });
-}
-
-// Parse winner string to number
-function parseWinner(winnerStr: string): number {
-  const normalized = winnerStr.toUpperCase();
-  if (normalized === "RED" || normalized === "0") return 0;
-  if (normalized === "BLUE" || normalized === "1") return 1;
-  if (normalized === "NONE" || normalized === "2") return 2;
-  throw new Error(`Invalid winner: ${winnerStr}. Must be RED (0), BLUE (1), or NONE (2)`);
-}
-
-// Parse method string to number
-function parseMethod(methodStr: string): number {
-  const normalized = methodStr.toUpperCase();
-  if (normalized === "KNOCKOUT" || normalized === "KO" || normalized === "0") return 0;
-  if (normalized === "SUBMISSION" || normalized === "SUB" || normalized === "1") return 1;
-  if (normalized === "DECISION" || normalized === "DEC" || normalized === "2") return 2;
-  if (normalized === "NO_CONTEST" || normalized === "3") return 3;
-  throw new Error(
-    `Invalid method: ${methodStr}. Must be KNOCKOUT (0), SUBMISSION (1), DECISION (2), or NO_CONTEST (3)`
-  );
-}
+import {
+  askConfirmation,
+  getMethodName,
+  parseArgs,
+  getWinnerName,
+  parseMethod,
+  parseWinner,
+  resolveFromBlock,
+} from "../booster.utils";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../../cli/networks";
+import {
+  BoostRecord,
+  computeFightSettlement,
+  groupPayoutsByUser,
+  loadEventBoosts,
+  simulateFightPayouts,
+} from "../settlement.utils";
+import { BoosterContract, connectBooster } from "../../contracts/booster";
+import {
+  DEFAULT_RESOLUTIONS_PATH,
+  FightResult,
+  diffResolutionsAgainstChain,
+  printFightDiffs,
+  readResolutionsFile,
+} from "./resolutions.utils";
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../../safe/safe-batch.utils";
+import { loadSigner } from "../../signers/signers.utils";
+import { OperationJournal, journalSkip, journalStep, openOperationJournal } from "../../tx/operation-journal.utils";
+import { TxPipeline, openTxPipeline } from "../../tx/send.utils";
 
 // Validate fight result data
 function validateFightResult(fight: FightResult, eventId: string): void {
@@ -157,16 +100,111 @@ function validateFightResult(fight: FightResult, eventId: string): void {
       throw new Error(`Fight ${fight.fightId}: sumWinnersStakes must be >= 0`);
     }
 
+    // Both totals are zero when nobody picked the winner; otherwise both must be > 0
     const winningPoolTotalShares = BigInt(fight.winningPoolTotalShares);
-    if (winningPoolTotalShares <= 0n) {
-      throw new Error(`Fight ${fight.fightId}: winningPoolTotalShares must be > 0`);
+    if ((sumWinnersStakes > 0n) !== (winningPoolTotalShares > 0n)) {
+      throw new Error(
+        `Fight ${fight.fightId}: sumWinnersStakes and winningPoolTotalShares must both be > 0 or both be 0`
+      );
+    }
+  }
+}
+
+// Recompute sumWinnersStakes/winningPoolTotalShares from boost logs and compare with the file
+function validateAgainstBoostLogs(fights: FightResult[], boostsByFight: Map<number, BoostRecord[]>): void {
+  for (const fight of fights) {
+    const settlement = computeFightSettlement(boostsByFight.get(fight.fightId) ?? [], {
+      winner: parseWinner(fight.winner),
+      method: parseMethod(fight.method),
+      pointsForWinner: BigInt(fight.pointsForWinner),
+      pointsForWinnerMethod: BigInt(fight.pointsForWinnerMethod),
+    });
+    if (parseWinner(fight.winner) === 2) {
+      // NONE: contract turns the fight into a refund, totals are not used
+      continue;
+    }
+    if (
+      settlement.sumWinnersStakes !== BigInt(fight.sumWinnersStakes) ||
+      settlement.winningPoolTotalShares !== BigInt(fight.winningPoolTotalShares)
+    ) {
+      throw new Error(
+        `Fight ${fight.fightId}: file totals do not match boost logs. ` +
+          `File: sumWinnersStakes=${fight.sumWinnersStakes}, winningPoolTotalShares=${fight.winningPoolTotalShares}. ` +
+          `Computed: sumWinnersStakes=${settlement.sumWinnersStakes}, winningPoolTotalShares=${settlement.winningPoolTotalShares}. ` +
+          `Run compute-resolutions.ts to regenerate the file.`
+      );
+    }
+    console.log(`✅ Fight ${fight.fightId}: totals match boost logs`);
+  }
+}
+
+// Simulate every boost's payout for the file's totals; returns false if any fight would pay out more than its pool
+async function simulatePayouts(
+  booster: BoosterContract,
+  eventId: string,
+  fights: FightResult[],
+  boostsByFight: Map<number, BoostRecord[]>
+): Promise<boolean> {
+  let allCovered = true;
+  let grandTotalPayout = 0n;
+  let grandTotalPool = 0n;
+
+  for (const fight of fights) {
+    const { bonusPool, originalPool } = await booster.getFight(eventId, fight.fightId);
+    const winner = parseWinner(fight.winner);
+    const method = parseMethod(fight.method);
+
+    const simulation = simulateFightPayouts(
+      boostsByFight.get(fight.fightId) ?? [],
+      {
+        winner,
+        method,
+        pointsForWinner: BigInt(fight.pointsForWinner),
+        pointsForWinnerMethod: BigInt(fight.pointsForWinnerMethod),
+      },
+      {
+        sumWinnersStakes: BigInt(fight.sumWinnersStakes),
+        winningPoolTotalShares: BigInt(fight.winningPoolTotalShares),
+      },
+      { originalPool, bonusPool }
+    );
+    grandTotalPayout += simulation.totalPayout;
+    grandTotalPool += simulation.pool;
+
+    console.log(`\nFight ${fight.fightId} (${getWinnerName(winner)} by ${getMethodName(method)}):`);
+    const rows = groupPayoutsByUser(simulation.payouts);
+    if (rows.length === 0) {
+      console.log("  No payouts (no winning boosts)");
+    } else {
+      console.log(`  ${"User".padEnd(42)} ${"Boosts".padStart(6)} ${"Staked".padStart(14)} ${"Payout".padStart(14)}`);
+      for (const row of rows) {
+        console.log(
+          `  ${row.user.padEnd(42)} ${row.boosts.toString().padStart(6)} ${row.staked.toString().padStart(14)} ${row.payout.toString().padStart(14)}`
+        );
+      }
     }
+    console.log(`  Total Payout:      ${simulation.totalPayout}`);
+    console.log(`  Pool (orig+bonus): ${simulation.pool} (${originalPool} + ${bonusPool})`);
+    if (simulation.totalPayout > simulation.pool) {
+      allCovered = false;
+      console.log(`  ❌ Payouts exceed pool by ${simulation.totalPayout - simulation.pool}`);
+    } else {
+      console.log(`  Dust (left in contract): ${simulation.dust}`);
+    }
+  }
+
+  console.log("\n" + "-".repeat(60));
+  console.log(`Total Payout (all fights): ${grandTotalPayout}`);
+  console.log(`Total Pool (all fights):   ${grandTotalPool}`);
+  if (grandTotalPayout <= grandTotalPool) {
+    console.log(`Total Dust:                ${grandTotalPool - grandTotalPayout}`);
   }
+  return allCovered;
 }
 
 // Validate totalAmountStaked against contract originalPool
 async function validateTotalAmountStaked(
-  booster: ethers.Contract,
+  booster: BoosterContract,
   eventId: string,
   fight: FightResult
 ): Promise<void> {
@@ -176,12 +214,9 @@ async function validateTotalAmountStaked(
   }
 
   const expectedTotal = BigInt(fight.totalAmountStaked);
-  const getFightFunc = booster.getFunction("getFight");
-  const fightResult = (await getFightFunc(eventId, fight.fightId)) as unknown as any[];
-  // getFight returns: status, winner, method, bonusPool, originalPool, sumWinnersStakes, ...
-  const originalPool = fightResult[4]; // originalPool is at index 4
+  const { originalPool } = await booster.getFight(eventId, fight.fightId);
 
-  if (BigInt(originalPool.toString()) !== expectedTotal) {
+  if (originalPool !== expectedTotal) {
     throw new Error(
       `Fight ${fight.fightId}: totalAmountStaked mismatch! ` +
       `Expected: ${expectedTotal}, Contract originalPool: ${originalPool.toString()}`
@@ -191,7 +226,9 @@ async function validateTotalAmountStaked(
 
 // Submit a single fight result
 async function submitSingleFightResult(
-  booster: ethers.Contract,
+  journal: OperationJournal,
+  txs: TxPipeline,
+  booster: BoosterContract,
   eventId: string,
   fight: FightResult
 ): Promise<{ hash: string; blockNumber: number }> {
@@ -202,7 +239,7 @@ async function submitSingleFightResult(
   const sumWinnersStakes = BigInt(fight.sumWinnersStakes);
   const winningPoolTotalShares = BigInt(fight.winningPoolTotalShares);
 
-  const tx = await booster.submitFightResult(
+  const result = await journalStep(journal, txs, `fight-${fight.fightId}`, booster, "submitFightResult", [
     eventId,
     fight.fightId,
     winner,
@@ -210,21 +247,14 @@ async function submitSingleFightResult(
     pointsForWinner,
     pointsForWinnerMethod,
     sumWinnersStakes,
-    winningPoolTotalShares
-  );
-
-  const rcpt = await tx.wait();
-  return { hash: tx.hash, blockNumber: rcpt.blockNumber };
+    winningPoolTotalShares,
+  ]);
+  return { hash: result.hash, blockNumber: result.blockNumber };
 }
 
-// Submit multiple fight results in a single transaction
-async function submitBatchFightResults(
-  booster: ethers.Contract,
-  eventId: string,
-  fights: FightResult[]
-): Promise<{ hash: string; blockNumber: number }> {
-  // Prepare inputs array
-  const inputs = fights.map((fight) => ({
+// Inputs of submitFightResults, in contract units
+function toFightResultInputs(fights: FightResult[]) {
+  return fights.map((fight) => ({
     fightId: BigInt(fight.fightId),
     winner: parseWinner(fight.winner),
     method: parseMethod(fight.method),
@@ -233,6 +263,17 @@ async function submitBatchFightResults(
     sumWinnersStakes: BigInt(fight.sumWinnersStakes),
     winningPoolTotalShares: BigInt(fight.winningPoolTotalShares),
   }));
+}
+
+// Submit multiple fight results in a single transaction
+async function submitBatchFightResults(
+  journal: OperationJournal,
+  txs: TxPipeline,
+  booster: BoosterContract,
+  eventId: string,
+  fights: FightResult[]
+): Promise<{ hash: string; blockNumber: number }> {
+  const inputs = toFightResultInputs(fights);
   
   // Print inputs exactly as they will be sent to the contract
   console.log("\n" + "=".repeat(60));
@@ -258,68 +299,59 @@ async function submitBatchFightResults(
     console.log("Batch submission cancelled by user.");
     process.exit(0);
   }
-  const tx = await booster.submitFightResults(eventId, inputs);
-  const rcpt = await tx.wait();
-  return { hash: tx.hash, blockNumber: rcpt.blockNumber };
+  const result = await journalStep(journal, txs, "batch", booster, "submitFightResults", [eventId, inputs]);
+  return { hash: result.hash, blockNumber: result.blockNumber };
 }
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl = getRpcUrl(args);
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
+  // Simulation only reads the chain, so it does not need the operator signer
+  const simulateOnly = !!args.simulate;
+  const safe = simulateOnly ? undefined : getSafeExport(args, profile, provider, "submit-batch-results");
+  const wallet = simulateOnly || safe ? undefined : await loadSigner("operator", provider, args);
 
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : process.env.BOOSTER_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_BOOSTER_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_BOOSTER_ADDRESS"
-        : "BOOSTER_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const contract = resolveContractAddress(profile, "booster", args);
 
   // Use resolutions.json in the same folder as the script by default
-  // Get the directory of the current script file
-  const scriptDir = path.dirname(require.main?.filename || process.argv[1] || __dirname);
-  const defaultFilePath = path.join(scriptDir, "resolutions.json");
-  const filePath = args.file || defaultFilePath;
+  const filePath = args.file || DEFAULT_RESOLUTIONS_PATH;
+  const data = readResolutionsFile(filePath);
 
-  if (!fs.existsSync(filePath)) {
-    throw new Error(`File not found: ${filePath}`);
-  }
+  const booster = connectBooster(contract, wallet ?? provider);
 
-  const fileContent = fs.readFileSync(filePath, "utf-8");
-  let data: FightResultsFile;
-  try {
-    data = JSON.parse(fileContent);
-  } catch (err) {
-    throw new Error(`Invalid JSON file: ${err}`);
+  // Diff against what is already on-chain so a corrected file only resubmits the fights that changed
+  console.log("\n" + "=".repeat(60));
+  console.log("DIFF AGAINST ON-CHAIN RESULTS");
+  console.log("=".repeat(60));
+  const diffEntries = await diffResolutionsAgainstChain(connectBooster(contract, provider), data);
+  printFightDiffs(diffEntries);
+  const cancelledFights = diffEntries.filter((e) => e.chain.cancelled).map((e) => e.fight.fightId);
+  const changedFights = diffEntries.filter((e) => e.diffs.length > 0 && !e.chain.cancelled).map((e) => e.fight);
+  console.log("\n" + "-".repeat(60));
+  console.log(`Changed:   ${changedFights.length}`);
+  console.log(`Unchanged: ${diffEntries.filter((e) => e.diffs.length === 0).length}`);
+  if (cancelledFights.length > 0) {
+    console.log(`⚠️  Cancelled on-chain (cannot be resubmitted): ${cancelledFights.join(", ")}`);
   }
+  console.log("=".repeat(60));
 
-  if (!data.eventId) {
-    throw new Error("Missing eventId in JSON file");
+  if (args.diff) {
+    console.log("\n✅ Diff completed (--diff): nothing submitted.");
+    return;
   }
 
-  if (!data.fights || !Array.isArray(data.fights) || data.fights.length === 0) {
-    throw new Error("Missing or empty fights array in JSON file");
+  if (args.all) {
+    data.fights = data.fights.filter((f) => !cancelledFights.includes(f.fightId));
+    console.log(`\n--all set: submitting all ${data.fights.length} non-cancelled fights`);
+  } else {
+    data.fights = changedFights;
+    console.log(`\nSubmitting only changed fights (use --all to resubmit everything)`);
+  }
+  if (data.fights.length === 0) {
+    console.log("\n✅ Nothing to submit: on-chain results already match the file.");
+    return;
   }
-
-  const booster = new ethers.Contract(contract, ABI, wallet);
 
   // Validate all fights before proceeding
   console.log("\n" + "=".repeat(60));
@@ -338,9 +370,9 @@ async function main() {
   console.log("=".repeat(60));
   console.log("BATCH SUBMISSION REVIEW");
   console.log("=".repeat(60));
-  console.log(`Network:           ${args.network || args.net}`);
+  console.log(`Network:           ${formatNetwork(profile)}`);
   console.log(`Contract Address:  ${contract}`);
-  console.log(`Wallet Address:    ${wallet.address}`);
+  console.log(`Wallet Address:    ${safe ? formatSafe(safe) : wallet ? wallet.address : "(none - simulation only)"}`);
   console.log(`File:              ${filePath}`);
   console.log(`Event ID:          ${data.eventId}`);
   console.log(`Total Fights:      ${data.fights.length}`);
@@ -364,11 +396,11 @@ async function main() {
   console.log("");
 
   // Validate totalAmountStaked against contract originalPool for each fight (only on mainnet)
-  if (networkName !== "testnet") {
+  if (profile.name !== "testnet") {
     console.log("=".repeat(60));
     console.log("VALIDATING TOTAL AMOUNT STAKED (vs originalPool)");
     console.log("=".repeat(60));
-    const readOnlyBooster = new ethers.Contract(contract, ABI, provider);
+    const readOnlyBooster = connectBooster(contract, provider);
     for (const fight of data.fights) {
       if (fight.totalAmountStaked) {
         try {
@@ -384,6 +416,59 @@ async function main() {
     console.log(`✅ All totalAmountStaked validations completed\n`);
   }
 
+  // Replay the event's boost logs once: used for the totals check and the payout simulation
+  console.log("⏳ Replaying BoostPlaced/BoostIncreased logs...");
+  const boostsByFight = await loadEventBoosts(
+    provider,
+    contract,
+    data.eventId,
+    resolveFromBlock(args, profile.name),
+    await provider.getBlockNumber(),
+    args.blockRange ? Number(args.blockRange) : undefined
+  );
+
+  // Validate sumWinnersStakes/winningPoolTotalShares against the replayed boosts
+  if (!args.skipRecompute) {
+    console.log("=".repeat(60));
+    console.log("VALIDATING WINNER TOTALS (vs BoostPlaced/BoostIncreased logs)");
+    console.log("=".repeat(60));
+    try {
+      validateAgainstBoostLogs(data.fights, boostsByFight);
+    } catch (err: any) {
+      throw new Error(`Validation failed: ${err.message || err}`);
+    }
+    console.log(`✅ All winner totals validated\n`);
+  } else {
+    console.log("⚠️  --skipRecompute set: winner totals NOT checked against boost logs\n");
+  }
+
+  // Dry-run every payout before anything is sent
+  console.log("=".repeat(60));
+  console.log("PAYOUT SIMULATION");
+  console.log("=".repeat(60));
+  const allCovered = await simulatePayouts(
+    connectBooster(contract, provider),
+    data.eventId,
+    data.fights,
+    boostsByFight
+  );
+  console.log("=".repeat(60) + "\n");
+  if (!allCovered) {
+    throw new Error("Simulation failed: total payouts would exceed the pool for at least one fight. Nothing submitted.");
+  }
+
+  if (simulateOnly || (!wallet && !safe)) {
+    console.log("✅ Simulation completed (--simulate): nothing submitted.");
+    return;
+  }
+
+  // The Safe batch carries all fights in one submitFightResults call
+  if (safe) {
+    await addSafeCall(safe, booster, "submitFightResults", [data.eventId, toFightResultInputs(data.fights)]);
+    writeSafeBatch(safe);
+    return;
+  }
+
   // Ask for confirmation
   const confirmed = await askConfirmation(
     `Do you want to submit all ${data.fights.length} fight results? (y/n): `
@@ -394,6 +479,9 @@ async function main() {
     process.exit(0);
   }
 
+  const txs = await openTxPipeline(wallet!, profile, args);
+  const journal = await openOperationJournal("submit-batch-results", txs, profile, args, [booster]);
+
   // Ask for confirmation mode
   const confirmEach = await askConfirmation(
     "Do you want to confirm each fight individually? (y/n): "
@@ -409,14 +497,15 @@ async function main() {
       console.log(`\n[${i + 1}/${data.fights.length}] Processing Fight ${fight.fightId}...`);
 
       // Validate totalAmountStaked before submitting (skip on testnet)
-      if (fight.totalAmountStaked && networkName !== "testnet") {
+      if (fight.totalAmountStaked && profile.name !== "testnet") {
         try {
-          const readOnlyBooster = new ethers.Contract(contract, ABI, provider);
+          const readOnlyBooster = connectBooster(contract, provider);
           await validateTotalAmountStaked(readOnlyBooster, data.eventId, fight);
           console.log(`  ✅ totalAmountStaked validated: ${fight.totalAmountStaked}`);
         } catch (err: any) {
           console.log(`  ❌ Validation error: ${err.message || err}`);
           results.push({ fightId: fight.fightId, success: false, error: `Validation failed: ${err.message || err}` });
+          journalSkip(journal, `fight-${fight.fightId}`, `validation failed: ${err.message || err}`);
           continue;
         }
       }
@@ -433,23 +522,17 @@ async function main() {
       if (!confirmed) {
         console.log("  ⏭️  Skipped by user");
         results.push({ fightId: fight.fightId, success: false, error: "Skipped by user" });
+        journalSkip(journal, `fight-${fight.fightId}`, "skipped by user");
         continue;
       }
 
       try {
-        const result = await submitSingleFightResult(booster, data.eventId, fight);
-        console.log(`  ✅ Transaction sent: ${result.hash}`);
-        console.log(`  ✅ Confirmed in block: ${result.blockNumber}`);
+        const result = await submitSingleFightResult(journal, txs, booster, data.eventId, fight);
         results.push({ fightId: fight.fightId, success: true, hash: result.hash });
       } catch (err: any) {
         console.log(`  ❌ Error: ${err.message || err}`);
         results.push({ fightId: fight.fightId, success: false, error: err.message || String(err) });
       }
-
-      // Small delay between transactions to avoid nonce issues
-      if (i < data.fights.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
     }
 
     // Summary for individual mode
@@ -476,9 +559,7 @@ async function main() {
     // Batch mode: submit all fights in a single transaction
     console.log("\n⏳ Submitting all fights in a single transaction...\n");
     try {
-      const result = await submitBatchFightResults(booster, data.eventId, data.fights);
-      console.log(`✅ Transaction sent: ${result.hash}`);
-      console.log(`✅ Confirmed in block: ${result.blockNumber}`);
+      await submitBatchFightResults(journal, txs, booster, data.eventId, data.fights);
       console.log(`✅ All ${data.fights.length} fights submitted successfully in one transaction\n`);
     } catch (err: any) {
       console.error(`❌ Error submitting batch: ${err.message || err}`);
@@ -487,22 +568,9 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
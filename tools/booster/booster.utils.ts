@@ -1,87 +1,163 @@
 import "dotenv/config";
 import { ethers } from "ethers";
+import * as readline from "readline";
+import { NETWORK_PROFILES, NetworkName, NetworkProfile, connectNetwork, resolveContractAddress } from "../cli/networks";
+import { enumName } from "../contracts/bindings.utils";
+import { Corner, FightStatus, WinMethod } from "../contracts/booster";
+import { RoleSigner, loadSigner } from "../signers/signers.utils";
 
 export interface BoosterConfig {
-  networkMode: "mainnet" | "testnet" | "custom";
+  networkMode: NetworkName;
+  network: NetworkProfile;
   provider: ethers.JsonRpcProvider;
-  wallet?: ethers.Wallet;
+  wallet?: RoleSigner;
   contractAddress: string;
 }
 
-export function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
-}
+// Shared with every other tool; re-exported so booster scripts keep a single import
+export { parseArgs } from "../cli/args";
 
 export async function setupBoosterConfig(args: Record<string, string>, requireWallet = false): Promise<BoosterConfig> {
-  const networkName = (args.network || args.net || "").toLowerCase();
-  
-  // Determine RPC URL based on network parameter
-  let rpcUrl: string | undefined = args.rpc;
-  if (!rpcUrl) {
-    if (networkName === "mainnet") {
-      rpcUrl = process.env.MAINNET_BSC_RPC_URL || process.env.RPC_URL;
-    } else if (networkName === "testnet") {
-      rpcUrl = process.env.TESTNET_BSC_RPC_URL || process.env.RPC_URL;
-    } else {
-      // Default to testnet logic if not specified, or fallback
-      rpcUrl = process.env.TESTNET_BSC_RPC_URL || process.env.RPC_URL;
-    }
-  }
-  
-  if (!rpcUrl) {
-     const envVar = networkName === "mainnet" 
-      ? "MAINNET_BSC_RPC_URL" 
-      : networkName === "testnet"
-      ? "TESTNET_BSC_RPC_URL"
-      : "TESTNET_BSC_RPC_URL or RPC_URL";
-    throw new Error(`Missing RPC URL (set --rpc or ${envVar} in .env)`);
-  }
+  // RPC and address come from the network profile; the RPC chainId is checked against it
+  const { profile, provider } = await connectNetwork(args);
 
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-  
-  let wallet: ethers.Wallet | undefined;
-  if (requireWallet) {
-      const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-      if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-      wallet = new ethers.Wallet(pk.startsWith("0x") ? pk : "0x" + pk, provider);
-  }
+  const wallet = requireWallet ? await loadSigner("operator", provider, args) : undefined;
+
+  return {
+    networkMode: profile.name,
+    network: profile,
+    provider,
+    wallet,
+    contractAddress: resolveContractAddress(profile, "booster", args),
+  };
+}
+
+// FightStatus (OPEN, CLOSED, RESOLVED), Corner (RED, BLUE, NONE) and WinMethod (KNOCKOUT, SUBMISSION, DECISION,
+// NO_CONTEST) from the generated bindings
+export { Corner, FightStatus, WinMethod };
+
+// Helper function to format fight status name
+export function getFightStatusName(status: number): string {
+  return enumName(FightStatus, status);
+}
+
+// Helper function to format method name
+export function getMethodName(method: number): string {
+  return enumName(WinMethod, method);
+}
+
+// Helper function to format winner name
+export function getWinnerName(winner: number): string {
+  return enumName(Corner, winner);
+}
+
+// Parse winner string to number
+export function parseWinner(winnerStr: string): number {
+  const normalized = winnerStr.toUpperCase();
+  if (normalized === "RED" || normalized === "0") return Corner.RED;
+  if (normalized === "BLUE" || normalized === "1") return Corner.BLUE;
+  if (normalized === "NONE" || normalized === "2") return Corner.NONE;
+  throw new Error(`Invalid winner: ${winnerStr}. Must be RED (0), BLUE (1), or NONE (2)`);
+}
+
+// Parse method string to number
+export function parseMethod(methodStr: string): number {
+  const normalized = methodStr.toUpperCase();
+  if (normalized === "KNOCKOUT" || normalized === "KO" || normalized === "0") return WinMethod.KNOCKOUT;
+  if (normalized === "SUBMISSION" || normalized === "SUB" || normalized === "1") return WinMethod.SUBMISSION;
+  if (normalized === "DECISION" || normalized === "DEC" || normalized === "2") return WinMethod.DECISION;
+  if (normalized === "NO_CONTEST" || normalized === "3") return WinMethod.NO_CONTEST;
+  throw new Error(
+    `Invalid method: ${methodStr}. Must be KNOCKOUT (0), SUBMISSION (1), DECISION (2), or NO_CONTEST (3)`
+  );
+}
+
+// Function to ask for user confirmation
+export function askConfirmation(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      const normalized = answer.trim().toLowerCase();
+      resolve(normalized === "y" || normalized === "yes");
+    });
+  });
+}
+
+// Known Booster proxy deployment blocks (from the address book), used as the default log scan start
+const BOOSTER_DEPLOY_BLOCKS: Partial<Record<NetworkName, number>> = {
+  mainnet: NETWORK_PROFILES.mainnet.contracts.booster.deployBlock,
+  testnet: NETWORK_PROFILES.testnet.contracts.booster.deployBlock,
+  local: 0,
+};
 
-  const contractAddress =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : process.env.BOOSTER_ADDRESS);
-
-  if (!contractAddress) {
-     const envVar =
-      networkName === "testnet"
-        ? "TESTNET_BOOSTER_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_BOOSTER_ADDRESS"
-        : "BOOSTER_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
+// Resolve the first block to scan for Booster logs (--fromBlock, env override, or known deployment block)
+export function resolveFromBlock(args: Record<string, string>, networkMode: NetworkName): number {
+  const envVar = `${networkMode.toUpperCase()}_BOOSTER_FROM_BLOCK`;
+  const value = args.fromBlock || process.env[envVar] || process.env.BOOSTER_FROM_BLOCK;
+  if (value) {
+    const block = Number(value);
+    if (!Number.isInteger(block) || block < 0) throw new Error(`Invalid --fromBlock: ${value}`);
+    return block;
   }
+  const known = BOOSTER_DEPLOY_BLOCKS[networkMode];
+  if (known === undefined) {
+    throw new Error(`Missing log scan start block (set --fromBlock or ${envVar} in .env)`);
+  }
+  return known;
+}
 
-  let networkMode: "mainnet" | "testnet" | "custom" = "custom";
-  if (networkName === "mainnet") networkMode = "mainnet";
-  if (networkName === "testnet") networkMode = "testnet";
+// eth_getLogs rejections that mean "ask for a smaller block range", as worded by geth/BSC nodes
+// ("exceed maximum block range: 5000"), Infura ("query returned more than 10000 results"), Alchemy
+// ("Log response size exceeded"), QuickNode ("limited to a 10,000 range") and Ankr ("block range is too wide")
+const RANGE_LIMIT_ERRORS = [
+  /block range/,
+  /blocks range/,
+  /limited to an? [\d,]+ (blocks? )?range/,
+  /range (is )?too (large|wide|big)/,
+  /returned more than [\d,]+/,
+  /more than [\d,]+ (results|logs)/,
+  /too many (results|logs|blocks)/,
+  /response size/,
+  /requested blocks/,
+];
 
-  return {
-      networkMode,
-      provider,
-      wallet,
-      contractAddress
-  };
+// Rate limits, gas limits and other errors that only mention a limit are surfaced, not retried
+function isRangeLimitError(err: any): boolean {
+  const message = `${err?.error?.message || ""} ${err?.message || ""}`.toLowerCase();
+  return RANGE_LIMIT_ERRORS.some((pattern) => pattern.test(message));
+}
+
+// Fetch logs in block chunks, halving the chunk size whenever the RPC rejects the range
+export async function getLogsInChunks(
+  provider: ethers.Provider,
+  filter: { address: string; topics: Array<string | string[] | null> },
+  fromBlock: number,
+  toBlock: number,
+  blockRange = 5000,
+  onProgress?: (toBlock: number) => void
+): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = [];
+  let step = Math.max(1, blockRange);
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = Math.min(start + step - 1, toBlock);
+    try {
+      const chunk = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end });
+      logs.push(...chunk);
+      onProgress?.(end);
+      start = end + 1;
+    } catch (err: any) {
+      if (step > 1 && isRangeLimitError(err)) {
+        step = Math.max(1, Math.floor(step / 2));
+        continue;
+      }
+      throw err;
+    }
+  }
+  return logs;
 }
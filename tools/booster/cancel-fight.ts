@@ -16,58 +16,20 @@
  * @example Using alternative parameter names
  * ts-node tools/booster/cancel-fight.ts --network testnet --event ufc-323 --fight 1
  *
+ * @example Continue a run that was interrupted (the path is printed when the run starts)
+ * ts-node tools/booster/cancel-fight.ts --network mainnet --eventId ufc-323 --fightIds 1,2,3 --resume operations/cancel-fight-mainnet-20260214-031500.jsonl
+ *
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { BoosterContract, FightStatus, connectBooster } from "../contracts/booster";
+import { getFightStatusName } from "./booster.utils";
 import * as readline from "readline";
-
-const ABI = [
-  "function cancelFight(string calldata eventId, uint256 fightId) external",
-  "function getFight(string calldata eventId, uint256 fightId) external view returns (uint8 status, uint8 winner, uint8 method, uint256 bonusPool, uint256 originalPool, uint256 sumWinnersStakes, uint256 winningPoolTotalShares, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 claimedAmount, uint256 boostCutoff, bool cancelled)",
-];
-
-// Network name to environment variable mapping
-const NETWORK_ENV_MAP: Record<string, string> = {
-  testnet: "TESTNET_BSC_RPC_URL",
-  mainnet: "MAINNET_BSC_RPC_URL",
-};
-
-// Fight status enum
-enum FightStatus {
-  OPEN = 0,
-  CLOSED = 1,
-  RESOLVED = 2,
-}
-
-function getStatusName(status: number): string {
-  const statuses = ["OPEN", "CLOSED", "RESOLVED"];
-  return statuses[status] || `UNKNOWN (${status})`;
-}
-
-function getRpcUrl(args: Record<string, string>): string {
-  const networkName = args.network || args.net;
-  if (!networkName) {
-    throw new Error("Missing --network (required: testnet or mainnet)");
-  }
-
-  const envVar = NETWORK_ENV_MAP[networkName.toLowerCase()];
-  if (!envVar) {
-    throw new Error(
-      `Unknown network "${networkName}". Supported: ${Object.keys(
-        NETWORK_ENV_MAP
-      ).join(", ")}`
-    );
-  }
-
-  const url = process.env[envVar];
-  if (!url) {
-    throw new Error(
-      `Network "${networkName}" requires ${envVar} to be set in .env`
-    );
-  }
-
-  return url;
-}
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { OperationJournal, journalSkip, journalStep, openOperationJournal } from "../tx/operation-journal.utils";
+import { TxPipeline, openTxPipeline } from "../tx/send.utils";
 
 // Function to ask for user confirmation
 function askConfirmation(question: string): Promise<boolean> {
@@ -86,7 +48,7 @@ function askConfirmation(question: string): Promise<boolean> {
 }
 
 async function getFightInfo(
-  booster: ethers.Contract,
+  booster: BoosterContract,
   eventId: string,
   fightId: bigint
 ): Promise<{
@@ -97,71 +59,36 @@ async function getFightInfo(
   originalPool: bigint;
   cancelled: boolean;
 }> {
-  const getFightFunc = booster.getFunction("getFight");
-  const result = (await getFightFunc(eventId, fightId)) as unknown as any[];
+  const result = await booster.getFight(eventId, fightId);
   return {
-    status: Number(result[0]),
-    winner: Number(result[1]),
-    method: Number(result[2]),
-    bonusPool: BigInt(result[3].toString()),
-    originalPool: BigInt(result[4].toString()),
-    cancelled: result[11],
+    status: Number(result.status),
+    winner: Number(result.winner),
+    method: Number(result.method),
+    bonusPool: result.bonusPool,
+    originalPool: result.originalPool,
+    cancelled: result.cancelled,
   };
 }
 
 async function cancelFight(
-  booster: ethers.Contract,
+  journal: OperationJournal,
+  txs: TxPipeline,
+  booster: BoosterContract,
   eventId: string,
   fightId: bigint
 ): Promise<{ hash: string; blockNumber: number }> {
-  const tx = await booster.cancelFight(eventId, fightId);
-  const rcpt = await tx.wait();
-  return { hash: tx.hash, blockNumber: rcpt.blockNumber };
-}
-
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+  const result = await journalStep(journal, txs, `fight-${fightId}`, booster, "cancelFight", [eventId, fightId]);
+  return { hash: result.hash, blockNumber: result.blockNumber };
 }
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl = getRpcUrl(args);
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
+  const safe = getSafeExport(args, profile, provider, "cancel-fight");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
 
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : networkName === "mainnet"
-        ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-        : process.env.BOOSTER_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_BOOSTER_ADDRESS"
-        : networkName === "mainnet"
-          ? "MAINNET_BOOSTER_ADDRESS"
-          : "BOOSTER_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -182,16 +109,16 @@ async function main() {
     throw new Error("No valid fight IDs provided");
   }
 
-  const booster = new ethers.Contract(contract, ABI, wallet);
-  const readOnlyBooster = new ethers.Contract(contract, ABI, provider);
+  const booster = connectBooster(contract, wallet ?? provider);
+  const readOnlyBooster = connectBooster(contract, provider);
 
   // Display fight information before cancellation
   console.log("\n" + "=".repeat(60));
   console.log("FIGHT CANCELLATION REVIEW");
   console.log("=".repeat(60));
-  console.log(`Network:           ${networkName}`);
+  console.log(`Network:           ${formatNetwork(profile)}`);
   console.log(`Contract Address:  ${contract}`);
-  console.log(`Wallet Address:    ${wallet.address}`);
+  console.log(`Wallet Address:    ${safe ? formatSafe(safe) : wallet!.address}`);
   console.log(`Event ID:          ${eventId}`);
   console.log(`Fights to cancel:  ${fightIds.length}`);
   console.log("=".repeat(60));
@@ -216,7 +143,7 @@ async function main() {
       });
 
       console.log(`\nFight ${fightId.toString()}:`);
-      console.log(`  Status:           ${getStatusName(info.status)} (${info.status})`);
+      console.log(`  Status:           ${getFightStatusName(info.status)} (${info.status})`);
       console.log(`  Original Pool:    ${info.originalPool.toString()} FP`);
       console.log(`  Bonus Pool:       ${info.bonusPool.toString()} FP`);
       console.log(`  Already Cancelled: ${info.cancelled ? "YES" : "NO"}`);
@@ -277,7 +204,7 @@ async function main() {
   }
 
   // Cancel fights
-  console.log("\n⏳ Cancelling fights...\n");
+  console.log(safe ? "\n⏳ Adding cancellations to the Safe batch...\n" : "\n⏳ Cancelling fights...\n");
   const results: Array<{
     fightId: bigint;
     success: boolean;
@@ -285,14 +212,25 @@ async function main() {
     blockNumber?: number;
     error?: string;
   }> = [];
+  const txs = safe ? undefined : await openTxPipeline(wallet!, profile, args);
+  const journal = txs && (await openOperationJournal("cancel-fight", txs, profile, args, [booster]));
 
   for (let i = 0; i < fightIds.length; i++) {
     const fightId = fightIds[i];
     const fightInfo = fightInfos[i];
 
+    // Cancelled by the run being resumed: its own transaction, not someone else's
+    const done = journal?.steps.get(`fight-${fightId}`);
+    if (done?.status === "done") {
+      console.log(`  ✓ Fight ${fightId.toString()}: cancelled by the resumed run in block ${done.blockNumber} (${done.hash})`);
+      results.push({ fightId, success: true, hash: done.hash, blockNumber: done.blockNumber });
+      continue;
+    }
+
     // Check if already cancelled
     if (fightInfo.cancelled) {
       console.log(`⚠️  Fight ${fightId.toString()}: Already cancelled, skipping...`);
+      if (journal) journalSkip(journal, `fight-${fightId}`, "already cancelled");
       results.push({
         fightId,
         success: false,
@@ -304,6 +242,7 @@ async function main() {
     // Check if already resolved (but not cancelled)
     if (fightInfo.status === FightStatus.RESOLVED) {
       console.log(`⚠️  Fight ${fightId.toString()}: Already resolved, cannot cancel`);
+      if (journal) journalSkip(journal, `fight-${fightId}`, "already resolved");
       results.push({
         fightId,
         success: false,
@@ -312,22 +251,20 @@ async function main() {
       continue;
     }
 
+    if (safe) {
+      await addSafeCall(safe, booster, "cancelFight", [eventId, fightId]);
+      continue;
+    }
+
     try {
       console.log(`[${i + 1}/${fightIds.length}] Cancelling Fight ${fightId.toString()}...`);
-      const result = await cancelFight(booster, eventId, fightId);
-      console.log(`  ✅ Transaction sent: ${result.hash}`);
-      console.log(`  ✅ Confirmed in block: ${result.blockNumber}`);
+      const result = await cancelFight(journal!, txs!, booster, eventId, fightId);
       results.push({
         fightId,
         success: true,
         hash: result.hash,
         blockNumber: result.blockNumber,
       });
-
-      // Small delay between transactions to avoid nonce issues
-      if (i < fightIds.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
     } catch (err: any) {
       console.log(`  ❌ Error: ${err.message || err}`);
       results.push({
@@ -338,6 +275,11 @@ async function main() {
     }
   }
 
+  if (safe) {
+    writeSafeBatch(safe);
+    return;
+  }
+
   // Summary
   console.log("\n" + "=".repeat(60));
   console.log("CANCELLATION SUMMARY");
@@ -369,8 +311,9 @@ async function main() {
   console.log("=".repeat(60) + "\n");
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
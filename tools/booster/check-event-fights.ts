@@ -1,35 +1,64 @@
+/**
+ * @notice List the fights of an event with their status (getEventFights)
+ *
+ * @example List the fights of an event
+ * ts-node tools/booster/check-event-fights.ts ufc-324 --network mainnet
+ *
+ * @example Machine-readable output (schema booster.check-event-fights/1), or one CSV row per fight
+ * ts-node tools/booster/check-event-fights.ts ufc-324 --network testnet --json
+ * ts-node tools/booster/check-event-fights.ts ufc-324 --network testnet --csv
+ */
 import 'dotenv/config';
-import { ethers } from 'ethers';
+import { getPositionals, parseArgs } from '../cli/args';
+import { connectNetwork, formatNetwork, resolveContractAddress } from '../cli/networks';
+import { CsvColumn, EnumJson, enumColumns, enumJson, getOutputFormat, jsonEnvelope, printCsv, printJson } from '../cli/output';
+import { FightStatus, connectBooster } from '../contracts/booster';
+import { getFightStatusName } from './booster.utils';
 
-async function main() {
-  const eventId = process.argv[2];
+// --json: schema booster.check-event-fights/1
+export interface EventFightsJson {
+  eventId: string;
+  fights: { fightId: bigint; status: EnumJson }[];
+}
+
+const FIGHT_CSV: CsvColumn<EventFightsJson['fights'][number]>[] = [
+  { header: 'fightId', value: (fight) => fight.fightId },
+  ...enumColumns<EventFightsJson['fights'][number]>('status', FightStatus, (fight) => fight.status.value),
+];
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, true);
+  const [eventId] = getPositionals(argv);
   if (!eventId) {
-    console.error('Usage: ts-node tools/booster/check-event-fights.ts <eventId>');
+    console.error('Usage: ts-node tools/booster/check-event-fights.ts <eventId> --network mainnet|testnet|local');
     process.exit(1);
   }
 
-  // Determine RPC URL (Mainnet preferred for this task as requested, or explicitly set)
-  const rpcUrl = process.env.BSC_RPC_URL || 'https://bsc-dataseed.binance.org';
-  
-  // Booster Address
-  const boosterAddress = process.env.MAINNET_BOOSTER_ADDRESS;
-  if (!boosterAddress) {
-      console.error('Missing MAINNET_BOOSTER_ADDRESS in .env');
-      process.exit(1);
+  const { profile, rpcUrl, provider } = await connectNetwork(args);
+  const boosterAddress = resolveContractAddress(profile, 'booster', args);
+
+  if (format !== 'text') {
+    const booster = connectBooster(boosterAddress, provider);
+    const envelope = await jsonEnvelope('booster.check-event-fights/1', profile, provider, boosterAddress);
+    const { fightIds, statuses } = await booster.getEventFights(eventId);
+    const fights = fightIds.map((fightId, i) => ({ fightId, status: enumJson(FightStatus, statuses[i]) }));
+    if (format === 'csv') {
+      printCsv(FIGHT_CSV, fights);
+      return;
+    }
+    const report: EventFightsJson = { eventId, fights };
+    printJson(envelope, report);
+    return;
   }
 
+  console.log(`Network: ${formatNetwork(profile)}`);
   console.log(`Using RPC: ${rpcUrl}`);
   console.log(`Booster Params:`);
   console.log(`  Address: ${boosterAddress}`);
   console.log(`  EventID: ${eventId}`);
 
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-  const abi = [
-      "function getEventFights(string eventId) external view returns (uint256[] fightIds, uint8[] statuses)"
-  ];
-
-  const contract = new ethers.Contract(boosterAddress, abi, provider);
+  const contract = connectBooster(boosterAddress, provider);
 
   try {
       console.log('Querying getEventFights...');
@@ -39,21 +68,11 @@ async function main() {
       const statuses = result.statuses;
 
       console.log(`\nResult (${fightIds.length} fights):`);
-      
-      const statusMap = [
-          'PENDING', // 0 (Assuming standard enum order, adjusted if needed based on code)
-          'OPEN',    // 1
-          'IN_PROGRESS', // 2
-          'RESOLVED', // 3
-          'CANCELLED' // 4 (Just a guess, will print raw integers too)
-      ];
-      // Note: Without exact enum definition, mapping might be off. Printing raw values is safest.
-      
+
       for (let i = 0; i < fightIds.length; i++) {
           const fid = fightIds[i];
-          const st = statuses[i];
-          // We'll print raw status. If we knew the Enum, we'd map it.
-          console.log(`  Fight ${fid}: Status ${st}`);
+          const st = Number(statuses[i]);
+          console.log(`  Fight ${fid}: Status ${getFightStatusName(st)} (${st})`);
       }
 
   } catch (err: any) {
@@ -62,7 +81,9 @@ async function main() {
   }
 }
 
-main().catch(err => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -3,60 +3,54 @@
  *
  * @example Check roles for an address
  * ts-node tools/booster/check-roles.ts --network testnet --address 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8
+ *
+ * @example Machine-readable output (schema booster.check-roles/1), or one CSV row per role
+ * ts-node tools/booster/check-roles.ts --network testnet --address 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8 --json
+ * ts-node tools/booster/check-roles.ts --network testnet --address 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8 --csv
  */
 import "dotenv/config";
 import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { ROLE_CSV, RoleJson, RolesJson, getOutputFormat, jsonEnvelope, printCsv, printJson } from "../cli/output";
+import { connectBooster } from "../contracts/booster";
 
-const ABI = [
-  "function hasRole(bytes32 role, address account) external view returns (bool)",
-  "function DEFAULT_ADMIN_ROLE() external pure returns (bytes32)",
-  "function OPERATOR_ROLE() external pure returns (bytes32)",
-];
-
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, true);
+  const { profile, provider } = await connectNetwork(args);
 
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : process.env.BOOSTER_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_BOOSTER_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_BOOSTER_ADDRESS"
-        : "BOOSTER_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const address = args.address || args.to;
   if (!address) throw new Error("Missing --address (or --to)");
   if (!ethers.isAddress(address)) throw new Error("Invalid address format");
 
-  const booster = new ethers.Contract(contract, ABI, provider);
-
-  console.log(`Checking roles for ${address} on contract ${contract}\n`);
+  const booster = connectBooster(contract, provider);
 
   const roles = [
     { name: "DEFAULT_ADMIN_ROLE", getter: () => booster.DEFAULT_ADMIN_ROLE() },
     { name: "OPERATOR_ROLE", getter: () => booster.OPERATOR_ROLE() },
   ];
 
+  if (format !== "text") {
+    const envelope = await jsonEnvelope("booster.check-roles/1", profile, provider, contract);
+    const rows: RoleJson[] = [];
+    for (const role of roles) {
+      const hash = await role.getter();
+      rows.push({ role: role.name, hash, hasRole: await booster.hasRole(hash, address) });
+    }
+    if (format === "csv") {
+      printCsv(ROLE_CSV, rows);
+      return;
+    }
+    const report: RolesJson = { address: ethers.getAddress(address), roles: rows };
+    printJson(envelope, report);
+    return;
+  }
+
+  console.log(`Checking roles for ${address} on contract ${contract}\n`);
+
   for (const role of roles) {
     const roleHash = await role.getter();
     const hasRole = await booster.hasRole(roleHash, address);
@@ -67,33 +61,10 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
-
-
-
-
-
-
-
-
-
-
-
@@ -0,0 +1,225 @@
+/**
+ * @notice Script to claim every unclaimed winning or refundable boost of a wallet for an event
+ *
+ * Finds the wallet's boosts on every fight (getUserBoostIndices/getUserBoosts), keeps the unclaimed ones
+ * that pay out (winning boosts, or all boosts of a cancelled fight), builds the ClaimInput[] array and
+ * calls claimRewards in one transaction. When the estimated gas exceeds --maxGas (or estimation fails
+ * for size), the claims are split into smaller transactions.
+ *
+ * claimRewards pays msg.sender, so the transaction must be signed by the boosting wallet (the user signer:
+ * USER_KEYSTORE, USER_SIGNER_URL, or USER_PK with --signer env).
+ *
+ * @example Claim everything for the user signer's wallet
+ * ts-node tools/booster/claim-rewards.ts --network mainnet --event ufc-324
+ *
+ * @example Only list what a wallet could claim (no key needed)
+ * ts-node tools/booster/claim-rewards.ts --network mainnet --event ufc-324 --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3 --dryRun
+ *
+ * @example Lower gas ceiling per transaction, no confirmation prompt
+ * ts-node tools/booster/claim-rewards.ts --network mainnet --event ufc-324 --maxGas 1500000 --yes
+ */
+import "dotenv/config";
+import { ethers } from "ethers";
+import { BoosterContract, connectBooster } from "../contracts/booster";
+import { FightStatus, askConfirmation, getMethodName, getWinnerName, parseArgs, setupBoosterConfig } from "./booster.utils";
+import { ResolvedFightState, quoteBoostPayout } from "./settlement.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
+
+const DEFAULT_MAX_GAS = 3_000_000n;
+
+interface ClaimInput {
+  fightId: number;
+  boostIndices: number[];
+}
+
+interface ClaimableFight extends ClaimInput {
+  payout: bigint;
+  refund: boolean;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const config = await setupBoosterConfig(args);
+
+  const eventId = args.eventId || args.event;
+  if (!eventId) throw new Error("Missing --eventId (or --event)");
+
+  const dryRun = !!args.dryRun;
+  // A dry run for an explicit --user only reads the chain, so it does not need the user signer
+  const wallet = dryRun && args.user ? undefined : await loadSigner("user", config.provider, args);
+
+  const userArg = args.user || wallet?.address;
+  if (!userArg || !ethers.isAddress(userArg)) throw new Error("Missing or invalid --user address");
+  const user = ethers.getAddress(userArg);
+  if (!dryRun && wallet && user !== wallet.address) {
+    throw new Error(`claimRewards pays msg.sender: --user ${user} must match the user signer ${wallet.address}`);
+  }
+
+  const maxGas = args.maxGas ? BigInt(args.maxGas) : DEFAULT_MAX_GAS;
+  const booster = connectBooster(config.contractAddress, wallet ?? config.provider);
+
+  const eventResult = await booster.getFunction("getEvent")(eventId);
+  if (!eventResult.exists) throw new Error(`Event "${eventId}" does not exist`);
+  const numFights = Number(eventResult.numFights);
+  const claimReady = eventResult.claimReady;
+  const deadline = await booster.getEventClaimDeadline(eventId);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("CLAIM BOOSTER REWARDS");
+  console.log("=".repeat(60));
+  console.log(`Network mode:      ${config.networkMode.toUpperCase()}`);
+  console.log(`Contract Address:  ${config.contractAddress}`);
+  console.log(`Event ID:          ${eventId}`);
+  console.log(`User:              ${user}`);
+  console.log(`Claim Ready:       ${claimReady ? "✅ Yes" : "❌ No"}`);
+  console.log(`Claim Deadline:    ${deadline === 0n ? "none" : new Date(Number(deadline) * 1000).toISOString()}`);
+  console.log("=".repeat(60));
+
+  const claimable = await findClaimableFights(booster, eventId, numFights, user);
+  if (claimable.length === 0) {
+    console.log("\n✅ Nothing to claim.");
+    return;
+  }
+
+  let total = 0n;
+  console.log(`\n${"Fight".padStart(5)}  ${"Boost indices".padEnd(24)} ${"Payout".padStart(16)}`);
+  for (const fight of claimable) {
+    total += fight.payout;
+    console.log(
+      `${fight.fightId.toString().padStart(5)}  ${fight.boostIndices.join(", ").padEnd(24)} ${fight.payout.toString().padStart(16)}` +
+        (fight.refund ? "  (refund)" : "")
+    );
+  }
+  console.log(`\nTotal payout: ${total}`);
+
+  if (dryRun) {
+    console.log("\n✅ Dry run (--dryRun): nothing claimed.");
+    return;
+  }
+  if (!claimReady) throw new Error(`Event "${eventId}" is not claim ready yet`);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (deadline !== 0n && now > deadline) throw new Error(`Claim deadline passed for "${eventId}"`);
+
+  // Split into transactions that stay under the gas ceiling
+  const inputs: ClaimInput[] = claimable.map(({ fightId, boostIndices }) => ({ fightId, boostIndices }));
+  const chunks = await chunkClaimInputs(booster, eventId, inputs, maxGas);
+  console.log(`\nTransactions: ${chunks.length} (max gas ${maxGas} each)`);
+
+  if (!args.yes) {
+    const confirmed = await askConfirmation(`\nClaim ${total} FP in ${chunks.length} transaction(s)? (y/n): `);
+    if (!confirmed) {
+      console.log("\n❌ Claim cancelled by user.");
+      process.exit(0);
+    }
+  }
+
+  const txs = await openTxPipeline(wallet!, config.network, args);
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    console.log(`\n[${i + 1}/${chunks.length}] Claiming fights ${chunk.map((c) => c.fightId).join(", ")}...`);
+    await sendTx(txs, booster, "claimRewards", [eventId, chunk]);
+  }
+  console.log(`\n✅ Claimed ${total} FP for ${user}`);
+}
+
+// Unclaimed boosts that pay out, per fight, checked against quoteClaimable
+async function findClaimableFights(
+  booster: BoosterContract,
+  eventId: string,
+  numFights: number,
+  user: string
+): Promise<ClaimableFight[]> {
+  const result: ClaimableFight[] = [];
+  for (let fightId = 1; fightId <= numFights; fightId++) {
+    const boosts = await booster.getUserBoosts(eventId, fightId, user);
+    if (boosts.length === 0) continue;
+    const f = await booster.getFight(eventId, fightId);
+    if (Number(f.status) !== FightStatus.RESOLVED) {
+      console.log(`  Fight ${fightId}: not resolved yet, skipping ${boosts.length} boost(s)`);
+      continue;
+    }
+    const indices = await booster.getUserBoostIndices(eventId, fightId, user);
+    const state: ResolvedFightState = {
+      winner: Number(f.winner),
+      method: Number(f.method),
+      bonusPool: f.bonusPool,
+      originalPool: f.originalPool,
+      sumWinnersStakes: f.sumWinnersStakes,
+      winningPoolTotalShares: f.winningPoolTotalShares,
+      pointsForWinner: f.pointsForWinner,
+      pointsForWinnerMethod: f.pointsForWinnerMethod,
+      cancelled: f.cancelled,
+    };
+
+    const boostIndices: number[] = [];
+    let payout = 0n;
+    boosts.forEach((b, i) => {
+      if (b.claimed) return;
+      const quote = quoteBoostPayout(state, {
+        amount: b.amount,
+        predictedWinner: Number(b.predictedWinner),
+        predictedMethod: Number(b.predictedMethod),
+      });
+      if (quote.payout === 0n) return; // losing boost
+      boostIndices.push(Number(indices[i]));
+      payout += quote.payout;
+    });
+    if (boostIndices.length === 0) continue;
+
+    const quoted = await booster.quoteClaimable(eventId, fightId, user, false);
+    if (quoted !== payout) {
+      throw new Error(
+        `Fight ${fightId} (${getWinnerName(state.winner)} by ${getMethodName(state.method)}): ` +
+          `computed payout ${payout} does not match quoteClaimable ${quoted}`
+      );
+    }
+    result.push({ fightId, boostIndices, payout, refund: state.cancelled });
+  }
+  return result;
+}
+
+// Estimate gas for the whole claim and halve it until every chunk fits under maxGas
+async function chunkClaimInputs(
+  booster: BoosterContract,
+  eventId: string,
+  inputs: ClaimInput[],
+  maxGas: bigint
+): Promise<ClaimInput[][]> {
+  let gas: bigint | undefined;
+  try {
+    gas = await booster.claimRewards.estimateGas(eventId, inputs);
+  } catch (err: any) {
+    // A single boost that cannot be estimated is a real revert, not a size problem
+    if (inputs.length === 1 && inputs[0].boostIndices.length === 1) throw err;
+  }
+  if (gas !== undefined && gas <= maxGas) {
+    return [inputs];
+  }
+
+  if (inputs.length > 1) {
+    const mid = Math.ceil(inputs.length / 2);
+    return [
+      ...(await chunkClaimInputs(booster, eventId, inputs.slice(0, mid), maxGas)),
+      ...(await chunkClaimInputs(booster, eventId, inputs.slice(mid), maxGas)),
+    ];
+  }
+
+  // One fight with too many boosts: split its indices
+  const { fightId, boostIndices } = inputs[0];
+  if (boostIndices.length === 1) {
+    throw new Error(`Fight ${fightId}: claiming boost ${boostIndices[0]} needs ${gas} gas, above --maxGas ${maxGas}`);
+  }
+  const mid = Math.ceil(boostIndices.length / 2);
+  return [
+    ...(await chunkClaimInputs(booster, eventId, [{ fightId, boostIndices: boostIndices.slice(0, mid) }], maxGas)),
+    ...(await chunkClaimInputs(booster, eventId, [{ fightId, boostIndices: boostIndices.slice(mid) }], maxGas)),
+  ];
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -5,64 +5,21 @@
  * ts-node tools/booster/create-event.ts --network mainnet --eventId ufc-fight-night-feb-21-2026 --numFights 10 --seasonId 326 --defaultBoostCutoff 1771711200
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectBooster } from "../contracts/booster";
 import * as readline from "readline";
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = [
-  "function createEvent(string calldata eventId, uint256 numFights, uint256 seasonId, uint256 defaultBoostCutoff) external",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const networkName = (args.network || args.net || "").toLowerCase();
-  
-  // Determine RPC URL based on network parameter
-  let rpcUrl: string | undefined = args.rpc;
-  if (!rpcUrl) {
-    if (networkName === "mainnet") {
-      rpcUrl = process.env.MAINNET_BSC_RPC_URL || process.env.RPC_URL || undefined;
-    } else if (networkName === "testnet") {
-      rpcUrl = process.env.TESTNET_BSC_RPC_URL || process.env.RPC_URL || undefined;
-    } else {
-      // Default to testnet if network not specified
-      rpcUrl = process.env.TESTNET_BSC_RPC_URL || process.env.RPC_URL || undefined;
-    }
-  }
-  
-  if (!rpcUrl) {
-    const envVar = networkName === "mainnet" 
-      ? "MAINNET_BSC_RPC_URL" 
-      : networkName === "testnet"
-      ? "TESTNET_BSC_RPC_URL"
-      : "TESTNET_BSC_RPC_URL or RPC_URL";
-    throw new Error(
-      `Missing RPC URL (set --rpc or ${envVar} in .env)`
-    );
-  }
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-  const pk = process.env.OPERATOR_PK;
-  if (!pk) throw new Error("Missing OPERATOR_PK in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : process.env.BOOSTER_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_BOOSTER_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_BOOSTER_ADDRESS"
-        : "BOOSTER_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const safe = getSafeExport(args, profile, provider, "create-event");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -75,29 +32,7 @@ async function main() {
 
   const defaultBoostCutoff = BigInt(args.defaultBoostCutoff ?? args.cutoff ?? 0);
 
-  // Get network information
-  const network = await provider.getNetwork();
-  const chainId = Number(network.chainId);
-  
-  // Determine actual network based on chainId
-  let actualNetwork: string;
-  if (chainId === 56) {
-    actualNetwork = "BSC Mainnet";
-  } else if (chainId === 97) {
-    actualNetwork = "BSC Testnet";
-  } else {
-    actualNetwork = network.name || `Chain ID ${chainId}`;
-  }
-  
-  // Warn if network parameter doesn't match actual network
-  if (networkName) {
-    const expectedChainId = networkName === "mainnet" ? 56 : networkName === "testnet" ? 97 : null;
-    if (expectedChainId !== null && chainId !== expectedChainId) {
-      console.warn(`⚠️  Warning: --network ${networkName} specified but connected to Chain ID ${chainId} (${actualNetwork})`);
-    }
-  }
-
-  const booster = new ethers.Contract(contract, ABI, wallet);
+  const booster = connectBooster(contract, wallet ?? provider);
   console.log("Event Details:");
   console.log("─".repeat(60));
   console.log(`Event ID: ${eventId}`);
@@ -112,9 +47,9 @@ async function main() {
   console.log();
   console.log("Transaction Details:");
   console.log("─".repeat(60));
-  console.log(`Network: ${actualNetwork} (Chain ID: ${chainId})`);
+  console.log(`Network: ${profile.label} (Chain ID: ${profile.chainId})`);
   console.log(`Contract: ${contract}`);
-  console.log(`From wallet: ${wallet.address}`);
+  console.log(`From: ${safe ? formatSafe(safe) : wallet!.address}`);
   console.log();
 
   // Ask for confirmation
@@ -126,11 +61,15 @@ async function main() {
     process.exit(0);
   }
 
+  if (safe) {
+    await addSafeCall(safe, booster, "createEvent", [eventId, numFights, seasonId, defaultBoostCutoff]);
+    writeSafeBatch(safe);
+    return;
+  }
+
   console.log("\nSending transaction...");
-  const tx = await booster.createEvent(eventId, numFights, seasonId, defaultBoostCutoff);
-  console.log("Submitted createEvent tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "createEvent", [eventId, numFights, seasonId, defaultBoostCutoff]);
 }
 
 function askConfirmation(question: string): Promise<boolean> {
@@ -148,21 +87,9 @@ function askConfirmation(question: string): Promise<boolean> {
   });
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
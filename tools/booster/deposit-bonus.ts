@@ -17,34 +17,35 @@
  * ts-node tools/booster/deposit-bonus.ts --network testnet --event UFC_300 --fight 1 --amount 5000000000000000000
  *
  * @example With custom contract address
- * ts-node tools/booster/deposit-bonus.ts --contract 0x123... --eventId UFC_300 --fightId 1 --amount 5000000000000000000
+ * ts-node tools/booster/deposit-bonus.ts --network testnet --contract 0x123... --eventId UFC_300 --fightId 1 --amount 5000000000000000000
+ *
+ * @example Top up a fight that is already RESOLVED (depositBonus force flag)
+ * ts-node tools/booster/deposit-bonus.ts --network testnet --eventId UFC_300 --fightId 1 --amount 5000000000000000000 --force
  *
  * @example Skip confirmation prompt
  * ts-node tools/booster/deposit-bonus.ts --network testnet --eventId UFC_300 --fightId 1 --amount 5000000000000000000 --yes
  *
- * @env MAINNET_BSC_EXPLORER_URL - Block explorer URL for BSC Mainnet (default: https://bscscan.com)
- * @env TESTNET_BSC_EXPLORER_URL - Block explorer URL for BSC Testnet (default: https://testnet.bscscan.com)
+ * @example Through the Safe (it needs OPERATOR_ROLE and the FP)
+ * ts-node tools/booster/deposit-bonus.ts --network mainnet --eventId ufc-324 --fightId 1 --amount 5000000000000000000 --export safe
  */
 import "dotenv/config";
 import { ethers } from "ethers";
-import {
-  parseArgs,
-  setupBoosterConfig,
-  displayTransactionSummary,
-  requestConfirmation,
-  waitForTransaction,
-} from "./booster.utils";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { enumName } from "../contracts/bindings.utils";
+import { FightStatus, connectBooster } from "../contracts/booster";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
+import { askConfirmation, parseArgs } from "./booster.utils";
 
-const ABI = [
-  "function depositBonus(string calldata eventId, uint256 fightId, uint256 amount) external",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const config = await setupBoosterConfig(args);
+  const safe = getSafeExport(args, profile, provider, "deposit-bonus");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
 
-  // Log network mode for clarity
-  console.log(`Network mode: ${config.networkMode.toUpperCase()}`);
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -57,27 +58,49 @@ async function main() {
   const amountBigInt = BigInt(amount);
   if (amountBigInt <= 0n) throw new Error("--amount must be > 0");
 
-  const booster = new ethers.Contract(config.contractAddress, ABI, config.wallet);
+  const force = !!args.force;
+  const booster = connectBooster(contract, wallet ?? provider);
+
+  const event = await booster.getFunction("getEvent")(eventId);
+  if (!event.exists) throw new Error(`Event "${eventId}" does not exist`);
+  const fight = await booster.getFight(eventId, fightId);
+  if (Number(fight.status) === FightStatus.RESOLVED && !force) {
+    throw new Error(`Fight ${fightId} is RESOLVED: pass --force to top up its pool anyway`);
+  }
 
-  // Format amount for display (convert from wei to FP)
-  const amountInFP = ethers.formatEther(amountBigInt);
+  console.log("\n" + "=".repeat(60));
+  console.log("DEPOSIT BONUS");
+  console.log("=".repeat(60));
+  console.log(`Network:    ${formatNetwork(profile)}`);
+  console.log(`Contract:   ${contract}`);
+  console.log(`Depositor:  ${safe ? `Safe ${safe.safeAddress ?? "(address not set)"}` : wallet!.address}`);
+  console.log(`Event ID:   ${eventId} (season ${event.seasonId})`);
+  console.log(`Fight ID:   ${fightId} (${enumName(FightStatus, fight.status)}, bonus pool ${fight.bonusPool})`);
+  console.log(`Amount:     ${ethers.formatEther(amountBigInt)} FP (${amountBigInt} wei)`);
+  console.log(`Force:      ${force}`);
+  console.log("=".repeat(60));
 
-  // Display transaction summary
-  displayTransactionSummary(config, [
-    `Event ID: ${eventId}`,
-    `Fight ID: ${fightId}`,
-    `Amount: ${amountInFP} FP (${amountBigInt} wei)`,
-  ], "depositBonus");
+  if (safe) {
+    await addSafeCall(safe, booster, "depositBonus", [eventId, fightId, amountBigInt, force]);
+    writeSafeBatch(safe);
+    return;
+  }
 
-  // Request confirmation
-  await requestConfirmation(args);
+  if (!args.yes) {
+    const confirmed = await askConfirmation(`\nDeposit ${amountBigInt} FP into fight ${fightId}? (y/n): `);
+    if (!confirmed) {
+      console.log("\n❌ Deposit cancelled by user.");
+      process.exit(0);
+    }
+  }
 
-  console.log("\n🚀 Executing transaction...");
-  const tx = await booster.depositBonus(eventId, fightId, amountBigInt);
-  await waitForTransaction(tx, config.chainId);
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "depositBonus", [eventId, fightId, amountBigInt, force]);
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
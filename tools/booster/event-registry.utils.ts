@@ -0,0 +1,144 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { BOOSTER_ABI, BoosterContract } from "../contracts/booster";
+import { getLogsInChunks } from "./booster.utils";
+import { DEFAULT_RESOLUTIONS_PATH } from "./batch-submit/resolutions.utils";
+import { DEFAULT_INDEX_DB_PATH, getEventIds, openIndexDb } from "./indexer/indexer.utils";
+
+// Booster events declare `string indexed eventId`, so logs only carry keccak256(eventId).
+// The registry maps those topic hashes back to readable IDs.
+export type EventRegistry = Map<string, string>; // topic → eventId
+
+// Event IDs used on-chain so far (tool examples and past resolutions files)
+export const KNOWN_EVENT_IDS = [
+  "UFC_300",
+  "322",
+  "ufc-323",
+  "ufc-324",
+  "ufc-325",
+  "ufc-fight-night-dec-13-2025",
+  "ufc-fight-night-feb-7-2026",
+  "ufc-fight-night-feb-21-2026",
+];
+
+export function registerEventId(registry: EventRegistry, eventId: string): string {
+  const topic = ethers.id(eventId);
+  registry.set(topic, eventId);
+  return topic;
+}
+
+// Event ID for a topic, or undefined when the registry has never seen it
+export function resolveEventTopic(registry: EventRegistry, topic: string): string | undefined {
+  return registry.get(topic.toLowerCase());
+}
+
+// Readable label for a topic: the event ID when known, otherwise the raw hash
+export function formatEventTopic(registry: EventRegistry, topic: string): string {
+  return resolveEventTopic(registry, topic) ?? `${topic} (unknown eventId)`;
+}
+
+/**
+ * Extract the eventId from createEvent calldata.
+ * Works for direct calls and for calls wrapped by a multisig/forwarder: every occurrence of the
+ * createEvent selector in the calldata is tried. Pass the EventCreated topic to only accept a match.
+ */
+export function decodeCreateEventId(data: string, expectedTopic?: string): string | undefined {
+  const iface = new ethers.Interface(BOOSTER_ABI);
+  const selector = iface.getFunction("createEvent")!.selector.slice(2);
+  const hex = data.toLowerCase().replace(/^0x/, "");
+
+  for (let at = hex.indexOf(selector); at !== -1; at = hex.indexOf(selector, at + 2)) {
+    // Selectors are byte aligned
+    if (at % 2 !== 0) continue;
+    try {
+      const decoded = iface.decodeFunctionData("createEvent", "0x" + hex.slice(at));
+      const eventId = decoded[0] as string;
+      if (!expectedTopic || ethers.id(eventId) === expectedTopic.toLowerCase()) {
+        return eventId;
+      }
+    } catch {
+      // Not a createEvent payload at this offset
+    }
+  }
+  return undefined;
+}
+
+// A Booster event of a season, as found in its EventCreated log
+export interface SeasonEvent {
+  seasonId: bigint;
+  topic: string; // keccak256(eventId)
+  eventId?: string; // undefined when neither the registry nor the createEvent calldata gave it
+}
+
+/**
+ * Booster events created for the given seasons (EventCreated logs filtered on the indexed seasonId). The eventId
+ * comes from the registry, or from the calldata of the transaction that created the event.
+ */
+export async function findSeasonEvents(
+  booster: BoosterContract,
+  provider: ethers.Provider,
+  registry: EventRegistry,
+  seasonIds: bigint[],
+  fromBlock: number,
+  toBlock: number,
+  blockRange?: number
+): Promise<SeasonEvent[]> {
+  if (seasonIds.length === 0) return [];
+  const seasonTopics = seasonIds.map((seasonId) => ethers.zeroPadValue(ethers.toBeHex(seasonId), 32));
+  const logs = await getLogsInChunks(
+    provider,
+    { address: await booster.getAddress(), topics: [booster.interface.getEvent("EventCreated")!.topicHash, null, seasonTopics] },
+    fromBlock,
+    toBlock,
+    blockRange
+  );
+
+  const events: SeasonEvent[] = [];
+  for (const log of logs) {
+    const topic = log.topics[1];
+    let eventId = resolveEventTopic(registry, topic);
+    if (!eventId) {
+      const tx = await provider.getTransaction(log.transactionHash);
+      eventId = tx ? decodeCreateEventId(tx.data, topic) : undefined;
+    }
+    events.push({ seasonId: BigInt(log.topics[2]), topic, eventId });
+  }
+  return events;
+}
+
+/**
+ * Build a registry from known IDs, resolutions files and the log index (IDs decoded from createEvent).
+ * Missing files are skipped, so this is safe to call from any tool.
+ */
+export function loadEventRegistry(options: { dbPath?: string; resolutionsPaths?: string[] } = {}): EventRegistry {
+  const registry: EventRegistry = new Map();
+  for (const eventId of KNOWN_EVENT_IDS) {
+    registerEventId(registry, eventId);
+  }
+
+  for (const filePath of options.resolutionsPaths ?? [DEFAULT_RESOLUTIONS_PATH]) {
+    if (!fs.existsSync(filePath)) continue;
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      if (typeof data.eventId === "string" && data.eventId) {
+        registerEventId(registry, data.eventId);
+      }
+    } catch {
+      // Unreadable resolutions files are reported by the batch-submit tools themselves
+    }
+  }
+
+  const dbPath = options.dbPath ?? DEFAULT_INDEX_DB_PATH;
+  if (fs.existsSync(dbPath)) {
+    const db = openIndexDb(dbPath);
+    try {
+      for (const { eventId } of getEventIds(db)) {
+        registerEventId(registry, eventId);
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  return registry;
+}
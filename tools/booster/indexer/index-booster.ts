@@ -0,0 +1,147 @@
+/**
+ * @notice Script to incrementally index Booster logs into a local SQLite database
+ *
+ * Pulls EventCreated, BoostPlaced, BoostIncreased, FightResultSubmitted, RewardClaimed, FightCancelled,
+ * BonusDeposited, FightPurged and EventPurged logs in block ranges and stores them in booster-index.sqlite.
+ * Each run resumes from the last indexed block; the block range is halved automatically when the RPC
+ * rejects a range, and progress is committed after every window so an interrupted run loses nothing.
+ *
+ * Logs only carry keccak256(eventId). After indexing, every EventCreated log without a known eventId
+ * is resolved from the registry seeds or by decoding the createEvent calldata of its transaction,
+ * and stored in the event_ids table (see event-registry.utils.ts).
+ *
+ * @example Index mainnet up to the latest block (starts at the deployment block on the first run)
+ * ts-node tools/booster/indexer/index-booster.ts --network mainnet
+ *
+ * @example Separate database per network, tighter eth_getLogs limits
+ * ts-node tools/booster/indexer/index-booster.ts --network testnet \
+ *   --db tools/booster/indexer/booster-index.testnet.sqlite --blockRange 1000
+ *
+ * @example Stay a few blocks behind the head to avoid indexing logs that may be reorged out
+ * ts-node tools/booster/indexer/index-booster.ts --network mainnet --confirmations 15
+ *
+ * @env MAINNET_BOOSTER_FROM_BLOCK / TESTNET_BOOSTER_FROM_BLOCK - First block to index on an empty database
+ */
+import "dotenv/config";
+import { ethers } from "ethers";
+import { getLogsInChunks, parseArgs, resolveFromBlock, setupBoosterConfig } from "../booster.utils";
+import { decodeCreateEventId, loadEventRegistry, resolveEventTopic } from "../event-registry.utils";
+import {
+  DEFAULT_INDEX_DB_PATH,
+  INDEXED_EVENTS_ABI,
+  IndexedLog,
+  IndexDb,
+  bindIndexDb,
+  countLogsByEvent,
+  decodeIndexedLog,
+  getEventIds,
+  getLastIndexedBlock,
+  getUnresolvedEventCreations,
+  openIndexDb,
+  saveEventIds,
+  saveIndexedRange,
+} from "./indexer.utils";
+
+// Blocks fetched (and committed) per window; each window is split further by --blockRange
+const DEFAULT_WINDOW = 50000;
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const config = await setupBoosterConfig(args);
+
+  const dbPath = args.db || DEFAULT_INDEX_DB_PATH;
+  const blockRange = args.blockRange ? Number(args.blockRange) : undefined;
+  const windowSize = args.window ? Number(args.window) : DEFAULT_WINDOW;
+  const confirmations = args.confirmations ? Number(args.confirmations) : 0;
+
+  const { chainId } = await config.provider.getNetwork();
+  const db = openIndexDb(dbPath);
+  try {
+    bindIndexDb(db, chainId, config.contractAddress);
+
+    const lastIndexed = getLastIndexedBlock(db);
+    const fromBlock = lastIndexed !== undefined ? lastIndexed + 1 : resolveFromBlock(args, config.networkMode);
+    const head = await config.provider.getBlockNumber();
+    const toBlock = args.toBlock ? Number(args.toBlock) : head - confirmations;
+
+    console.log("\n" + "=".repeat(60));
+    console.log("BOOSTER LOG INDEXER");
+    console.log("=".repeat(60));
+    console.log(`Network mode:      ${config.networkMode.toUpperCase()} (chainId ${chainId})`);
+    console.log(`Contract Address:  ${config.contractAddress}`);
+    console.log(`Database:          ${dbPath}`);
+    console.log(`Resume:            ${lastIndexed !== undefined ? `after block ${lastIndexed}` : "empty database"}`);
+    console.log(`Blocks:            ${fromBlock} → ${toBlock}`);
+    console.log("=".repeat(60));
+
+    if (fromBlock > toBlock) {
+      console.log("\n✅ Index already up to date.");
+      await resolveEventIds(db, config.provider, dbPath);
+      return;
+    }
+
+    const iface = new ethers.Interface(INDEXED_EVENTS_ABI);
+    const topics: string[] = [];
+    iface.forEachEvent((event) => topics.push(event.topicHash));
+
+    let stored = 0;
+    for (let start = fromBlock; start <= toBlock; start += windowSize) {
+      const end = Math.min(start + windowSize - 1, toBlock);
+      const logs = await getLogsInChunks(
+        config.provider,
+        { address: config.contractAddress, topics: [topics] },
+        start,
+        end,
+        blockRange
+      );
+      const rows = logs.map((log) => decodeIndexedLog(iface, log)).filter((row): row is IndexedLog => !!row);
+      saveIndexedRange(db, rows, end);
+      stored += rows.length;
+      console.log(`  ${start} → ${end}: ${rows.length} logs`);
+    }
+
+    await resolveEventIds(db, config.provider, dbPath);
+
+    console.log("\n" + "=".repeat(60));
+    console.log(`✅ Indexed ${stored} new logs up to block ${toBlock}`);
+    console.log("-".repeat(60));
+    for (const { eventName, count } of countLogsByEvent(db)) {
+      console.log(`  ${eventName.padEnd(22)} ${count}`);
+    }
+    console.log("=".repeat(60));
+  } finally {
+    db.close();
+  }
+}
+
+// Name every EventCreated topic: registry seeds first, then the createEvent calldata of the creating tx
+async function resolveEventIds(db: IndexDb, provider: ethers.Provider, dbPath: string): Promise<void> {
+  const pending = getUnresolvedEventCreations(db);
+  if (pending.length === 0) return;
+
+  console.log(`\n⏳ Resolving ${pending.length} new event ID(s)...`);
+  const registry = loadEventRegistry({ dbPath });
+  for (const log of pending) {
+    let eventId = resolveEventTopic(registry, log.eventTopic);
+    let source = "registry";
+    if (!eventId) {
+      const tx = await provider.getTransaction(log.txHash);
+      eventId = tx ? decodeCreateEventId(tx.data, log.eventTopic) : undefined;
+      source = "createEvent calldata";
+    }
+    if (!eventId) {
+      console.log(`  ⚠️  ${log.eventTopic} (tx ${log.txHash}): eventId not recoverable from calldata`);
+      continue;
+    }
+    saveEventIds(db, [{ eventId, source }]);
+    console.log(`  ${eventId.padEnd(32)} ← ${source}`);
+  }
+  console.log(`  ${getEventIds(db).length} event ID(s) known in the index`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
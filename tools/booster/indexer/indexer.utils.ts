@@ -0,0 +1,211 @@
+import * as path from "path";
+import Database from "better-sqlite3";
+import { ethers } from "ethers";
+import { BOOSTER_ABI } from "../../contracts/booster";
+
+// Booster events stored by the indexer
+export const INDEXED_EVENTS = [
+  "EventCreated",
+  "BoostPlaced",
+  "BoostIncreased",
+  "FightResultSubmitted",
+  "RewardClaimed",
+  "FightCancelled",
+  "BonusDeposited",
+  "FightPurged",
+  "EventPurged",
+];
+
+export const INDEXED_EVENTS_ABI = BOOSTER_ABI.filter((fragment) =>
+  INDEXED_EVENTS.some((name) => fragment.startsWith(`event ${name}(`))
+);
+
+// booster-index.sqlite next to the indexer by default
+export const DEFAULT_INDEX_DB_PATH = path.join(__dirname, "booster-index.sqlite");
+
+export interface IndexedLog {
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  eventName: string;
+  eventTopic: string; // keccak256(eventId), the indexed string topic
+  fightId: number | null;
+  account: string | null; // user, manager or recipient depending on the event
+  amount: string | null; // main FP amount of the event (decimal string)
+  args: Record<string, string>; // every non-indexed and indexed arg, bigints as decimal strings
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key   TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS logs (
+  block_number INTEGER NOT NULL,
+  tx_hash      TEXT    NOT NULL,
+  log_index    INTEGER NOT NULL,
+  event_name   TEXT    NOT NULL,
+  event_topic  TEXT    NOT NULL,
+  fight_id     INTEGER,
+  account      TEXT,
+  amount       TEXT,
+  args         TEXT    NOT NULL,
+  PRIMARY KEY (tx_hash, log_index)
+);
+CREATE TABLE IF NOT EXISTS event_ids (
+  topic    TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  source   TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS logs_event_fight ON logs (event_topic, fight_id);
+CREATE INDEX IF NOT EXISTS logs_account ON logs (account);
+CREATE INDEX IF NOT EXISTS logs_name_block ON logs (event_name, block_number);
+`;
+
+export type IndexDb = Database.Database;
+
+export function openIndexDb(filePath: string): IndexDb {
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function getMeta(db: IndexDb, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setMeta(db: IndexDb, key: string, value: string): void {
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+}
+
+// Bind the database to one contract on one chain; refuse to mix data from another deployment
+export function bindIndexDb(db: IndexDb, chainId: bigint, contractAddress: string): void {
+  const storedChain = getMeta(db, "chain_id");
+  const storedContract = getMeta(db, "contract");
+  const contract = ethers.getAddress(contractAddress);
+  if (storedChain === undefined && storedContract === undefined) {
+    setMeta(db, "chain_id", chainId.toString());
+    setMeta(db, "contract", contract);
+    return;
+  }
+  if (storedChain !== chainId.toString() || storedContract !== contract) {
+    throw new Error(
+      `Index database belongs to ${storedContract} on chain ${storedChain}, not ${contract} on chain ${chainId}. Use another --db.`
+    );
+  }
+}
+
+export function getLastIndexedBlock(db: IndexDb): number | undefined {
+  const value = getMeta(db, "last_block");
+  return value === undefined ? undefined : Number(value);
+}
+
+// Store a block range's logs and advance the cursor atomically, so an interrupted run resumes cleanly
+export function saveIndexedRange(db: IndexDb, logs: IndexedLog[], lastBlock: number): void {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO logs (block_number, tx_hash, log_index, event_name, event_topic, fight_id, account, amount, args)
+     VALUES (@blockNumber, @txHash, @logIndex, @eventName, @eventTopic, @fightId, @account, @amount, @args)`
+  );
+  db.transaction(() => {
+    for (const log of logs) {
+      insert.run({ ...log, args: JSON.stringify(log.args) });
+    }
+    setMeta(db, "last_block", lastBlock.toString());
+  })();
+}
+
+export function countLogsByEvent(db: IndexDb): Array<{ eventName: string; count: number }> {
+  return db
+    .prepare("SELECT event_name AS eventName, COUNT(*) AS count FROM logs GROUP BY event_name ORDER BY event_name")
+    .all() as Array<{ eventName: string; count: number }>;
+}
+
+// Logs of one Booster event (by eventId), in chain order
+export function getEventLogs(db: IndexDb, eventId: string, eventNames: string[] = []): IndexedLog[] {
+  const topic = ethers.id(eventId);
+  const nameFilter = eventNames.length > 0 ? ` AND event_name IN (${eventNames.map(() => "?").join(", ")})` : "";
+  const rows = db
+    .prepare(`SELECT * FROM logs WHERE event_topic = ?${nameFilter} ORDER BY block_number, log_index`)
+    .all(topic, ...eventNames) as any[];
+  return rows.map(rowToLog);
+}
+
+// Every log involving an account (boosts, claims, bonus deposits, purge recipient), in chain order
+export function getAccountLogs(db: IndexDb, account: string): IndexedLog[] {
+  const rows = db
+    .prepare("SELECT * FROM logs WHERE account = ? ORDER BY block_number, log_index")
+    .all(ethers.getAddress(account)) as any[];
+  return rows.map(rowToLog);
+}
+
+// keccak256(eventId) → eventId pairs learned while indexing (see event-registry.utils.ts)
+export function saveEventIds(db: IndexDb, entries: Array<{ eventId: string; source: string }>): void {
+  const insert = db.prepare("INSERT OR IGNORE INTO event_ids (topic, event_id, source) VALUES (?, ?, ?)");
+  db.transaction(() => {
+    for (const { eventId, source } of entries) {
+      insert.run(ethers.id(eventId), eventId, source);
+    }
+  })();
+}
+
+export function getEventIds(db: IndexDb): Array<{ topic: string; eventId: string; source: string }> {
+  return db
+    .prepare("SELECT topic, event_id AS eventId, source FROM event_ids ORDER BY event_id")
+    .all() as Array<{ topic: string; eventId: string; source: string }>;
+}
+
+// EventCreated logs that do not have a known eventId yet
+export function getUnresolvedEventCreations(db: IndexDb): IndexedLog[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM logs WHERE event_name = 'EventCreated' AND event_topic NOT IN (SELECT topic FROM event_ids)
+       ORDER BY block_number, log_index`
+    )
+    .all() as any[];
+  return rows.map(rowToLog);
+}
+
+function rowToLog(row: any): IndexedLog {
+  return {
+    blockNumber: row.block_number,
+    txHash: row.tx_hash,
+    logIndex: row.log_index,
+    eventName: row.event_name,
+    eventTopic: row.event_topic,
+    fightId: row.fight_id,
+    account: row.account,
+    amount: row.amount,
+    args: JSON.parse(row.args),
+  };
+}
+
+// Decode a raw Booster log into the row stored by the index (undefined for events the index does not track)
+export function decodeIndexedLog(iface: ethers.Interface, log: ethers.Log): IndexedLog | undefined {
+  const parsed = iface.parseLog(log);
+  if (!parsed) return undefined;
+
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    // Indexed strings only expose their hash; the topic column already holds it
+    if (input.name === "eventId") return;
+    const value = parsed.args[i];
+    args[input.name] = typeof value === "string" ? value : value.toString();
+  });
+
+  const account = args.user ?? args.manager ?? args.recipient ?? null;
+  const amount = args.amount ?? args.newTotal ?? args.payout ?? args.unclaimedPool ?? null;
+
+  return {
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    eventName: parsed.name,
+    eventTopic: log.topics[1],
+    fightId: args.fightId !== undefined ? Number(args.fightId) : null,
+    account: account ? ethers.getAddress(account) : null,
+    amount,
+    args,
+  };
+}
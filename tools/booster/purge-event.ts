@@ -0,0 +1,204 @@
+/**
+ * @notice Script to purge (sweep) unclaimed funds of an event after its claim deadline
+ *
+ * Previews, per resolved fight, the sweepable amount (originalPool + bonusPool - claimedAmount) and which
+ * users forfeit how much (quoteClaimable per user, users taken from BoostPlaced logs). After confirming the
+ * recipient it sends purgeEvent and prints the FightPurged/EventPurged logs as a receipt.
+ *
+ * @example Preview only (no key needed)
+ * ts-node tools/booster/purge-event.ts --network mainnet --event ufc-324 --preview
+ *
+ * @example Purge to a treasury address
+ * ts-node tools/booster/purge-event.ts --network mainnet --event ufc-324 --recipient 0xTreasury...
+ *
+ * @env MAINNET_BOOSTER_FROM_BLOCK / TESTNET_BOOSTER_FROM_BLOCK - First block to scan for boost logs (forfeit list)
+ */
+import "dotenv/config";
+import { ethers } from "ethers";
+import { connectBooster } from "../contracts/booster";
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
+import { FightStatus, askConfirmation, parseArgs, resolveFromBlock, setupBoosterConfig } from "./booster.utils";
+import { loadEventBoosts } from "./settlement.utils";
+
+interface FightPurgePreview {
+  fightId: number;
+  pool: bigint;
+  claimedAmount: bigint;
+  sweepable: bigint;
+  forfeits: Array<{ user: string; amount: bigint }>;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const previewOnly = !!args.preview;
+  const config = await setupBoosterConfig(args, !previewOnly && !args.export);
+  const safe = previewOnly ? undefined : getSafeExport(args, config.network, config.provider, "purge-event");
+
+  const eventId = args.eventId || args.event;
+  if (!eventId) throw new Error("Missing --eventId (or --event)");
+
+  const recipient = args.recipient;
+  if (!previewOnly && (!recipient || !ethers.isAddress(recipient) || recipient === ethers.ZeroAddress)) {
+    throw new Error("Missing or invalid --recipient address");
+  }
+
+  const booster = connectBooster(config.contractAddress, config.wallet ?? config.provider);
+
+  const eventResult = await booster.getFunction("getEvent")(eventId);
+  if (!eventResult.exists) throw new Error(`Event "${eventId}" does not exist`);
+  const seasonId = eventResult.seasonId;
+  const numFights = Number(eventResult.numFights);
+
+  // purgeEvent requires a deadline that has passed
+  const deadline = await booster.getEventClaimDeadline(eventId);
+  const latest = await config.provider.getBlock("latest");
+  const now = BigInt(latest!.timestamp);
+  const deadlinePassed = deadline !== 0n && now > deadline;
+
+  console.log("\n" + "=".repeat(60));
+  console.log("PURGE EVENT");
+  console.log("=".repeat(60));
+  console.log(`Network mode:      ${config.networkMode.toUpperCase()}`);
+  console.log(`Contract Address:  ${config.contractAddress}`);
+  console.log(`Event ID:          ${eventId}`);
+  console.log(`Season ID:         ${seasonId}`);
+  console.log(
+    `Claim Deadline:    ${deadline === 0n ? "not set" : new Date(Number(deadline) * 1000).toISOString()} ` +
+      `${deadlinePassed ? "(passed)" : "(NOT passed)"}`
+  );
+  console.log("=".repeat(60));
+
+  // Users per fight from the boost logs; what each still could claim is what they forfeit
+  console.log("\n⏳ Replaying BoostPlaced/BoostIncreased logs for the forfeit list...");
+  const boostsByFight = await loadEventBoosts(
+    config.provider,
+    config.contractAddress,
+    eventId,
+    resolveFromBlock(args, config.networkMode),
+    await config.provider.getBlockNumber(),
+    args.blockRange ? Number(args.blockRange) : undefined
+  );
+
+  const previews: FightPurgePreview[] = [];
+  for (let fightId = 1; fightId <= numFights; fightId++) {
+    const f = await booster.getFight(eventId, fightId);
+    if (Number(f.status) !== FightStatus.RESOLVED) continue;
+    const pool = f.originalPool + f.bonusPool;
+    const claimedAmount = f.claimedAmount;
+    const sweepable = pool - claimedAmount;
+    if (sweepable === 0n) continue;
+
+    const users = [...new Set((boostsByFight.get(fightId) ?? []).map((b) => b.user))];
+    const forfeits: Array<{ user: string; amount: bigint }> = [];
+    for (const user of users) {
+      const amount = await booster.quoteClaimable(eventId, fightId, user, false);
+      if (amount > 0n) forfeits.push({ user, amount });
+    }
+    forfeits.sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+    previews.push({ fightId, pool, claimedAmount, sweepable, forfeits });
+  }
+
+  const totalSweep = previews.reduce((sum, p) => sum + p.sweepable, 0n);
+  const totalForfeit = previews.reduce((sum, p) => sum + p.forfeits.reduce((s, f) => s + f.amount, 0n), 0n);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("SWEEPABLE FUNDS PREVIEW");
+  console.log("=".repeat(60));
+  if (previews.length === 0) {
+    console.log("Nothing to sweep: every resolved fight is fully claimed.");
+  }
+  for (const p of previews) {
+    console.log(`\nFight ${p.fightId}:`);
+    console.log(`  Pool (orig+bonus):  ${p.pool}`);
+    console.log(`  Claimed:            ${p.claimedAmount}`);
+    console.log(`  Sweepable:          ${p.sweepable}`);
+    if (p.forfeits.length === 0) {
+      console.log("  No user forfeits (rounding dust / no winners)");
+    } else {
+      console.log(`  Forfeited by:`);
+      for (const { user, amount } of p.forfeits) {
+        console.log(`    ${user}  ${amount.toString().padStart(16)}`);
+      }
+    }
+  }
+  console.log("\n" + "-".repeat(60));
+  console.log(`Total sweep:           ${totalSweep}`);
+  console.log(`Total user forfeits:   ${totalForfeit}`);
+  console.log(`Dust (not owed):       ${totalSweep - totalForfeit}`);
+  console.log("=".repeat(60));
+
+  if (previewOnly) {
+    console.log("\n✅ Preview completed (--preview): nothing purged.");
+    return;
+  }
+  if (!deadlinePassed) {
+    throw new Error(
+      deadline === 0n
+        ? `Event "${eventId}" has no claim deadline; set one before purging`
+        : `Claim deadline for "${eventId}" has not passed yet`
+    );
+  }
+
+  // Confirm the recipient explicitly: the sweep cannot be undone
+  const recipientAddress = ethers.getAddress(recipient);
+  const code = await config.provider.getCode(recipientAddress);
+  console.log("\n" + "=".repeat(60));
+  console.log("TRANSACTION DETAILS");
+  console.log("=".repeat(60));
+  console.log(`Function:          purgeEvent`);
+  console.log(`  eventId:          "${eventId}" (string)`);
+  console.log(`  recipient:        ${recipientAddress} (${code === "0x" ? "EOA" : "contract"})`);
+  console.log(`Wallet Address:    ${safe ? formatSafe(safe) : config.wallet!.address}`);
+  console.log("=".repeat(60));
+
+  const confirmed = await askConfirmation(
+    `\nSweep ${totalSweep} FP (season ${seasonId}) from "${eventId}" to ${recipientAddress}? (y/n): `
+  );
+  if (!confirmed) {
+    console.log("\n❌ Purge cancelled by user.");
+    process.exit(0);
+  }
+
+  if (safe) {
+    await addSafeCall(safe, booster, "purgeEvent", [eventId, recipientAddress]);
+    writeSafeBatch(safe);
+    return;
+  }
+
+  console.log("\n⏳ Purging event...");
+  const txs = await openTxPipeline(config.wallet!, config.network, args);
+  const rcpt = await sendTx(txs, booster, "purgeEvent", [eventId, recipientAddress]);
+
+  // Receipt-style summary from the emitted logs
+  console.log("\n" + "=".repeat(60));
+  console.log("PURGE RECEIPT");
+  console.log("=".repeat(60));
+  let swept = 0n;
+  for (const log of rcpt.logs) {
+    if (log.address.toLowerCase() !== config.contractAddress.toLowerCase()) continue;
+    const parsed = booster.interface.parseLog(log);
+    if (!parsed) continue;
+    if (parsed.name === "FightPurged") {
+      console.log(`  Fight ${parsed.args.fightId.toString().padEnd(4)} purged ${parsed.args.unclaimedPool}`);
+    } else if (parsed.name === "EventPurged") {
+      swept = BigInt(parsed.args.amount);
+      console.log("-".repeat(60));
+      console.log(`  Recipient:         ${parsed.args.recipient}`);
+      console.log(`  Total swept:       ${parsed.args.amount}`);
+    }
+  }
+  console.log(`  Transaction:       ${rcpt.hash}`);
+  console.log("=".repeat(60));
+  if (swept !== totalSweep) {
+    console.log(`\n⚠️  Swept amount ${swept} differs from preview ${totalSweep} (claims landed in between?)`);
+  }
+  console.log(`\n✅ Event "${eventId}" purged`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,314 @@
+import { ethers } from "ethers";
+import { enumName } from "../contracts/bindings.utils";
+import { BoosterContract, FightStatus, connectBooster } from "../contracts/booster";
+import { connectFP1155 } from "../contracts/fp1155";
+import { Corner, getLogsInChunks, getMethodName, getWinnerName } from "./booster.utils";
+import { findSeasonEvents, loadEventRegistry } from "./event-registry.utils";
+import { computeFightSettlement, loadEventBoosts, simulateFightPayouts } from "./settlement.utils";
+
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+  details: string[]; // one line per problem (or summary line when ok)
+}
+
+export interface ReadinessReport {
+  eventId: string;
+  seasonId: bigint;
+  checks: ReadinessCheck[];
+  outstandingPayouts: bigint; // this event
+  seasonLiabilities: bigint; // what the other events of the season still owe from the same balance
+  contractBalance: bigint;
+  ready: boolean;
+}
+
+interface StoredFight {
+  fightId: number;
+  status: number;
+  winner: number;
+  method: number;
+  bonusPool: bigint;
+  originalPool: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  claimedAmount: bigint;
+  cancelled: boolean;
+}
+
+interface SubmittedResult {
+  winner: number;
+  method: number;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+}
+
+// Audit an event before setEventClaimReady: every check must pass for the event to be claim ready
+export async function auditEventReadiness(
+  provider: ethers.Provider,
+  contractAddress: string,
+  eventId: string,
+  fromBlock: number,
+  toBlock: number,
+  blockRange?: number
+): Promise<ReadinessReport> {
+  const booster = connectBooster(contractAddress, provider);
+
+  const eventResult = await booster.getFunction("getEvent")(eventId);
+  if (!eventResult.exists) {
+    throw new Error(`Event "${eventId}" does not exist`);
+  }
+  const seasonId = eventResult.seasonId;
+
+  const fightIds = (await booster.getEventFights(eventId)).fightIds.map((id) => Number(id));
+
+  const fights: StoredFight[] = [];
+  for (const fightId of fightIds) {
+    const r = await booster.getFight(eventId, fightId);
+    fights.push({
+      fightId,
+      status: Number(r.status),
+      winner: Number(r.winner),
+      method: Number(r.method),
+      bonusPool: r.bonusPool,
+      originalPool: r.originalPool,
+      sumWinnersStakes: r.sumWinnersStakes,
+      winningPoolTotalShares: r.winningPoolTotalShares,
+      pointsForWinner: r.pointsForWinner,
+      pointsForWinnerMethod: r.pointsForWinnerMethod,
+      claimedAmount: r.claimedAmount,
+      cancelled: r.cancelled,
+    });
+  }
+
+  const checks: ReadinessCheck[] = [];
+
+  // 1. Every fight resolved (cancelFight and NONE results also set RESOLVED)
+  const unresolved = fights.filter((f) => f.status !== FightStatus.RESOLVED);
+  checks.push({
+    name: "All fights RESOLVED or cancelled",
+    ok: unresolved.length === 0,
+    details:
+      unresolved.length === 0
+        ? [`${fights.length} fights resolved (${fights.filter((f) => f.cancelled).length} cancelled)`]
+        : unresolved.map((f) => `Fight ${f.fightId}: status ${enumName(FightStatus, f.status)}`),
+  });
+
+  // 2. Stored totals match a replay of the boost logs
+  const boostsByFight = await loadEventBoosts(provider, contractAddress, eventId, fromBlock, toBlock, blockRange);
+  const totalsProblems: string[] = [];
+  for (const f of fights) {
+    const boosts = boostsByFight.get(f.fightId) ?? [];
+    const settlement = computeFightSettlement(boosts, {
+      winner: f.winner,
+      method: f.method,
+      pointsForWinner: f.pointsForWinner,
+      pointsForWinnerMethod: f.pointsForWinnerMethod,
+    });
+    if (settlement.totalAmountStaked !== f.originalPool) {
+      totalsProblems.push(
+        `Fight ${f.fightId}: replayed stakes ${settlement.totalAmountStaked} != originalPool ${f.originalPool} (check --fromBlock)`
+      );
+      continue;
+    }
+    // Cancelled fights are refunds: stored totals are not used
+    if (f.cancelled || f.status !== FightStatus.RESOLVED) continue;
+    if (settlement.sumWinnersStakes !== f.sumWinnersStakes) {
+      totalsProblems.push(
+        `Fight ${f.fightId}: sumWinnersStakes stored ${f.sumWinnersStakes}, recomputed ${settlement.sumWinnersStakes}`
+      );
+    }
+    if (settlement.winningPoolTotalShares !== f.winningPoolTotalShares) {
+      totalsProblems.push(
+        `Fight ${f.fightId}: winningPoolTotalShares stored ${f.winningPoolTotalShares}, recomputed ${settlement.winningPoolTotalShares}`
+      );
+    }
+  }
+  checks.push({
+    name: "Stored totals match boost logs",
+    ok: totalsProblems.length === 0,
+    details: totalsProblems.length === 0 ? ["sumWinnersStakes/winningPoolTotalShares match for every fight"] : totalsProblems,
+  });
+
+  // 3. Stored winner/method agree with the latest FightResultSubmitted (or FightCancelled) log
+  const { submitted, cancelledIds } = await loadResultLogs(provider, booster, eventId, fromBlock, toBlock, blockRange);
+  const logProblems: string[] = [];
+  for (const f of fights) {
+    if (f.status !== FightStatus.RESOLVED) continue;
+    const last = submitted.get(f.fightId);
+    if (!last) {
+      if (!(f.cancelled && cancelledIds.has(f.fightId))) {
+        logProblems.push(`Fight ${f.fightId}: no FightResultSubmitted${f.cancelled ? "/FightCancelled" : ""} log found`);
+      }
+      continue;
+    }
+    if (last.winner !== f.winner || last.method !== f.method) {
+      logProblems.push(
+        `Fight ${f.fightId}: stored ${getWinnerName(f.winner)}/${getMethodName(f.method)}, ` +
+          `log ${getWinnerName(last.winner)}/${getMethodName(last.method)}`
+      );
+    }
+    if (
+      last.pointsForWinner !== f.pointsForWinner ||
+      last.pointsForWinnerMethod !== f.pointsForWinnerMethod ||
+      last.sumWinnersStakes !== f.sumWinnersStakes ||
+      last.winningPoolTotalShares !== f.winningPoolTotalShares
+    ) {
+      logProblems.push(`Fight ${f.fightId}: stored points/totals differ from the latest FightResultSubmitted log`);
+    }
+  }
+  checks.push({
+    name: "Winner/method match FightResultSubmitted logs",
+    ok: logProblems.length === 0,
+    details: logProblems.length === 0 ? ["Every resolved fight matches its latest result log"] : logProblems,
+  });
+
+  // 4. Contract FP balance for the season covers the outstanding payouts of this event and of every other
+  // event of the season, since they all draw on the same balanceOf(booster, seasonId)
+  let outstandingPayouts = 0n;
+  const payoutProblems: string[] = [];
+  for (const f of fights) {
+    if (f.status !== FightStatus.RESOLVED) continue;
+    try {
+      const simulation = simulateFightPayouts(
+        boostsByFight.get(f.fightId) ?? [],
+        {
+          winner: f.cancelled ? Corner.NONE : f.winner,
+          method: f.method,
+          pointsForWinner: f.pointsForWinner,
+          pointsForWinnerMethod: f.pointsForWinnerMethod,
+        },
+        { sumWinnersStakes: f.sumWinnersStakes, winningPoolTotalShares: f.winningPoolTotalShares },
+        { originalPool: f.originalPool, bonusPool: f.bonusPool }
+      );
+      if (simulation.totalPayout > simulation.pool) {
+        payoutProblems.push(`Fight ${f.fightId}: payouts ${simulation.totalPayout} exceed pool ${simulation.pool}`);
+      }
+      if (simulation.totalPayout > f.claimedAmount) {
+        outstandingPayouts += simulation.totalPayout - f.claimedAmount;
+      }
+    } catch (err: any) {
+      payoutProblems.push(`Fight ${f.fightId}: ${err.message || err}`);
+    }
+  }
+
+  const seasonEvents = await findSeasonEvents(booster, provider, loadEventRegistry(), [seasonId], fromBlock, toBlock, blockRange);
+  const otherEvents = seasonEvents.filter((event) => event.topic !== ethers.id(eventId));
+  let seasonLiabilities = 0n;
+  for (const other of otherEvents) {
+    if (!other.eventId) {
+      payoutProblems.push(`Event ${other.topic}: unknown eventId, its unclaimed pools in season ${seasonId} could not be counted`);
+      continue;
+    }
+    seasonLiabilities += await unclaimedLiabilities(booster, other.eventId);
+  }
+
+  const fp = connectFP1155(await booster.FP(), provider);
+  const contractBalance = await fp.balanceOf(contractAddress, seasonId);
+  const required = outstandingPayouts + seasonLiabilities;
+  const owed = `outstanding payouts ${outstandingPayouts} + ${otherEvents.length} other event(s) of the season ${seasonLiabilities}`;
+  if (contractBalance < required) {
+    payoutProblems.push(`Contract balance ${contractBalance} (season ${seasonId}) < ${owed} (short ${required - contractBalance})`);
+  }
+  checks.push({
+    name: "Contract FP balance covers outstanding payouts of the season",
+    ok: payoutProblems.length === 0,
+    details: payoutProblems.length === 0 ? [`Balance ${contractBalance} (season ${seasonId}) >= ${owed}`] : payoutProblems,
+  });
+
+  return {
+    eventId,
+    seasonId,
+    checks,
+    outstandingPayouts,
+    seasonLiabilities,
+    contractBalance,
+    ready: checks.every((c) => c.ok),
+  };
+}
+
+/**
+ * FP another event still owes out of the Booster's season balance: unresolved pools in full, the principal of
+ * cancelled fights not refunded yet, and the unclaimed part of resolved pools that have winners. A purged event
+ * owes nothing (purgeEvent marks every pool claimed).
+ */
+async function unclaimedLiabilities(booster: BoosterContract, eventId: string): Promise<bigint> {
+  let total = 0n;
+  const { fightIds } = await booster.getEventFights(eventId);
+  for (const fightId of fightIds) {
+    const f = await booster.getFight(eventId, fightId);
+    const pool = f.originalPool + f.bonusPool;
+    if (Number(f.status) !== FightStatus.RESOLVED) {
+      total += pool - f.claimedAmount;
+    } else if (f.cancelled) {
+      total += f.originalPool > f.claimedAmount ? f.originalPool - f.claimedAmount : 0n;
+    } else if (f.sumWinnersStakes > 0n && f.winningPoolTotalShares > 0n) {
+      total += pool - f.claimedAmount;
+    }
+  }
+  return total;
+}
+
+// Latest FightResultSubmitted per fight plus the set of fights with a FightCancelled log
+async function loadResultLogs(
+  provider: ethers.Provider,
+  booster: BoosterContract,
+  eventId: string,
+  fromBlock: number,
+  toBlock: number,
+  blockRange?: number
+): Promise<{ submitted: Map<number, SubmittedResult>; cancelledIds: Set<number> }> {
+  const iface = booster.interface;
+  const submittedTopic = iface.getEvent("FightResultSubmitted")!.topicHash;
+  const cancelledTopic = iface.getEvent("FightCancelled")!.topicHash;
+
+  const logs = await getLogsInChunks(
+    provider,
+    { address: await booster.getAddress(), topics: [[submittedTopic, cancelledTopic], ethers.id(eventId)] },
+    fromBlock,
+    toBlock,
+    blockRange
+  );
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const submitted = new Map<number, SubmittedResult>();
+  const cancelledIds = new Set<number>();
+  for (const log of logs) {
+    const parsed = iface.parseLog(log);
+    if (!parsed) continue;
+    const fightId = Number(parsed.args.fightId);
+    if (parsed.name === "FightCancelled") {
+      cancelledIds.add(fightId);
+      continue;
+    }
+    submitted.set(fightId, {
+      winner: Number(parsed.args.winner),
+      method: Number(parsed.args.method),
+      pointsForWinner: BigInt(parsed.args.pointsForWinner),
+      pointsForWinnerMethod: BigInt(parsed.args.pointsForWinnerMethod),
+      sumWinnersStakes: BigInt(parsed.args.sumWinnersStakes),
+      winningPoolTotalShares: BigInt(parsed.args.winningPoolTotalShares),
+    });
+  }
+  return { submitted, cancelledIds };
+}
+
+export function printReadinessReport(report: ReadinessReport): void {
+  console.log("\n" + "=".repeat(60));
+  console.log("CLAIM READINESS AUDIT");
+  console.log("=".repeat(60));
+  console.log(`Event ID:          ${report.eventId}`);
+  console.log(`Season ID:         ${report.seasonId}`);
+  for (const check of report.checks) {
+    console.log(`\n${check.ok ? "✅" : "❌"} ${check.name}`);
+    for (const line of check.details) {
+      console.log(`   ${line}`);
+    }
+  }
+  console.log("\n" + "=".repeat(60));
+  console.log(report.ready ? "✅ All readiness checks passed" : "❌ Readiness checks FAILED");
+  console.log("=".repeat(60));
+}
@@ -14,44 +14,30 @@
 
  * 
  * @example Disable cutoff (set to 0, relies on status only)
- * ts-node tools/booster/set-event-boost-cutoff.ts --eventId 322 --cutoff 0
+ * ts-node tools/booster/set-event-boost-cutoff.ts --network testnet --eventId 322 --cutoff 0
  * 
  * @example Using alternative parameter names
- * ts-node tools/booster/set-event-boost-cutoff.ts --event 322 --timestamp 1763247600
+ * ts-node tools/booster/set-event-boost-cutoff.ts --network testnet --event 322 --timestamp 1763247600
  * 
  * @example With custom contract address
- * ts-node tools/booster/set-event-boost-cutoff.ts --contract 0x123... --eventId 322 --cutoff 1763247600
+ * ts-node tools/booster/set-event-boost-cutoff.ts --network testnet --contract 0x123... --eventId 322 --cutoff 1763247600
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectBooster } from "../contracts/booster";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = [
-  "function setEventBoostCutoff(string calldata eventId, uint256 cutoff) external",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const safe = getSafeExport(args, profile, provider, "set-event-boost-cutoff");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const contract = args.contract || process.env.BOOSTER_ADDRESS;
-  if (!contract)
-    throw new Error("Missing contract (set --contract or BOOSTER_ADDRESS)");
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -61,32 +47,24 @@ async function main() {
     throw new Error("Missing --cutoff (or --timestamp)");
   const cutoffBigInt = BigInt(cutoff);
 
-  const booster = new ethers.Contract(contract, ABI, wallet);
+  const booster = connectBooster(contract, wallet ?? provider);
   console.log(
     `Setting boost cutoff for all fights in event: ${eventId}, cutoff: ${cutoffBigInt}`
   );
   console.log("Note: Only fights that are not resolved will be updated.");
-  const tx = await booster.setEventBoostCutoff(eventId, cutoffBigInt);
-  console.log("Submitted setEventBoostCutoff tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
-}
-
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
+  if (safe) {
+    await addSafeCall(safe, booster, "setEventBoostCutoff", [eventId, cutoffBigInt]);
+    writeSafeBatch(safe);
+    return;
   }
-  return out;
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "setEventBoostCutoff", [eventId, cutoffBigInt]);
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
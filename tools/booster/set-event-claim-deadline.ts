@@ -0,0 +1,225 @@
+/**
+ * @notice Script to set the claim deadline for one or more events (after which purgeEvent can sweep unclaimed funds)
+ *
+ * The deadline can be:
+ *   - an ISO date:                 2026-03-01T00:00:00Z
+ *   - a unix timestamp:            1772323200
+ *   - a duration from now:         +30d   (units: s, m, h, d, w)
+ *   - a duration from claim ready: "+30d from claim ready" (uses the latest EventClaimReady(true) log of each event)
+ *   - 0 / none to disable the deadline
+ *
+ * The current deadline (getEventClaimDeadline) is shown for every event. The contract only lets a deadline
+ * grow, so decreases are skipped; deadlines in the past are flagged because they allow an immediate purge.
+ * The same policy can be applied to several events in one run with --events.
+ *
+ * @example One event, absolute date
+ * ts-node tools/booster/set-event-claim-deadline.ts --network mainnet --event ufc-324 --deadline 2026-03-01T00:00:00Z
+ *
+ * @example Same policy for several events, relative to when each one became claim ready
+ * ts-node tools/booster/set-event-claim-deadline.ts --network mainnet --events ufc-323,ufc-324,ufc-325 --deadline "+30d from claim ready"
+ *
+ * @example Disable the deadline
+ * ts-node tools/booster/set-event-claim-deadline.ts --network testnet --event ufc-324 --deadline none
+ *
+ * @example Continue an interrupted multi-event run from its operation journal
+ * ts-node tools/booster/set-event-claim-deadline.ts --network mainnet --events ufc-323,ufc-324,ufc-325 --deadline "+30d from claim ready" --resume operations/set-event-claim-deadline-mainnet-20260301-120000.jsonl
+ *
+ * @env MAINNET_BOOSTER_FROM_BLOCK / TESTNET_BOOSTER_FROM_BLOCK - First block to scan for EventClaimReady logs
+ */
+import "dotenv/config";
+import { ethers } from "ethers";
+import { BoosterContract, connectBooster } from "../contracts/booster";
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { journalStep, openOperationJournal } from "../tx/operation-journal.utils";
+import { openTxPipeline } from "../tx/send.utils";
+import { askConfirmation, getLogsInChunks, parseArgs, resolveFromBlock, setupBoosterConfig } from "./booster.utils";
+
+const UNIT_SECONDS: Record<string, bigint> = { s: 1n, m: 60n, h: 3600n, d: 86400n, w: 604800n };
+
+type DeadlineSpec =
+  | { kind: "absolute"; timestamp: bigint }
+  | { kind: "relative"; seconds: bigint; from: "now" | "claimReady" };
+
+interface DeadlinePlan {
+  eventId: string;
+  current: bigint;
+  next: bigint | undefined;
+  warnings: string[];
+  skip?: string; // reason the event is not updated
+}
+
+// Parse --deadline into an absolute timestamp or a duration relative to now / claim ready
+function parseDeadlineSpec(value: string): DeadlineSpec {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+  if (lower === "0" || lower === "none") return { kind: "absolute", timestamp: 0n };
+  if (/^\d+$/.test(trimmed)) return { kind: "absolute", timestamp: BigInt(trimmed) };
+
+  const relative = lower.match(/^\+(\d+)\s*([smhdw])(?:\s+from\s+(now|claim[\s_-]?ready))?$/);
+  if (relative) {
+    return {
+      kind: "relative",
+      seconds: BigInt(relative[1]) * UNIT_SECONDS[relative[2]],
+      from: relative[3] && relative[3] !== "now" ? "claimReady" : "now",
+    };
+  }
+
+  const ms = Date.parse(trimmed);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid --deadline "${value}". Use an ISO date, unix timestamp, +30d, "+30d from claim ready" or none`);
+  }
+  return { kind: "absolute", timestamp: BigInt(Math.floor(ms / 1000)) };
+}
+
+function formatTimestamp(ts: bigint): string {
+  return ts === 0n ? "none" : `${new Date(Number(ts) * 1000).toISOString()} (${ts})`;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const config = await setupBoosterConfig(args, !args.export);
+  const safe = getSafeExport(args, config.network, config.provider, "set-event-claim-deadline");
+
+  const eventIds = (args.events || args.eventId || args.event || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+  if (eventIds.length === 0) throw new Error("Missing --eventId (or --event / --events a,b,c)");
+
+  const deadlineArg = args.deadline;
+  if (deadlineArg === undefined || deadlineArg === "true") throw new Error("Missing --deadline");
+  const spec = parseDeadlineSpec(deadlineArg);
+
+  const booster = connectBooster(config.contractAddress, config.wallet ?? config.provider);
+  const latest = await config.provider.getBlock("latest");
+  const now = BigInt(latest!.timestamp);
+
+  const claimReadyAt =
+    spec.kind === "relative" && spec.from === "claimReady"
+      ? await loadClaimReadyTimes(booster, config.provider, eventIds, resolveFromBlock(args, config.networkMode), args)
+      : new Map<string, bigint>();
+
+  const plans: DeadlinePlan[] = [];
+  for (const eventId of eventIds) {
+    const eventResult = await booster.getFunction("getEvent")(eventId);
+    if (!eventResult.exists) {
+      plans.push({ eventId, current: 0n, next: undefined, warnings: [], skip: "event does not exist" });
+      continue;
+    }
+    const current = await booster.getEventClaimDeadline(eventId);
+    const plan: DeadlinePlan = { eventId, current, next: undefined, warnings: [] };
+    plans.push(plan);
+
+    if (spec.kind === "absolute") {
+      plan.next = spec.timestamp;
+    } else if (spec.from === "now") {
+      plan.next = now + spec.seconds;
+    } else {
+      const readyAt = claimReadyAt.get(eventId);
+      if (!eventResult.claimReady || readyAt === undefined) {
+        plan.skip = "event is not claim ready (no EventClaimReady(true) log)";
+        continue;
+      }
+      plan.next = readyAt + spec.seconds;
+    }
+
+    if (plan.next === current) {
+      plan.skip = "deadline unchanged";
+    } else if (current !== 0n && plan.next !== 0n && plan.next < current) {
+      // The contract rejects decreases ("deadline decrease")
+      plan.skip = `earlier than the current deadline (${formatTimestamp(current)}); the contract only allows extending it`;
+    } else if (plan.next !== 0n && plan.next <= now) {
+      plan.warnings.push("new deadline is in the past: unclaimed funds become purgeable immediately");
+    }
+    if (plan.next === 0n && current !== 0n) {
+      plan.warnings.push("disables the current deadline");
+    }
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("SET EVENT CLAIM DEADLINE");
+  console.log("=".repeat(60));
+  console.log(`Network mode:      ${config.networkMode.toUpperCase()}`);
+  console.log(`Contract Address:  ${config.contractAddress}`);
+  console.log(`Wallet Address:    ${safe ? formatSafe(safe) : config.wallet!.address}`);
+  console.log(`Deadline Policy:   ${deadlineArg}`);
+  console.log(`Chain Time:        ${formatTimestamp(now)}`);
+  console.log("=".repeat(60));
+  for (const plan of plans) {
+    console.log(`\n${plan.eventId}:`);
+    console.log(`  Current:  ${formatTimestamp(plan.current)}`);
+    if (plan.next !== undefined) console.log(`  New:      ${formatTimestamp(plan.next)}`);
+    if (plan.skip) console.log(`  ⏭️  Skipped: ${plan.skip}`);
+    for (const warning of plan.warnings) console.log(`  ⚠️  ${warning}`);
+  }
+  console.log("\n" + "=".repeat(60));
+
+  const toSend = plans.filter((p) => !p.skip && p.next !== undefined);
+  if (toSend.length === 0) {
+    console.log("\nNo deadlines to update.");
+    return;
+  }
+
+  const confirmed = await askConfirmation(`\nUpdate the claim deadline of ${toSend.length} event(s)? (y/n): `);
+  if (!confirmed) {
+    console.log("\n❌ Operation cancelled by user.");
+    process.exit(0);
+  }
+
+  if (safe) {
+    for (const plan of toSend) await addSafeCall(safe, booster, "setEventClaimDeadline", [plan.eventId, plan.next!]);
+    writeSafeBatch(safe);
+    return;
+  }
+
+  const txs = await openTxPipeline(config.wallet!, config.network, args);
+  const journal = await openOperationJournal("set-event-claim-deadline", txs, config.network, args, [booster]);
+  for (const plan of toSend) {
+    console.log(`\n⏳ ${plan.eventId}: setEventClaimDeadline(${plan.next})...`);
+    await journalStep(journal, txs, `event-${plan.eventId}`, booster, "setEventClaimDeadline", [plan.eventId, plan.next!]);
+  }
+  console.log(`\n✅ Updated ${toSend.length} claim deadline(s)`);
+}
+
+// Timestamp of the latest EventClaimReady(true) log per event
+async function loadClaimReadyTimes(
+  booster: BoosterContract,
+  provider: ethers.Provider,
+  eventIds: string[],
+  fromBlock: number,
+  args: Record<string, string>
+): Promise<Map<string, bigint>> {
+  const iface = booster.interface;
+  const byTopic = new Map(eventIds.map((id) => [ethers.id(id), id]));
+  const logs = await getLogsInChunks(
+    provider,
+    { address: await booster.getAddress(), topics: [iface.getEvent("EventClaimReady")!.topicHash, [...byTopic.keys()]] },
+    fromBlock,
+    args.toBlock ? Number(args.toBlock) : await provider.getBlockNumber(),
+    args.blockRange ? Number(args.blockRange) : undefined
+  );
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const latestBlock = new Map<string, number>();
+  for (const log of logs) {
+    const parsed = iface.parseLog(log);
+    const eventId = byTopic.get(log.topics[1]);
+    if (!parsed || !eventId) continue;
+    if (parsed.args.claimReady) latestBlock.set(eventId, log.blockNumber);
+    else latestBlock.delete(eventId);
+  }
+
+  const times = new Map<string, bigint>();
+  for (const [eventId, blockNumber] of latestBlock) {
+    const block = await provider.getBlock(blockNumber);
+    times.set(eventId, BigInt(block!.timestamp));
+  }
+  return times;
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
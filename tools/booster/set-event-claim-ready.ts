@@ -4,117 +4,70 @@
  * This function allows operators to mark an event as ready (or not ready) for claims.
  * This provides flexibility in case of inconsistent results that need to be corrected before allowing claims.
  *
+ * Before setting an event ready, a readiness audit runs over getEventFights/getFight:
+ *   - every fight is RESOLVED (or cancelled)
+ *   - stored sumWinnersStakes/winningPoolTotalShares match a recomputation from boost logs
+ *   - stored winner/method match the latest FightResultSubmitted log
+ *   - the contract's FP balance for the event season covers its outstanding payouts plus what the other events of the
+ *     season still owe (they draw on the same balance)
+ * The flag is only sent when every check passes, unless --override "<reason>" is given.
+ *
+ * @example Audit only (no transaction)
+ * ts-node tools/booster/set-event-claim-ready.ts --network mainnet --event ufc-324 --audit
+ *
+ * @example Force through a failing audit (reason is printed and required)
+ * ts-node tools/booster/set-event-claim-ready.ts --network mainnet --event ufc-324 --ready true \
+ *   --override "fight 3 bonus deposited after result, totals re-verified manually"
+ *
  * @example Using alternative parameter names
  * ts-node tools/booster/set-event-claim-ready.ts --network testnet --event ufc-324 --ready true
  * ts-node tools/booster/set-event-claim-ready.ts --network mainnet --event ufc-fight-night-dec-13-2025 --ready true
  * 
  */
 import "dotenv/config";
-import { ethers } from "ethers";
-import * as readline from "readline";
-
-const ABI = [
-  "function setEventClaimReady(string calldata eventId, bool claimReady) external",
-  "function getEvent(string calldata eventId) external view returns (uint256 seasonId, uint256 numFights, bool exists, bool claimReady)",
-];
-
-// Network name to environment variable mapping
-const NETWORK_ENV_MAP: Record<string, string> = {
-  testnet: "TESTNET_BSC_RPC_URL",
-  mainnet: "MAINNET_BSC_RPC_URL",
-};
-
-function getRpcUrl(args: Record<string, string>): string {
-  const networkName = args.network || args.net;
-  if (!networkName) {
-    throw new Error("Missing --network (required: testnet or mainnet)");
-  }
-
-  const envVar = NETWORK_ENV_MAP[networkName.toLowerCase()];
-  if (!envVar) {
-    throw new Error(
-      `Unknown network "${networkName}". Supported: ${Object.keys(
-        NETWORK_ENV_MAP
-      ).join(", ")}`
-    );
-  }
-
-  const url = process.env[envVar];
-  if (!url) {
-    throw new Error(
-      `Network "${networkName}" requires ${envVar} to be set in .env`
-    );
-  }
+import { askConfirmation, parseArgs, resolveFromBlock } from "./booster.utils";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { connectBooster } from "../contracts/booster";
+import { auditEventReadiness, printReadinessReport } from "./readiness.utils";
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-  return url;
-}
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-// Function to ask for user confirmation
-function askConfirmation(question: string): Promise<boolean> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(question, (answer) => {
-      rl.close();
-      const normalized = answer.trim().toLowerCase();
-      resolve(normalized === "y" || normalized === "yes");
-    });
-  });
-}
-
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl = getRpcUrl(args);
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
+  // --audit only reads the chain, so it does not need the operator signer
+  const auditOnly = !!args.audit;
+  const safe = auditOnly ? undefined : getSafeExport(args, profile, provider, "set-event-claim-ready");
+  const wallet = auditOnly || safe ? undefined : await loadSigner("operator", provider, args);
 
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-      : networkName === "mainnet"
-        ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-        : process.env.BOOSTER_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_BOOSTER_ADDRESS"
-        : networkName === "mainnet"
-          ? "MAINNET_BOOSTER_ADDRESS"
-          : "BOOSTER_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
 
   const claimReadyStr = args.claimReady || args.ready;
-  if (claimReadyStr === undefined)
+  if (claimReadyStr === undefined && !auditOnly)
     throw new Error("Missing --claimReady (or --ready)");
-  
+
   // Parse boolean value (accepts: true, false, 1, 0, yes, no)
-  const claimReady = parseBoolean(claimReadyStr);
+  const claimReady = auditOnly ? true : parseBoolean(claimReadyStr);
 
-  const booster = new ethers.Contract(contract, ABI, wallet);
-  const readOnlyBooster = new ethers.Contract(contract, ABI, provider);
+  // An override must explain why the audit is being bypassed
+  const overrideReason = args.override;
+  if (overrideReason !== undefined && (overrideReason === "true" || overrideReason.trim() === "")) {
+    throw new Error('--override requires a reason, e.g. --override "results verified manually"');
+  }
+
+  const booster = connectBooster(contract, wallet ?? provider);
+  const readOnlyBooster = connectBooster(contract, provider);
 
   // Get current event information
   let currentClaimReady = false;
   try {
-    const getEventFunc = readOnlyBooster.getFunction("getEvent");
-    const eventResult = (await getEventFunc(eventId)) as unknown as any[];
-    const exists = eventResult[2];
-    currentClaimReady = eventResult[3];
+    const { exists, claimReady: eventClaimReady } = await readOnlyBooster.getFunction("getEvent")(eventId);
+    currentClaimReady = eventClaimReady;
     
     if (!exists) {
       console.error(`❌ Event "${eventId}" does not exist`);
@@ -128,20 +81,47 @@ async function main() {
   console.log("\n" + "=".repeat(60));
   console.log("SET EVENT CLAIM READY");
   console.log("=".repeat(60));
-  console.log(`Network:           ${networkName}`);
+  console.log(`Network:           ${formatNetwork(profile)}`);
   console.log(`Contract Address:  ${contract}`);
-  console.log(`Wallet Address:    ${wallet.address}`);
+  console.log(`Wallet Address:    ${safe ? formatSafe(safe) : wallet ? wallet.address : "(none - audit only)"}`);
   console.log(`Event ID:          ${eventId}`);
   console.log(`Current Status:    ${currentClaimReady ? "✅ Ready" : "❌ Not Ready"}`);
   console.log(`New Status:        ${claimReady ? "✅ Ready" : "❌ Not Ready"}`);
   console.log("=".repeat(60));
 
-  if (currentClaimReady === claimReady) {
+  if (currentClaimReady === claimReady && !auditOnly) {
     console.log(`\n⚠️  Event "${eventId}" is already ${claimReady ? "ready" : "not ready"} for claims.`);
     console.log("No action needed.");
     process.exit(0);
   }
 
+  // Readiness audit (only needed when opening claims; un-setting is always allowed)
+  if (claimReady) {
+    console.log("\n⏳ Running claim readiness audit...");
+    const report = await auditEventReadiness(
+      provider,
+      contract,
+      eventId,
+      resolveFromBlock(args, profile.name),
+      args.toBlock ? Number(args.toBlock) : await provider.getBlockNumber(),
+      args.blockRange ? Number(args.blockRange) : undefined
+    );
+    printReadinessReport(report);
+
+    if (auditOnly) {
+      process.exit(report.ready ? 0 : 1);
+    }
+
+    if (!report.ready) {
+      if (overrideReason === undefined) {
+        console.error(`\n❌ Event "${eventId}" is not ready for claims. Fix the failing checks or pass --override "<reason>".`);
+        process.exit(1);
+      }
+      console.log(`\n⚠️  OVERRIDE: setting claim ready despite failing checks`);
+      console.log(`   Reason: ${overrideReason}`);
+    }
+  }
+
   // Show exact parameters that will be sent to the contract
   console.log("\n" + "=".repeat(60));
   console.log("TRANSACTION DETAILS");
@@ -161,12 +141,16 @@ async function main() {
     process.exit(0);
   }
 
+  if (safe) {
+    await addSafeCall(safe, booster, "setEventClaimReady", [eventId, claimReady]);
+    writeSafeBatch(safe);
+    return;
+  }
+
   // Execute transaction
   console.log("\n⏳ Setting claim ready status...");
-  const tx = await booster.setEventClaimReady(eventId, claimReady);
-  console.log("Submitted setEventClaimReady tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "setEventClaimReady", [eventId, claimReady]);
   console.log(`\n✅ Event "${eventId}" is now ${claimReady ? "ready" : "not ready"} for claims`);
 }
 
@@ -177,22 +161,9 @@ function parseBoolean(value: string): boolean {
   throw new Error(`Invalid boolean value: ${value}. Use true/false, 1/0, or yes/no`);
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
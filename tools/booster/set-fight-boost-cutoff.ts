@@ -10,7 +10,7 @@
  * - Online converter: https://www.epochconverter.com/
  *
  * @example Set cutoff to a specific unix timestamp
- * ts-node tools/booster/set-fight-boost-cutoff.ts --eventId UFC_300 --fightId 1 --cutoff 1704067200
+ * ts-node tools/booster/set-fight-boost-cutoff.ts --network testnet --eventId UFC_300 --fightId 1 --cutoff 1704067200
  *
  * @example Calculate timestamp for 1 hour from now (using Node.js)
  * node -e "console.log(Math.floor(Date.now() / 1000) + 3600)"
@@ -19,44 +19,30 @@
  * node -e "console.log(Math.floor(new Date('2024-01-01T00:00:00Z').getTime() / 1000))"
  *
  * @example Disable cutoff (set to 0, relies on status only)
- * ts-node tools/booster/set-fight-boost-cutoff.ts --eventId UFC_300 --fightId 1 --cutoff 0
+ * ts-node tools/booster/set-fight-boost-cutoff.ts --network testnet --eventId UFC_300 --fightId 1 --cutoff 0
  *
  * @example Using alternative parameter names
- * ts-node tools/booster/set-fight-boost-cutoff.ts --event UFC_300 --fight 1 --timestamp 1704067200
+ * ts-node tools/booster/set-fight-boost-cutoff.ts --network testnet --event UFC_300 --fight 1 --timestamp 1704067200
  *
  * @example With custom contract address
- * ts-node tools/booster/set-fight-boost-cutoff.ts --contract 0x123... --eventId UFC_300 --fightId 1 --cutoff 1704067200
+ * ts-node tools/booster/set-fight-boost-cutoff.ts --network testnet --contract 0x123... --eventId UFC_300 --fightId 1 --cutoff 1704067200
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectBooster } from "../contracts/booster";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = [
-  "function setFightBoostCutoff(string calldata eventId, uint256 fightId, uint256 cutoff) external",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const safe = getSafeExport(args, profile, provider, "set-fight-boost-cutoff");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const contract = args.contract || process.env.BOOSTER_ADDRESS;
-  if (!contract)
-    throw new Error("Missing contract (set --contract or BOOSTER_ADDRESS)");
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -68,31 +54,23 @@ async function main() {
   if (!cutoff) throw new Error("Missing --cutoff (or --timestamp)");
   const cutoffBigInt = BigInt(cutoff);
 
-  const booster = new ethers.Contract(contract, ABI, wallet);
+  const booster = connectBooster(contract, wallet ?? provider);
   console.log(
     `Setting boost cutoff for event: ${eventId}, fightId: ${fightId}, cutoff: ${cutoffBigInt}`
   );
-  const tx = await booster.setFightBoostCutoff(eventId, fightId, cutoffBigInt);
-  console.log("Submitted setFightBoostCutoff tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
-}
-
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
+  if (safe) {
+    await addSafeCall(safe, booster, "setFightBoostCutoff", [eventId, fightId, cutoffBigInt]);
+    writeSafeBatch(safe);
+    return;
   }
-  return out;
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "setFightBoostCutoff", [eventId, fightId, cutoffBigInt]);
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -2,73 +2,53 @@
  * @notice Script to set the minimum boost amount in the Booster contract
  *
  * @example Set minimum to 1 FP (1e18 wei)
- * ts-node tools/booster/set-min-boost-amount.ts --amount 1000000000000000000
+ * ts-node tools/booster/set-min-boost-amount.ts --network testnet --amount 1000000000000000000
  *
  * @example Disable minimum (set to 0)
- * ts-node tools/booster/set-min-boost-amount.ts --amount 0
+ * ts-node tools/booster/set-min-boost-amount.ts --network testnet --amount 0
  *
  * @example Using alternative parameter name
- * ts-node tools/booster/set-min-boost-amount.ts --min 1000000000000000000
+ * ts-node tools/booster/set-min-boost-amount.ts --network testnet --min 1000000000000000000
  *
  * @example With custom contract address
- * ts-node tools/booster/set-min-boost-amount.ts --contract 0x123... --amount 1000000000000000000
+ * ts-node tools/booster/set-min-boost-amount.ts --network testnet --contract 0x123... --amount 1000000000000000000
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectBooster } from "../contracts/booster";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = ["function setMinBoostAmount(uint256 newMin) external"];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const safe = getSafeExport(args, profile, provider, "set-min-boost-amount");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const contract = args.contract || process.env.BOOSTER_ADDRESS;
-  if (!contract)
-    throw new Error("Missing contract (set --contract or BOOSTER_ADDRESS)");
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const newMin = args.amount || args.min;
   if (!newMin) throw new Error("Missing --amount (or --min)");
   const newMinBigInt = BigInt(newMin);
 
-  const booster = new ethers.Contract(contract, ABI, wallet);
+  const booster = connectBooster(contract, wallet ?? provider);
   console.log(`Setting min boost amount to: ${newMinBigInt}`);
-  const tx = await booster.setMinBoostAmount(newMinBigInt);
-  console.log("Submitted setMinBoostAmount tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
-}
-
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
+  if (safe) {
+    await addSafeCall(safe, booster, "setMinBoostAmount", [newMinBigInt]);
+    writeSafeBatch(safe);
+    return;
   }
-  return out;
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "setMinBoostAmount", [newMinBigInt]);
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
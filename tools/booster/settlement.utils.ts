@@ -0,0 +1,245 @@
+import { ethers } from "ethers";
+import { BOOSTER_ABI } from "../contracts/booster";
+import { Corner, getLogsInChunks } from "./booster.utils";
+
+// A boost as stored on-chain, rebuilt from BoostPlaced/BoostIncreased logs
+export interface BoostRecord {
+  fightId: number;
+  boostIndex: number;
+  user: string;
+  amount: bigint;
+  predictedWinner: number;
+  predictedMethod: number;
+}
+
+// Outcome of a fight as submitted to submitFightResult
+export interface FightOutcome {
+  winner: number;
+  method: number;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+}
+
+export interface FightSettlement {
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  totalAmountStaked: bigint;
+  winningBoosts: number;
+}
+
+// Mirror of Booster.calculateUserPoints
+export function calculateUserPoints(
+  predictedWinner: number,
+  predictedMethod: number,
+  actualWinner: number,
+  actualMethod: number,
+  pointsForWinner: bigint,
+  pointsForWinnerMethod: bigint
+): bigint {
+  if (predictedWinner !== actualWinner) {
+    return 0n;
+  }
+
+  if (predictedMethod === actualMethod) {
+    return pointsForWinnerMethod;
+  }
+
+  return pointsForWinner;
+}
+
+// Replay BoostPlaced/BoostIncreased logs of an event into per-fight boost arrays (indexed by boostIndex)
+export async function loadEventBoosts(
+  provider: ethers.Provider,
+  contractAddress: string,
+  eventId: string,
+  fromBlock: number,
+  toBlock: number,
+  blockRange?: number
+): Promise<Map<number, BoostRecord[]>> {
+  const iface = new ethers.Interface(BOOSTER_ABI);
+  const placedTopic = iface.getEvent("BoostPlaced")!.topicHash;
+  const increasedTopic = iface.getEvent("BoostIncreased")!.topicHash;
+
+  const logs = await getLogsInChunks(
+    provider,
+    { address: contractAddress, topics: [[placedTopic, increasedTopic], ethers.id(eventId)] },
+    fromBlock,
+    toBlock,
+    blockRange
+  );
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const fights = new Map<number, BoostRecord[]>();
+  for (const log of logs) {
+    const parsed = iface.parseLog(log);
+    if (!parsed) continue;
+    const fightId = Number(parsed.args.fightId);
+    const boostIndex = Number(parsed.args.boostIndex);
+    const boosts = fights.get(fightId) ?? [];
+    fights.set(fightId, boosts);
+
+    if (parsed.name === "BoostPlaced") {
+      boosts[boostIndex] = {
+        fightId,
+        boostIndex,
+        user: ethers.getAddress(parsed.args.user),
+        amount: BigInt(parsed.args.amount),
+        predictedWinner: Number(parsed.args.winner),
+        predictedMethod: Number(parsed.args.method),
+      };
+    } else {
+      const boost = boosts[boostIndex];
+      if (!boost) {
+        throw new Error(
+          `Fight ${fightId}: BoostIncreased for boost ${boostIndex} seen before BoostPlaced (scan start block too late?)`
+        );
+      }
+      boost.amount = BigInt(parsed.args.newTotal);
+    }
+  }
+
+  for (const [fightId, boosts] of fights) {
+    for (let i = 0; i < boosts.length; i++) {
+      if (!boosts[i]) {
+        throw new Error(`Fight ${fightId}: missing BoostPlaced log for boost ${i} (scan start block too late?)`);
+      }
+    }
+  }
+
+  return fights;
+}
+
+// Compute the totals submitFightResult expects, applying the same rules as Booster.calculateUserPoints
+export function computeFightSettlement(boosts: BoostRecord[], outcome: FightOutcome): FightSettlement {
+  let sumWinnersStakes = 0n;
+  let winningPoolTotalShares = 0n;
+  let totalAmountStaked = 0n;
+  let winningBoosts = 0;
+
+  for (const boost of boosts) {
+    totalAmountStaked += boost.amount;
+    // NONE (no-contest) turns the fight into a refund: nobody wins shares
+    if (outcome.winner === Corner.NONE) continue;
+
+    const points = calculateUserPoints(
+      boost.predictedWinner,
+      boost.predictedMethod,
+      outcome.winner,
+      outcome.method,
+      outcome.pointsForWinner,
+      outcome.pointsForWinnerMethod
+    );
+    if (points === 0n) continue;
+
+    sumWinnersStakes += boost.amount;
+    winningPoolTotalShares += points * boost.amount;
+    winningBoosts++;
+  }
+
+  return { sumWinnersStakes, winningPoolTotalShares, totalAmountStaked, winningBoosts };
+}
+
+export interface BoostPayout {
+  boostIndex: number;
+  user: string;
+  amount: bigint;
+  points: bigint;
+  payout: bigint;
+}
+
+export interface FightPayoutSimulation {
+  payouts: BoostPayout[];
+  totalPayout: bigint;
+  pool: bigint; // originalPool + bonusPool
+  dust: bigint; // pool - totalPayout (left in the contract after every claim)
+}
+
+// Simulate every boost's payout with the _quoteClaimableInternal formula for the totals being submitted
+export function simulateFightPayouts(
+  boosts: BoostRecord[],
+  outcome: FightOutcome,
+  totals: { sumWinnersStakes: bigint; winningPoolTotalShares: bigint },
+  pools: { originalPool: bigint; bonusPool: bigint }
+): FightPayoutSimulation {
+  const pool = pools.originalPool + pools.bonusPool;
+  const payouts: BoostPayout[] = [];
+
+  if (outcome.winner === Corner.NONE) {
+    // Cancelled / no-contest: full refund of principal
+    for (const boost of boosts) {
+      payouts.push({ boostIndex: boost.boostIndex, user: boost.user, amount: boost.amount, points: 0n, payout: boost.amount });
+    }
+  } else if (totals.sumWinnersStakes > 0n && totals.winningPoolTotalShares > 0n) {
+    if (totals.sumWinnersStakes > pools.originalPool) {
+      throw new Error(`sumWinnersStakes (${totals.sumWinnersStakes}) exceeds originalPool (${pools.originalPool})`);
+    }
+    const prizePool = pools.originalPool - totals.sumWinnersStakes + pools.bonusPool;
+    for (const boost of boosts) {
+      const points = calculateUserPoints(
+        boost.predictedWinner,
+        boost.predictedMethod,
+        outcome.winner,
+        outcome.method,
+        outcome.pointsForWinner,
+        outcome.pointsForWinnerMethod
+      );
+      if (points === 0n) continue; // losing boost
+      const winnings = (prizePool * points * boost.amount) / totals.winningPoolTotalShares;
+      payouts.push({ boostIndex: boost.boostIndex, user: boost.user, amount: boost.amount, points, payout: boost.amount + winnings });
+    }
+  }
+
+  const totalPayout = payouts.reduce((sum, p) => sum + p.payout, 0n);
+  return { payouts, totalPayout, pool, dust: pool - totalPayout };
+}
+
+// Aggregate boost payouts per user (for display)
+export function groupPayoutsByUser(
+  payouts: BoostPayout[]
+): Array<{ user: string; boosts: number; staked: bigint; payout: bigint }> {
+  const byUser = new Map<string, { user: string; boosts: number; staked: bigint; payout: bigint }>();
+  for (const p of payouts) {
+    const row = byUser.get(p.user) ?? { user: p.user, boosts: 0, staked: 0n, payout: 0n };
+    row.boosts++;
+    row.staked += p.amount;
+    row.payout += p.payout;
+    byUser.set(p.user, row);
+  }
+  return [...byUser.values()].sort((a, b) => (b.payout > a.payout ? 1 : b.payout < a.payout ? -1 : 0));
+}
+
+// Resolved fight as stored on-chain (getFight), the inputs of Booster._quoteClaimableInternal
+export interface ResolvedFightState {
+  winner: number;
+  method: number;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  originalPool: bigint;
+  bonusPool: bigint;
+  cancelled: boolean;
+}
+
+// Payout of a single boost on a resolved fight (refund of principal when cancelled, 0 for losing boosts)
+export function quoteBoostPayout(
+  fight: ResolvedFightState,
+  boost: { amount: bigint; predictedWinner: number; predictedMethod: number }
+): { points: bigint; payout: bigint } {
+  if (fight.cancelled) {
+    return { points: 0n, payout: boost.amount };
+  }
+  const points = calculateUserPoints(
+    boost.predictedWinner,
+    boost.predictedMethod,
+    fight.winner,
+    fight.method,
+    fight.pointsForWinner,
+    fight.pointsForWinnerMethod
+  );
+  if (points === 0n || fight.sumWinnersStakes === 0n || fight.winningPoolTotalShares === 0n) {
+    return { points, payout: 0n };
+  }
+  const prizePool = fight.originalPool - fight.sumWinnersStakes + fight.bonusPool;
+  return { points, payout: boost.amount + (prizePool * points * boost.amount) / fight.winningPoolTotalShares };
+}
@@ -3,6 +3,7 @@
  *
  * @example Submit result: RED corner wins by KNOCKOUT
  * ts-node tools/booster/submit-fight-result.ts \
+ *   --network testnet \
  *   --eventId UFC_300 \
  *   --fightId 1 \
  *   --winner RED \
@@ -14,6 +15,7 @@
  *
  * @example Submit result: BLUE corner wins by DECISION
  * ts-node tools/booster/submit-fight-result.ts \
+ *   --network testnet \
  *   --eventId UFC_300 \
  *   --fightId 2 \
  *   --winner BLUE \
@@ -25,6 +27,7 @@
  *
  * @example Using numeric values for winner and method
  * ts-node tools/booster/submit-fight-result.ts \
+ *   --network testnet \
  *   --eventId UFC_300 \
  *   --fightId 1 \
  *   --winner 0 \
@@ -36,6 +39,7 @@
  *
  * @example Using alternative parameter names
  * ts-node tools/booster/submit-fight-result.ts \
+ *   --network testnet \
  *   --event UFC_300 \
  *   --fight 1 \
  *   --winner RED \
@@ -49,37 +53,21 @@
  * Method values: KNOCKOUT/KO (0), SUBMISSION/SUB (1), DECISION/DEC (2), NO_CONTEST (3)
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectBooster } from "../contracts/booster";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-// Corner enum: RED=0, BLUE=1, NONE=2
-// WinMethod enum: KNOCKOUT=0, SUBMISSION=1, DECISION=2, NO_CONTEST=3
-const ABI = [
-  "function submitFightResult(string calldata eventId, uint256 fightId, uint8 winner, uint8 method, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 sumWinnersStakes, uint256 winningPoolTotalShares) external",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const safe = getSafeExport(args, profile, provider, "submit-fight-result");
+  const wallet = safe ? undefined : await loadSigner("operator", provider, args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const contract = args.contract || process.env.BOOSTER_ADDRESS;
-  if (!contract)
-    throw new Error("Missing contract (set --contract or BOOSTER_ADDRESS)");
+  const contract = resolveContractAddress(profile, "booster", args);
 
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -139,7 +127,7 @@ async function main() {
   if (winningPoolTotalShares <= 0n)
     throw new Error("--winningPoolTotalShares (or --totalShares) must be > 0");
 
-  const booster = new ethers.Contract(contract, ABI, wallet);
+  const booster = connectBooster(contract, wallet ?? provider);
   console.log(`Submitting fight result:`);
   console.log(`  Event: ${eventId}`);
   console.log(`  FightId: ${fightId}`);
@@ -150,7 +138,23 @@ async function main() {
   console.log(`  Sum winners stakes: ${sumWinnersStakes}`);
   console.log(`  Winning pool total shares: ${winningPoolTotalShares}`);
 
-  const tx = await booster.submitFightResult(
+  if (safe) {
+    await addSafeCall(safe, booster, "submitFightResult", [
+      eventId,
+      fightId,
+      winner,
+      method,
+      pointsForWinner,
+      pointsForWinnerMethod,
+      sumWinnersStakes,
+      winningPoolTotalShares,
+    ]);
+    writeSafeBatch(safe);
+    return;
+  }
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, booster, "submitFightResult", [
     eventId,
     fightId,
     winner,
@@ -159,27 +163,12 @@ async function main() {
     pointsForWinnerMethod,
     sumWinnersStakes,
     winningPoolTotalShares
-  );
-  console.log("Submitted submitFightResult tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  ]);
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
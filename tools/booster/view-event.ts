@@ -8,95 +8,132 @@
  * ts-node tools/booster/view-event.ts --network mainnet --eventId UFC_300
  *
  * @example With custom contract address
- * ts-node tools/booster/view-event.ts --contract 0x123... --eventId ufc-323
+ * ts-node tools/booster/view-event.ts --network testnet --contract 0x123... --eventId ufc-323
  *
  * @example View specific fight details
  * ts-node tools/booster/view-event.ts --network testnet --eventId ufc-323 --fightId 1
  *
  * @example Using alternative parameter names
  * ts-node tools/booster/view-event.ts --network testnet --event ufc-324 
+ *
+ * @example Machine-readable output (schema booster.view-event/1), or one CSV row per fight
+ * ts-node tools/booster/view-event.ts --network mainnet --eventId ufc-324 --json
+ * ts-node tools/booster/view-event.ts --network mainnet --eventId ufc-324 --csv
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { CsvColumn, EnumJson, enumColumns, enumJson, getOutputFormat, jsonEnvelope, printCsv, printJson } from "../cli/output";
+import { BoosterContract, connectBooster } from "../contracts/booster";
 import {
+  Corner,
+  FightStatus,
+  WinMethod,
+  getFightStatusName,
+  getMethodName,
+  getWinnerName,
   parseArgs,
   setupBoosterConfig,
 } from "./booster.utils";
 
-// Enum values from Booster contract
-enum FightStatus {
-  OPEN = 0,
-  CLOSED = 1,
-  RESOLVED = 2,
-}
-
-enum Corner {
-  RED = 0,
-  BLUE = 1,
-  NONE = 2,
+interface FightView {
+  fightId: bigint;
+  status: number;
+  winner: number;
+  method: number;
+  bonusPool: bigint;
+  originalPool: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  claimedAmount: bigint;
+  boostCutoff: bigint;
+  cancelled: boolean;
 }
 
-enum WinMethod {
-  KNOCKOUT = 0,
-  SUBMISSION = 1,
-  DECISION = 2,
-  NO_CONTEST = 3,
+// --json: one element of `fights`. winner and method are null unless the fight is resolved and not cancelled
+export interface FightJson {
+  fightId: bigint;
+  status: EnumJson;
+  cancelled: boolean;
+  boostCutoff: bigint; // unix seconds, 0 when not set
+  winner: EnumJson | null;
+  method: EnumJson | null;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  originalPool: bigint;
+  bonusPool: bigint;
+  totalPool: bigint;
+  claimedAmount: bigint;
+  unclaimed: bigint;
 }
 
-const ABI = [
-  "function getEvent(string calldata eventId) external view returns (uint256 seasonId, uint256 numFights, bool exists, bool claimReady)",
-  "function getEventClaimDeadline(string calldata eventId) external view returns (uint256)",
-  "function isEventClaimReady(string calldata eventId) external view returns (bool)",
-  "function getEventFights(string calldata eventId) external view returns (uint256[] memory fightIds, uint8[] memory statuses)",
-  "function getFight(string calldata eventId, uint256 fightId) external view returns (uint8 status, uint8 winner, uint8 method, uint256 bonusPool, uint256 originalPool, uint256 sumWinnersStakes, uint256 winningPoolTotalShares, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 claimedAmount, uint256 boostCutoff, bool cancelled)",
-  "function totalPool(string calldata eventId, uint256 fightId) external view returns (uint256)",
-];
-
-// Helper to convert enum values from contract (uint8) to numbers
-function toNumber(value: any): number {
-  return typeof value === "bigint" ? Number(value) : value;
+// --json: schema booster.view-event/1 (with --fightId, `fights` only holds that fight)
+export interface EventJson {
+  event: { eventId: string; seasonId: bigint; numFights: bigint; claimReady: boolean; claimDeadline: bigint };
+  fights: FightJson[];
 }
 
-function formatStatus(status: number): string {
-  switch (status) {
-    case FightStatus.OPEN:
-      return "OPEN";
-    case FightStatus.CLOSED:
-      return "CLOSED";
-    case FightStatus.RESOLVED:
-      return "RESOLVED";
-    default:
-      return `UNKNOWN(${status})`;
-  }
+async function readFight(booster: BoosterContract, eventId: string, fightId: bigint): Promise<FightView> {
+  const f = await booster.getFight(eventId, fightId);
+  return {
+    fightId,
+    status: Number(f.status),
+    winner: Number(f.winner),
+    method: Number(f.method),
+    bonusPool: f.bonusPool,
+    originalPool: f.originalPool,
+    sumWinnersStakes: f.sumWinnersStakes,
+    winningPoolTotalShares: f.winningPoolTotalShares,
+    pointsForWinner: f.pointsForWinner,
+    pointsForWinnerMethod: f.pointsForWinnerMethod,
+    claimedAmount: f.claimedAmount,
+    boostCutoff: f.boostCutoff,
+    cancelled: f.cancelled,
+  };
 }
 
-function formatCorner(corner: number): string {
-  switch (corner) {
-    case Corner.RED:
-      return "RED";
-    case Corner.BLUE:
-      return "BLUE";
-    case Corner.NONE:
-      return "NONE";
-    default:
-      return `UNKNOWN(${corner})`;
-  }
+function toFightJson(fight: FightView): FightJson {
+  const decided = fight.status === FightStatus.RESOLVED && !fight.cancelled;
+  const totalPool = fight.originalPool + fight.bonusPool;
+  return {
+    fightId: fight.fightId,
+    status: enumJson(FightStatus, fight.status),
+    cancelled: fight.cancelled,
+    boostCutoff: fight.boostCutoff,
+    winner: decided ? enumJson(Corner, fight.winner) : null,
+    method: decided ? enumJson(WinMethod, fight.method) : null,
+    pointsForWinner: fight.pointsForWinner,
+    pointsForWinnerMethod: fight.pointsForWinnerMethod,
+    sumWinnersStakes: fight.sumWinnersStakes,
+    winningPoolTotalShares: fight.winningPoolTotalShares,
+    originalPool: fight.originalPool,
+    bonusPool: fight.bonusPool,
+    totalPool,
+    claimedAmount: fight.claimedAmount,
+    unclaimed: totalPool - fight.claimedAmount,
+  };
 }
 
-function formatWinMethod(method: number): string {
-  switch (method) {
-    case WinMethod.KNOCKOUT:
-      return "KNOCKOUT";
-    case WinMethod.SUBMISSION:
-      return "SUBMISSION";
-    case WinMethod.DECISION:
-      return "DECISION";
-    case WinMethod.NO_CONTEST:
-      return "NO_CONTEST";
-    default:
-      return `UNKNOWN(${method})`;
-  }
-}
+// --csv: the FightJson fields, enums as <field> and <field>Name
+const FIGHT_CSV: CsvColumn<FightJson>[] = [
+  { header: "fightId", value: (f) => f.fightId },
+  ...enumColumns<FightJson>("status", FightStatus, (f) => f.status.value),
+  { header: "cancelled", value: (f) => f.cancelled },
+  { header: "boostCutoff", value: (f) => f.boostCutoff },
+  ...enumColumns<FightJson>("winner", Corner, (f) => f.winner?.value ?? null),
+  ...enumColumns<FightJson>("method", WinMethod, (f) => f.method?.value ?? null),
+  { header: "pointsForWinner", value: (f) => f.pointsForWinner },
+  { header: "pointsForWinnerMethod", value: (f) => f.pointsForWinnerMethod },
+  { header: "sumWinnersStakes", value: (f) => f.sumWinnersStakes },
+  { header: "winningPoolTotalShares", value: (f) => f.winningPoolTotalShares },
+  { header: "originalPool", value: (f) => f.originalPool },
+  { header: "bonusPool", value: (f) => f.bonusPool },
+  { header: "totalPool", value: (f) => f.totalPool },
+  { header: "claimedAmount", value: (f) => f.claimedAmount },
+  { header: "unclaimed", value: (f) => f.unclaimed },
+];
 
 function formatTimestamp(timestamp: bigint): string {
   if (timestamp === 0n) {
@@ -110,27 +147,48 @@ function formatEther(wei: bigint): string {
   return `${wei.toString()} FP`;
 }
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, true);
   const config = await setupBoosterConfig(args);
 
-  // Log network mode for clarity
-  console.log(`Network mode: ${config.networkMode.toUpperCase()}`);
-  console.log(`Contract: ${config.contractAddress}\n`);
-
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
 
-  const booster = new ethers.Contract(config.contractAddress, ABI, config.provider);
+  const booster = connectBooster(config.contractAddress, config.provider);
+
+  if (format !== "text") {
+    const envelope = await jsonEnvelope("booster.view-event/1", config.network, config.provider, config.contractAddress);
+    const { seasonId, numFights, exists, claimReady } = await booster.getFunction("getEvent")(eventId);
+    if (!exists) throw new Error(`Event "${eventId}" does not exist`);
+
+    const fightIdArg = args.fightId || args.fight;
+    let fightIds: bigint[] = [...(await booster.getEventFights(eventId)).fightIds];
+    if (fightIdArg) {
+      const fightId = BigInt(fightIdArg);
+      if (fightId <= 0n || fightId > numFights) throw new Error(`Invalid fightId: ${fightId}. Must be between 1 and ${numFights}`);
+      fightIds = [fightId];
+    }
+    const fights: FightJson[] = [];
+    for (const fightId of fightIds) fights.push(toFightJson(await readFight(booster, eventId, fightId)));
+
+    if (format === "csv") {
+      printCsv(FIGHT_CSV, fights);
+      return;
+    }
+    const claimDeadline = await booster.getEventClaimDeadline(eventId);
+    const report: EventJson = { event: { eventId, seasonId, numFights, claimReady, claimDeadline }, fights };
+    printJson(envelope, report);
+    return;
+  }
+
+  // Log network mode for clarity
+  console.log(`Network mode: ${config.networkMode.toUpperCase()}`);
+  console.log(`Contract: ${config.contractAddress}\n`);
 
   try {
-    // Get event information (use getFunction to avoid conflict with getEvent for logs)
-    const getEventFunc = booster.getFunction("getEvent");
-    const eventResult = (await getEventFunc(eventId)) as unknown as any[];
-    const seasonId = eventResult[0];
-    const numFights = eventResult[1];
-    const exists = eventResult[2];
-    const claimReady = eventResult[3];
+    // Get event information (getFunction: getEvent clashes with the BaseContract method)
+    const { seasonId, numFights, exists, claimReady } = await booster.getFunction("getEvent")(eventId);
 
     if (!exists) {
       console.error(`❌ Event "${eventId}" does not exist`);
@@ -144,37 +202,31 @@ async function main() {
     console.log(`  Claim Ready: ${claimReady ? "✅ Yes" : "❌ No"}`);
 
     // Get claim deadline
-    const getEventClaimDeadlineFunc = booster.getFunction("getEventClaimDeadline");
-    const claimDeadline = await getEventClaimDeadlineFunc(eventId);
+    const claimDeadline = await booster.getEventClaimDeadline(eventId);
     console.log(`  Claim Deadline: ${formatTimestamp(claimDeadline)}`);
 
     // Get all fights statuses
-    const getEventFightsFunc = booster.getFunction("getEventFights");
-    const fightsResult = (await getEventFightsFunc(eventId)) as unknown as any[];
-    const fightIds = fightsResult[0];
-    const statuses = fightsResult[1];
+    const { fightIds } = await booster.getEventFights(eventId);
     console.log(`\n🥊 Fights (${fightIds.length} total):`);
 
-    const getFightFunc = booster.getFunction("getFight");
-    const totalPoolFunc = booster.getFunction("totalPool");
-
     for (let i = 0; i < fightIds.length; i++) {
-      const fightResult = (await getFightFunc(eventId, fightIds[i])) as unknown as any[];
-      const status = toNumber(fightResult[0]);
-      const winner = toNumber(fightResult[1]);
-      const method = toNumber(fightResult[2]);
-      const bonusPool = BigInt(fightResult[3].toString());
-      const originalPool = BigInt(fightResult[4].toString());
-      const sumWinnersStakes = BigInt(fightResult[5].toString());
-      const winningPoolTotalShares = BigInt(fightResult[6].toString());
-      const pointsForWinner = BigInt(fightResult[7].toString());
-      const pointsForWinnerMethod = BigInt(fightResult[8].toString());
-      const claimedAmount = BigInt(fightResult[9].toString());
-      const cutoff = BigInt(fightResult[10].toString());
-      const cancelled = fightResult[11];
+      const {
+        status,
+        winner,
+        method,
+        bonusPool,
+        originalPool,
+        sumWinnersStakes,
+        winningPoolTotalShares,
+        pointsForWinner,
+        pointsForWinnerMethod,
+        claimedAmount,
+        boostCutoff: cutoff,
+        cancelled,
+      } = await readFight(booster, eventId, fightIds[i]);
 
       console.log(`\n  --- Fight ${fightIds[i]} ---`);
-      console.log(`  Status: ${formatStatus(status)}`);
+      console.log(`  Status: ${getFightStatusName(status)}`);
 
       if (cutoff > 0n) {
         console.log(`  Cutoff: ${formatTimestamp(cutoff)}`);
@@ -185,8 +237,8 @@ async function main() {
       }
 
       if (status === FightStatus.RESOLVED && !cancelled) {
-        console.log(`  Winner: ${formatCorner(winner)}`);
-        console.log(`  Method: ${formatWinMethod(method)}`);
+        console.log(`  Winner: ${getWinnerName(winner)}`);
+        console.log(`  Method: ${getMethodName(method)}`);
         console.log(`  Points: Winner=${pointsForWinner.toString()}, Winner+Method=${pointsForWinnerMethod.toString()}`);
         console.log(`  Sum Winners Stakes: ${formatEther(sumWinnersStakes)}`);
         console.log(`  Winning Pool Total Shares: ${winningPoolTotalShares.toString()}`);
@@ -210,27 +262,28 @@ async function main() {
       }
 
       console.log(`\n🔍 Detailed Fight Information (Fight ${fightId}):`);
-      const fightResult = (await getFightFunc(eventId, fightId)) as unknown as any[];
-      const status = toNumber(fightResult[0]);
-      const winner = toNumber(fightResult[1]);
-      const method = toNumber(fightResult[2]);
-      const bonusPool = BigInt(fightResult[3].toString());
-      const originalPool = BigInt(fightResult[4].toString());
-      const sumWinnersStakes = BigInt(fightResult[5].toString());
-      const winningPoolTotalShares = BigInt(fightResult[6].toString());
-      const pointsForWinner = BigInt(fightResult[7].toString());
-      const pointsForWinnerMethod = BigInt(fightResult[8].toString());
-      const claimedAmount = BigInt(fightResult[9].toString());
-      const boostCutoff = BigInt(fightResult[10].toString());
-      const cancelled = fightResult[11];
-
-      console.log(`  Status: ${formatStatus(status)}`);
+      const {
+        status,
+        winner,
+        method,
+        bonusPool,
+        originalPool,
+        sumWinnersStakes,
+        winningPoolTotalShares,
+        pointsForWinner,
+        pointsForWinnerMethod,
+        claimedAmount,
+        boostCutoff,
+        cancelled,
+      } = await readFight(booster, eventId, fightId);
+
+      console.log(`  Status: ${getFightStatusName(status)}`);
       console.log(`  Boost Cutoff: ${formatTimestamp(boostCutoff)}`);
       console.log(`  Cancelled: ${cancelled ? "Yes" : "No"}`);
 
       if (status === FightStatus.RESOLVED && !cancelled) {
-        console.log(`  Winner: ${formatCorner(winner)}`);
-        console.log(`  Method: ${formatWinMethod(method)}`);
+        console.log(`  Winner: ${getWinnerName(winner)}`);
+        console.log(`  Method: ${getMethodName(method)}`);
         console.log(`  Points for Winner: ${pointsForWinner.toString()}`);
         console.log(`  Points for Winner+Method: ${pointsForWinnerMethod.toString()}`);
         console.log(`  Sum Winners Stakes: ${formatEther(sumWinnersStakes)}`);
@@ -260,8 +313,9 @@ async function main() {
   }
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -7,17 +7,40 @@
  *
  * @example Using mainnet
  * ts-node tools/booster/view-quote-claimable.ts --network mainnet --eventId UFC_300 --user 0x123...
+ *
+ * @example Machine-readable output (schema booster.view-quote-claimable/1), or one CSV row per fight
+ * ts-node tools/booster/view-quote-claimable.ts --network mainnet --eventId ufc-324 --user 0x123... --json
+ * ts-node tools/booster/view-quote-claimable.ts --network mainnet --eventId ufc-324 --user 0x123... --csv
  */
 import "dotenv/config";
-import { ethers } from "ethers";
 import { setupBoosterConfig, parseArgs } from "./booster.utils";
+import { formatNetwork } from "../cli/networks";
+import { CsvColumn, getOutputFormat, jsonEnvelope, printCsv, printJson } from "../cli/output";
+import { connectBooster } from "../contracts/booster";
+
+// --json: one element of `fights`; claimable is null when the quote reverts (error holds the reason)
+export interface ClaimableQuoteJson {
+  fightId: number;
+  claimable: bigint | null;
+  error: string | null;
+}
 
-const ABI = [
-  "function quoteClaimable(string calldata eventId, uint256 fightId, address user, bool enforceDeadline) external view returns (uint256 totalClaimable)",
+// --json: schema booster.view-quote-claimable/1
+export interface ClaimableQuotesJson {
+  eventId: string;
+  user: string;
+  fights: ClaimableQuoteJson[];
+  totalClaimable: bigint;
+}
+
+const QUOTE_CSV: CsvColumn<ClaimableQuoteJson>[] = [
+  { header: "fightId", value: (q) => q.fightId },
+  { header: "claimable", value: (q) => q.claimable },
+  { header: "error", value: (q) => q.error },
 ];
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
   
   const eventId = args.eventId || args.event;
   if (!eventId) throw new Error("Missing --eventId (or --event)");
@@ -29,31 +52,34 @@ async function main() {
   const endFight = parseInt(args.end || "10");
 
   const config = await setupBoosterConfig(args);
-  
-  // Get network information for display
-  const network = await config.provider.getNetwork();
-  const chainId = Number(network.chainId);
-  let actualNetwork: string = chainId === 56 ? "BSC Mainnet" : chainId === 97 ? "BSC Testnet" : network.name || `Chain ID ${chainId}`;
-
-  console.log(`Network: ${actualNetwork}`);
-  console.log(`Contract: ${config.contractAddress}`);
-  console.log(`Event ID: ${eventId}`);
-  console.log(`User: ${user}\n`);
+  const format = getOutputFormat(args, true);
+  const booster = connectBooster(config.contractAddress, config.provider);
+  const envelope =
+    format === "text"
+      ? undefined
+      : await jsonEnvelope("booster.view-quote-claimable/1", config.network, config.provider, config.contractAddress);
 
-  const booster = new ethers.Contract(config.contractAddress, ABI, config.provider);
+  if (format === "text") {
+    console.log(`Network: ${formatNetwork(config.network)}`);
+    console.log(`Contract: ${config.contractAddress}`);
+    console.log(`Event ID: ${eventId}`);
+    console.log(`User: ${user}\n`);
 
-  console.log("📊 Claimable Quotes (Fights ${startFight} to ${endFight}):");
-  console.log("─".repeat(60));
+    console.log("📊 Claimable Quotes (Fights ${startFight} to ${endFight}):");
+    console.log("─".repeat(60));
+  }
 
   let totalAllFights = 0n;
+  const quotes: ClaimableQuoteJson[] = [];
 
   for (let fightId = startFight; fightId <= endFight; fightId++) {
     try {
       const claimable = await booster.quoteClaimable(eventId, fightId, user, false);
       const claimableBigInt = BigInt(claimable.toString());
       totalAllFights += claimableBigInt;
+      quotes.push({ fightId, claimable: claimableBigInt, error: null });
       
-      console.log(`  Fight ID ${fightId.toString().padEnd(2)}: ${claimableBigInt}`);
+      if (format === "text") console.log(`  Fight ID ${fightId.toString().padEnd(2)}: ${claimableBigInt}`);
     } catch (error: any) {
       let reason = "Error";
       if (error.reason) reason = error.reason;
@@ -61,16 +87,29 @@ async function main() {
         // Try to extract simple reason if possible, or just say reverted
         reason = "Reverted (Stakes might not be resolved or no stakes)";
       }
-      console.log(`  Fight ID ${fightId.toString().padEnd(2)}: ${reason}`);
+      quotes.push({ fightId, claimable: null, error: reason });
+      if (format === "text") console.log(`  Fight ID ${fightId.toString().padEnd(2)}: ${reason}`);
     }
   }
 
+  if (format === "csv") {
+    printCsv(QUOTE_CSV, quotes);
+    return;
+  }
+  if (format === "json") {
+    const report: ClaimableQuotesJson = { eventId, user, fights: quotes, totalClaimable: totalAllFights };
+    printJson(envelope!, report);
+    return;
+  }
+
   console.log("─".repeat(60));
   console.log(`Total Claimable: ${totalAllFights}`);
   console.log("\n✅ Query completed successfully");
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
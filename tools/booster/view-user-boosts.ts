@@ -0,0 +1,351 @@
+/**
+ * @notice Script to view a user's boost history and claim status across fights (support report)
+ *
+ * For every fight the user boosted, lists each boost: index, amount, predicted corner/method, fight outcome,
+ * points, payout and claimed flag (getUserBoosts/getUserBoostIndices), plus the fight-level
+ * quoteClaimable (still owed) and quoteClaimableHistorical (total won, claimed or not).
+ *
+ * Without --event, the events the user boosted are taken from the local log index (index-booster.ts) when it
+ * was built for this contract and chain, plus a BoostPlaced log scan filtered on the user from the block after
+ * the last one indexed. Without a matching index the whole range is scanned.
+ *
+ * @example One event
+ * ts-node tools/booster/view-user-boosts.ts --network mainnet --event ufc-324 --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3
+ *
+ * @example Every event the user boosted, as JSON (schema booster.view-user-boosts/1) or one CSV row per boost
+ * ts-node tools/booster/view-user-boosts.ts --network mainnet --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3 --json
+ * ts-node tools/booster/view-user-boosts.ts --network mainnet --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3 --csv
+ *
+ * @example Use a specific index database
+ * ts-node tools/booster/view-user-boosts.ts --network testnet --user 0x123... --db tools/booster/indexer/booster-index.testnet.sqlite
+ */
+import "dotenv/config";
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { CsvColumn, EnumJson, enumColumns, enumJson, getOutputFormat, jsonEnvelope, printCsv, printJson } from "../cli/output";
+import { BOOSTER_ABI, BoosterContract, connectBooster } from "../contracts/booster";
+import {
+  Corner,
+  FightStatus,
+  getFightStatusName,
+  getLogsInChunks,
+  getMethodName,
+  getWinnerName,
+  parseArgs,
+  resolveFromBlock,
+  setupBoosterConfig,
+  WinMethod,
+} from "./booster.utils";
+import { loadEventRegistry, resolveEventTopic } from "./event-registry.utils";
+import { DEFAULT_INDEX_DB_PATH, getAccountLogs, getLastIndexedBlock, getMeta, openIndexDb } from "./indexer/indexer.utils";
+import { ResolvedFightState, quoteBoostPayout } from "./settlement.utils";
+
+interface UserBoostRow {
+  boostIndex: number;
+  amount: bigint;
+  predictedWinner: number;
+  predictedMethod: number;
+  points: bigint | null; // null until the fight is resolved
+  payout: bigint | null;
+  claimed: boolean;
+}
+
+interface UserFightReport {
+  fightId: number;
+  status: number;
+  winner: number | null;
+  method: number | null;
+  cancelled: boolean;
+  boosts: UserBoostRow[];
+  claimable: bigint | null; // quoteClaimable (unclaimed), null when the fight is not resolved
+  historical: bigint | null; // quoteClaimableHistorical (claimed + unclaimed)
+}
+
+interface UserEventReport {
+  eventId: string;
+  claimReady: boolean;
+  fights: UserFightReport[];
+}
+
+// --json: schema booster.view-user-boosts/1, the reports above with enums as {value, name}
+export interface UserBoostsJson {
+  user: string;
+  events: {
+    eventId: string;
+    claimReady: boolean;
+    fights: (Omit<UserFightReport, "status" | "winner" | "method" | "boosts"> & {
+      status: EnumJson;
+      winner: EnumJson | null;
+      method: EnumJson | null;
+      boosts: (Omit<UserBoostRow, "predictedWinner" | "predictedMethod"> & { predictedWinner: EnumJson; predictedMethod: EnumJson })[];
+    })[];
+  }[];
+  unresolvedEventTopics: string[]; // BoostPlaced event topics missing from the event registry
+}
+
+// --csv: one row per boost, with its fight's outcome
+interface UserBoostCsvRow {
+  eventId: string;
+  fight: UserFightReport;
+  boost: UserBoostRow;
+}
+
+const BOOST_CSV: CsvColumn<UserBoostCsvRow>[] = [
+  { header: "eventId", value: (row) => row.eventId },
+  { header: "fightId", value: (row) => row.fight.fightId },
+  ...enumColumns<UserBoostCsvRow>("status", FightStatus, (row) => row.fight.status),
+  { header: "cancelled", value: (row) => row.fight.cancelled },
+  ...enumColumns<UserBoostCsvRow>("winner", Corner, (row) => row.fight.winner),
+  ...enumColumns<UserBoostCsvRow>("method", WinMethod, (row) => row.fight.method),
+  { header: "boostIndex", value: (row) => row.boost.boostIndex },
+  { header: "amount", value: (row) => row.boost.amount },
+  ...enumColumns<UserBoostCsvRow>("predictedWinner", Corner, (row) => row.boost.predictedWinner),
+  ...enumColumns<UserBoostCsvRow>("predictedMethod", WinMethod, (row) => row.boost.predictedMethod),
+  { header: "points", value: (row) => row.boost.points },
+  { header: "payout", value: (row) => row.boost.payout },
+  { header: "claimed", value: (row) => row.boost.claimed },
+];
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, true);
+  const config = await setupBoosterConfig(args);
+
+  if (!args.user || !ethers.isAddress(args.user)) throw new Error("Missing or invalid --user address");
+  const user = ethers.getAddress(args.user);
+
+  const booster = connectBooster(config.contractAddress, config.provider);
+
+  // Which events to report on
+  let eventIds: string[];
+  const unresolvedTopics: string[] = [];
+  const eventArg = args.eventId || args.event;
+  if (eventArg) {
+    eventIds = [eventArg];
+  } else {
+    const dbPath = args.db || DEFAULT_INDEX_DB_PATH;
+    const registry = loadEventRegistry({ dbPath });
+    const indexed = fs.existsSync(dbPath) ? topicsFromIndex(dbPath, config.network.chainId, config.contractAddress, user) : undefined;
+    const scanned = await topicsFromLogs(
+      config.provider,
+      config.contractAddress,
+      user,
+      indexed ? indexed.lastBlock + 1 : resolveFromBlock(args, config.networkMode),
+      args
+    );
+    const topics = [...new Set([...(indexed?.topics ?? []), ...scanned])];
+    eventIds = [];
+    for (const topic of topics) {
+      const eventId = resolveEventTopic(registry, topic);
+      if (eventId) eventIds.push(eventId);
+      else unresolvedTopics.push(topic);
+    }
+  }
+
+  const reports: UserEventReport[] = [];
+  for (const eventId of eventIds) {
+    reports.push(await buildEventReport(booster, eventId, user));
+  }
+
+  if (format === "csv") {
+    printCsv(
+      BOOST_CSV,
+      reports.flatMap((report) =>
+        report.fights.flatMap((fight) => fight.boosts.map((boost) => ({ eventId: report.eventId, fight, boost })))
+      )
+    );
+    return;
+  }
+  if (format === "json") {
+    const envelope = await jsonEnvelope("booster.view-user-boosts/1", config.network, config.provider, config.contractAddress);
+    printJson(envelope, toUserBoostsJson(user, reports, unresolvedTopics));
+    return;
+  }
+
+  console.log(`Contract: ${config.contractAddress}`);
+  console.log(`User:     ${user}`);
+  let totalOwed = 0n;
+  let totalWon = 0n;
+  for (const report of reports) {
+    console.log("\n" + "=".repeat(100));
+    console.log(`EVENT ${report.eventId} ${report.claimReady ? "(claims open)" : "(claims not open)"}`);
+    console.log("=".repeat(100));
+    if (report.fights.length === 0) {
+      console.log("  No boosts");
+      continue;
+    }
+    for (const fight of report.fights) {
+      const outcome =
+        fight.status !== FightStatus.RESOLVED
+          ? getFightStatusName(fight.status)
+          : fight.cancelled
+          ? "CANCELLED (refund)"
+          : `${getWinnerName(fight.winner!)} by ${getMethodName(fight.method!)}`;
+      console.log(`\nFight ${fight.fightId}: ${outcome}`);
+      console.log(
+        `  ${"Index".padStart(5)} ${"Amount".padStart(14)} ${"Prediction".padEnd(22)} ${"Points".padStart(6)} ${"Payout".padStart(14)}  Claimed`
+      );
+      for (const b of fight.boosts) {
+        const prediction = `${getWinnerName(b.predictedWinner)} ${getMethodName(b.predictedMethod)}`;
+        console.log(
+          `  ${b.boostIndex.toString().padStart(5)} ${b.amount.toString().padStart(14)} ${prediction.padEnd(22)} ` +
+            `${(b.points ?? "-").toString().padStart(6)} ${(b.payout ?? "-").toString().padStart(14)}  ${b.claimed ? "yes" : "no"}`
+        );
+      }
+      if (fight.claimable !== null) {
+        console.log(`  Still claimable (quoteClaimable):       ${fight.claimable}`);
+        console.log(`  Total won (quoteClaimableHistorical):   ${fight.historical}`);
+        totalOwed += fight.claimable;
+        totalWon += fight.historical ?? 0n;
+      }
+    }
+  }
+
+  if (unresolvedTopics.length > 0) {
+    console.log(`\n⚠️  Boosts found on events with unknown IDs (run index-booster.ts to resolve):`);
+    for (const topic of unresolvedTopics) console.log(`  ${topic}`);
+  }
+
+  console.log("\n" + "-".repeat(100));
+  console.log(`Total still claimable: ${totalOwed}`);
+  console.log(`Total won (all time):  ${totalWon}`);
+}
+
+async function buildEventReport(booster: BoosterContract, eventId: string, user: string): Promise<UserEventReport> {
+  const eventResult = await booster.getFunction("getEvent")(eventId);
+  if (!eventResult.exists) throw new Error(`Event "${eventId}" does not exist`);
+  const numFights = Number(eventResult.numFights);
+
+  const fights: UserFightReport[] = [];
+  for (let fightId = 1; fightId <= numFights; fightId++) {
+    const boosts = await booster.getUserBoosts(eventId, fightId, user);
+    if (boosts.length === 0) continue;
+    const indices = await booster.getUserBoostIndices(eventId, fightId, user);
+    const f = await booster.getFight(eventId, fightId);
+
+    const status = Number(f.status);
+    const resolved = status === FightStatus.RESOLVED;
+    const cancelled = f.cancelled;
+    const state: ResolvedFightState = {
+      winner: Number(f.winner),
+      method: Number(f.method),
+      bonusPool: f.bonusPool,
+      originalPool: f.originalPool,
+      sumWinnersStakes: f.sumWinnersStakes,
+      winningPoolTotalShares: f.winningPoolTotalShares,
+      pointsForWinner: f.pointsForWinner,
+      pointsForWinnerMethod: f.pointsForWinnerMethod,
+      cancelled,
+    };
+
+    const rows: UserBoostRow[] = boosts.map((b, i) => {
+      const boost = {
+        amount: b.amount,
+        predictedWinner: Number(b.predictedWinner),
+        predictedMethod: Number(b.predictedMethod),
+      };
+      const quote = resolved ? quoteBoostPayout(state, boost) : null;
+      return {
+        boostIndex: Number(indices[i]),
+        ...boost,
+        points: quote ? quote.points : null,
+        payout: quote ? quote.payout : null,
+        claimed: b.claimed,
+      };
+    });
+
+    let claimable: bigint | null = null;
+    let historical: bigint | null = null;
+    if (resolved) {
+      claimable = await booster.quoteClaimable(eventId, fightId, user, false);
+      historical = await booster.quoteClaimableHistorical(eventId, fightId, user);
+    }
+
+    fights.push({
+      fightId,
+      status,
+      winner: resolved ? state.winner : null,
+      method: resolved ? state.method : null,
+      cancelled,
+      boosts: rows,
+      claimable,
+      historical,
+    });
+  }
+
+  return { eventId, claimReady: eventResult.claimReady, fights };
+}
+
+// Event topics the user boosted on, from the local log index up to its last block; undefined when the
+// index was built for another contract or chain, or holds nothing yet
+function topicsFromIndex(
+  dbPath: string,
+  chainId: bigint,
+  contractAddress: string,
+  user: string
+): { topics: string[]; lastBlock: number } | undefined {
+  const db = openIndexDb(dbPath);
+  try {
+    const chain = getMeta(db, "chain_id");
+    const contract = getMeta(db, "contract");
+    if (chain !== chainId.toString() || contract !== ethers.getAddress(contractAddress)) {
+      console.error(`⚠️  ${dbPath} indexes ${contract ?? "no contract"} on chain ${chain ?? "?"}: scanning the logs instead`);
+      return undefined;
+    }
+    const lastBlock = getLastIndexedBlock(db);
+    if (lastBlock === undefined) return undefined;
+    const topics = getAccountLogs(db, user)
+      .filter((log) => log.eventName === "BoostPlaced")
+      .map((log) => log.eventTopic);
+    return { topics: [...new Set(topics)], lastBlock };
+  } finally {
+    db.close();
+  }
+}
+
+// Event topics the user boosted on, from BoostPlaced logs filtered on the user topic
+async function topicsFromLogs(
+  provider: ethers.Provider,
+  contractAddress: string,
+  user: string,
+  fromBlock: number,
+  args: Record<string, string>
+): Promise<string[]> {
+  const iface = new ethers.Interface(BOOSTER_ABI);
+  const logs = await getLogsInChunks(
+    provider,
+    {
+      address: contractAddress,
+      topics: [iface.getEvent("BoostPlaced")!.topicHash, null, null, ethers.zeroPadValue(user, 32)],
+    },
+    fromBlock,
+    args.toBlock ? Number(args.toBlock) : await provider.getBlockNumber(),
+    args.blockRange ? Number(args.blockRange) : undefined
+  );
+  return [...new Set(logs.map((log) => log.topics[1]))];
+}
+
+function toUserBoostsJson(user: string, reports: UserEventReport[], unresolvedTopics: string[]): UserBoostsJson {
+  const events = reports.map((report) => ({
+    ...report,
+    fights: report.fights.map((fight) => ({
+      ...fight,
+      status: enumJson(FightStatus, fight.status),
+      winner: fight.winner === null ? null : enumJson(Corner, fight.winner),
+      method: fight.method === null ? null : enumJson(WinMethod, fight.method),
+      boosts: fight.boosts.map((boost) => ({
+        ...boost,
+        predictedWinner: enumJson(Corner, boost.predictedWinner),
+        predictedMethod: enumJson(WinMethod, boost.predictedMethod),
+      })),
+    })),
+  }));
+  return { user, events, unresolvedEventTopics: unresolvedTopics };
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
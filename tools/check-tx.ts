@@ -1,26 +1,84 @@
+/**
+ * @notice Inspect a transaction: decoded call, status, revert reason and decoded logs
+ *
+ * Calldata and logs are decoded against the FP1155, Booster, DailyLottery, Staking, Deposit and FIGHT token
+ * ABIs (the network's deployments first, then by selector). Booster eventIds are resolved through the event
+ * registry and enum fields are shown with their names. A failed transaction is replayed as a call on the state
+ * before its block to recover the revert reason, which needs a node that still has that state (--rpc).
+ *
+ * @example Inspect a transaction
+ * ts-node tools/check-tx.ts 0x... --network mainnet
+ *
+ * @example Also print the raw topics and data of every log
+ * ts-node tools/check-tx.ts 0x... --network testnet --raw
+ *
+ * @example As JSON (schema tx.check-tx/1): the decoded call, the revert and the decoded events
+ * ts-node tools/check-tx.ts 0x... --network mainnet --json
+ */
 import 'dotenv/config';
 import { ethers } from 'ethers';
-import fs from 'fs';
-import path from 'path';
+import { getPositionals, parseArgs } from './cli/args';
+import { connectNetwork, formatNetwork } from './cli/networks';
+import { getOutputFormat, jsonEnvelope, printJson } from './cli/output';
+import { decodeCreateEventId, loadEventRegistry, registerEventId } from './booster/event-registry.utils';
+import {
+  contractLabel,
+  createTxDecoder,
+  decodeCall,
+  decodeLog,
+  decodeRevert,
+  formatParams,
+  paramsJson,
+  replayTransaction,
+} from './tx/inspect.utils';
 
-async function main() {
-  const txHash = process.argv[2];
-  if (!txHash) {
-    console.error('Usage: ts-node tools/check-tx.ts <tx-hash>');
-    process.exit(1);
-  }
+// --json: schema tx.check-tx/1; the envelope's contract is the transaction's target
+export interface CheckTxJson {
+  hash: string;
+  from: string;
+  to: string | null; // null for a contract creation
+  toLabel: string | null; // known deployment of the network, e.g. "Booster"
+  value: bigint;
+  nonce: number;
+  gasLimit: bigint;
+  gasPrice: bigint | null;
+  call: { name: string; abi: string; args: Record<string, unknown> } | null; // null for a transfer or an unknown selector
+  selector: string | null;
+  status: 'pending' | 'success' | 'failure';
+  blockNumber: number | null;
+  gasUsed: bigint | null;
+  revert: { reason: string; data: string | null } | null; // reason is "unknown: ..." when the replay did not tell
+  events: {
+    logIndex: number;
+    address: string;
+    addressLabel: string | null;
+    name: string | null; // null when no known ABI decodes the log
+    abi: string | null;
+    args: Record<string, unknown> | null;
+    topics: string[];
+    data: string;
+  }[];
+}
 
-  // Determine RPC URL from env
-  const rpcUrl = process.env.RPC_URL || process.env.BSC_TESTNET_RPC_URL || process.env.BSC_RPC_URL;
-  if (!rpcUrl) {
-    console.error('Missing RPC_URL env var (or BSC_TESTNET_RPC_URL / BSC_RPC_URL)');
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const [txHash] = getPositionals(argv);
+  if (!txHash) {
+    console.error('Usage: ts-node tools/check-tx.ts <tx-hash> --network <mainnet|testnet|local> [--rpc <url>] [--raw] [--json]');
     process.exit(1);
   }
+  const raw = !!args.raw;
+  const json = getOutputFormat(args, false) === 'json';
+  // Nothing but the JSON document goes to stdout with --json
+  const print = (...parts: unknown[]) => {
+    if (!json) console.log(...parts);
+  };
 
-  console.log(`Using RPC: ${rpcUrl}`);
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const { profile, rpcUrl, provider } = await connectNetwork(args);
+  print(`Network: ${formatNetwork(profile)}`);
+  print(`Using RPC: ${rpcUrl}`);
 
-  console.log(`Fetching tx: ${txHash}`);
+  print(`Fetching tx: ${txHash}`);
   let tx;
   try {
     tx = await provider.getTransaction(txHash);
@@ -34,38 +92,131 @@ async function main() {
     process.exit(1);
   }
 
-  console.log('Transaction found:');
-  console.log(`  To: ${tx.to}`);
-  console.log(`  From: ${tx.from}`);
-  console.log(`  Value: ${ethers.formatEther(tx.value)} ETH`);
-  console.log(`  Data (len): ${tx.data.length}`);
+  // Booster logs only carry keccak256(eventId): resolve it through the event registry
+  const registry = loadEventRegistry();
+  const createdEventId = decodeCreateEventId(tx.data);
+  if (createdEventId) registerEventId(registry, createdEventId);
+  const decoder = createTxDecoder(profile, registry);
+
+  const target = contractLabel(decoder, tx.to);
+  print('Transaction found:');
+  print(`  To: ${tx.to ?? '(contract creation)'}${target ? ` (${target})` : ''}`);
+  print(`  From: ${tx.from}`);
+  print(`  Value: ${ethers.formatEther(tx.value)} BNB`);
+  print(`  Nonce: ${tx.nonce}`);
+  print(`  Gas Limit: ${tx.gasLimit.toString()}`);
+  if (tx.gasPrice != null) print(`  Gas Price: ${ethers.formatUnits(tx.gasPrice, 'gwei')} gwei`);
+  print(`  Data (len): ${tx.data.length}`);
+
+  const decoded = tx.data !== '0x' ? decodeCall(decoder, tx.to, tx.data) : undefined;
+  if (decoded) {
+    const matched = decoded.abi.label === target ? '' : ` (${decoded.abi.label} ABI)`;
+    print(`\nCall: ${decoded.call.name}${matched}`);
+    for (const line of formatParams(decoder, decoded.abi, decoded.call.fragment.inputs, decoded.call.args)) {
+      print(`  ${line}`);
+    }
+  } else if (tx.data !== '0x') {
+    print(`\nCall: unknown selector ${tx.data.slice(0, 10)}`);
+  }
+
+  const report: CheckTxJson = {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    toLabel: target ?? null,
+    value: tx.value,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit,
+    gasPrice: tx.gasPrice ?? null,
+    call: decoded
+      ? { name: decoded.call.name, abi: decoded.abi.label, args: paramsJson(decoded.abi, decoded.call.fragment.inputs, decoded.call.args) }
+      : null,
+    selector: tx.data !== '0x' ? tx.data.slice(0, 10) : null,
+    status: 'pending',
+    blockNumber: null,
+    gasUsed: null,
+    revert: null,
+    events: [],
+  };
+  const printReport = async () => printJson(await jsonEnvelope('tx.check-tx/1', profile, provider, tx.to ?? ''), report);
 
-  console.log('Fetching receipt...');
+  print('\nFetching receipt...');
   const receipt = await provider.getTransactionReceipt(txHash);
   if (!receipt) {
-    console.log('Transaction is pending (no receipt found).');
+    if (json) return printReport();
+    print('Transaction is pending (no receipt found).');
     process.exit(0);
   }
 
-  console.log(`Status: ${receipt.status === 1 ? 'SUCCESS' : 'FAILURE'} (${receipt.status})`);
-  console.log(`Block: ${receipt.blockNumber}`);
-  console.log(`Gas Used: ${receipt.gasUsed.toString()}`);
+  report.status = receipt.status === 1 ? 'success' : 'failure';
+  report.blockNumber = receipt.blockNumber;
+  report.gasUsed = receipt.gasUsed;
+  print(`Status: ${receipt.status === 1 ? 'SUCCESS' : 'FAILURE'} (${receipt.status})`);
+  print(`Block: ${receipt.blockNumber}`);
+  print(`Gas Used: ${receipt.gasUsed.toString()}`);
+
+  if (receipt.status !== 1) {
+    if (receipt.gasUsed >= tx.gasLimit) {
+      report.revert = { reason: 'out of gas', data: null };
+      print(`Revert: out of gas (used the whole ${tx.gasLimit.toString()} gas limit)`);
+    } else {
+      const replay = await replayTransaction(provider, tx, receipt.blockNumber);
+      if (replay.error) {
+        report.revert = { reason: `unknown: the call could not be replayed on the state of block ${receipt.blockNumber - 1} (${replay.error})`, data: null };
+        print(`Revert: unknown, the call could not be replayed on the state of block ${receipt.blockNumber - 1} (${replay.error})`);
+        print('  An archive RPC (--rpc) keeps the state of old blocks.');
+      } else if (!replay.reverted) {
+        report.revert = { reason: `unknown: the call succeeds when replayed on the state before block ${receipt.blockNumber}`, data: null };
+        print(`Revert: unknown, the call succeeds when replayed on the state before block ${receipt.blockNumber}`);
+        print(`  (a transaction earlier in block ${receipt.blockNumber} probably changed the state it depended on)`);
+      } else {
+        report.revert = { reason: decodeRevert(decoder, tx.to, replay.data!), data: replay.data! };
+        print(`Revert: ${report.revert.reason}`);
+      }
+    }
+  }
+
+  for (const entry of receipt.logs) {
+    const event = decodeLog(decoder, entry);
+    report.events.push({
+      logIndex: entry.index,
+      address: entry.address,
+      addressLabel: contractLabel(decoder, entry.address) ?? null,
+      name: event?.event.name ?? null,
+      abi: event?.abi.label ?? null,
+      args: event ? paramsJson(event.abi, event.event.fragment.inputs, event.event.args) : null,
+      topics: [...entry.topics],
+      data: entry.data,
+    });
+  }
+  if (json) return printReport();
 
   if (receipt.logs.length > 0) {
     console.log(`\nLogs (${receipt.logs.length}):`);
-    
-    // Raw logs only as requested
+
     for (const log of receipt.logs) {
-        console.log(`  Log @ ${log.index}: ${log.address}`);
+      const source = contractLabel(decoder, log.address);
+      const event = decodeLog(decoder, log);
+      console.log(`  Log @ ${log.index}: ${log.address}${source ? ` (${source})` : ''}`);
+      if (event) {
+        console.log(`    Event: ${event.event.name}${event.abi.label === source ? '' : ` (${event.abi.label} ABI)`}`);
+        for (const line of formatParams(decoder, event.abi, event.event.fragment.inputs, event.event.args)) {
+          console.log(`      ${line}`);
+        }
+      }
+      if (!event || raw) {
         console.log(`    Topics:`, log.topics);
         console.log(`    Data:   ${log.data}`);
+      }
     }
   } else {
-      console.log('No logs emitted.');
+    console.log('No logs emitted.');
   }
 }
 
-main().catch(err => {
-  console.error(err);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
+}
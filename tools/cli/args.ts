@@ -0,0 +1,202 @@
+import { ethers } from "ethers";
+
+// Exit codes shared by every command: 0 success, 1 runtime/on-chain failure, 2 bad invocation
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+// Invalid command line (unknown command/option, missing or malformed value). Reported with exit code 2.
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * Raw `--key value` parser used by every script.
+ * Valueless flags (e.g. --yes) are treated as "true"; a repeated key keeps its last value.
+ */
+export function parseArgs(argv: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a.startsWith("--")) {
+      const key = a.slice(2);
+      const val = argv[i + 1];
+      if (val === undefined || val.startsWith("--")) {
+        out[key] = "true";
+      } else {
+        out[key] = val;
+        i++;
+      }
+    }
+  }
+  return out;
+}
+
+// Every value given for a repeatable option (e.g. --seasonId 1 --seasonId 2), under any of its names
+export function getArgValues(argv: string[], ...keys: string[]): string[] {
+  const values: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--") || !keys.includes(argv[i].slice(2))) continue;
+    const val = argv[i + 1];
+    if (val !== undefined && !val.startsWith("--")) {
+      values.push(val);
+      i++;
+    }
+  }
+  return values;
+}
+
+// Arguments that are not options or option values (e.g. the tx hash of check-tx)
+export function getPositionals(argv: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      const val = argv[i + 1];
+      if (val !== undefined && !val.startsWith("--")) i++;
+      continue;
+    }
+    out.push(argv[i]);
+  }
+  return out;
+}
+
+export type OptionType = "string" | "integer" | "bigint" | "boolean" | "flag" | "address" | "list";
+
+export interface OptionSpec {
+  name: string; // canonical name, passed to the script as --name
+  aliases?: string[];
+  type: OptionType;
+  description: string;
+  required?: boolean;
+  choices?: string[]; // accepted values (case-insensitive), for string options
+  repeatable?: boolean;
+}
+
+export interface PositionalSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface ParsedOptions {
+  values: Record<string, string[]>; // canonical name → given values (one unless repeatable)
+  positionals: string[];
+}
+
+const BOOLEAN_VALUES: Record<string, string> = {
+  true: "true",
+  false: "false",
+  yes: "true",
+  no: "false",
+  "1": "true",
+  "0": "false",
+};
+
+function normalizeValue(option: OptionSpec, raw: string): string {
+  const label = `--${option.name}`;
+  switch (option.type) {
+    case "flag":
+    case "boolean": {
+      const value = BOOLEAN_VALUES[raw.toLowerCase()];
+      if (value === undefined) throw new CliUsageError(`${label} expects true/false, got "${raw}"`);
+      return value;
+    }
+    case "integer":
+      if (!/^\d+$/.test(raw) || !Number.isSafeInteger(Number(raw))) {
+        throw new CliUsageError(`${label} expects a non-negative integer, got "${raw}"`);
+      }
+      return raw;
+    case "bigint":
+      if (!/^\d+$/.test(raw)) throw new CliUsageError(`${label} expects a non-negative integer, got "${raw}"`);
+      return raw;
+    case "address":
+      if (!ethers.isAddress(raw)) throw new CliUsageError(`${label} expects an address, got "${raw}"`);
+      return raw;
+    case "list":
+      if (raw.split(",").every((item) => item.trim() === "")) {
+        throw new CliUsageError(`${label} expects a comma-separated list, got "${raw}"`);
+      }
+      return raw;
+    default:
+      if (option.choices) {
+        const match = option.choices.find((choice) => choice.toLowerCase() === raw.toLowerCase());
+        if (!match) throw new CliUsageError(`${label} must be one of ${option.choices.join(", ")}, got "${raw}"`);
+        return match;
+      }
+      return raw;
+  }
+}
+
+/**
+ * Validate argv against a command's option specs.
+ * Aliases are mapped to canonical names; unknown options, missing required options, missing values
+ * and values of the wrong type throw a CliUsageError.
+ */
+export function parseOptions(
+  argv: string[],
+  options: OptionSpec[],
+  positionals: PositionalSpec[] = []
+): ParsedOptions {
+  const byName = new Map<string, OptionSpec>();
+  for (const option of options) {
+    byName.set(option.name, option);
+    for (const alias of option.aliases ?? []) byName.set(alias, option);
+  }
+
+  const values: Record<string, string[]> = {};
+  const rest: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) {
+      rest.push(a);
+      continue;
+    }
+    const key = a.slice(2);
+    const option = byName.get(key);
+    if (!option) throw new CliUsageError(`Unknown option --${key}`);
+
+    const next = argv[i + 1];
+    const hasValue = next !== undefined && !next.startsWith("--");
+    let raw: string;
+    if (option.type === "flag") {
+      // Flags take an explicit boolean only; anything else is left for positionals
+      raw = hasValue && next.toLowerCase() in BOOLEAN_VALUES ? argv[++i] : "true";
+    } else if (hasValue) {
+      raw = argv[++i];
+    } else {
+      throw new CliUsageError(`Missing value for --${key}`);
+    }
+
+    const value = normalizeValue(option, raw);
+    // Scripts test flags for presence, so an explicit "--flag false" is dropped
+    if (option.type === "flag" && value === "false") continue;
+    if (values[option.name] && !option.repeatable) {
+      throw new CliUsageError(`--${option.name} given more than once`);
+    }
+    (values[option.name] ??= []).push(value);
+  }
+
+  for (const option of options) {
+    if (option.required && !values[option.name]) throw new CliUsageError(`Missing required option --${option.name}`);
+  }
+  positionals.forEach((spec, i) => {
+    if (spec.required && rest[i] === undefined) throw new CliUsageError(`Missing <${spec.name}>`);
+  });
+  if (rest.length > positionals.length) {
+    throw new CliUsageError(`Unexpected argument "${rest[positionals.length]}"`);
+  }
+
+  return { values, positionals: rest };
+}
+
+// Canonical argv for a script's main(): positionals first, then every option under its canonical name
+export function toArgv(parsed: ParsedOptions): string[] {
+  const argv = [...parsed.positionals];
+  for (const [name, values] of Object.entries(parsed.values)) {
+    for (const value of values) argv.push(`--${name}`, value);
+  }
+  return argv;
+}
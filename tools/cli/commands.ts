@@ -0,0 +1,944 @@
+import { OptionSpec, PositionalSpec } from "./args";
+import { NETWORK_NAMES } from "./networks";
+import { SIGNER_BACKENDS, SIGNER_ROLES } from "../signers/signers.utils";
+
+export type CommandGroup = "fp" | "booster" | "lottery" | "staking" | "tools";
+
+export interface CommandModule {
+  main(argv: string[]): Promise<void>;
+}
+
+export interface CommandSpec {
+  group: CommandGroup;
+  name: string;
+  description: string;
+  script: string; // path of the underlying script, relative to the repo root
+  options: OptionSpec[];
+  positionals?: PositionalSpec[];
+  examples?: string[];
+  load(): Promise<CommandModule>;
+}
+
+export const GROUP_DESCRIPTIONS: Record<CommandGroup, string> = {
+  fp: "FP1155 token: balances, roles, seasons, minting and claims",
+  booster: "Booster: events, fights, results, claims and indexing",
+  lottery: "DailyLottery: entries and rounds",
+  staking: "Staking: FIGHT token staking",
+  tools: "Generic helpers: transaction inspection, pending transactions, .env checks, signers, the address book and contract bindings",
+};
+
+// ---- Shared options ----
+
+const NETWORK: OptionSpec = {
+  name: "network",
+  aliases: ["net"],
+  type: "string",
+  choices: NETWORK_NAMES,
+  description: "Network profile (RPC, chainId, contract addresses); aborts if the RPC is on another chain",
+};
+
+const RPC: OptionSpec = {
+  name: "rpc",
+  type: "string",
+  description: "RPC URL (overrides the network's RPC; without --network the network is picked by chainId)",
+};
+
+function contract(envVar: string): OptionSpec {
+  return {
+    name: "contract",
+    type: "address",
+    description: `Contract address (default: ${envVar} from .env, then the network registry)`,
+  };
+}
+
+// --network/--rpc/--contract, as resolved by connectNetwork and resolveContractAddress
+const FP_COMMON = [NETWORK, RPC, contract("<NETWORK>_FP1155_ADDRESS")];
+const BOOSTER_COMMON = [NETWORK, RPC, contract("<NETWORK>_BOOSTER_ADDRESS")];
+const LOTTERY_COMMON = [NETWORK, RPC, contract("<NETWORK>_LOTTERY_ADDRESS")];
+
+const EVENT_ID: OptionSpec = {
+  name: "eventId",
+  aliases: ["event"],
+  type: "string",
+  required: true,
+  description: "Booster event ID (e.g. ufc-324)",
+};
+
+const FIGHT_ID: OptionSpec = {
+  name: "fightId",
+  aliases: ["fight"],
+  type: "integer",
+  required: true,
+  description: "Fight ID (1-based)",
+};
+
+const SEASON_ID: OptionSpec = {
+  name: "seasonId",
+  aliases: ["season"],
+  type: "bigint",
+  required: true,
+  description: "FP season (token) ID",
+};
+
+const TO_ADDRESS: OptionSpec = {
+  name: "to",
+  aliases: ["address"],
+  type: "address",
+  required: true,
+  description: "Target address",
+};
+
+const LOG_SCAN: OptionSpec[] = [
+  { name: "fromBlock", type: "integer", description: "First block to scan for logs (default: <NETWORK>_BOOSTER_FROM_BLOCK)" },
+  { name: "toBlock", type: "integer", description: "Last block to scan for logs (default: latest)" },
+  { name: "blockRange", type: "integer", description: "Blocks per eth_getLogs request (halved on RPC range errors)" },
+];
+
+// Signer of the command's role(s), as resolved by loadSigner (tools/signers/signers.utils.ts)
+const SIGNER: OptionSpec[] = [
+  {
+    name: "signer",
+    type: "string",
+    choices: SIGNER_BACKENDS,
+    description: "Signer backend: keystore, remote, or env for a plaintext .env key (default: <ROLE>_SIGNER / SIGNER)",
+  },
+  { name: "keystore", type: "string", description: "Encrypted JSON keystore (default: <ROLE>_KEYSTORE / KEYSTORE)" },
+  { name: "passwordFile", type: "string", description: "File with the keystore passphrase (default: prompt)" },
+  { name: "signerUrl", type: "string", description: "Remote signer JSON-RPC URL (default: <ROLE>_SIGNER_URL / SIGNER_URL)" },
+  { name: "signerAddress", type: "address", description: "Remote signer account (default: its only eth_accounts entry)" },
+  { name: "signerToken", type: "string", description: "Remote signer bearer token (default: <ROLE>_SIGNER_TOKEN / SIGNER_TOKEN)" },
+];
+
+// --export safe: write a Safe Transaction Builder batch instead of sending (tools/safe/safe-batch.utils.ts)
+const SAFE_EXPORT: OptionSpec[] = [
+  { name: "export", type: "string", choices: ["safe"], description: "Write a Safe Transaction Builder batch instead of sending" },
+  { name: "safe", type: "address", description: "Safe that will execute the batch, used to simulate each call (default: <NETWORK>_SAFE_ADDRESS)" },
+  { name: "exportFile", type: "string", description: "Batch file (default: safe-batches/<command>-<network>-<timestamp>.json)" },
+];
+
+// Managed send pipeline (tools/tx/send.utils.ts); prices in gwei, defaults from the network profile
+const SEND: OptionSpec[] = [
+  { name: "gasPrice", type: "string", description: "Fixed gas price in gwei (default: the node's price, within the cap)" },
+  { name: "maxGasPrice", type: "string", description: "Gas price cap in gwei, speed-ups included (default: <NETWORK>_MAX_GAS_PRICE_GWEI, then the network's)" },
+  { name: "confirmations", type: "integer", description: "Confirmations to wait for (default: <NETWORK>_TX_CONFIRMATIONS, then the network's)" },
+  { name: "stuckAfter", type: "integer", description: "Seconds before a pending transaction is sped up (default: 45)" },
+  { name: "txJournal", type: "string", description: "Send journal (default: tx-journal/<network>-<address>.jsonl)" },
+];
+
+// Operation journal of multi-step commands (tools/tx/operation-journal.utils.ts)
+const RESUME: OptionSpec = {
+  name: "resume",
+  type: "string",
+  description: "Continue an interrupted run from its operation journal (operations/<command>-<network>-<timestamp>.jsonl)",
+};
+
+// Machine-readable output of read commands (tools/cli/output.ts)
+const JSON_OUTPUT: OptionSpec = { name: "json", type: "flag", description: "Print JSON with a versioned schema instead of text" };
+const TABLE_OUTPUT: OptionSpec[] = [JSON_OUTPUT, { name: "csv", type: "flag", description: "Print CSV rows instead of text" }];
+
+const YES: OptionSpec = { name: "yes", type: "flag", description: "Skip the confirmation prompt" };
+
+const RESOLUTIONS_FILE: OptionSpec = {
+  name: "file",
+  type: "string",
+  description: "Resolutions JSON file (default: tools/booster/batch-submit/resolutions.json)",
+};
+
+function grantRoleCommand(name: string, role: string, load: () => Promise<CommandModule>): CommandSpec {
+  return {
+    group: "fp",
+    name,
+    description: `Grant ${role} to an address in the FP1155 contract`,
+    script: `tools/fp/${name}.ts`,
+    options: [...FP_COMMON, TO_ADDRESS, ...SIGNER, ...SAFE_EXPORT, ...SEND],
+    examples: [`fp fp ${name} --network testnet --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8`],
+    load,
+  };
+}
+
+// ---- Registry ----
+
+export const COMMANDS: CommandSpec[] = [
+  // fp
+  {
+    group: "fp",
+    name: "balance",
+    description: "Check the FP balance of a wallet for a season (or the season of a Booster event)",
+    script: "tools/fp/balance.ts",
+    options: [
+      ...FP_COMMON,
+      { name: "to", aliases: ["address", "wallet"], type: "address", required: true, description: "Wallet address" },
+      { ...SEASON_ID, type: "string", description: "Season ID, or a Booster event ID to read its season" },
+      JSON_OUTPUT,
+    ],
+    examples: ["fp fp balance --network mainnet --to 0x4a40e8d757d7fb82825fe6be75a7f6aee733290d --seasonId 323"],
+    load: () => import("../fp/balance"),
+  },
+  {
+    group: "fp",
+    name: "check-roles",
+    description: "Check which roles an address has in the FP1155 contract",
+    script: "tools/fp/check-roles.ts",
+    options: [...FP_COMMON, TO_ADDRESS, ...TABLE_OUTPUT],
+    examples: ["fp fp check-roles --network testnet --address 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8"],
+    load: () => import("../fp/check-roles"),
+  },
+  {
+    group: "fp",
+    name: "claim",
+    description: "Sign and execute an FP claim with the user (or operator) signer; not available on mainnet",
+    script: "tools/fp/claim.ts",
+    options: [
+      { ...NETWORK, description: `${NETWORK.description} (default: testnet)` },
+      RPC,
+      contract("<NETWORK>_FP1155_ADDRESS"),
+      SEASON_ID,
+      { name: "amount", type: "bigint", required: true, description: "Amount to claim" },
+      { name: "deadline", type: "bigint", description: "Signature deadline (default: now + 1 day)" },
+      { name: "operator", aliases: ["op"], type: "flag", description: "Claim with the operator signer instead of the user signer" },
+      ...SIGNER,
+      ...SEND,
+    ],
+    examples: ["fp fp claim --season 323 --amount 1000", "fp fp claim --operator --season 323 --amount 1000"],
+    load: () => import("../fp/claim"),
+  },
+  grantRoleCommand("grant-claim-signer-role", "CLAIM_SIGNER_ROLE", () => import("../fp/grant-claim-signer-role")),
+  grantRoleCommand("grant-minter-role", "MINTER_ROLE", () => import("../fp/grant-minter-role")),
+  grantRoleCommand("grant-season-admin", "SEASON_ADMIN_ROLE", () => import("../fp/grant-season-admin")),
+  grantRoleCommand("grant-transfer-agent-role", "TRANSFER_AGENT_ROLE", () => import("../fp/grant-transfer-agent-role")),
+  {
+    group: "fp",
+    name: "mint",
+    description: "Mint FP tokens of a season to an address",
+    script: "tools/fp/mint.ts",
+    options: [...FP_COMMON, TO_ADDRESS, SEASON_ID, { name: "amount", type: "bigint", required: true, description: "Amount to mint" }, ...SIGNER, ...SAFE_EXPORT, ...SEND],
+    examples: ["fp fp mint --network testnet --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8 --seasonId 323 --amount 1000"],
+    load: () => import("../fp/mint"),
+  },
+  {
+    group: "fp",
+    name: "airdrop",
+    description: "Mint FP to many recipients from a CSV/JSON file, resumable, with a balanceOf reconciliation",
+    script: "tools/fp/airdrop.ts",
+    options: [
+      ...FP_COMMON,
+      { name: "file", type: "string", required: true, description: "Airdrop rows: CSV (account,seasonId,amount) or JSON array" },
+      { name: "maxGas", type: "bigint", description: "Gas ceiling per transaction or Safe batch (default: 10000000)" },
+      { name: "inFlight", type: "integer", description: "Transactions pending at once before waiting for the oldest (default: 10)" },
+      { name: "dryRun", type: "flag", description: "Print the plan and the transaction count without minting" },
+      YES,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+      RESUME,
+    ],
+    examples: [
+      "fp fp airdrop --network testnet --file rewards-323.csv --dryRun",
+      "fp fp airdrop --network mainnet --file rewards-323.csv --resume operations/airdrop-mainnet-20260301-120000.jsonl",
+    ],
+    load: () => import("../fp/airdrop"),
+  },
+  {
+    group: "fp",
+    name: "manage-seasons",
+    description: "List every season with its status, supply and holders; lock seasons nothing depends on anymore",
+    script: "tools/fp/manage-seasons.ts",
+    options: [
+      ...FP_COMMON,
+      { name: "booster", type: "address", description: "Booster address (default: <NETWORK>_BOOSTER_ADDRESS, then the registry)" },
+      { name: "lottery", type: "address", description: "DailyLottery address (default: <NETWORK>_LOTTERY_ADDRESS, then the registry)" },
+      {
+        name: "fromBlock",
+        type: "integer",
+        description: "First block to scan for logs (default: <NETWORK>_FP1155_FROM_BLOCK / <NETWORK>_BOOSTER_FROM_BLOCK)",
+      },
+      LOG_SCAN[1],
+      LOG_SCAN[2],
+      { name: "lock", type: "list", description: "Season ID or comma-separated IDs to lock once nothing depends on them" },
+      YES,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+      RESUME,
+      ...TABLE_OUTPUT,
+    ],
+    examples: ["fp fp manage-seasons --network mainnet", "fp fp manage-seasons --network mainnet --lock 321,322 --export safe"],
+    load: () => import("../fp/manage-seasons"),
+  },
+  {
+    group: "fp",
+    name: "set-allowlist",
+    description: "Add or remove an address from the FP1155 transfer allowlist",
+    script: "tools/fp/set-allowlist.ts",
+    options: [
+      ...FP_COMMON,
+      { ...TO_ADDRESS, name: "address", aliases: ["to"] },
+      { name: "allowed", aliases: ["allow"], type: "boolean", required: true, description: "true to allow, false to remove" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp fp set-allowlist --network testnet --address 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8 --allowed true"],
+    load: () => import("../fp/set-allowlist"),
+  },
+  {
+    group: "fp",
+    name: "set-season-status",
+    description: "Set a season OPEN or LOCKED",
+    script: "tools/fp/set-season-status.ts",
+    options: [
+      ...FP_COMMON,
+      SEASON_ID,
+      { name: "status", type: "string", choices: ["open", "locked"], required: true, description: "New season status" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp fp set-season-status --network testnet --seasonId 323 --status locked"],
+    load: () => import("../fp/set-season-status"),
+  },
+  {
+    group: "fp",
+    name: "sign-claim",
+    description: "Sign an EIP-712 claim voucher with the claim signer",
+    script: "tools/fp/sign-claim.ts",
+    options: [
+      ...FP_COMMON,
+      { name: "user", type: "address", required: true, description: "Address that will submit the claim" },
+      { name: "season", type: "bigint", required: true, description: "FP season (token) ID" },
+      { name: "amount", type: "bigint", required: true, description: "Amount to claim" },
+      { name: "deadline", type: "bigint", required: true, description: "Unix timestamp after which the voucher expires" },
+      { name: "ledger", type: "string", description: "Ledger of signed vouchers (default: vouchers/claims-<network>.ledger.jsonl)" },
+      ...SIGNER,
+    ],
+    examples: ["fp fp sign-claim --network testnet --user 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8 --season 323 --amount 1000 --deadline 1772323200"],
+    load: () => import("../fp/sign-claim"),
+  },
+  {
+    group: "fp",
+    name: "sign-claims",
+    description: "Sign a batch of claim vouchers from a CSV/JSON file, with sequential nonces per account",
+    script: "tools/fp/sign-claims.ts",
+    options: [
+      ...FP_COMMON,
+      { name: "file", type: "string", required: true, description: "Claim requests: CSV (account,seasonId,amount,deadline) or JSON array" },
+      { name: "out", type: "string", description: "Voucher file (default: vouchers/claims-<network>-<timestamp>.json)" },
+      { name: "ledger", type: "string", description: "Ledger of signed vouchers (default: vouchers/claims-<network>.ledger.jsonl)" },
+      { name: "dryRun", type: "flag", description: "Print the nonce plan without signing" },
+      ...SIGNER,
+    ],
+    examples: ["fp fp sign-claims --network testnet --file claims.csv", "fp fp sign-claims --network mainnet --file claims.json --dryRun"],
+    load: () => import("../fp/sign-claims"),
+  },
+  {
+    group: "fp",
+    name: "verify-claim",
+    description: "Explain whether a claim or free-entry voucher will be accepted, and why not",
+    script: "tools/fp/verify-claim.ts",
+    options: [
+      NETWORK,
+      RPC,
+      {
+        name: "contract",
+        type: "address",
+        description: "FP1155 (DailyLottery for free entries) address (default: <NETWORK>_FP1155_ADDRESS / <NETWORK>_LOTTERY_ADDRESS, then the registry)",
+      },
+      { name: "voucher", type: "string", description: "Voucher JSON file or inline JSON (sign-claim output, service response or sign-claims file)" },
+      { name: "account", type: "address", description: "Voucher account (required to pick a voucher of a sign-claims file)" },
+      { name: "seasonId", type: "bigint", description: "Claim season ID" },
+      { name: "amount", type: "bigint", description: "Claim amount" },
+      { name: "nonce", type: "bigint", description: "Voucher nonce" },
+      { name: "deadline", type: "bigint", description: "Claim deadline" },
+      { name: "dayId", type: "bigint", description: "Free-entry lottery day" },
+      { name: "signature", aliases: ["sig"], type: "string", description: "Voucher signature" },
+      { name: "freeEntry", type: "flag", description: "Verify a DailyLottery free-entry voucher" },
+      JSON_OUTPUT,
+    ],
+    examples: [
+      "fp fp verify-claim --network mainnet --voucher voucher.json",
+      "fp fp verify-claim --network testnet --account 0x... --seasonId 323 --amount 100 --nonce 4 --deadline 1772323200 --signature 0x...",
+    ],
+    load: () => import("../fp/verify-claim"),
+  },
+  {
+    group: "fp",
+    name: "submit-claim",
+    description: "Submit a signed claim voucher with the user signer",
+    script: "tools/submit-claim.ts",
+    options: [
+      ...FP_COMMON,
+      { name: "season", type: "bigint", required: true, description: "FP season (token) ID" },
+      { name: "amount", type: "bigint", required: true, description: "Amount to claim" },
+      { name: "deadline", type: "bigint", required: true, description: "Voucher deadline" },
+      { name: "sig", aliases: ["signature"], type: "string", required: true, description: "Voucher signature" },
+      ...SIGNER,
+      ...SEND,
+    ],
+    examples: ["fp fp submit-claim --network testnet --season 323 --amount 1000 --deadline 1772323200 --sig 0x..."],
+    load: () => import("../submit-claim"),
+  },
+  {
+    group: "fp",
+    name: "transfer",
+    description: "Transfer FP tokens of a season",
+    script: "tools/fp/transfer.ts",
+    options: [...FP_COMMON, TO_ADDRESS, SEASON_ID, { name: "amount", type: "bigint", required: true, description: "Amount to transfer" }, ...SIGNER, ...SAFE_EXPORT, ...SEND],
+    examples: ["fp fp transfer --network testnet --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8 --seasonId 323 --amount 100"],
+    load: () => import("../fp/transfer"),
+  },
+  {
+    group: "fp",
+    name: "view-season",
+    description: "View the status of one or more seasons",
+    script: "tools/fp/view-season.ts",
+    options: [...FP_COMMON, { ...SEASON_ID, repeatable: true, description: "Season ID (repeat for several seasons)" }, ...TABLE_OUTPUT],
+    examples: ["fp fp view-season --network testnet --seasonId 323 --seasonId 322"],
+    load: () => import("../fp/view-season"),
+  },
+
+  // booster
+  {
+    group: "booster",
+    name: "cancel-fight",
+    description: "Cancel one or more fights (no contest, full refunds)",
+    script: "tools/booster/cancel-fight.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "fightId", aliases: ["fight", "fightIds"], type: "list", required: true, description: "Fight ID or comma-separated IDs" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+      RESUME,
+    ],
+    examples: ["fp booster cancel-fight --network testnet --eventId ufc-324 --fightId 7", "fp booster cancel-fight --network mainnet --eventId ufc-323 --fightIds 1,2,3"],
+    load: () => import("../booster/cancel-fight"),
+  },
+  {
+    group: "booster",
+    name: "check-event-fights",
+    description: "List the fights of an event with their raw status (getEventFights)",
+    script: "tools/booster/check-event-fights.ts",
+    options: [...BOOSTER_COMMON, ...TABLE_OUTPUT],
+    positionals: [{ name: "eventId", description: "Booster event ID", required: true }],
+    examples: ["fp booster check-event-fights ufc-324 --network mainnet", "fp booster check-event-fights ufc-324 --network testnet --json"],
+    load: () => import("../booster/check-event-fights"),
+  },
+  {
+    group: "booster",
+    name: "check-roles",
+    description: "Check which roles an address has in the Booster contract",
+    script: "tools/booster/check-roles.ts",
+    options: [...BOOSTER_COMMON, TO_ADDRESS, ...TABLE_OUTPUT],
+    examples: ["fp booster check-roles --network testnet --address 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8"],
+    load: () => import("../booster/check-roles"),
+  },
+  {
+    group: "booster",
+    name: "claim-rewards",
+    description: "Claim every unclaimed winning or refundable boost of the user signer's wallet for an event",
+    script: "tools/booster/claim-rewards.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "user", type: "address", description: "Wallet to inspect (default: the user signer's wallet)" },
+      { name: "dryRun", type: "flag", description: "Only list what would be claimed" },
+      { name: "maxGas", type: "bigint", description: "Gas ceiling per transaction (default: 3000000)" },
+      YES,
+      ...SIGNER,
+      ...SEND,
+    ],
+    examples: ["fp booster claim-rewards --network mainnet --eventId ufc-324", "fp booster claim-rewards --network mainnet --eventId ufc-324 --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3 --dryRun"],
+    load: () => import("../booster/claim-rewards"),
+  },
+  {
+    group: "booster",
+    name: "compute-resolutions",
+    description: "Fill in sumWinnersStakes/winningPoolTotalShares of a resolutions file from on-chain boosts",
+    script: "tools/booster/batch-submit/compute-resolutions.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      { ...EVENT_ID, required: false, description: "Event ID (default: eventId of the file)" },
+      RESOLUTIONS_FILE,
+      { name: "out", type: "string", description: "Output file (default: overwrite --file)" },
+      ...LOG_SCAN,
+      YES,
+    ],
+    examples: ["fp booster compute-resolutions --network mainnet --file tools/booster/batch-submit/resolutions.json"],
+    load: () => import("../booster/batch-submit/compute-resolutions"),
+  },
+  {
+    group: "booster",
+    name: "create-event",
+    description: "Create an event with its fights",
+    script: "tools/booster/create-event.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "numFights", aliases: ["fights"], type: "integer", required: true, description: "Number of fights" },
+      SEASON_ID,
+      { name: "defaultBoostCutoff", aliases: ["cutoff"], type: "bigint", required: true, description: "Unix timestamp after which boosts are rejected" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster create-event --network testnet --eventId ufc-325 --numFights 10 --seasonId 325 --defaultBoostCutoff 1769896800"],
+    load: () => import("../booster/create-event"),
+  },
+  {
+    group: "booster",
+    name: "deposit-bonus",
+    description: "Deposit bonus FP into a fight's prize pool",
+    script: "tools/booster/deposit-bonus.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      FIGHT_ID,
+      { name: "amount", type: "bigint", required: true, description: "Bonus amount (wei)" },
+      { name: "force", type: "flag", description: "Deposit even if the fight is already RESOLVED" },
+      YES,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster deposit-bonus --network testnet --eventId UFC_300 --fightId 1 --amount 5000000000000000000"],
+    load: () => import("../booster/deposit-bonus"),
+  },
+  {
+    group: "booster",
+    name: "diff-results",
+    description: "Diff a resolutions file against the results already submitted on-chain",
+    script: "tools/booster/batch-submit/diff-results.ts",
+    options: [...BOOSTER_COMMON, RESOLUTIONS_FILE],
+    examples: ["fp booster diff-results --network mainnet"],
+    load: () => import("../booster/batch-submit/diff-results"),
+  },
+  {
+    group: "booster",
+    name: "grant-operator-role",
+    description: "Grant OPERATOR_ROLE to an address in the Booster contract",
+    script: "tools/booster/grant-operator-role.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      TO_ADDRESS,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster grant-operator-role --network testnet --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8"],
+    load: () => import("../booster/grant-operator-role"),
+  },
+  {
+    group: "booster",
+    name: "index",
+    description: "Incrementally index Booster logs into a local SQLite database",
+    script: "tools/booster/indexer/index-booster.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      { name: "db", type: "string", description: "Database file (default: tools/booster/indexer/booster-index.sqlite)" },
+      ...LOG_SCAN,
+      { name: "window", type: "integer", description: "Blocks committed per step (default: 50000)" },
+      { name: "confirmations", type: "integer", description: "Blocks to stay behind the head" },
+    ],
+    examples: ["fp booster index --network mainnet", "fp booster index --network mainnet --confirmations 15"],
+    load: () => import("../booster/indexer/index-booster"),
+  },
+  {
+    group: "booster",
+    name: "purge-event",
+    description: "Preview and sweep the unclaimed funds of an event after its claim deadline",
+    script: "tools/booster/purge-event.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "recipient", type: "address", description: "Address receiving the swept funds (required unless --preview)" },
+      { name: "preview", type: "flag", description: "Only show what would be swept" },
+      ...LOG_SCAN,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster purge-event --network mainnet --eventId ufc-324 --preview"],
+    load: () => import("../booster/purge-event"),
+  },
+  {
+    group: "booster",
+    name: "set-event-boost-cutoff",
+    description: "Set the boost cutoff for every unresolved fight of an event",
+    script: "tools/booster/set-event-boost-cutoff.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "cutoff", aliases: ["timestamp"], type: "bigint", required: true, description: "Unix timestamp (0 disables the cutoff)" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster set-event-boost-cutoff --network testnet --eventId UFC_300 --cutoff 1704067200"],
+    load: () => import("../booster/set-event-boost-cutoff"),
+  },
+  {
+    group: "booster",
+    name: "set-event-claim-deadline",
+    description: "Set the claim deadline of one or more events",
+    script: "tools/booster/set-event-claim-deadline.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      { ...EVENT_ID, aliases: ["event", "events"], type: "list", description: "Event ID or comma-separated IDs" },
+      {
+        name: "deadline",
+        type: "string",
+        required: true,
+        description: 'ISO date, unix timestamp, +30d, "+30d from claim ready", or none',
+      },
+      ...LOG_SCAN,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+      RESUME,
+    ],
+    examples: ['fp booster set-event-claim-deadline --network mainnet --events ufc-323,ufc-324 --deadline "+30d from claim ready"'],
+    load: () => import("../booster/set-event-claim-deadline"),
+  },
+  {
+    group: "booster",
+    name: "set-event-claim-ready",
+    description: "Audit an event and mark it ready (or not ready) for claims",
+    script: "tools/booster/set-event-claim-ready.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "ready", aliases: ["claimReady"], type: "boolean", description: "Claim ready flag to set" },
+      { name: "audit", type: "flag", description: "Only run the readiness audit (exit 1 when it fails)" },
+      { name: "override", type: "string", description: "Reason for sending despite a failing audit" },
+      ...LOG_SCAN,
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster set-event-claim-ready --network mainnet --eventId ufc-324 --audit", "fp booster set-event-claim-ready --network mainnet --eventId ufc-324 --ready true"],
+    load: () => import("../booster/set-event-claim-ready"),
+  },
+  {
+    group: "booster",
+    name: "set-fight-boost-cutoff",
+    description: "Set the boost cutoff of a single fight",
+    script: "tools/booster/set-fight-boost-cutoff.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      FIGHT_ID,
+      { name: "cutoff", aliases: ["timestamp"], type: "bigint", required: true, description: "Unix timestamp (0 disables the cutoff)" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster set-fight-boost-cutoff --network testnet --eventId UFC_300 --fightId 1 --cutoff 1704067200"],
+    load: () => import("../booster/set-fight-boost-cutoff"),
+  },
+  {
+    group: "booster",
+    name: "set-min-boost-amount",
+    description: "Set the minimum boost amount",
+    script: "tools/booster/set-min-boost-amount.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      { name: "amount", aliases: ["min"], type: "bigint", required: true, description: "Minimum boost (wei, 0 disables)" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: ["fp booster set-min-boost-amount --network testnet --amount 1000000000000000000"],
+    load: () => import("../booster/set-min-boost-amount"),
+  },
+  {
+    group: "booster",
+    name: "submit-batch-results",
+    description: "Validate, simulate and submit the fight results of a resolutions file",
+    script: "tools/booster/batch-submit/submit-batch-results.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      RESOLUTIONS_FILE,
+      { name: "diff", type: "flag", description: "Only print the differences with on-chain results" },
+      { name: "all", type: "flag", description: "Submit every fight, not only changed ones" },
+      { name: "simulate", type: "flag", description: "Print the payout simulation without submitting" },
+      { name: "skipRecompute", type: "flag", description: "Skip the boost-log recomputation check" },
+      LOG_SCAN[0],
+      LOG_SCAN[2],
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+      RESUME,
+    ],
+    examples: ["fp booster submit-batch-results --network mainnet --diff", "fp booster submit-batch-results --network mainnet"],
+    load: () => import("../booster/batch-submit/submit-batch-results"),
+  },
+  {
+    group: "booster",
+    name: "submit-fight-result",
+    description: "Submit a single fight result with its points and shares",
+    script: "tools/booster/submit-fight-result.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      FIGHT_ID,
+      { name: "winner", type: "string", required: true, description: "RED, BLUE, NONE (or 0-2)" },
+      { name: "method", type: "string", required: true, description: "KNOCKOUT, SUBMISSION, DECISION, NO_CONTEST (or 0-3)" },
+      { name: "pointsForWinner", aliases: ["pointsWinner"], type: "bigint", required: true, description: "Points for the correct winner" },
+      { name: "pointsForWinnerMethod", aliases: ["pointsMethod"], type: "bigint", required: true, description: "Points for winner and method" },
+      { name: "sumWinnersStakes", aliases: ["sumStakes"], type: "bigint", required: true, description: "Sum of winning stakes" },
+      { name: "winningPoolTotalShares", aliases: ["totalShares"], type: "bigint", required: true, description: "Total winning shares" },
+      ...SIGNER,
+      ...SAFE_EXPORT,
+      ...SEND,
+    ],
+    examples: [
+      "fp booster submit-fight-result --network testnet --eventId UFC_300 --fightId 1 --winner RED --method KNOCKOUT --pointsForWinner 10 --pointsForWinnerMethod 20 --sumWinnersStakes 10000000000000000000 --winningPoolTotalShares 200000000000000000000",
+    ],
+    load: () => import("../booster/submit-fight-result"),
+  },
+  {
+    group: "booster",
+    name: "view-event",
+    description: "View an event and its fights",
+    script: "tools/booster/view-event.ts",
+    options: [...BOOSTER_COMMON, EVENT_ID, { ...FIGHT_ID, required: false, description: "Only show this fight" }, ...TABLE_OUTPUT],
+    examples: ["fp booster view-event --network mainnet --eventId ufc-324"],
+    load: () => import("../booster/view-event"),
+  },
+  {
+    group: "booster",
+    name: "view-fight-stakes",
+    description: "View the total stakes of a fight",
+    script: "tools/booster/view-fight-stakes.ts",
+    options: [...BOOSTER_COMMON, EVENT_ID, FIGHT_ID, JSON_OUTPUT],
+    examples: ["fp booster view-fight-stakes --network testnet --eventId ufc-323 --fightId 1"],
+    load: () => import("../booster/view-fight-stakes"),
+  },
+  {
+    group: "booster",
+    name: "view-quote-claimable",
+    description: "View a user's claimable quote over a range of fights",
+    script: "tools/booster/view-quote-claimable.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      EVENT_ID,
+      { name: "user", type: "address", required: true, description: "User address" },
+      { name: "start", type: "integer", description: "First fight (default: 1)" },
+      { name: "end", type: "integer", description: "Last fight (default: 10)" },
+      ...TABLE_OUTPUT,
+    ],
+    examples: ["fp booster view-quote-claimable --network mainnet --eventId ufc-324 --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3"],
+    load: () => import("../booster/view-quote-claimable"),
+  },
+  {
+    group: "booster",
+    name: "view-user-boosts",
+    description: "View a user's boost history and claim status",
+    script: "tools/booster/view-user-boosts.ts",
+    options: [
+      ...BOOSTER_COMMON,
+      { name: "user", type: "address", required: true, description: "User address" },
+      { ...EVENT_ID, required: false, description: "Only this event (default: every event the user boosted)" },
+      ...TABLE_OUTPUT,
+      { name: "db", type: "string", description: "Index database used to find the user's events, when built for this contract and chain" },
+      ...LOG_SCAN,
+    ],
+    examples: ["fp booster view-user-boosts --network mainnet --user 0x078Fb5219dD6b416408A10Dc4aD78565E1642bB3 --json"],
+    load: () => import("../booster/view-user-boosts"),
+  },
+
+  // lottery
+  {
+    group: "lottery",
+    name: "buy-entry",
+    description: "Buy an entry in today's DailyLottery round",
+    script: "tools/lottery/buy-entry.ts",
+    options: [...LOTTERY_COMMON, ...SIGNER, ...SEND],
+    examples: ["fp lottery buy-entry --network testnet"],
+    load: () => import("../lottery/buy-entry"),
+  },
+  {
+    group: "lottery",
+    name: "view-entries",
+    description: "View the entries and round info of a lottery day",
+    script: "tools/lottery/view-entries.ts",
+    options: [
+      ...LOTTERY_COMMON,
+      { name: "dayId", type: "bigint", description: "Lottery day (default: today)" },
+      JSON_OUTPUT,
+    ],
+    examples: ["fp lottery view-entries --network testnet", "fp lottery view-entries --network testnet --dayId 20505"],
+    load: () => import("../lottery/view-entries"),
+  },
+
+  // staking
+  {
+    group: "staking",
+    name: "mint-fight",
+    description: "Mint FIGHT test tokens",
+    script: "tools/staking/mint-fight.ts",
+    options: [
+      NETWORK,
+      RPC,
+      { ...contract("<NETWORK>_FIGHT_TOKEN_ADDRESS"), aliases: ["fight"] },
+      { ...TO_ADDRESS, required: false, description: "Recipient (default: test wallet)" },
+      { name: "amount", type: "string", required: true, description: "Amount in tokens (decimals applied)" },
+      ...SIGNER,
+      ...SEND,
+    ],
+    examples: ["fp staking mint-fight --network testnet --amount 1000000"],
+    load: () => import("../staking/mint-fight"),
+  },
+  {
+    group: "staking",
+    name: "stake",
+    description: "Stake or unstake FIGHT tokens, or show the staked balance",
+    script: "tools/staking/stake.ts",
+    options: [
+      NETWORK,
+      RPC,
+      { ...contract("<NETWORK>_STAKING_ADDRESS"), aliases: ["staking"] },
+      { name: "action", type: "string", choices: ["stake", "unstake", "balance"], required: true, description: "What to do" },
+      { name: "amount", type: "string", description: "Amount in tokens (required for stake/unstake)" },
+      ...SIGNER,
+      ...SEND,
+    ],
+    examples: ["fp staking stake --network testnet --action stake --amount 100", "fp staking stake --network testnet --action balance"],
+    load: () => import("../staking/stake"),
+  },
+
+  // tools
+  {
+    group: "tools",
+    name: "address-book",
+    description: "Regenerate the address book and DEPLOYMENT.md tables from broadcast/*/run-latest.json",
+    script: "tools/deployments/generate-address-book.ts",
+    options: [
+      { name: "check", type: "flag", description: "Only check that the generated files are up to date (exit 1 if not)" },
+      { name: "broadcast", type: "string", description: "Foundry broadcast directory (default: broadcast)" },
+      { name: "out", type: "string", description: "Generated module (default: tools/deployments/address-book.ts)" },
+      { name: "doc", type: "string", description: "Markdown file with the address tables (default: DEPLOYMENT.md)" },
+    ],
+    examples: ["fp tools address-book", "fp tools address-book --check"],
+    load: () => import("../deployments/generate-address-book"),
+  },
+  {
+    group: "tools",
+    name: "bindings",
+    description: "Regenerate the typed contract bindings in tools/contracts/ from the Foundry artifacts",
+    script: "tools/contracts/generate-bindings.ts",
+    options: [
+      { name: "check", type: "flag", description: "Only check that the bindings are up to date (exit 1 if not)" },
+      { name: "artifacts", type: "string", description: "Foundry output directory (default: out)" },
+      { name: "src", type: "string", description: "Solidity sources, read for enum names (default: src)" },
+    ],
+    examples: ["fp tools bindings", "fp tools bindings --check"],
+    load: () => import("../contracts/generate-bindings"),
+  },
+  {
+    group: "tools",
+    name: "check-tx",
+    description: "Decode a transaction's call, revert reason and logs",
+    script: "tools/check-tx.ts",
+    options: [NETWORK, RPC, { name: "raw", type: "flag", description: "Also print the raw topics and data of decoded logs" }, JSON_OUTPUT],
+    positionals: [{ name: "txHash", description: "Transaction hash", required: true }],
+    examples: ["fp tools check-tx 0x... --network mainnet"],
+    load: () => import("../check-tx"),
+  },
+  {
+    group: "tools",
+    name: "create-keystore",
+    description: "Encrypt a private key into a JSON keystore for --signer keystore",
+    script: "tools/signers/create-keystore.ts",
+    options: [
+      { name: "out", type: "string", required: true, description: "Keystore file to write" },
+      { name: "fromEnv", type: "string", description: "Read the key from this .env variable (e.g. OPERATOR_PK) instead of a prompt" },
+      { name: "random", type: "flag", description: "Generate a new key" },
+      { name: "passwordFile", type: "string", description: "File with the passphrase (default: prompt twice)" },
+      { name: "force", type: "flag", description: "Overwrite an existing file" },
+    ],
+    examples: ["fp tools create-keystore --out keystores/operator.json --fromEnv OPERATOR_PK", "fp tools create-keystore --out keystores/claim-signer.json --random"],
+    load: () => import("../signers/create-keystore"),
+  },
+  {
+    group: "tools",
+    name: "pending-txs",
+    description: "List a signer's pending transactions from its send journal; speed one up or cancel it",
+    script: "tools/tx/pending-txs.ts",
+    options: [
+      NETWORK,
+      RPC,
+      { name: "role", type: "string", choices: Object.keys(SIGNER_ROLES), description: "Role whose journal is read (default: operator)" },
+      { name: "speedUp", type: "integer", description: "Nonce to resend now at a higher gas price" },
+      { name: "cancel", type: "integer", description: "Nonce to replace with a zero-value transfer to self" },
+      ...SIGNER,
+      ...SEND,
+    ],
+    examples: ["fp tools pending-txs --network mainnet --role operator", "fp tools pending-txs --network mainnet --role operator --cancel 812"],
+    load: () => import("../tx/pending-txs"),
+  },
+  {
+    group: "tools",
+    name: "serve-remote-signer",
+    description: "Serve a local key over JSON-RPC as a stand-in for a remote signer",
+    script: "tools/signers/serve-remote-signer.ts",
+    options: [
+      { ...NETWORK, description: "Network whose chainId is the only one signed for" },
+      { name: "role", type: "string", choices: Object.keys(SIGNER_ROLES), description: "Role whose key is served (default: operator)" },
+      { name: "port", type: "integer", description: "Port (default: 8550)" },
+      { name: "host", type: "string", description: "Interface to listen on (default: 127.0.0.1)" },
+      { name: "token", type: "string", description: "Bearer token clients must send (required except on --network local)" },
+      ...SIGNER.filter((option) => ["signer", "keystore", "passwordFile"].includes(option.name)),
+    ],
+    examples: [
+      "fp tools serve-remote-signer --network local --role operator --keystore keystores/operator.json",
+      "fp tools serve-remote-signer --network testnet --role operator --keystore keystores/operator.json --token s3cret",
+    ],
+    load: () => import("../signers/serve-remote-signer"),
+  },
+  {
+    group: "tools",
+    name: "serve-voucher-signer",
+    description: "Serve FP1155 claim and DailyLottery free-entry vouchers over HTTP, with rate limits, caps and an audit log",
+    script: "tools/signers/serve-voucher-signer.ts",
+    options: [
+      NETWORK,
+      RPC,
+      { name: "fp1155", type: "address", description: "FP1155 address (default: <NETWORK>_FP1155_ADDRESS, then the registry)" },
+      { name: "lottery", type: "address", description: "DailyLottery address (default: <NETWORK>_LOTTERY_ADDRESS, then the registry)" },
+      { name: "port", type: "integer", description: "Port (default: 8551; 0 picks a free one)" },
+      { name: "host", type: "string", description: "Interface to listen on (default: 127.0.0.1)" },
+      { name: "token", type: "string", description: "Bearer token clients must send (required except on --network local)" },
+      { name: "rateLimit", type: "integer", description: "Vouchers per account and window (default: 5)" },
+      { name: "rateWindow", type: "integer", description: "Rate limit window in seconds (default: 3600)" },
+      { name: "maxAmount", type: "bigint", description: "Largest claim amount per voucher (default: no limit)" },
+      { name: "seasonCap", type: "bigint", description: "Total claim amount signed per season (default: no cap)" },
+      { name: "dayCap", type: "integer", description: "Free-entry vouchers signed per lottery day (default: no cap)" },
+      { name: "claimTtl", type: "integer", description: "Claim deadline when the request has none, seconds from now (default: 3600)" },
+      { name: "maxClaimTtl", type: "integer", description: "Latest claim deadline a request may ask for, seconds from now (default: 604800)" },
+      { name: "auditLog", type: "string", description: "Audit log (default: vouchers/signing-service-<network>.audit.jsonl)" },
+      { name: "ledger", type: "string", description: "Claim voucher ledger (default: vouchers/claims-<network>.ledger.jsonl)" },
+      ...SIGNER.filter((option) => ["signer", "keystore", "passwordFile"].includes(option.name)),
+    ],
+    examples: [
+      "fp tools serve-voucher-signer --network local --signer env",
+      "fp tools serve-voucher-signer --network testnet --token s3cret --rateLimit 10 --seasonCap 1000000 --dayCap 500",
+    ],
+    load: () => import("../signers/serve-voucher-signer"),
+  },
+  {
+    group: "tools",
+    name: "validate-env",
+    description: "Check the .env variables needed for a task",
+    script: "tools/validate-env.ts",
+    options: [],
+    positionals: [{ name: "profile", description: "deploy, sign-claim, submit-claim or verify", required: true }],
+    examples: ["fp tools validate-env deploy"],
+    load: () => import("../validate-env"),
+  },
+];
+
+export function findCommand(group: string, name: string): CommandSpec | undefined {
+  return COMMANDS.find((command) => command.group === group && command.name === name);
+}
@@ -0,0 +1,140 @@
+/**
+ * @notice Unified entry point for the FP tools: `fp <group> <command> [options]`
+ *
+ * Every script under tools/ is registered in commands.ts with typed options. Options are validated
+ * (unknown names, missing required values, malformed numbers/addresses) before the script runs, aliases
+ * are mapped to their canonical names, and --help is generated from the same specs at every level.
+ * The scripts can still be run directly with ts-node.
+ *
+ * Exit codes: 0 success, 1 runtime or on-chain failure, 2 invalid invocation.
+ *
+ * @example List groups and commands
+ * npm run fp -- --help
+ *
+ * @example Help for one command
+ * npm run fp -- booster view-event --help
+ *
+ * @example Run a command
+ * npm run fp -- booster view-event --network mainnet --event ufc-324
+ */
+import "dotenv/config";
+import { CliUsageError, EXIT_FAILURE, EXIT_OK, EXIT_USAGE, OptionSpec, parseOptions, toArgv } from "./args";
+import { COMMANDS, CommandGroup, CommandSpec, GROUP_DESCRIPTIONS, findCommand } from "./commands";
+
+const HELP_FLAGS = ["--help", "-h", "help"];
+
+function isGroup(value: string): value is CommandGroup {
+  return Object.prototype.hasOwnProperty.call(GROUP_DESCRIPTIONS, value);
+}
+
+function rootHelp(): string {
+  const lines = ["Usage: fp <group> <command> [options]", "", "Groups:"];
+  for (const [group, description] of Object.entries(GROUP_DESCRIPTIONS)) {
+    lines.push(`  ${group.padEnd(10)} ${description}`);
+  }
+  lines.push("", 'Run "fp <group> --help" to list its commands, "fp <group> <command> --help" for options.');
+  return lines.join("\n");
+}
+
+function groupHelp(group: CommandGroup): string {
+  const commands = COMMANDS.filter((command) => command.group === group);
+  const width = Math.max(...commands.map((command) => command.name.length));
+  const lines = [`Usage: fp ${group} <command> [options]`, "", GROUP_DESCRIPTIONS[group], "", "Commands:"];
+  for (const command of commands) {
+    lines.push(`  ${command.name.padEnd(width)}  ${command.description}`);
+  }
+  return lines.join("\n");
+}
+
+function optionUsage(option: OptionSpec): string {
+  const names = [option.name, ...(option.aliases ?? [])].map((name) => `--${name}`).join(", ");
+  if (option.type === "flag") return names;
+  const placeholder = option.choices ? option.choices.join("|") : option.type === "list" ? "a,b,..." : option.type;
+  return `${names} <${placeholder}>`;
+}
+
+function commandHelp(command: CommandSpec): string {
+  const positionals = (command.positionals ?? []).map((p) => (p.required ? `<${p.name}>` : `[${p.name}]`));
+  const lines = [
+    `Usage: fp ${command.group} ${command.name} ${[...positionals, "[options]"].join(" ")}`,
+    "",
+    command.description,
+    `Script: ${command.script}`,
+  ];
+
+  if (command.positionals?.length) {
+    lines.push("", "Arguments:");
+    for (const p of command.positionals) lines.push(`  ${p.name.padEnd(24)}  ${p.description}`);
+  }
+
+  lines.push("", "Options:");
+  const usages = command.options.map(optionUsage);
+  const width = Math.max(24, ...usages.map((usage) => usage.length));
+  command.options.forEach((option, i) => {
+    const notes = [option.required ? "required" : "", option.repeatable ? "repeatable" : ""].filter(Boolean);
+    const suffix = notes.length ? ` (${notes.join(", ")})` : "";
+    lines.push(`  ${usages[i].padEnd(width)}  ${option.description}${suffix}`);
+  });
+  lines.push(`  ${"--help, -h".padEnd(width)}  Show this help`);
+
+  if (command.examples?.length) {
+    lines.push("", "Examples:");
+    for (const example of command.examples) lines.push(`  ${example}`);
+  }
+  return lines.join("\n");
+}
+
+async function run(argv: string[]): Promise<number> {
+  const [group, name, ...rest] = argv;
+
+  if (group === undefined) {
+    console.error(rootHelp());
+    return EXIT_USAGE;
+  }
+  if (HELP_FLAGS.includes(group)) {
+    console.log(rootHelp());
+    return EXIT_OK;
+  }
+  if (!isGroup(group)) {
+    throw new CliUsageError(`Unknown group "${group}" (expected one of ${Object.keys(GROUP_DESCRIPTIONS).join(", ")})`);
+  }
+  if (name === undefined || HELP_FLAGS.includes(name)) {
+    console.log(groupHelp(group));
+    return EXIT_OK;
+  }
+
+  const command = findCommand(group, name);
+  if (!command) {
+    throw new CliUsageError(`Unknown command "${group} ${name}". Run "fp ${group} --help" to list commands.`);
+  }
+  if (rest.includes("--help") || rest.includes("-h")) {
+    console.log(commandHelp(command));
+    return EXIT_OK;
+  }
+
+  const parsed = parseOptions(rest, command.options, command.positionals);
+  const script = await command.load();
+  await script.main(toArgv(parsed));
+  return EXIT_OK;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  try {
+    process.exitCode = await run(argv);
+  } catch (err) {
+    if (err instanceof CliUsageError) {
+      console.error(`Error: ${err.message}`);
+      const [group, name] = argv;
+      const command = group && name ? findCommand(group, name) : undefined;
+      console.error(command ? `\n${commandHelp(command)}` : `\nRun "fp --help" for usage.`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    console.error(err);
+    process.exitCode = EXIT_FAILURE;
+  }
+}
+
+if (require.main === module) {
+  main();
+}
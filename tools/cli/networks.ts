@@ -0,0 +1,196 @@
+import { ethers } from "ethers";
+import { ADDRESS_BOOK } from "../deployments/address-book";
+import { DeployedContractName } from "../deployments/broadcast.utils";
+
+export type NetworkName = "mainnet" | "testnet" | "local";
+export type ContractName = "fp1155" | "booster" | "dailyLottery" | "staking" | "fightToken";
+
+export interface ContractEntry {
+  address?: string; // deployed proxy (or contract) address, when known
+  deployBlock?: number; // block of the proxy (or contract) deployment, when recorded
+  env: string[]; // .env overrides, first match wins
+}
+
+export interface NetworkProfile {
+  name: NetworkName;
+  label: string;
+  chainId: bigint;
+  rpcEnv: string[]; // .env variables holding an RPC URL, first match wins
+  defaultRpcUrl: string;
+  explorerUrl?: string;
+  contracts: Record<ContractName, ContractEntry>;
+  send: SendDefaults;
+}
+
+// Defaults of the managed send pipeline (tools/tx/send.utils.ts), overridable per run
+export interface SendDefaults {
+  maxGasPrice: bigint; // wei; never paid above, even when speeding up
+  confirmations: number;
+}
+
+export const CONTRACT_LABELS: Record<ContractName, string> = {
+  fp1155: "FP1155",
+  booster: "Booster",
+  dailyLottery: "DailyLottery",
+  staking: "Staking",
+  fightToken: "FIGHT token",
+};
+
+// Current address of a contract in the generated address book (see tools/deployments/generate-address-book.ts)
+function deployed(chainId: number, contract: DeployedContractName, env: string[]): ContractEntry {
+  const book = ADDRESS_BOOK[chainId]?.[contract];
+  if (!book) return { env };
+  const proxy = book.proxies.find((entry) => entry.address === book.current);
+  const standalone = book.standalone.find((entry) => entry.address === book.current);
+  return { address: book.current, deployBlock: proxy ? proxy.deployment?.blockNumber : standalone?.blockNumber, env };
+}
+
+// Deployed addresses come from broadcast/*/run-latest.json through the address book.
+// The FIGHT token is not deployed by this repo's scripts (it is the Staking constructor argument).
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+  mainnet: {
+    name: "mainnet",
+    label: "BSC Mainnet",
+    chainId: 56n,
+    rpcEnv: ["MAINNET_BSC_RPC_URL", "BSC_RPC_URL"],
+    defaultRpcUrl: "https://bsc-dataseed.binance.org",
+    explorerUrl: "https://bscscan.com",
+    contracts: {
+      fp1155: deployed(56, "FP1155", ["MAINNET_FP1155_ADDRESS"]),
+      booster: deployed(56, "Booster", ["MAINNET_BOOSTER_ADDRESS"]),
+      dailyLottery: deployed(56, "DailyLottery", ["MAINNET_LOTTERY_ADDRESS"]),
+      staking: deployed(56, "Staking", ["MAINNET_STAKING_ADDRESS"]),
+      fightToken: { env: ["MAINNET_FIGHT_TOKEN_ADDRESS"] },
+    },
+    send: { maxGasPrice: ethers.parseUnits("5", "gwei"), confirmations: 3 },
+  },
+  testnet: {
+    name: "testnet",
+    label: "BSC Testnet",
+    chainId: 97n,
+    rpcEnv: ["TESTNET_BSC_RPC_URL", "BSC_TESTNET_RPC_URL"],
+    defaultRpcUrl: "https://bsc-testnet.publicnode.com",
+    explorerUrl: "https://testnet.bscscan.com",
+    contracts: {
+      fp1155: deployed(97, "FP1155", ["TESTNET_FP1155_ADDRESS"]),
+      booster: deployed(97, "Booster", ["TESTNET_BOOSTER_ADDRESS"]),
+      dailyLottery: deployed(97, "DailyLottery", ["TESTNET_LOTTERY_ADDRESS"]),
+      staking: deployed(97, "Staking", ["TESTNET_STAKING_ADDRESS"]),
+      fightToken: { address: "0x7a86331410E1d0dE66EcE866053f4Ce5D80ebCE8", env: ["TESTNET_FIGHT_TOKEN_ADDRESS"] },
+    },
+    send: { maxGasPrice: ethers.parseUnits("20", "gwei"), confirmations: 1 },
+  },
+  // anvil / hardhat node; addresses come from .env after a local deployment
+  local: {
+    name: "local",
+    label: "Local node",
+    chainId: 31337n,
+    rpcEnv: ["LOCAL_RPC_URL"],
+    defaultRpcUrl: "http://127.0.0.1:8545",
+    contracts: {
+      fp1155: { env: ["LOCAL_FP1155_ADDRESS", "FP1155_ADDRESS"] },
+      booster: { env: ["LOCAL_BOOSTER_ADDRESS", "BOOSTER_ADDRESS"] },
+      dailyLottery: { env: ["LOCAL_LOTTERY_ADDRESS", "LOTTERY_ADDRESS"] },
+      staking: { env: ["LOCAL_STAKING_ADDRESS", "STAKING_ADDRESS"] },
+      fightToken: { env: ["LOCAL_FIGHT_TOKEN_ADDRESS", "FIGHT_TOKEN_ADDRESS"] },
+    },
+    send: { maxGasPrice: ethers.parseUnits("100", "gwei"), confirmations: 1 },
+  },
+};
+
+export const NETWORK_NAMES = Object.keys(NETWORK_PROFILES) as NetworkName[];
+
+export interface NetworkContext {
+  profile: NetworkProfile;
+  rpcUrl: string;
+  provider: ethers.JsonRpcProvider;
+}
+
+export function getNetworkProfile(name: string): NetworkProfile {
+  const profile = NETWORK_PROFILES[name.toLowerCase() as NetworkName];
+  if (!profile) throw new Error(`Unknown network "${name}" (expected one of ${NETWORK_NAMES.join(", ")})`);
+  return profile;
+}
+
+export function findProfileByChainId(chainId: bigint): NetworkProfile | undefined {
+  return Object.values(NETWORK_PROFILES).find((profile) => profile.chainId === chainId);
+}
+
+// --network (or --net, or NETWORK in .env); undefined when none is given
+export function getRequestedNetwork(args: Record<string, string>): string | undefined {
+  return args.network || args.net || process.env.NETWORK || undefined;
+}
+
+// RPC URL for a profile: --rpc, then the profile's env variables, then its public default
+export function resolveRpcUrl(profile: NetworkProfile, args: Record<string, string>): string {
+  if (args.rpc) return args.rpc;
+  for (const key of profile.rpcEnv) {
+    const value = process.env[key];
+    if (value && value.trim()) return value.trim();
+  }
+  return profile.defaultRpcUrl;
+}
+
+// Contract address for a profile: --contract, then the profile's env overrides, then the registry
+export function resolveContractAddress(
+  profile: NetworkProfile,
+  contract: ContractName,
+  args: Record<string, string> = {},
+  overrideKeys: string[] = ["contract"]
+): string {
+  const entry = profile.contracts[contract];
+  const override = overrideKeys.map((key) => args[key]).find((value) => value);
+  const fromEnv = entry.env.map((key) => process.env[key]).find((value) => value && value.trim());
+  const address = override || fromEnv?.trim() || entry.address;
+  if (!address) {
+    throw new Error(
+      `No ${CONTRACT_LABELS[contract]} address for ${profile.name} (set --${overrideKeys[0]} or ${entry.env[0]} in .env)`
+    );
+  }
+  if (!ethers.isAddress(address)) throw new Error(`Invalid ${CONTRACT_LABELS[contract]} address: ${address}`);
+  return ethers.getAddress(address);
+}
+
+// Abort when the RPC is on a different chain than the profile expects
+export async function assertChainId(provider: ethers.Provider, profile: NetworkProfile): Promise<void> {
+  const { chainId } = await provider.getNetwork();
+  if (chainId !== profile.chainId) {
+    const actual = findProfileByChainId(chainId);
+    throw new Error(
+      `Network mismatch: --network ${profile.name} expects chainId ${profile.chainId} (${profile.label}) ` +
+        `but the RPC is on chainId ${chainId}${actual ? ` (${actual.label})` : ""}`
+    );
+  }
+}
+
+/**
+ * Resolve --network/--rpc into a provider whose chainId has been checked against the profile.
+ * With --rpc and no --network the profile is picked from the RPC's chainId; with neither, this throws
+ * instead of falling back to a default network.
+ */
+export async function connectNetwork(args: Record<string, string>): Promise<NetworkContext> {
+  const requested = getRequestedNetwork(args);
+  if (!requested && !args.rpc) {
+    throw new Error(`Missing --network (${NETWORK_NAMES.join(", ")}) or --rpc`);
+  }
+
+  if (requested) {
+    const profile = getNetworkProfile(requested);
+    const rpcUrl = resolveRpcUrl(profile, args);
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    await assertChainId(provider, profile);
+    return { profile, rpcUrl, provider };
+  }
+
+  const provider = new ethers.JsonRpcProvider(args.rpc);
+  const { chainId } = await provider.getNetwork();
+  const profile = findProfileByChainId(chainId);
+  if (!profile) {
+    throw new Error(`RPC is on chainId ${chainId}, which matches no network profile (${NETWORK_NAMES.join(", ")})`);
+  }
+  return { profile, rpcUrl: args.rpc, provider };
+}
+
+export function formatNetwork(profile: NetworkProfile): string {
+  return `${profile.name} (${profile.label}, chainId ${profile.chainId})`;
+}
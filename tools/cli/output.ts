@@ -0,0 +1,183 @@
+import { ethers } from "ethers";
+import { NetworkProfile } from "./networks";
+import { enumName } from "../contracts/bindings.utils";
+
+export type OutputFormat = "text" | "json" | "csv";
+
+// --json / --csv; --csv only for commands whose output is one table
+export function getOutputFormat(args: Record<string, string>, tabular: boolean): OutputFormat {
+  if (args.json && args.csv) throw new Error("Use either --json or --csv");
+  if (args.csv && !tabular) throw new Error("--csv is only available for tabular output: use --json");
+  return args.json ? "json" : args.csv ? "csv" : "text";
+}
+
+// ---- JSON ----
+
+// Enum fields are written as both the number and its name
+export interface EnumJson {
+  value: number;
+  name: string;
+}
+
+export function enumJson(values: Readonly<Record<string, number>>, value: bigint | number): EnumJson {
+  return { value: Number(value), name: enumName(values, value) };
+}
+
+/**
+ * Fields every JSON document starts with. `schema` is "<group>.<command>/<version>": the version is bumped
+ * whenever a field is renamed, removed or changes type, so consumers can pin it. Added fields do not bump it.
+ */
+export interface JsonEnvelope {
+  schema: string;
+  network: string;
+  chainId: string;
+  contract: string;
+  blockNumber: number; // block the data was read at
+}
+
+export async function jsonEnvelope(
+  schema: string,
+  profile: NetworkProfile,
+  provider: ethers.Provider,
+  contract: string
+): Promise<JsonEnvelope> {
+  return { schema, network: profile.name, chainId: profile.chainId.toString(), contract, blockNumber: await provider.getBlockNumber() };
+}
+
+// Bigints as decimal strings, so no consumer loses precision
+export function printJson(envelope: JsonEnvelope, payload: object): void {
+  const replacer = (_key: string, value: unknown) => (typeof value === "bigint" ? value.toString() : value);
+  console.log(JSON.stringify({ ...envelope, ...payload }, replacer, 2));
+}
+
+// --json of the check-roles commands: one element of `roles` per AccessControl role of the contract
+export interface RoleJson {
+  role: string;
+  hash: string;
+  hasRole: boolean;
+}
+
+export interface RolesJson {
+  address: string;
+  roles: RoleJson[];
+}
+
+// ---- CSV ----
+
+export interface CsvColumn<T> {
+  header: string;
+  value(row: T): unknown;
+}
+
+// An enum as two columns: <header> (number) and <header>Name
+export function enumColumns<T>(
+  header: string,
+  values: Readonly<Record<string, number>>,
+  get: (row: T) => bigint | number | null
+): CsvColumn<T>[] {
+  return [
+    { header, value: (row) => get(row) },
+    { header: `${header}Name`, value: (row) => (get(row) === null ? null : enumName(values, get(row)!)) },
+  ];
+}
+
+export const ROLE_CSV: CsvColumn<RoleJson>[] = [
+  { header: "role", value: (role) => role.role },
+  { header: "hash", value: (role) => role.hash },
+  { header: "hasRole", value: (role) => role.hasRole },
+];
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV with a header row; null cells are left empty
+export function printCsv<T>(columns: CsvColumn<T>[], rows: T[]): void {
+  console.log(columns.map((column) => csvField(column.header)).join(","));
+  for (const row of rows) console.log(columns.map((column) => csvField(column.value(row))).join(","));
+}
+
+export interface CsvRecord {
+  line: number; // line the row starts on, for error messages
+  values: Record<string, string>; // by header
+}
+
+/**
+ * Rows of a CSV file with a header row, as printCsv writes them: quoted fields may hold commas, doubled quotes
+ * and line breaks. Blank lines and lines starting with # are skipped, unquoted fields are trimmed. Throws when
+ * the header lacks one of the required columns or a row has a different number of fields than the header.
+ */
+export function parseCsv(content: string, file: string, required: string[] = []): CsvRecord[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false; // inside quotes
+  let wasQuoted = false; // the current field was quoted: not trimmed
+  let line = 1;
+  let start = 1;
+  let i = 0;
+
+  const endField = () => {
+    fields.push(wasQuoted ? field : field.trim());
+    field = "";
+    wasQuoted = false;
+  };
+  const endRecord = () => {
+    const blank = fields.length === 0 && !wasQuoted && field.trim() === "";
+    endField();
+    if (!blank) records.push({ line: start, fields });
+    fields = [];
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else field += char;
+      if (char === "\n") line++;
+      i++;
+      continue;
+    }
+    if (fields.length === 0 && field.trim() === "" && char === "#") {
+      // Comment line
+      while (i < content.length && content[i] !== "\n") i++;
+      field = "";
+      continue;
+    }
+    if (char === '"' && field.trim() === "") {
+      quoted = true;
+      wasQuoted = true;
+      field = "";
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      start = line;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (quoted) throw new Error(`${file}:${start}: unterminated quoted field`);
+  endRecord();
+
+  if (records.length === 0) throw new Error(`${file} is empty`);
+  const [header, ...rows] = records;
+  const names = header.fields;
+  for (const name of required) {
+    if (!names.includes(name)) throw new Error(`${file}: the header row has no ${name} column`);
+  }
+  return rows.map((row) => {
+    if (row.fields.length !== names.length) throw new Error(`${file}:${row.line}: expected ${names.length} columns`);
+    return { line: row.line, values: Object.fromEntries(names.map((name, j) => [name, row.fields[j]])) };
+  });
+}
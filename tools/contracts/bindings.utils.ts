@@ -0,0 +1,214 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+
+const ROOT = path.join(__dirname, "..", "..");
+export const DEFAULT_OUT_DIR = path.join(ROOT, "out");
+export const DEFAULT_SRC_DIR = path.join(ROOT, "src");
+export const BINDINGS_DIR = __dirname;
+
+// Contracts with generated bindings: Foundry artifact name → generated module (tools/contracts/<file>.ts)
+export const BOUND_CONTRACTS = [
+  { contract: "Booster", file: "booster", abiName: "BOOSTER_ABI" },
+  { contract: "FP1155", file: "fp1155", abiName: "FP1155_ABI" },
+  { contract: "DailyLottery", file: "daily-lottery", abiName: "DAILY_LOTTERY_ABI" },
+  { contract: "Staking", file: "staking", abiName: "STAKING_ABI" },
+  { contract: "Deposit", file: "deposit", abiName: "DEPOSIT_ABI" },
+] as const;
+
+export type BoundContract = (typeof BOUND_CONTRACTS)[number];
+
+// Name of an enum value, e.g. enumName(FightStatus, 2n) → "RESOLVED"; unknown values are printed as "UNKNOWN (n)"
+export function enumName(values: Readonly<Record<string, number>>, value: bigint | number): string {
+  const name = Object.keys(values).find((key) => values[key] === Number(value));
+  return name ?? `UNKNOWN (${value})`;
+}
+
+// ---- Generator ----
+
+export interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParam[];
+}
+
+export interface AbiEntry {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: string;
+}
+
+// BaseContract members that a contract function must not shadow
+const RESERVED_NAMES = new Set(Object.getOwnPropertyNames(ethers.BaseContract.prototype).concat(["target", "interface", "runner", "filters", "fallback"]));
+
+export function readArtifactAbi(outDir: string, contract: string): AbiEntry[] {
+  const file = path.join(outDir, `${contract}.sol`, `${contract}.json`);
+  if (!fs.existsSync(file)) throw new Error(`Missing artifact ${file} (run forge build first)`);
+  const artifact = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(artifact.abi)) throw new Error(`${file} has no abi`);
+  return artifact.abi as AbiEntry[];
+}
+
+// Enums declared in a Solidity source, with their members in declaration order
+export function readSourceEnums(srcDir: string, contract: string): Map<string, string[]> {
+  const enums = new Map<string, string[]>();
+  const file = path.join(srcDir, `${contract}.sol`);
+  if (!fs.existsSync(file)) return enums;
+  const source = fs
+    .readFileSync(file, "utf8")
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\/\/.*$/gm, "");
+  for (const match of source.matchAll(/\benum\s+(\w+)\s*\{([^}]*)\}/g)) {
+    enums.set(
+      match[1],
+      match[2].split(",").map((member) => member.trim()).filter(Boolean)
+    );
+  }
+  return enums;
+}
+
+function upperFirst(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// "struct Booster.Boost[]" → "Boost"; "enum Booster.Corner" → "Corner"
+function internalName(param: AbiParam): string | undefined {
+  const match = /^(?:struct|enum)\s+(?:\w+\.)?(\w+)/.exec(param.internalType ?? "");
+  return match?.[1];
+}
+
+// Types referenced while rendering one contract: ethers type imports and struct interfaces
+interface RenderState {
+  contract: string;
+  imports: Set<string>;
+  structs: Map<string, string>; // interface name → source
+}
+
+function tsType(state: RenderState, param: AbiParam, mode: "in" | "out"): string {
+  const array = /^(.*)\[\d*\]$/.exec(param.type);
+  if (array) {
+    const element = { ...param, type: array[1], internalType: param.internalType?.replace(/\[\d*\]$/, "") };
+    return `${tsType(state, element, mode)}[]`;
+  }
+  if (param.type === "tuple") return structType(state, param, mode);
+  if (param.type === "address") return mode === "in" ? useImport(state, "AddressLike") : "string";
+  if (param.type === "bool") return "boolean";
+  if (param.type === "string") return "string";
+  if (param.type.startsWith("bytes")) return mode === "in" ? useImport(state, "BytesLike") : "string";
+  if (/^u?int\d*$/.test(param.type)) return mode === "in" ? useImport(state, "BigNumberish") : "bigint";
+  throw new Error(`${state.contract}: unsupported ABI type ${param.type}`);
+}
+
+function useImport(state: RenderState, name: string): string {
+  state.imports.add(name);
+  return name;
+}
+
+// Structs render as <Name> when returned and <Name>Input when passed (struct names already ending in Input are kept)
+function structType(state: RenderState, param: AbiParam, mode: "in" | "out"): string {
+  const base = internalName(param) ?? upperFirst(param.name || "Tuple");
+  const name = mode === "in" ? (base.endsWith("Input") ? base : `${base}Input`) : base.endsWith("Input") ? `${base}Output` : base;
+  if (!state.structs.has(name)) {
+    state.structs.set(name, ""); // reserve before recursing into the components
+    state.structs.set(name, interfaceSource(state, name, param.components ?? [], mode, `struct ${base}`));
+  }
+  return name;
+}
+
+function interfaceSource(state: RenderState, name: string, fields: AbiParam[], mode: "in" | "out", comment: string): string {
+  const lines = [`// ${comment}`, `export interface ${name} {`];
+  fields.forEach((field, i) => {
+    const enumType = field.internalType?.startsWith("enum ") ? ` // ${internalName(field)}` : "";
+    lines.push(`  ${field.name || `arg${i}`}: ${tsType(state, field, mode)};${enumType}`);
+  });
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Render the binding module of one contract: its human-readable ABI, enums, struct and result
+ * interfaces, a typed contract interface and a connect<Contract>() factory.
+ */
+export function renderBindingModule(target: BoundContract, abi: AbiEntry[], enums: Map<string, string[]>): string {
+  const { contract, abiName } = target;
+  const state: RenderState = { contract, imports: new Set(), structs: new Map() };
+  const iface = new ethers.Interface(abi as ethers.JsonFragment[]);
+  const results: string[] = [];
+  const methods: string[] = [];
+  const shadowed: string[] = [];
+
+  const functions = abi
+    .filter((entry) => entry.type === "function")
+    .sort((a, b) => a.name!.localeCompare(b.name!));
+  const overloaded = new Set(
+    functions.map((fn) => fn.name!).filter((name, i, names) => names.indexOf(name) !== i)
+  );
+
+  for (const fn of functions) {
+    const name = fn.name!;
+    // Overloads are only reachable through getFunction(signature)
+    if (overloaded.has(name)) continue;
+
+    const args = (fn.inputs ?? []).map((input, i) => `${input.name || `arg${i}`}: ${tsType(state, input, "in")}`);
+    const outputs = fn.outputs ?? [];
+    let result: string;
+    if (outputs.length === 0) {
+      result = "void";
+    } else if (outputs.length === 1) {
+      result = tsType(state, outputs[0], "out");
+    } else if (outputs.every((output) => output.name)) {
+      result = `${upperFirst(name)}Result`;
+      results.push(interfaceSource(state, result, outputs, "out", `${name}() return values`));
+    } else {
+      result = `[${outputs.map((output) => tsType(state, output, "out")).join(", ")}]`;
+    }
+
+    const readOnly = fn.stateMutability === "view" || fn.stateMutability === "pure";
+    if (!readOnly) state.imports.add("ContractTransactionResponse");
+    const sent = readOnly ? result : "ContractTransactionResponse";
+    const method = `BaseContractMethod<[${args.join(", ")}], ${result}, ${sent}>`;
+    // Names clashing with BaseContract members (e.g. Booster.getEvent) are typed through getFunction(name)
+    if (RESERVED_NAMES.has(name)) shadowed.push(`  getFunction(key: "${name}"): ${method};`);
+    else methods.push(`  ${name}: ${method};`);
+  }
+
+  const enumSources = [...enums.entries()].map(([name, members]) => {
+    const values = members.map((member, i) => `  ${member}: ${i},`).join("\n");
+    return `export const ${name} = {\n${values}\n} as const;`;
+  });
+
+  if (shadowed.length > 0) ["ContractMethod", "FunctionFragment"].forEach((name) => state.imports.add(name));
+  const typeImports = ["BaseContract", "BaseContractMethod", "ContractRunner", ...state.imports].sort();
+  const abiLines = iface.format().map((line) => `  ${JSON.stringify(line)},`);
+
+  const sections = [
+    [
+      `// Generated by tools/contracts/generate-bindings.ts from out/${contract}.sol/${contract}.json.`,
+      "// Do not edit by hand: run `npm run bindings` after `forge build`.",
+      'import { Contract } from "ethers";',
+      `import type { ${typeImports.join(", ")} } from "ethers";`,
+    ].join("\n"),
+    `export const ${abiName} = [\n${abiLines.join("\n")}\n] as const;`,
+    ...enumSources,
+    ...state.structs.values(),
+    ...results,
+    [
+      `export interface ${contract}Contract extends BaseContract {`,
+      `  connect(runner: ContractRunner | null): ${contract}Contract;`,
+      ...(shadowed.length > 0
+        ? [...shadowed, "  getFunction<T extends ContractMethod = ContractMethod>(key: string | FunctionFragment): T;"]
+        : []),
+      ...methods,
+      "}",
+    ].join("\n"),
+    [
+      `export function connect${contract}(address: string, runner?: ContractRunner | null): ${contract}Contract {`,
+      `  return new Contract(address, ${abiName}, runner) as unknown as ${contract}Contract;`,
+      "}",
+    ].join("\n"),
+  ];
+  return sections.join("\n\n") + "\n";
+}
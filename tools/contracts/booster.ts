@@ -0,0 +1,229 @@
+// Generated by tools/contracts/generate-bindings.ts from out/Booster.sol/Booster.json.
+// Do not edit by hand: run `npm run bindings` after `forge build`.
+import { Contract } from "ethers";
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ContractMethod, ContractRunner, ContractTransactionResponse, FunctionFragment } from "ethers";
+
+export const BOOSTER_ABI = [
+  "constructor()",
+  "error AccessControlBadConfirmation()",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AddressEmptyCode(address target)",
+  "error ERC1967InvalidImplementation(address implementation)",
+  "error ERC1967NonPayable()",
+  "error FailedCall()",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error ReentrancyGuardReentrantCall()",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+  "event BonusDeposited(string indexed eventId, uint256 indexed fightId, address indexed manager, uint256 amount)",
+  "event BoostIncreased(string indexed eventId, uint256 indexed fightId, address indexed user, uint256 boostIndex, uint256 additionalAmount, uint256 newTotal, uint256 timestamp)",
+  "event BoostPlaced(string indexed eventId, uint256 indexed fightId, address indexed user, uint256 boostIndex, uint256 amount, uint8 winner, uint8 method, uint256 timestamp)",
+  "event EventClaimDeadlineUpdated(string indexed eventId, uint256 deadline)",
+  "event EventClaimReady(string indexed eventId, bool claimReady)",
+  "event EventCreated(string indexed eventId, uint256 numFights, uint256 indexed seasonId)",
+  "event EventPurged(string indexed eventId, address indexed recipient, uint256 amount)",
+  "event FPUpdated(address indexed oldFP, address indexed newFP)",
+  "event FightBoostCutoffUpdated(string indexed eventId, uint256 indexed fightId, uint256 cutoff)",
+  "event FightCancelled(string indexed eventId, uint256 indexed fightId)",
+  "event FightPurged(string indexed eventId, uint256 indexed fightId, uint256 unclaimedPool)",
+  "event FightResultSubmitted(string indexed eventId, uint256 indexed fightId, uint8 indexed winner, uint8 method, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 sumWinnersStakes, uint256 winningPoolTotalShares)",
+  "event FightStatusUpdated(string indexed eventId, uint256 indexed fightId, uint8 status)",
+  "event Initialized(uint64 version)",
+  "event MaxBonusDepositUpdated(uint256 oldLimit, uint256 newLimit)",
+  "event MaxFightsPerEventUpdated(uint256 oldLimit, uint256 newLimit)",
+  "event MinBoostAmountUpdated(uint256 oldAmount, uint256 newAmount)",
+  "event RewardClaimed(string indexed eventId, uint256 indexed fightId, address indexed user, uint256 boostIndex, uint256 payout, uint256 points)",
+  "event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event Upgraded(address indexed implementation)",
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+  "function FP() view returns (address)",
+  "function OPERATOR_ROLE() view returns (bytes32)",
+  "function UPGRADE_INTERFACE_VERSION() view returns (string)",
+  "function addToBoost(string eventId, uint256 fightId, uint256 boostIndex, uint256 additionalAmount)",
+  "function calculateUserPoints(uint8 predictedWinner, uint8 predictedMethod, uint8 actualWinner, uint8 actualMethod, uint256 pointsForWinner, uint256 pointsForWinnerMethod) pure returns (uint256 points)",
+  "function cancelFight(string eventId, uint256 fightId)",
+  "function claimReward(string eventId, uint256 fightId, uint256[] boostIndices)",
+  "function claimRewards(string eventId, (uint256 fightId, uint256[] boostIndices)[] inputs)",
+  "function createEvent(string eventId, uint256 numFights, uint256 seasonId, uint256 defaultBoostCutoff)",
+  "function depositBonus(string eventId, uint256 fightId, uint256 amount, bool force)",
+  "function getEvent(string eventId) view returns (uint256 seasonId, uint256 numFights, bool exists, bool claimReady)",
+  "function getEventClaimDeadline(string eventId) view returns (uint256)",
+  "function getEventFights(string eventId) view returns (uint256[] fightIds, uint8[] statuses)",
+  "function getFight(string eventId, uint256 fightId) view returns (uint8 status, uint8 winner, uint8 method, uint256 bonusPool, uint256 originalPool, uint256 sumWinnersStakes, uint256 winningPoolTotalShares, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 claimedAmount, uint256 boostCutoff, bool cancelled)",
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+  "function getUserBoostIndices(string eventId, uint256 fightId, address user) view returns (uint256[] indices)",
+  "function getUserBoosts(string eventId, uint256 fightId, address user) view returns ((address user, uint256 amount, uint8 predictedWinner, uint8 predictedMethod, bool claimed)[])",
+  "function grantRole(bytes32 role, address account)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function initialize(address _fp, address admin)",
+  "function isEventClaimReady(string eventId) view returns (bool)",
+  "function maxBonusDeposit() view returns (uint256)",
+  "function maxFightsPerEvent() view returns (uint256)",
+  "function minBoostAmount() view returns (uint256)",
+  "function onERC1155BatchReceived(address, address, uint256[], uint256[], bytes) pure returns (bytes4)",
+  "function onERC1155Received(address, address, uint256, uint256, bytes) pure returns (bytes4)",
+  "function placeBoosts(string eventId, (uint256 fightId, uint256 amount, uint8 predictedWinner, uint8 predictedMethod)[] inputs)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function purgeEvent(string eventId, address recipient)",
+  "function quoteClaimable(string eventId, uint256 fightId, address user, bool enforceDeadline) view returns (uint256 totalClaimable)",
+  "function quoteClaimableHistorical(string eventId, uint256 fightId, address user) view returns (uint256 totalClaimable)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+  "function revokeRole(bytes32 role, address account)",
+  "function setEventBoostCutoff(string eventId, uint256 cutoff)",
+  "function setEventClaimDeadline(string eventId, uint256 deadline)",
+  "function setEventClaimReady(string eventId, bool claimReady)",
+  "function setFP(address newFP)",
+  "function setFightBoostCutoff(string eventId, uint256 fightId, uint256 cutoff)",
+  "function setMaxBonusDeposit(uint256 newMax)",
+  "function setMaxFightsPerEvent(uint256 newMax)",
+  "function setMinBoostAmount(uint256 newMin)",
+  "function submitFightResult(string eventId, uint256 fightId, uint8 winner, uint8 method, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 sumWinnersStakes, uint256 winningPoolTotalShares)",
+  "function submitFightResults(string eventId, (uint256 fightId, uint8 winner, uint8 method, uint256 pointsForWinner, uint256 pointsForWinnerMethod, uint256 sumWinnersStakes, uint256 winningPoolTotalShares)[] inputs)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function totalPool(string eventId, uint256 fightId) view returns (uint256)",
+  "function updateFightStatus(string eventId, uint256 fightId, uint8 newStatus)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+] as const;
+
+export const FightStatus = {
+  OPEN: 0,
+  CLOSED: 1,
+  RESOLVED: 2,
+} as const;
+
+export const WinMethod = {
+  KNOCKOUT: 0,
+  SUBMISSION: 1,
+  DECISION: 2,
+  NO_CONTEST: 3,
+} as const;
+
+export const Corner = {
+  RED: 0,
+  BLUE: 1,
+  NONE: 2,
+} as const;
+
+// struct ClaimInput
+export interface ClaimInput {
+  fightId: BigNumberish;
+  boostIndices: BigNumberish[];
+}
+
+// struct Boost
+export interface Boost {
+  user: string;
+  amount: bigint;
+  predictedWinner: bigint; // Corner
+  predictedMethod: bigint; // WinMethod
+  claimed: boolean;
+}
+
+// struct BoostInput
+export interface BoostInput {
+  fightId: BigNumberish;
+  amount: BigNumberish;
+  predictedWinner: BigNumberish; // Corner
+  predictedMethod: BigNumberish; // WinMethod
+}
+
+// struct FightResultInput
+export interface FightResultInput {
+  fightId: BigNumberish;
+  winner: BigNumberish; // Corner
+  method: BigNumberish; // WinMethod
+  pointsForWinner: BigNumberish;
+  pointsForWinnerMethod: BigNumberish;
+  sumWinnersStakes: BigNumberish;
+  winningPoolTotalShares: BigNumberish;
+}
+
+// getEvent() return values
+export interface GetEventResult {
+  seasonId: bigint;
+  numFights: bigint;
+  exists: boolean;
+  claimReady: boolean;
+}
+
+// getEventFights() return values
+export interface GetEventFightsResult {
+  fightIds: bigint[];
+  statuses: bigint[]; // FightStatus
+}
+
+// getFight() return values
+export interface GetFightResult {
+  status: bigint; // FightStatus
+  winner: bigint; // Corner
+  method: bigint; // WinMethod
+  bonusPool: bigint;
+  originalPool: bigint;
+  sumWinnersStakes: bigint;
+  winningPoolTotalShares: bigint;
+  pointsForWinner: bigint;
+  pointsForWinnerMethod: bigint;
+  claimedAmount: bigint;
+  boostCutoff: bigint;
+  cancelled: boolean;
+}
+
+export interface BoosterContract extends BaseContract {
+  connect(runner: ContractRunner | null): BoosterContract;
+  getFunction(key: "getEvent"): BaseContractMethod<[eventId: string], GetEventResult, GetEventResult>;
+  getFunction<T extends ContractMethod = ContractMethod>(key: string | FunctionFragment): T;
+  addToBoost: BaseContractMethod<[eventId: string, fightId: BigNumberish, boostIndex: BigNumberish, additionalAmount: BigNumberish], void, ContractTransactionResponse>;
+  calculateUserPoints: BaseContractMethod<[predictedWinner: BigNumberish, predictedMethod: BigNumberish, actualWinner: BigNumberish, actualMethod: BigNumberish, pointsForWinner: BigNumberish, pointsForWinnerMethod: BigNumberish], bigint, bigint>;
+  cancelFight: BaseContractMethod<[eventId: string, fightId: BigNumberish], void, ContractTransactionResponse>;
+  claimReward: BaseContractMethod<[eventId: string, fightId: BigNumberish, boostIndices: BigNumberish[]], void, ContractTransactionResponse>;
+  claimRewards: BaseContractMethod<[eventId: string, inputs: ClaimInput[]], void, ContractTransactionResponse>;
+  createEvent: BaseContractMethod<[eventId: string, numFights: BigNumberish, seasonId: BigNumberish, defaultBoostCutoff: BigNumberish], void, ContractTransactionResponse>;
+  DEFAULT_ADMIN_ROLE: BaseContractMethod<[], string, string>;
+  depositBonus: BaseContractMethod<[eventId: string, fightId: BigNumberish, amount: BigNumberish, force: boolean], void, ContractTransactionResponse>;
+  FP: BaseContractMethod<[], string, string>;
+  getEventClaimDeadline: BaseContractMethod<[eventId: string], bigint, bigint>;
+  getEventFights: BaseContractMethod<[eventId: string], GetEventFightsResult, GetEventFightsResult>;
+  getFight: BaseContractMethod<[eventId: string, fightId: BigNumberish], GetFightResult, GetFightResult>;
+  getRoleAdmin: BaseContractMethod<[role: BytesLike], string, string>;
+  getUserBoostIndices: BaseContractMethod<[eventId: string, fightId: BigNumberish, user: AddressLike], bigint[], bigint[]>;
+  getUserBoosts: BaseContractMethod<[eventId: string, fightId: BigNumberish, user: AddressLike], Boost[], Boost[]>;
+  grantRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  hasRole: BaseContractMethod<[role: BytesLike, account: AddressLike], boolean, boolean>;
+  initialize: BaseContractMethod<[_fp: AddressLike, admin: AddressLike], void, ContractTransactionResponse>;
+  isEventClaimReady: BaseContractMethod<[eventId: string], boolean, boolean>;
+  maxBonusDeposit: BaseContractMethod<[], bigint, bigint>;
+  maxFightsPerEvent: BaseContractMethod<[], bigint, bigint>;
+  minBoostAmount: BaseContractMethod<[], bigint, bigint>;
+  onERC1155BatchReceived: BaseContractMethod<[arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike], string, string>;
+  onERC1155Received: BaseContractMethod<[arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike], string, string>;
+  OPERATOR_ROLE: BaseContractMethod<[], string, string>;
+  placeBoosts: BaseContractMethod<[eventId: string, inputs: BoostInput[]], void, ContractTransactionResponse>;
+  proxiableUUID: BaseContractMethod<[], string, string>;
+  purgeEvent: BaseContractMethod<[eventId: string, recipient: AddressLike], void, ContractTransactionResponse>;
+  quoteClaimable: BaseContractMethod<[eventId: string, fightId: BigNumberish, user: AddressLike, enforceDeadline: boolean], bigint, bigint>;
+  quoteClaimableHistorical: BaseContractMethod<[eventId: string, fightId: BigNumberish, user: AddressLike], bigint, bigint>;
+  renounceRole: BaseContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, ContractTransactionResponse>;
+  revokeRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  setEventBoostCutoff: BaseContractMethod<[eventId: string, cutoff: BigNumberish], void, ContractTransactionResponse>;
+  setEventClaimDeadline: BaseContractMethod<[eventId: string, deadline: BigNumberish], void, ContractTransactionResponse>;
+  setEventClaimReady: BaseContractMethod<[eventId: string, claimReady: boolean], void, ContractTransactionResponse>;
+  setFightBoostCutoff: BaseContractMethod<[eventId: string, fightId: BigNumberish, cutoff: BigNumberish], void, ContractTransactionResponse>;
+  setFP: BaseContractMethod<[newFP: AddressLike], void, ContractTransactionResponse>;
+  setMaxBonusDeposit: BaseContractMethod<[newMax: BigNumberish], void, ContractTransactionResponse>;
+  setMaxFightsPerEvent: BaseContractMethod<[newMax: BigNumberish], void, ContractTransactionResponse>;
+  setMinBoostAmount: BaseContractMethod<[newMin: BigNumberish], void, ContractTransactionResponse>;
+  submitFightResult: BaseContractMethod<[eventId: string, fightId: BigNumberish, winner: BigNumberish, method: BigNumberish, pointsForWinner: BigNumberish, pointsForWinnerMethod: BigNumberish, sumWinnersStakes: BigNumberish, winningPoolTotalShares: BigNumberish], void, ContractTransactionResponse>;
+  submitFightResults: BaseContractMethod<[eventId: string, inputs: FightResultInput[]], void, ContractTransactionResponse>;
+  supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+  totalPool: BaseContractMethod<[eventId: string, fightId: BigNumberish], bigint, bigint>;
+  updateFightStatus: BaseContractMethod<[eventId: string, fightId: BigNumberish, newStatus: BigNumberish], void, ContractTransactionResponse>;
+  UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+  upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+}
+
+export function connectBooster(address: string, runner?: ContractRunner | null): BoosterContract {
+  return new Contract(address, BOOSTER_ABI, runner) as unknown as BoosterContract;
+}
@@ -0,0 +1,170 @@
+// Generated by tools/contracts/generate-bindings.ts from out/DailyLottery.sol/DailyLottery.json.
+// Do not edit by hand: run `npm run bindings` after `forge build`.
+import { Contract } from "ethers";
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ContractRunner, ContractTransactionResponse } from "ethers";
+
+export const DAILY_LOTTERY_ABI = [
+  "constructor()",
+  "error AccessControlBadConfirmation()",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AddressEmptyCode(address target)",
+  "error ECDSAInvalidSignature()",
+  "error ECDSAInvalidSignatureLength(uint256 length)",
+  "error ECDSAInvalidSignatureS(bytes32 s)",
+  "error ERC1967InvalidImplementation(address implementation)",
+  "error ERC1967NonPayable()",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error FailedCall()",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+  "event DefaultsUpdated(uint256 seasonId, uint256 entryPrice, uint256 maxEntriesPerUser, uint256 maxFreeEntriesPerUser)",
+  "event EIP712DomainChanged()",
+  "event EntryPurchased(address indexed user, uint256 indexed dayId, uint256 entriesPurchased)",
+  "event FreeEntryGranted(address indexed user, uint256 indexed dayId, uint256 nonce)",
+  "event Initialized(uint64 version)",
+  "event LotteryRoundCreated(uint256 indexed dayId, uint256 seasonId, uint256 entryPrice, uint256 maxEntriesPerUser, uint256 maxFreeEntriesPerUser)",
+  "event Paused(address account)",
+  "event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoundParametersUpdated(uint256 indexed dayId, uint256 entryPrice, uint256 maxEntriesPerUser, uint256 maxFreeEntriesPerUser)",
+  "event Unpaused(address account)",
+  "event Upgraded(address indexed implementation)",
+  "event WinnerDrawn(uint256 indexed dayId, address indexed winner, uint8 prizeType, address tokenAddress, uint256 seasonId, uint256 amount)",
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function FREE_ENTRY_SIGNER_ROLE() view returns (bytes32)",
+  "function FREE_ENTRY_TYPEHASH() view returns (bytes32)",
+  "function LOTTERY_ADMIN_ROLE() view returns (bytes32)",
+  "function UPGRADE_INTERFACE_VERSION() view returns (string)",
+  "function buyEntry()",
+  "function claimFreeEntry(bytes signature)",
+  "function defaultEntryPrice() view returns (uint256)",
+  "function defaultMaxEntriesPerUser() view returns (uint256)",
+  "function defaultMaxFreeEntriesPerUser() view returns (uint256)",
+  "function defaultSeasonId() view returns (uint256)",
+  "function drawWinner(uint256 dayId, uint256 winningIndex, (uint8 prizeType, address tokenAddress, uint256 seasonId, uint256 amount) prize)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function fpToken() view returns (address)",
+  "function getCurrentDayId() view returns (uint256)",
+  "function getEntry(uint256 dayId, uint256 index) view returns (address)",
+  "function getLotteryRound(uint256 dayId) view returns ((uint256 dayId, uint256 seasonId, uint256 entryPrice, uint256 maxEntriesPerUser, uint256 maxFreeEntriesPerUser, uint256 totalEntries, uint256 totalPaid, address winner, bool finalized, uint8 prizeType, address prizeTokenAddress, uint256 prizeSeasonId, uint256 prizeAmount))",
+  "function getRemainingEntries(uint256 dayId, address user) view returns (uint256 remainingFreeEntries, uint256 remainingTotalEntries)",
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+  "function getTotalEntries(uint256 dayId) view returns (uint256)",
+  "function getUserEntries(uint256 dayId, address user) view returns (uint256)",
+  "function getUserNonce(uint256 dayId, address user) view returns (uint256)",
+  "function grantRole(bytes32 role, address account)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function initialize(address _fpToken, address _defaultAdmin, address _lotteryAdmin)",
+  "function onERC1155BatchReceived(address, address, uint256[], uint256[], bytes) pure returns (bytes4)",
+  "function onERC1155Received(address, address, uint256, uint256, bytes) pure returns (bytes4)",
+  "function pause()",
+  "function paused() view returns (bool)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+  "function revokeRole(bytes32 role, address account)",
+  "function setDefaults(uint256 _defaultSeasonId, uint256 _defaultEntryPrice, uint256 _defaultMaxEntriesPerUser, uint256 _defaultMaxFreeEntriesPerUser)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function unpause()",
+  "function updateRoundParameters(uint256 dayId, uint256 newEntryPrice, uint256 newMaxEntriesPerUser, uint256 newMaxFreeEntriesPerUser)",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+] as const;
+
+export const PrizeType = {
+  FP: 0,
+  ERC20: 1,
+} as const;
+
+// struct PrizeData
+export interface PrizeDataInput {
+  prizeType: BigNumberish; // PrizeType
+  tokenAddress: AddressLike;
+  seasonId: BigNumberish;
+  amount: BigNumberish;
+}
+
+// struct LotteryRound
+export interface LotteryRound {
+  dayId: bigint;
+  seasonId: bigint;
+  entryPrice: bigint;
+  maxEntriesPerUser: bigint;
+  maxFreeEntriesPerUser: bigint;
+  totalEntries: bigint;
+  totalPaid: bigint;
+  winner: string;
+  finalized: boolean;
+  prizeType: bigint; // PrizeType
+  prizeTokenAddress: string;
+  prizeSeasonId: bigint;
+  prizeAmount: bigint;
+}
+
+// eip712Domain() return values
+export interface Eip712DomainResult {
+  fields: string;
+  name: string;
+  version: string;
+  chainId: bigint;
+  verifyingContract: string;
+  salt: string;
+  extensions: bigint[];
+}
+
+// getRemainingEntries() return values
+export interface GetRemainingEntriesResult {
+  remainingFreeEntries: bigint;
+  remainingTotalEntries: bigint;
+}
+
+export interface DailyLotteryContract extends BaseContract {
+  connect(runner: ContractRunner | null): DailyLotteryContract;
+  buyEntry: BaseContractMethod<[], void, ContractTransactionResponse>;
+  claimFreeEntry: BaseContractMethod<[signature: BytesLike], void, ContractTransactionResponse>;
+  DEFAULT_ADMIN_ROLE: BaseContractMethod<[], string, string>;
+  defaultEntryPrice: BaseContractMethod<[], bigint, bigint>;
+  defaultMaxEntriesPerUser: BaseContractMethod<[], bigint, bigint>;
+  defaultMaxFreeEntriesPerUser: BaseContractMethod<[], bigint, bigint>;
+  defaultSeasonId: BaseContractMethod<[], bigint, bigint>;
+  DOMAIN_SEPARATOR: BaseContractMethod<[], string, string>;
+  drawWinner: BaseContractMethod<[dayId: BigNumberish, winningIndex: BigNumberish, prize: PrizeDataInput], void, ContractTransactionResponse>;
+  eip712Domain: BaseContractMethod<[], Eip712DomainResult, Eip712DomainResult>;
+  fpToken: BaseContractMethod<[], string, string>;
+  FREE_ENTRY_SIGNER_ROLE: BaseContractMethod<[], string, string>;
+  FREE_ENTRY_TYPEHASH: BaseContractMethod<[], string, string>;
+  getCurrentDayId: BaseContractMethod<[], bigint, bigint>;
+  getEntry: BaseContractMethod<[dayId: BigNumberish, index: BigNumberish], string, string>;
+  getLotteryRound: BaseContractMethod<[dayId: BigNumberish], LotteryRound, LotteryRound>;
+  getRemainingEntries: BaseContractMethod<[dayId: BigNumberish, user: AddressLike], GetRemainingEntriesResult, GetRemainingEntriesResult>;
+  getRoleAdmin: BaseContractMethod<[role: BytesLike], string, string>;
+  getTotalEntries: BaseContractMethod<[dayId: BigNumberish], bigint, bigint>;
+  getUserEntries: BaseContractMethod<[dayId: BigNumberish, user: AddressLike], bigint, bigint>;
+  getUserNonce: BaseContractMethod<[dayId: BigNumberish, user: AddressLike], bigint, bigint>;
+  grantRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  hasRole: BaseContractMethod<[role: BytesLike, account: AddressLike], boolean, boolean>;
+  initialize: BaseContractMethod<[_fpToken: AddressLike, _defaultAdmin: AddressLike, _lotteryAdmin: AddressLike], void, ContractTransactionResponse>;
+  LOTTERY_ADMIN_ROLE: BaseContractMethod<[], string, string>;
+  onERC1155BatchReceived: BaseContractMethod<[arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike], string, string>;
+  onERC1155Received: BaseContractMethod<[arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike], string, string>;
+  pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  paused: BaseContractMethod<[], boolean, boolean>;
+  proxiableUUID: BaseContractMethod<[], string, string>;
+  renounceRole: BaseContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, ContractTransactionResponse>;
+  revokeRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  setDefaults: BaseContractMethod<[_defaultSeasonId: BigNumberish, _defaultEntryPrice: BigNumberish, _defaultMaxEntriesPerUser: BigNumberish, _defaultMaxFreeEntriesPerUser: BigNumberish], void, ContractTransactionResponse>;
+  supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+  unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  updateRoundParameters: BaseContractMethod<[dayId: BigNumberish, newEntryPrice: BigNumberish, newMaxEntriesPerUser: BigNumberish, newMaxFreeEntriesPerUser: BigNumberish], void, ContractTransactionResponse>;
+  UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+  upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+}
+
+export function connectDailyLottery(address: string, runner?: ContractRunner | null): DailyLotteryContract {
+  return new Contract(address, DAILY_LOTTERY_ABI, runner) as unknown as DailyLotteryContract;
+}
@@ -0,0 +1,32 @@
+// Generated by tools/contracts/generate-bindings.ts from out/Deposit.sol/Deposit.json.
+// Do not edit by hand: run `npm run bindings` after `forge build`.
+import { Contract } from "ethers";
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ContractRunner, ContractTransactionResponse } from "ethers";
+
+export const DEPOSIT_ABI = [
+  "constructor(address _fp)",
+  "event Deposited(address indexed user, uint256 indexed seasonId, uint256 amount)",
+  "event Withdrawn(address indexed user, uint256 indexed seasonId, uint256 amount)",
+  "function FP() view returns (address)",
+  "function deposit(uint256 seasonId, uint256 amount)",
+  "function deposited(address, uint256) view returns (uint256)",
+  "function onERC1155BatchReceived(address, address, uint256[], uint256[], bytes) returns (bytes4)",
+  "function onERC1155Received(address, address, uint256, uint256, bytes) returns (bytes4)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function withdraw(uint256 seasonId, uint256 amount)",
+] as const;
+
+export interface DepositContract extends BaseContract {
+  connect(runner: ContractRunner | null): DepositContract;
+  deposit: BaseContractMethod<[seasonId: BigNumberish, amount: BigNumberish], void, ContractTransactionResponse>;
+  deposited: BaseContractMethod<[arg0: AddressLike, arg1: BigNumberish], bigint, bigint>;
+  FP: BaseContractMethod<[], string, string>;
+  onERC1155BatchReceived: BaseContractMethod<[arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish[], arg3: BigNumberish[], arg4: BytesLike], string, ContractTransactionResponse>;
+  onERC1155Received: BaseContractMethod<[arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish, arg3: BigNumberish, arg4: BytesLike], string, ContractTransactionResponse>;
+  supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+  withdraw: BaseContractMethod<[seasonId: BigNumberish, amount: BigNumberish], void, ContractTransactionResponse>;
+}
+
+export function connectDeposit(address: string, runner?: ContractRunner | null): DepositContract {
+  return new Contract(address, DEPOSIT_ABI, runner) as unknown as DepositContract;
+}
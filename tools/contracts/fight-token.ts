@@ -0,0 +1,34 @@
+// FIGHT token binding. Hand-written: the token is not built from this repo (it is the Staking constructor
+// argument), so it only covers the ERC20 surface the tools use, plus mint() of the testnet token.
+import { Contract } from "ethers";
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, ContractRunner, ContractTransactionResponse } from "ethers";
+
+export const FIGHT_TOKEN_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function mint(address to, uint256 amount)",
+  "function symbol() view returns (string)",
+  "function totalSupply() view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+] as const;
+
+export interface FightTokenContract extends BaseContract {
+  connect(runner: ContractRunner | null): FightTokenContract;
+  allowance: BaseContractMethod<[owner: AddressLike, spender: AddressLike], bigint, bigint>;
+  approve: BaseContractMethod<[spender: AddressLike, amount: BigNumberish], boolean, ContractTransactionResponse>;
+  balanceOf: BaseContractMethod<[account: AddressLike], bigint, bigint>;
+  decimals: BaseContractMethod<[], bigint, bigint>;
+  // testnet token only
+  mint: BaseContractMethod<[to: AddressLike, amount: BigNumberish], void, ContractTransactionResponse>;
+  symbol: BaseContractMethod<[], string, string>;
+  totalSupply: BaseContractMethod<[], bigint, bigint>;
+  transfer: BaseContractMethod<[to: AddressLike, amount: BigNumberish], boolean, ContractTransactionResponse>;
+}
+
+export function connectFightToken(address: string, runner?: ContractRunner | null): FightTokenContract {
+  return new Contract(address, FIGHT_TOKEN_ABI, runner) as unknown as FightTokenContract;
+}
@@ -0,0 +1,158 @@
+// Generated by tools/contracts/generate-bindings.ts from out/FP1155.sol/FP1155.json.
+// Do not edit by hand: run `npm run bindings` after `forge build`.
+import { Contract } from "ethers";
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ContractRunner, ContractTransactionResponse } from "ethers";
+
+export const FP1155_ABI = [
+  "constructor()",
+  "error AccessControlBadConfirmation()",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AddressEmptyCode(address target)",
+  "error ECDSAInvalidSignature()",
+  "error ECDSAInvalidSignatureLength(uint256 length)",
+  "error ECDSAInvalidSignatureS(bytes32 s)",
+  "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+  "error ERC1155InvalidApprover(address approver)",
+  "error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)",
+  "error ERC1155InvalidOperator(address operator)",
+  "error ERC1155InvalidReceiver(address receiver)",
+  "error ERC1155InvalidSender(address sender)",
+  "error ERC1155MissingApprovalForAll(address operator, address owner)",
+  "error ERC1967InvalidImplementation(address implementation)",
+  "error ERC1967NonPayable()",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error FailedCall()",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error ReentrancyGuardReentrantCall()",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+  "event AllowlistUpdated(address indexed account, bool allowed)",
+  "event ApprovalForAll(address indexed account, address indexed operator, bool approved)",
+  "event Burn(address indexed account, uint256 indexed seasonId, uint256 amount, uint256 timestamp)",
+  "event BurnBatch(address indexed account, uint256[] seasonIds, uint256[] amounts, uint256 timestamp)",
+  "event ClaimProcessed(address indexed account, uint256 indexed seasonId, uint256 amount, uint256 nonce)",
+  "event EIP712DomainChanged()",
+  "event Initialized(uint64 version)",
+  "event Paused(address account)",
+  "event RoleAdminChanged(bytes32 indexed role, bytes32 indexed previousAdminRole, bytes32 indexed newAdminRole)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event SeasonStatusUpdated(uint256 indexed seasonId, uint8 status)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event URI(string value, uint256 indexed id)",
+  "event Unpaused(address account)",
+  "event Upgraded(address indexed implementation)",
+  "function CLAIM_SIGNER_ROLE() view returns (bytes32)",
+  "function CLAIM_TYPEHASH() view returns (bytes32)",
+  "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function MINTER_ROLE() view returns (bytes32)",
+  "function PAUSER_ROLE() view returns (bytes32)",
+  "function SEASON_ADMIN_ROLE() view returns (bytes32)",
+  "function TRANSFER_AGENT_ROLE() view returns (bytes32)",
+  "function UPGRADE_INTERFACE_VERSION() view returns (string)",
+  "function agentTransferFrom(address from, address to, uint256 seasonId, uint256 amount, bytes data)",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+  "function burn(address account, uint256 id, uint256 value)",
+  "function burnBatch(address account, uint256[] ids, uint256[] values)",
+  "function claim(uint256 seasonId, uint256 amount, uint256 deadline, bytes signature)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function endpointAllowed(address account) view returns (bool)",
+  "function getRoleAdmin(bytes32 role) view returns (bytes32)",
+  "function grantRole(bytes32 role, address account)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function initialize(string baseURI, address admin)",
+  "function isApprovedForAll(address account, address operator) view returns (bool)",
+  "function isOnAllowlist(address account) view returns (bool)",
+  "function isTransfersAllowed(address from, address to, uint256 seasonId) view returns (bool)",
+  "function mint(address to, uint256 seasonId, uint256 amount, bytes data)",
+  "function mintBatch(address to, uint256[] seasonIds, uint256[] amounts, bytes data)",
+  "function nonces(address) view returns (uint256)",
+  "function pause()",
+  "function paused() view returns (bool)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function renounceRole(bytes32 role, address callerConfirmation)",
+  "function revokeRole(bytes32 role, address account)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] values, bytes data)",
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes data)",
+  "function seasonStatus(uint256 seasonId) view returns (uint8)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function setSeasonStatus(uint256 seasonId, uint8 status)",
+  "function setTransferAllowlist(address account, bool allowed)",
+  "function setURI(string newBaseURI)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function unpause()",
+  "function upgradeToAndCall(address newImplementation, bytes data) payable",
+  "function uri(uint256) view returns (string)",
+] as const;
+
+export const SeasonStatus = {
+  OPEN: 0,
+  LOCKED: 1,
+} as const;
+
+// eip712Domain() return values
+export interface Eip712DomainResult {
+  fields: string;
+  name: string;
+  version: string;
+  chainId: bigint;
+  verifyingContract: string;
+  salt: string;
+  extensions: bigint[];
+}
+
+export interface FP1155Contract extends BaseContract {
+  connect(runner: ContractRunner | null): FP1155Contract;
+  agentTransferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, seasonId: BigNumberish, amount: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  balanceOf: BaseContractMethod<[account: AddressLike, id: BigNumberish], bigint, bigint>;
+  balanceOfBatch: BaseContractMethod<[accounts: AddressLike[], ids: BigNumberish[]], bigint[], bigint[]>;
+  burn: BaseContractMethod<[account: AddressLike, id: BigNumberish, value: BigNumberish], void, ContractTransactionResponse>;
+  burnBatch: BaseContractMethod<[account: AddressLike, ids: BigNumberish[], values: BigNumberish[]], void, ContractTransactionResponse>;
+  claim: BaseContractMethod<[seasonId: BigNumberish, amount: BigNumberish, deadline: BigNumberish, signature: BytesLike], void, ContractTransactionResponse>;
+  CLAIM_SIGNER_ROLE: BaseContractMethod<[], string, string>;
+  CLAIM_TYPEHASH: BaseContractMethod<[], string, string>;
+  DEFAULT_ADMIN_ROLE: BaseContractMethod<[], string, string>;
+  DOMAIN_SEPARATOR: BaseContractMethod<[], string, string>;
+  eip712Domain: BaseContractMethod<[], Eip712DomainResult, Eip712DomainResult>;
+  endpointAllowed: BaseContractMethod<[account: AddressLike], boolean, boolean>;
+  getRoleAdmin: BaseContractMethod<[role: BytesLike], string, string>;
+  grantRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  hasRole: BaseContractMethod<[role: BytesLike, account: AddressLike], boolean, boolean>;
+  initialize: BaseContractMethod<[baseURI: string, admin: AddressLike], void, ContractTransactionResponse>;
+  isApprovedForAll: BaseContractMethod<[account: AddressLike, operator: AddressLike], boolean, boolean>;
+  isOnAllowlist: BaseContractMethod<[account: AddressLike], boolean, boolean>;
+  isTransfersAllowed: BaseContractMethod<[from: AddressLike, to: AddressLike, seasonId: BigNumberish], boolean, boolean>;
+  mint: BaseContractMethod<[to: AddressLike, seasonId: BigNumberish, amount: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  mintBatch: BaseContractMethod<[to: AddressLike, seasonIds: BigNumberish[], amounts: BigNumberish[], data: BytesLike], void, ContractTransactionResponse>;
+  MINTER_ROLE: BaseContractMethod<[], string, string>;
+  nonces: BaseContractMethod<[arg0: AddressLike], bigint, bigint>;
+  pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  paused: BaseContractMethod<[], boolean, boolean>;
+  PAUSER_ROLE: BaseContractMethod<[], string, string>;
+  proxiableUUID: BaseContractMethod<[], string, string>;
+  renounceRole: BaseContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, ContractTransactionResponse>;
+  revokeRole: BaseContractMethod<[role: BytesLike, account: AddressLike], void, ContractTransactionResponse>;
+  safeBatchTransferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, ids: BigNumberish[], values: BigNumberish[], data: BytesLike], void, ContractTransactionResponse>;
+  safeTransferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, id: BigNumberish, value: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+  SEASON_ADMIN_ROLE: BaseContractMethod<[], string, string>;
+  seasonStatus: BaseContractMethod<[seasonId: BigNumberish], bigint, bigint>;
+  setApprovalForAll: BaseContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+  setSeasonStatus: BaseContractMethod<[seasonId: BigNumberish, status: BigNumberish], void, ContractTransactionResponse>;
+  setTransferAllowlist: BaseContractMethod<[account: AddressLike, allowed: boolean], void, ContractTransactionResponse>;
+  setURI: BaseContractMethod<[newBaseURI: string], void, ContractTransactionResponse>;
+  supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+  TRANSFER_AGENT_ROLE: BaseContractMethod<[], string, string>;
+  unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+  upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+  uri: BaseContractMethod<[arg0: BigNumberish], string, string>;
+}
+
+export function connectFP1155(address: string, runner?: ContractRunner | null): FP1155Contract {
+  return new Contract(address, FP1155_ABI, runner) as unknown as FP1155Contract;
+}
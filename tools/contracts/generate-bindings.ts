@@ -0,0 +1,83 @@
+/**
+ * @notice Generate typed contract bindings from Foundry build artifacts
+ *
+ * Reads out/<Contract>.sol/<Contract>.json (and the enums of src/<Contract>.sol) for Booster, FP1155,
+ * DailyLottery, Staking and Deposit, then writes tools/contracts/<contract>.ts with:
+ *   - the human-readable ABI (<CONTRACT>_ABI)
+ *   - enums as const objects (FightStatus, WinMethod, Corner, SeasonStatus, PrizeType)
+ *   - struct and multi-value return interfaces with named fields (Boost, LotteryRound, GetFightResult, ...)
+ *   - a typed <Contract>Contract interface and a connect<Contract>(address, runner) factory
+ *
+ * Tools import these modules instead of declaring inline ABIs, so a contract change only needs
+ * `forge build` + this script, and the type-check points at every tool that no longer matches.
+ *
+ * @example Regenerate after changing a contract
+ * forge build && ts-node tools/contracts/generate-bindings.ts
+ *
+ * @example Check that the committed bindings match the artifacts (exit 1 when they do not)
+ * ts-node tools/contracts/generate-bindings.ts --check
+ *
+ * @example Custom artifact directory
+ * ts-node tools/contracts/generate-bindings.ts --artifacts ./out --src ./src
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "../cli/args";
+import {
+  BINDINGS_DIR,
+  BOUND_CONTRACTS,
+  DEFAULT_OUT_DIR,
+  DEFAULT_SRC_DIR,
+  readArtifactAbi,
+  readSourceEnums,
+  renderBindingModule,
+} from "./bindings.utils";
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const outDir = args.artifacts || DEFAULT_OUT_DIR;
+  const srcDir = args.src || DEFAULT_SRC_DIR;
+  const check = !!args.check;
+
+  const outputs = BOUND_CONTRACTS.map((target) => {
+    const abi = readArtifactAbi(outDir, target.contract);
+    const enums = readSourceEnums(srcDir, target.contract);
+    const file = path.join(BINDINGS_DIR, `${target.file}.ts`);
+    const functions = abi.filter((entry) => entry.type === "function").length;
+    console.log(`${target.contract.padEnd(14)} ${functions} functions, ${enums.size} enums`);
+    return {
+      file,
+      next: renderBindingModule(target, abi, enums),
+      current: fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "",
+    };
+  });
+
+  console.log("");
+  if (check) {
+    const stale = outputs.filter((output) => output.next !== output.current);
+    for (const output of stale) console.error(`❌ ${path.relative(process.cwd(), output.file)} is out of date`);
+    if (stale.length > 0) {
+      console.error("Run: forge build && ts-node tools/contracts/generate-bindings.ts");
+      process.exit(1);
+    }
+    console.log("✅ Contract bindings are up to date");
+    return;
+  }
+
+  for (const output of outputs) {
+    const relative = path.relative(process.cwd(), output.file);
+    if (output.next === output.current) {
+      console.log(`= ${relative} (unchanged)`);
+      continue;
+    }
+    fs.writeFileSync(output.file, output.next);
+    console.log(`✓ Wrote ${relative}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
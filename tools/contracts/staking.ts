@@ -0,0 +1,60 @@
+// Generated by tools/contracts/generate-bindings.ts from out/Staking.sol/Staking.json.
+// Do not edit by hand: run `npm run bindings` after `forge build`.
+import { Contract } from "ethers";
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, ContractRunner, ContractTransactionResponse } from "ethers";
+
+export const STAKING_ABI = [
+  "constructor(address fightToken, address owner)",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error OwnableInvalidOwner(address owner)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event Paused(address account)",
+  "event RecoveredERC20(address indexed token, address indexed to, uint256 amount)",
+  "event RecoveredFightSurplus(address indexed to, uint256 amount)",
+  "event Staked(address indexed user, uint256 amount, uint256 userBalanceBefore, uint256 userBalanceAfter, uint256 totalStakedAfter, uint256 timestamp, uint256 blockNumber)",
+  "event Unpaused(address account)",
+  "event Unstaked(address indexed user, uint256 amount, uint256 userBalanceBefore, uint256 userBalanceAfter, uint256 totalStakedAfter, uint256 timestamp, uint256 blockNumber)",
+  "function FIGHT_TOKEN() view returns (address)",
+  "function acceptOwnership()",
+  "function balances(address) view returns (uint256)",
+  "function owner() view returns (address)",
+  "function pause()",
+  "function paused() view returns (bool)",
+  "function pendingOwner() view returns (address)",
+  "function recoverERC20(address token, address to, uint256 amount)",
+  "function recoverFightSurplus(address to)",
+  "function renounceOwnership()",
+  "function stake(uint256 amount)",
+  "function totalStaked() view returns (uint256)",
+  "function transferOwnership(address newOwner)",
+  "function unpause()",
+  "function unstake(uint256 amount)",
+] as const;
+
+export interface StakingContract extends BaseContract {
+  connect(runner: ContractRunner | null): StakingContract;
+  acceptOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+  balances: BaseContractMethod<[arg0: AddressLike], bigint, bigint>;
+  FIGHT_TOKEN: BaseContractMethod<[], string, string>;
+  owner: BaseContractMethod<[], string, string>;
+  pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  paused: BaseContractMethod<[], boolean, boolean>;
+  pendingOwner: BaseContractMethod<[], string, string>;
+  recoverERC20: BaseContractMethod<[token: AddressLike, to: AddressLike, amount: BigNumberish], void, ContractTransactionResponse>;
+  recoverFightSurplus: BaseContractMethod<[to: AddressLike], void, ContractTransactionResponse>;
+  renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+  stake: BaseContractMethod<[amount: BigNumberish], void, ContractTransactionResponse>;
+  totalStaked: BaseContractMethod<[], bigint, bigint>;
+  transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+  unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+  unstake: BaseContractMethod<[amount: BigNumberish], void, ContractTransactionResponse>;
+}
+
+export function connectStaking(address: string, runner?: ContractRunner | null): StakingContract {
+  return new Contract(address, STAKING_ABI, runner) as unknown as StakingContract;
+}
@@ -0,0 +1,184 @@
+// Generated by tools/deployments/generate-address-book.ts from broadcast/*/<chainId>/run-latest.json.
+// Do not edit by hand: run `npm run address-book` after a deployment or upgrade.
+import { AddressBook } from "./broadcast.utils";
+
+export const ADDRESS_BOOK: AddressBook = {
+  "56": {
+    "FP1155": {
+      "current": "0xD0B591751E6aa314192810471461bDE963796306",
+      "proxies": [
+        {
+          "address": "0x6F6635907A5f75e72A8D931f958F79190Ee92Fde",
+          "deployment": {
+            "script": "DeployUpgradeable.s.sol",
+            "txHash": "0x53f5af64662e600e5b0c3a72816c596794fd0ddb7cd8978f1a0e1728ced15216",
+            "blockNumber": 68072849,
+            "timestamp": 1763055723
+          },
+          "implementation": "0x60b8B58a78210a2b85cF4a6C7b511f7b167F8612",
+          "implementations": [
+            {
+              "address": "0x60b8B58a78210a2b85cF4a6C7b511f7b167F8612",
+              "script": "DeployUpgradeable.s.sol",
+              "txHash": "0xeccc731d235fa274e3af5a6ca33ec5593d6d73cc647517aa232d16ed0f2aed6e",
+              "blockNumber": 68072848,
+              "timestamp": 1763055723
+            }
+          ]
+        },
+        {
+          "address": "0xD0B591751E6aa314192810471461bDE963796306",
+          "implementation": "0x2f17af6A5887770f909104396305bAB022964d2B",
+          "implementations": [
+            {
+              "address": "0x2f17af6A5887770f909104396305bAB022964d2B",
+              "script": "UpgradeFP1155.s.sol",
+              "txHash": "0x649ffbfdbe7a2799b98d7ed2ad8b88bf743938d82c3f847c46d599c6292709f7",
+              "blockNumber": 71890592,
+              "timestamp": 1765919856,
+              "upgradeTxHash": "0xac0c274a5177a06b3071c4755a50601d73ceb98c75d531089d30a38c55561659"
+            }
+          ]
+        }
+      ],
+      "standalone": [
+        {
+          "address": "0x5Fa58c84606Eba7000eCaF24C918086B094Db39a",
+          "script": "Deploy.s.sol",
+          "txHash": "0x66f605f378e787bd2a61313e3587fc333f76184c775c91de059ed5f96cae9a18",
+          "blockNumber": 67187303,
+          "timestamp": 1762391445
+        }
+      ]
+    },
+    "Booster": {
+      "current": "0x6A5CA58d449773A6Bb4c1eccf0f509FfB292D89B",
+      "proxies": [
+        {
+          "address": "0x6A5CA58d449773A6Bb4c1eccf0f509FfB292D89B",
+          "deployment": {
+            "script": "DeployBooster.s.sol",
+            "txHash": "0xcd28d014e6774b1585205986933da806834ce95f90bda7035ba04013733ac490",
+            "blockNumber": 69002715,
+            "timestamp": 1763753360
+          },
+          "implementation": "0x75045858325097dC267EB2cbF17E12b5027dEDe7",
+          "implementations": [
+            {
+              "address": "0x75045858325097dC267EB2cbF17E12b5027dEDe7",
+              "script": "DeployBooster.s.sol",
+              "txHash": "0xc1bf32569d0239e8ab20078b0b38b97081e975be4b9863ef3ec73ffed53391b7",
+              "blockNumber": 69002715,
+              "timestamp": 1763753360
+            }
+          ]
+        }
+      ],
+      "standalone": []
+    }
+  },
+  "97": {
+    "FP1155": {
+      "current": "0x5E845Db62fDF02451cfC98be1e9927eB48a42fce",
+      "proxies": [
+        {
+          "address": "0x5E845Db62fDF02451cfC98be1e9927eB48a42fce",
+          "deployment": {
+            "script": "DeployUpgradeable.s.sol",
+            "txHash": "0xfe5db62aabff22d500a0c4b4a676bb46c2f190b869ce5e4b3b867dfba602c009",
+            "blockNumber": 72553449,
+            "timestamp": 1763055597
+          },
+          "implementation": "0x60b8B58a78210a2b85cF4a6C7b511f7b167F8612",
+          "implementations": [
+            {
+              "address": "0xFf2c7902FF6388553D1125Ca26545e30eaA1A4e6",
+              "script": "DeployUpgradeable.s.sol",
+              "txHash": "0x9b8b4880ddce58d74774b30852d4889aa7af0407185a8345b31f3e0c4d317df7",
+              "blockNumber": 72553449,
+              "timestamp": 1763055597
+            },
+            {
+              "address": "0x60b8B58a78210a2b85cF4a6C7b511f7b167F8612",
+              "script": "UpgradeFP1155.s.sol",
+              "txHash": "0xc875e372e6f544c936e46bd968c7fdf2545b129bbf638c635bcfb5aad3c971cf",
+              "blockNumber": 74099636,
+              "timestamp": 1763752964,
+              "upgradeTxHash": "0xaffa8e4219e8c1d47de773aacd982a96ec35adfa7149179b3b7b6e7a9b93e1ad"
+            }
+          ]
+        }
+      ],
+      "standalone": [
+        {
+          "address": "0xD0B591751E6aa314192810471461bDE963796306",
+          "script": "Deploy.s.sol",
+          "txHash": "0x998beae5e01058145832978d6f6311ca81f13ed7edb4aa1f8e5bf42249a020b5",
+          "blockNumber": 71491008,
+          "timestamp": 1762465212
+        }
+      ]
+    },
+    "Booster": {
+      "current": "0xdcA538E7385dc39888f8934D7D3e9E6beE2E8DEf",
+      "proxies": [
+        {
+          "address": "0xdcA538E7385dc39888f8934D7D3e9E6beE2E8DEf",
+          "implementation": "0x246a11e8744E3cb99d89B609C42bF775e6bCea79",
+          "implementations": [
+            {
+              "address": "0x246a11e8744E3cb99d89B609C42bF775e6bCea79",
+              "script": "UpgradeBooster.s.sol",
+              "txHash": "0x75cb3c27c3338e7ba62011a4de7da4681f152c5f6d80453add4ff81fd9b7eda0",
+              "blockNumber": 87449376,
+              "timestamp": 1769779639,
+              "upgradeTxHash": "0x865edbc372a99fb0088972627db246260e99bfabc77269e298a8e3af48da8840"
+            }
+          ]
+        }
+      ],
+      "standalone": [
+        {
+          "address": "0x09107f150E478f7D81b35870e8c73c9Fb01Eda6B",
+          "script": "DeployBooster.s.sol",
+          "txHash": "0x126787596abaa8c592b1256e0cefb1b5661638ebcb73bffd215680b4d55adc89",
+          "blockNumber": 72553620,
+          "timestamp": 1763055636
+        }
+      ]
+    },
+    "DailyLottery": {
+      "current": "0x5370abf8009a99AB434f87D46b4718165fc7Fa5b",
+      "proxies": [
+        {
+          "address": "0x5370abf8009a99AB434f87D46b4718165fc7Fa5b",
+          "implementation": "0x9fb696488Bd1Ff578cd5F58D66860e40a300DA20",
+          "implementations": [
+            {
+              "address": "0x9fb696488Bd1Ff578cd5F58D66860e40a300DA20",
+              "script": "UpgradeDailyLottery.s.sol",
+              "txHash": "0x419f27706a06cf8a68f9927e600c0333e9c8ed1560ae49329fac639706c9935b",
+              "blockNumber": 82642510,
+              "timestamp": 1767606666,
+              "upgradeTxHash": "0x96bf0f49e537b09677fab9274a048cd1eff872e16b0a4e0cc992a2ccbd2247d8"
+            }
+          ]
+        }
+      ],
+      "standalone": []
+    },
+    "Staking": {
+      "current": "0xd8fc9f60B38005805A0825110B1329C8f26103cd",
+      "proxies": [],
+      "standalone": [
+        {
+          "address": "0xd8fc9f60B38005805A0825110B1329C8f26103cd",
+          "script": "DeployStaking.s.sol",
+          "txHash": "0x6d2ba43734c436c0b98de3b5d7f4835913e0a0fe198b64542f590884be876a28",
+          "blockNumber": 85716052,
+          "timestamp": 1768996111
+        }
+      ]
+    }
+  }
+};
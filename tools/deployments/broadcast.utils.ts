@@ -0,0 +1,297 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+
+export const DEFAULT_BROADCAST_DIR = path.join(__dirname, "..", "..", "broadcast");
+export const DEFAULT_ADDRESS_BOOK_PATH = path.join(__dirname, "address-book.ts");
+export const DEFAULT_DEPLOYMENT_DOC_PATH = path.join(__dirname, "..", "..", "DEPLOYMENT.md");
+
+// Contracts deployed by the scripts under script/ (ERC1967Proxy is recorded against the contract it fronts)
+export const DEPLOYED_CONTRACTS = ["FP1155", "Booster", "DailyLottery", "Staking"] as const;
+export type DeployedContractName = (typeof DEPLOYED_CONTRACTS)[number];
+
+export const CHAIN_LABELS: Record<number, string> = {
+  56: "BSC Mainnet",
+  97: "BSC Testnet",
+};
+
+// A transaction taken from a broadcast run
+export interface DeploymentTx {
+  script: string; // e.g. DeployBooster.s.sol
+  txHash: string;
+  blockNumber: number;
+  timestamp: number; // run timestamp (unix seconds)
+}
+
+export interface ImplementationRecord extends DeploymentTx {
+  address: string;
+  upgradeTxHash?: string; // upgradeToAndCall that pointed the proxy at this implementation
+}
+
+export interface ProxyRecord {
+  address: string;
+  // Unset when the proxy was deployed outside the recorded broadcasts and only seen through an upgrade
+  deployment?: DeploymentTx;
+  implementation: string; // current implementation
+  implementations: ImplementationRecord[]; // oldest first
+}
+
+export interface StandaloneRecord extends DeploymentTx {
+  address: string;
+}
+
+export interface ContractBook {
+  current: string; // address tools should use: the most recently active proxy, else the latest standalone deployment
+  proxies: ProxyRecord[];
+  standalone: StandaloneRecord[]; // non-proxy deployments (legacy or non-upgradeable contracts)
+}
+
+export type ChainBook = Partial<Record<DeployedContractName, ContractBook>>;
+export type AddressBook = Record<number, ChainBook>; // chainId → contracts
+
+// Minimal view of a Foundry run-latest.json
+interface BroadcastTransaction {
+  hash: string | null;
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+  function: string | null;
+  arguments: string[] | null;
+}
+
+interface BroadcastReceipt {
+  transactionHash: string;
+  status: string;
+  blockNumber: string;
+}
+
+interface BroadcastRun {
+  transactions: BroadcastTransaction[];
+  receipts: BroadcastReceipt[];
+  timestamp: number;
+  chain: number;
+}
+
+export interface BroadcastFile {
+  script: string;
+  chainId: number;
+  file: string;
+  run: BroadcastRun;
+}
+
+const UPGRADE_FUNCTION = "upgradeToAndCall(address,bytes)";
+
+function isDeployedContract(name: string | null): name is DeployedContractName {
+  return !!name && (DEPLOYED_CONTRACTS as readonly string[]).includes(name);
+}
+
+// Every broadcast/<script>/<chainId>/run-latest.json, oldest run first
+export function readBroadcastFiles(broadcastDir: string = DEFAULT_BROADCAST_DIR): BroadcastFile[] {
+  if (!fs.existsSync(broadcastDir)) throw new Error(`Broadcast directory not found: ${broadcastDir}`);
+
+  const files: BroadcastFile[] = [];
+  for (const script of fs.readdirSync(broadcastDir).sort()) {
+    const scriptDir = path.join(broadcastDir, script);
+    if (!fs.statSync(scriptDir).isDirectory()) continue;
+    for (const chain of fs.readdirSync(scriptDir).sort()) {
+      const file = path.join(scriptDir, chain, "run-latest.json");
+      if (!/^\d+$/.test(chain) || !fs.existsSync(file)) continue;
+      const run = JSON.parse(fs.readFileSync(file, "utf8")) as BroadcastRun;
+      files.push({ script, chainId: Number(chain), file, run });
+    }
+  }
+  return files.sort((a, b) => a.run.timestamp - b.run.timestamp);
+}
+
+/**
+ * Build the address book from broadcast runs.
+ * Only transactions with a successful receipt are used, so runs that were never confirmed
+ * (e.g. a broadcast interrupted before its receipts were written) do not show up.
+ *   - CREATE <Contract>                 → implementation, or a standalone deployment when no proxy ever uses it
+ *   - CREATE ERC1967Proxy(impl, init)   → proxy of the implementation's contract
+ *   - CALL upgradeToAndCall(impl, data) → upgrade; proxies deployed outside the broadcasts are picked up here
+ */
+export function buildAddressBook(files: BroadcastFile[]): { book: AddressBook; skipped: string[] } {
+  const book: AddressBook = {};
+  const skipped: string[] = [];
+
+  // Contract name of every implementation created so far, per chain
+  const createdByChain = new Map<number, Map<string, { name: DeployedContractName; tx: DeploymentTx }>>();
+
+  for (const { script, chainId, file, run } of files) {
+    const chain = (book[chainId] ??= {});
+    if (!createdByChain.has(chainId)) createdByChain.set(chainId, new Map());
+    const created = createdByChain.get(chainId)!;
+
+    const receipts = new Map(
+      (run.receipts ?? []).map((receipt) => [receipt.transactionHash.toLowerCase(), receipt])
+    );
+
+    for (const tx of run.transactions) {
+      const receipt = tx.hash ? receipts.get(tx.hash.toLowerCase()) : undefined;
+      if (!receipt || receipt.status !== "0x1") {
+        const label = tx.transactionType === "CREATE" ? `CREATE ${tx.contractName}` : tx.function ?? tx.transactionType;
+        skipped.push(`${path.relative(process.cwd(), file)}: ${label} (no successful receipt)`);
+        continue;
+      }
+      const record: DeploymentTx = {
+        script,
+        txHash: tx.hash!,
+        blockNumber: Number(receipt.blockNumber),
+        timestamp: Math.floor(run.timestamp / 1000),
+      };
+      const address = ethers.getAddress(tx.contractAddress!);
+
+      if (tx.transactionType === "CREATE" && isDeployedContract(tx.contractName)) {
+        const contract = (chain[tx.contractName] ??= { current: "", proxies: [], standalone: [] });
+        contract.standalone.push({ address, ...record });
+        created.set(address, { name: tx.contractName, tx: record });
+      } else if (tx.transactionType === "CREATE" && tx.contractName === "ERC1967Proxy") {
+        const implementation = ethers.getAddress(tx.arguments![0]);
+        const impl = created.get(implementation);
+        if (!impl) throw new Error(`${file}: proxy ${address} points at unknown implementation ${implementation}`);
+        const contract = chain[impl.name]!;
+        contract.standalone = contract.standalone.filter((entry) => entry.address !== implementation);
+        contract.proxies.push({
+          address,
+          deployment: record,
+          implementation,
+          implementations: [{ address: implementation, ...impl.tx }],
+        });
+      } else if (tx.transactionType === "CALL" && tx.function === UPGRADE_FUNCTION) {
+        const implementation = ethers.getAddress(tx.arguments![0]);
+        const impl = created.get(implementation);
+        if (!impl) throw new Error(`${file}: upgrade of ${address} to unknown implementation ${implementation}`);
+        const contract = chain[impl.name]!;
+        contract.standalone = contract.standalone.filter((entry) => entry.address !== implementation);
+        let proxy = contract.proxies.find((entry) => entry.address === address);
+        if (!proxy) {
+          proxy = { address, implementation, implementations: [] };
+          contract.proxies.push(proxy);
+        }
+        proxy.implementation = implementation;
+        proxy.implementations.push({ address: implementation, ...impl.tx, upgradeTxHash: record.txHash });
+      }
+    }
+  }
+
+  for (const chain of Object.values(book)) {
+    for (const contract of Object.values(chain)) contract!.current = currentAddress(contract!);
+  }
+  return { book, skipped };
+}
+
+// Last time a proxy was deployed or upgraded
+function lastActivity(proxy: ProxyRecord): number {
+  const latest = proxy.implementations[proxy.implementations.length - 1];
+  return Math.max(proxy.deployment?.timestamp ?? 0, latest?.timestamp ?? 0);
+}
+
+function currentAddress(contract: ContractBook): string {
+  if (contract.proxies.length > 0) {
+    return [...contract.proxies].sort((a, b) => lastActivity(b) - lastActivity(a))[0].address;
+  }
+  return contract.standalone[contract.standalone.length - 1].address;
+}
+
+// ---- Rendering ----
+
+function sortedChains(book: AddressBook): number[] {
+  return Object.keys(book)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+function sortedContracts(chain: ChainBook): DeployedContractName[] {
+  return DEPLOYED_CONTRACTS.filter((name) => chain[name]);
+}
+
+// Source of the generated TypeScript module
+export function renderAddressBookModule(book: AddressBook): string {
+  const ordered: AddressBook = {};
+  for (const chainId of sortedChains(book)) {
+    ordered[chainId] = {};
+    for (const name of sortedContracts(book[chainId])) ordered[chainId][name] = book[chainId][name];
+  }
+  return [
+    "// Generated by tools/deployments/generate-address-book.ts from broadcast/*/<chainId>/run-latest.json.",
+    "// Do not edit by hand: run `npm run address-book` after a deployment or upgrade.",
+    'import { AddressBook } from "./broadcast.utils";',
+    "",
+    `export const ADDRESS_BOOK: AddressBook = ${JSON.stringify(ordered, null, 2)};`,
+    "",
+  ].join("\n");
+}
+
+const DOC_START = "<!-- address-book:start (generated by `npm run address-book`, do not edit) -->";
+const DOC_END = "<!-- address-book:end -->";
+
+function code(value: string): string {
+  return `\`${value}\``;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+// Markdown tables for DEPLOYMENT.md: current addresses, then every recorded deployment per chain
+export function renderAddressTables(book: AddressBook): string {
+  const lines: string[] = [];
+  for (const chainId of sortedChains(book)) {
+    const chain = book[chainId];
+    lines.push(`### ${CHAIN_LABELS[chainId] ?? "Chain"} (chainId ${chainId})`, "");
+    lines.push("| Contract | Address (use this) | Type | Current implementation |", "|---|---|---|---|");
+    for (const name of sortedContracts(chain)) {
+      const contract = chain[name]!;
+      const proxy = contract.proxies.find((entry) => entry.address === contract.current);
+      lines.push(
+        `| ${name} | ${code(contract.current)} | ${proxy ? "UUPS proxy" : "contract"} | ${proxy ? code(proxy.implementation) : "-"} |`
+      );
+    }
+
+    lines.push("", "| Contract | Address | Role | Script | Tx | Block | Date |", "|---|---|---|---|---|---|---|");
+    for (const name of sortedContracts(chain)) {
+      const contract = chain[name]!;
+      const rows: Array<{ address: string; role: string; tx?: DeploymentTx; txHash?: string }> = [];
+      for (const proxy of contract.proxies) {
+        const current = proxy.address === contract.current ? ", current" : "";
+        rows.push({ address: proxy.address, role: `proxy${current}`, tx: proxy.deployment });
+        proxy.implementations.forEach((impl, i) => {
+          const label = i === proxy.implementations.length - 1 ? "implementation" : "former implementation";
+          rows.push({ address: impl.address, role: `${label} of ${proxy.address.slice(0, 10)}…`, tx: impl });
+          if (impl.upgradeTxHash) {
+            rows.push({ address: proxy.address, role: `upgrade to ${impl.address.slice(0, 10)}…`, tx: impl, txHash: impl.upgradeTxHash });
+          }
+        });
+      }
+      for (const record of contract.standalone) {
+        const current = record.address === contract.current ? ", current" : "";
+        rows.push({ address: record.address, role: `contract${current}`, tx: record });
+      }
+      for (const row of rows) {
+        const tx = row.tx;
+        lines.push(
+          `| ${name} | ${code(row.address)} | ${row.role} | ${tx?.script ?? "(not in broadcasts)"} | ` +
+            `${tx ? code(row.txHash ?? tx.txHash) : "-"} | ${tx?.blockNumber ?? "-"} | ${tx ? formatDate(tx.timestamp) : "-"} |`
+        );
+      }
+    }
+    lines.push("");
+  }
+  return lines.join("\n").trimEnd();
+}
+
+/**
+ * Replace the generated section of DEPLOYMENT.md (between the address-book markers).
+ * When the markers are missing, the section is inserted after the document's first heading.
+ */
+export function updateDeploymentDoc(doc: string, tables: string): string {
+  const section = `${DOC_START}\n${tables}\n${DOC_END}`;
+  const start = doc.indexOf(DOC_START);
+  const end = doc.indexOf(DOC_END);
+  if (start !== -1 && end > start) {
+    return doc.slice(0, start) + section + doc.slice(end + DOC_END.length);
+  }
+  const firstHeadingEnd = doc.indexOf("\n") + 1;
+  return `${doc.slice(0, firstHeadingEnd)}\n## Deployed addresses\n\n${section}\n${doc.slice(firstHeadingEnd)}`;
+}
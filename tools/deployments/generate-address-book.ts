@@ -0,0 +1,98 @@
+/**
+ * @notice Generate the contract address book from Foundry broadcast artifacts
+ *
+ * Parses broadcast/<script>/<chainId>/run-latest.json, identifies proxies, implementations, upgrades and
+ * standalone deployments per contract and chain, then writes:
+ *   - tools/deployments/address-book.ts: typed ADDRESS_BOOK imported by the network registry (tools/cli/networks.ts)
+ *   - the address tables of DEPLOYMENT.md (between the address-book markers; the rest of the file is untouched)
+ *
+ * Transactions without a successful receipt are skipped and listed.
+ *
+ * @example Regenerate after a deployment or upgrade
+ * ts-node tools/deployments/generate-address-book.ts
+ *
+ * @example Check that the committed files are up to date (exit 1 when they are not)
+ * ts-node tools/deployments/generate-address-book.ts --check
+ *
+ * @example Custom paths
+ * ts-node tools/deployments/generate-address-book.ts --broadcast ./broadcast --out tools/deployments/address-book.ts --doc DEPLOYMENT.md
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "../cli/args";
+import {
+  CHAIN_LABELS,
+  DEFAULT_ADDRESS_BOOK_PATH,
+  DEFAULT_BROADCAST_DIR,
+  DEFAULT_DEPLOYMENT_DOC_PATH,
+  buildAddressBook,
+  readBroadcastFiles,
+  renderAddressBookModule,
+  renderAddressTables,
+  updateDeploymentDoc,
+} from "./broadcast.utils";
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const broadcastDir = args.broadcast || DEFAULT_BROADCAST_DIR;
+  const outPath = args.out || DEFAULT_ADDRESS_BOOK_PATH;
+  const docPath = args.doc || DEFAULT_DEPLOYMENT_DOC_PATH;
+  const check = !!args.check;
+
+  const files = readBroadcastFiles(broadcastDir);
+  const { book, skipped } = buildAddressBook(files);
+  console.log(`Read ${files.length} broadcast runs from ${path.relative(process.cwd(), broadcastDir) || "."}`);
+
+  for (const [chainId, chain] of Object.entries(book)) {
+    const entries = Object.entries(chain);
+    if (entries.length === 0) continue;
+    console.log(`\n${CHAIN_LABELS[Number(chainId)] ?? "Chain"} (chainId ${chainId})`);
+    for (const [name, contract] of entries) {
+      const kind = contract!.proxies.some((proxy) => proxy.address === contract!.current) ? "proxy" : "contract";
+      console.log(
+        `  ${name.padEnd(14)} ${contract!.current} (${kind}; ${contract!.proxies.length} proxies, ${contract!.standalone.length} standalone)`
+      );
+    }
+  }
+  if (skipped.length > 0) {
+    console.log(`\n⚠️  Skipped ${skipped.length} transactions:`);
+    for (const line of skipped) console.log(`  ${line}`);
+  }
+
+  const moduleSource = renderAddressBookModule(book);
+  const currentDoc = fs.existsSync(docPath) ? fs.readFileSync(docPath, "utf8") : "";
+  const nextDoc = updateDeploymentDoc(currentDoc, renderAddressTables(book));
+  const outputs = [
+    { file: outPath, next: moduleSource, current: fs.existsSync(outPath) ? fs.readFileSync(outPath, "utf8") : "" },
+    { file: docPath, next: nextDoc, current: currentDoc },
+  ];
+
+  console.log("");
+  if (check) {
+    const stale = outputs.filter((output) => output.next !== output.current);
+    for (const output of stale) console.error(`❌ ${path.relative(process.cwd(), output.file)} is out of date`);
+    if (stale.length > 0) {
+      console.error("Run: ts-node tools/deployments/generate-address-book.ts");
+      process.exit(1);
+    }
+    console.log("✅ Address book and DEPLOYMENT.md are up to date");
+    return;
+  }
+
+  for (const output of outputs) {
+    const relative = path.relative(process.cwd(), output.file);
+    if (output.next === output.current) {
+      console.log(`= ${relative} (unchanged)`);
+      continue;
+    }
+    fs.writeFileSync(output.file, output.next);
+    console.log(`✓ Wrote ${relative}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
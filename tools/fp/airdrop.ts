@@ -0,0 +1,303 @@
+/**
+ * @notice Script to mint FP tokens to many recipients from a CSV file, resumable, with a balance reconciliation
+ *
+ * Input: a CSV file with the header account,seasonId,amount or a JSON array of the same objects. FP1155 has no
+ * multi-recipient mint: mint and mintBatch both credit a single account, so each recipient gets its own
+ * transaction (mint for a single season, mintBatch for several; rows repeating an account and season are added
+ * up). Every season must be OPEN and the contract not paused; the minter needs MINTER_ROLE.
+ *
+ * Every call is estimated from the minter first: a recipient whose mintBatch would exceed --maxGas has its
+ * seasons split over several transactions, and a call that reverts stops the run before anything is sent.
+ * Sent from the minter's key, the transactions are pipelined: nonces are assigned locally, up to --inFlight
+ * (default 10) are pending at once, and the confirmations are waited for oldest first, the last ones at the end.
+ *
+ * Several recipients are only chunked together with --export safe: the calls are grouped into Safe batches of at
+ * most --maxGas each (a batch executes as one transaction), one file per batch; the Safe (--safe or
+ * <NETWORK>_SAFE_ADDRESS) is needed for the estimates.
+ *
+ * The mints go through an operation journal: rerun with --resume <journal> after an interruption, and the
+ * recipients/seasons minted by the earlier run are left out. After the run, balanceOf of every row is compared
+ * with its balance when the run started plus what the run minted, and the reconciliation is written next to
+ * the journal (<journal>.reconciliation.csv). A difference means another transfer, claim or burn touched it.
+ *
+ * @example Show the plan and the number of transactions without sending
+ * ts-node tools/fp/airdrop.ts --network testnet --file rewards-323.csv --dryRun
+ *
+ * @example Airdrop without the confirmation prompt
+ * ts-node tools/fp/airdrop.ts --network mainnet --file rewards-323.csv --yes
+ *
+ * @example Continue an interrupted airdrop (the path is printed when the run starts)
+ * ts-node tools/fp/airdrop.ts --network mainnet --file rewards-323.csv --resume operations/airdrop-mainnet-20260301-120000.jsonl
+ *
+ * @example Safe batches of at most 8M gas each
+ * ts-node tools/fp/airdrop.ts --network mainnet --file rewards-323.csv --export safe --maxGas 8000000
+ */
+import "dotenv/config";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { askConfirmation } from "../booster/booster.utils";
+import { enumName } from "../contracts/bindings.utils";
+import { FP1155Contract, SeasonStatus, connectFP1155 } from "../contracts/fp1155";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { SubmittedStep, openOperationJournal, settleStep, submitStep } from "../tx/operation-journal.utils";
+import { openTxPipeline } from "../tx/send.utils";
+import {
+  AirdropMint,
+  ReconciliationRow,
+  groupAirdropMints,
+  mintCall,
+  mintStepId,
+  mintedByJournal,
+  pairKey,
+  readAirdropRows,
+  readBalances,
+  writeReconciliationCsv,
+} from "./airdrop.utils";
+
+const DEFAULT_MAX_GAS = 10_000_000n;
+
+// Transactions pending at once before the oldest is waited for
+const DEFAULT_IN_FLIGHT = 10;
+
+// Mismatches printed after the run; the reconciliation file has them all
+const MAX_MISMATCHES_SHOWN = 20;
+
+interface PlannedMint {
+  mint: AirdropMint;
+  gas: bigint;
+}
+
+// Estimate the recipient's call and halve its seasons until every part fits under maxGas
+async function chunkMint(fp1155: FP1155Contract, minter: string, mint: AirdropMint, maxGas: bigint): Promise<PlannedMint[]> {
+  const { method, args } = mintCall(mint);
+  let gas: bigint | undefined;
+  try {
+    gas = await fp1155.getFunction(method).estimateGas(...args, { from: minter });
+  } catch (err: any) {
+    // A single season that cannot be estimated is a real revert, not a size problem
+    if (mint.seasonIds.length === 1) {
+      throw new Error(
+        `Minting season ${mint.seasonIds[0]} to ${mint.account} reverts: ${err?.reason ?? err?.shortMessage ?? err?.message ?? err}`
+      );
+    }
+  }
+  if (gas !== undefined && gas <= maxGas) return [{ mint, gas }];
+
+  if (mint.seasonIds.length === 1) {
+    throw new Error(`Minting season ${mint.seasonIds[0]} to ${mint.account} needs ${gas} gas, above --maxGas ${maxGas}`);
+  }
+  const mid = Math.ceil(mint.seasonIds.length / 2);
+  const part = (from: number, to?: number): AirdropMint => ({
+    account: mint.account,
+    seasonIds: mint.seasonIds.slice(from, to),
+    amounts: mint.amounts.slice(from, to),
+  });
+  return [...(await chunkMint(fp1155, minter, part(0, mid), maxGas)), ...(await chunkMint(fp1155, minter, part(mid), maxGas))];
+}
+
+// Consecutive calls grouped into Safe batches of at most maxGas (estimates added up, so on the safe side)
+function groupSafeBatches(planned: PlannedMint[], maxGas: bigint): PlannedMint[][] {
+  const batches: PlannedMint[][] = [];
+  let gas = 0n;
+  for (const item of planned) {
+    if (batches.length === 0 || gas + item.gas > maxGas) {
+      batches.push([]);
+      gas = 0n;
+    }
+    batches[batches.length - 1].push(item);
+    gas += item.gas;
+  }
+  return batches;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  if (!args.file) throw new Error("Missing --file (CSV or JSON airdrop rows)");
+  const dryRun = !!args.dryRun;
+  const maxGas = args.maxGas ? BigInt(args.maxGas) : DEFAULT_MAX_GAS;
+  const inFlight = args.inFlight ? Number(args.inFlight) : DEFAULT_IN_FLIGHT;
+  if (!Number.isInteger(inFlight) || inFlight < 1) throw new Error(`--inFlight must be a positive integer, got ${args.inFlight}`);
+
+  const { profile, provider } = await connectNetwork(args);
+  const safe = getSafeExport(args, profile, provider, "airdrop");
+  if (safe && !safe.safeAddress) {
+    throw new Error(`--export safe needs the Safe (--safe or ${profile.name.toUpperCase()}_SAFE_ADDRESS) to estimate the batches`);
+  }
+  const wallet = safe ? undefined : await loadSigner("admin", provider, args);
+  const minter = safe ? safe.safeAddress! : wallet!.address;
+
+  const contract = resolveContractAddress(profile, "fp1155", args);
+  const fp1155 = connectFP1155(contract, wallet ?? provider);
+  const reader = connectFP1155(contract, provider);
+
+  const rows = readAirdropRows(args.file);
+  if (rows.length === 0) throw new Error(`${args.file} has no airdrop rows`);
+  const { mints, merged } = groupAirdropMints(rows);
+
+  const gasLimit = (await provider.getBlock("latest"))!.gasLimit;
+  if (maxGas > gasLimit) throw new Error(`--maxGas ${maxGas} is above the block gas limit (${gasLimit})`);
+
+  // mint() reverts for a LOCKED season and while paused, and without MINTER_ROLE
+  if (await reader.paused()) throw new Error(`FP1155 ${contract} is paused: every mint would revert`);
+  const seasonIds = [...new Set(rows.map((row) => row.seasonId))];
+  for (const seasonId of seasonIds) {
+    const status = Number(await reader.seasonStatus(seasonId));
+    if (status !== SeasonStatus.OPEN) throw new Error(`Season ${seasonId} is ${enumName(SeasonStatus, status)}: mint would revert`);
+  }
+  if (!(await reader.hasRole(await reader.MINTER_ROLE(), minter))) {
+    throw new Error(`${minter} does not have MINTER_ROLE on ${contract}`);
+  }
+
+  // The journal of a resumed run tells which recipients/seasons are already minted
+  const txs = dryRun || safe ? undefined : await openTxPipeline(wallet!, profile, args);
+  const journal = txs && (await openOperationJournal("airdrop", txs, profile, args, [fp1155]));
+  const earlier = journal ? mintedByJournal(journal) : new Set<string>();
+  const remaining = mints
+    .map((mint) => {
+      const keep = mint.seasonIds.map((seasonId) => !earlier.has(pairKey(mint.account, seasonId)));
+      return {
+        account: mint.account,
+        seasonIds: mint.seasonIds.filter((_, i) => keep[i]),
+        amounts: mint.amounts.filter((_, i) => keep[i]),
+      };
+    })
+    .filter((mint) => mint.seasonIds.length > 0);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("AIRDROP REVIEW");
+  console.log("=".repeat(60));
+  console.log(`Network:     ${formatNetwork(profile)}`);
+  console.log(`Contract:    ${contract}`);
+  console.log(`Minter:      ${safe ? `Safe ${minter} (batch export, nothing is sent)` : minter}`);
+  console.log(`File:        ${args.file} (${rows.length} row(s)${merged > 0 ? `, ${merged} repeated account/season row(s) added up` : ""})`);
+  console.log(`Recipients:  ${mints.length}`);
+  for (const seasonId of seasonIds) {
+    const seasonRows = rows.filter((row) => row.seasonId === seasonId);
+    const total = seasonRows.reduce((sum, row) => sum + row.amount, 0n);
+    console.log(`  Season ${seasonId}: ${total} FP to ${new Set(seasonRows.map((row) => row.account)).size} recipient(s)`);
+  }
+  if (earlier.size > 0) console.log(`Already minted by the earlier run: ${earlier.size} recipient/season pair(s)`);
+  if (remaining.length > 0) console.log(`\n⏳ Estimating ${remaining.length} call(s) from ${minter}...`);
+  const planned: PlannedMint[] = [];
+  for (const mint of remaining) planned.push(...(await chunkMint(reader, minter, mint, maxGas)));
+  const batches = safe ? groupSafeBatches(planned, maxGas) : [];
+  const totalGas = planned.reduce((sum, item) => sum + item.gas, 0n);
+  console.log(
+    safe
+      ? `Safe batches: ${batches.length} (${planned.length} call(s), max gas ${maxGas} each, ${totalGas} gas in total)`
+      : `Transactions: ${planned.length} (max gas ${maxGas} each, ${totalGas} gas in total)`
+  );
+  console.log("=".repeat(60));
+
+  if (dryRun) {
+    console.log("\n✅ Dry run (--dryRun): nothing minted.");
+    return;
+  }
+
+  if (safe) {
+    for (const [i, batch] of batches.entries()) {
+      // One file per batch; an explicit --exportFile gets the batch number appended
+      const exportFile = args.exportFile && batches.length > 1 ? args.exportFile.replace(/(\.json)?$/, `-${i + 1}$1`) : args.exportFile;
+      const name = batches.length > 1 ? `airdrop-${i + 1}of${batches.length}` : "airdrop";
+      const part = getSafeExport({ ...args, exportFile }, profile, provider, name)!;
+      for (const { mint } of batch) {
+        const { method, args: callArgs } = mintCall(mint);
+        await addSafeCall(part, fp1155, method, callArgs);
+      }
+      writeSafeBatch(part);
+    }
+    return;
+  }
+
+  if (planned.length > 0 && !args.yes) {
+    const confirmed = await askConfirmation(`\nMint to ${remaining.length} recipient(s) in ${planned.length} transaction(s)? (y/n): `);
+    if (!confirmed) {
+      console.log("\n❌ Airdrop cancelled by user.");
+      process.exit(0);
+    }
+  }
+
+  // Balances before this run's mints, for the reconciliation
+  const pairs = mints.flatMap((mint) => mint.seasonIds.map((seasonId) => ({ account: mint.account, seasonId })));
+  const before = await readBalances(reader, pairs);
+
+  const mintedNow = new Set<string>();
+  const failures: string[] = [];
+  const failed = (mint: AirdropMint, err: any) => {
+    console.log(`  ❌ ${mint.account}: ${err?.shortMessage ?? err?.message ?? err}`);
+    failures.push(`${mint.account} (season(s) ${mint.seasonIds.join(", ")}): ${err?.shortMessage ?? err?.message ?? err}`);
+  };
+  // Oldest first: a later nonce cannot be mined before it
+  const pending: { mint: AirdropMint; submitted: SubmittedStep }[] = [];
+  const settleOldest = async () => {
+    const { mint, submitted } = pending.shift()!;
+    try {
+      await settleStep(journal!, txs!, submitted);
+      for (const seasonId of mint.seasonIds) mintedNow.add(pairKey(mint.account, seasonId));
+    } catch (err: any) {
+      failed(mint, err);
+    }
+  };
+
+  for (const [i, { mint }] of planned.entries()) {
+    if (pending.length >= inFlight) await settleOldest();
+    const { method, args: callArgs } = mintCall(mint);
+    console.log(`\n[${i + 1}/${planned.length}] ${method} ${mint.account}: season(s) ${mint.seasonIds.join(", ")}`);
+    try {
+      pending.push({ mint, submitted: await submitStep(journal!, txs!, mintStepId(mint), fp1155, method, callArgs) });
+    } catch (err: any) {
+      failed(mint, err);
+    }
+  }
+  if (pending.length > 0) console.log(`\n⏳ Waiting for the last ${pending.length} transaction(s) to be confirmed...`);
+  while (pending.length > 0) await settleOldest();
+
+  // Reconciliation: expected = balance at the start of this run + what this run minted
+  const after = await readBalances(reader, pairs);
+  const report: ReconciliationRow[] = [];
+  for (const mint of mints) {
+    mint.seasonIds.forEach((seasonId, i) => {
+      const key = pairKey(mint.account, seasonId);
+      const minted = mintedNow.has(key) ? "this run" : earlier.has(key) ? "earlier run" : "no";
+      const start = before.get(key)!;
+      report.push({
+        account: mint.account,
+        seasonId,
+        amount: mint.amounts[i],
+        minted,
+        before: start,
+        expected: minted === "this run" ? start + mint.amounts[i] : start,
+        actual: after.get(key)!,
+      });
+    });
+  }
+  const reportFile = journal!.file.replace(/\.jsonl$/, "") + ".reconciliation.csv";
+  writeReconciliationCsv(reportFile, report);
+
+  const notMinted = report.filter((row) => row.minted === "no");
+  const mismatches = report.filter((row) => row.actual !== row.expected);
+  console.log("\n" + "=".repeat(60));
+  console.log("AIRDROP RECONCILIATION");
+  console.log("=".repeat(60));
+  console.log(`Rows:           ${report.length}`);
+  console.log(`Minted now:     ${report.filter((row) => row.minted === "this run").length}`);
+  console.log(`Minted before:  ${report.filter((row) => row.minted === "earlier run").length}`);
+  console.log(`Not minted:     ${notMinted.length}`);
+  console.log(`Balance as expected: ${report.length - mismatches.length}/${report.length}`);
+  for (const row of mismatches.slice(0, MAX_MISMATCHES_SHOWN)) {
+    console.log(`  ⚠️  ${row.account} season ${row.seasonId}: expected ${row.expected}, balanceOf ${row.actual} (${row.actual - row.expected > 0n ? "+" : ""}${row.actual - row.expected})`);
+  }
+  if (mismatches.length > MAX_MISMATCHES_SHOWN) console.log(`  ... ${mismatches.length - MAX_MISMATCHES_SHOWN} more in the report`);
+  for (const failure of failures) console.log(`  ❌ ${failure}`);
+  console.log(`\nReport: ${reportFile}`);
+  if (notMinted.length > 0) console.log(`Rerun with --resume ${journal!.file} to retry the rows not minted.`);
+  console.log("=".repeat(60));
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
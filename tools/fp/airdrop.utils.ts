@@ -0,0 +1,166 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseCsv } from "../cli/output";
+import { FP1155Contract } from "../contracts/fp1155";
+import { OperationJournal } from "../tx/operation-journal.utils";
+
+// Pairs per balanceOfBatch call
+const BALANCE_PAGE = 200;
+
+// ---- Airdrop rows (input of the airdrop command) ----
+
+export interface AirdropRow {
+  line: number; // row of the input file, for error messages
+  account: string;
+  seasonId: bigint;
+  amount: bigint;
+}
+
+function toAirdropRow(row: Record<string, unknown>, line: number, file: string): AirdropRow {
+  const where = `${file}:${line}`;
+  const field = (name: string) => {
+    const value = row[name];
+    if (value === undefined || value === null || String(value).trim() === "") throw new Error(`${where}: missing ${name}`);
+    return String(value).trim();
+  };
+  const account = field("account");
+  if (!ethers.isAddress(account)) throw new Error(`${where}: invalid account "${account}"`);
+  if (ethers.getAddress(account) === ethers.ZeroAddress) throw new Error(`${where}: cannot mint to the zero address`);
+  const integer = (name: string) => {
+    const value = field(name);
+    if (!/^\d+$/.test(value)) throw new Error(`${where}: ${name} must be a non-negative integer, got "${value}"`);
+    return BigInt(value);
+  };
+  const amount = integer("amount");
+  if (amount <= 0n) throw new Error(`${where}: amount must be > 0`);
+  return { line, account: ethers.getAddress(account), seasonId: integer("seasonId"), amount };
+}
+
+/**
+ * Airdrop rows from a CSV file (header account,seasonId,amount) or a JSON array of objects with the
+ * same fields. Other columns are ignored.
+ */
+export function readAirdropRows(file: string): AirdropRow[] {
+  if (!fs.existsSync(file)) throw new Error(`Airdrop file not found: ${file}`);
+  const content = fs.readFileSync(file, "utf8");
+
+  if (file.toLowerCase().endsWith(".json")) {
+    const rows = JSON.parse(content);
+    if (!Array.isArray(rows)) throw new Error(`${file} must hold a JSON array of airdrop rows`);
+    return rows.map((row, i) => toAirdropRow(row, i + 1, file));
+  }
+
+  return parseCsv(content, file, ["account", "seasonId", "amount"]).map(({ line, values }) => toAirdropRow(values, line, file));
+}
+
+// ---- Mint plan ----
+
+// One recipient's seasons, minted in one call: mint for a single season, mintBatch for several
+export interface AirdropMint {
+  account: string;
+  seasonIds: bigint[];
+  amounts: bigint[];
+}
+
+export function pairKey(account: string, seasonId: bigint): string {
+  return `${account.toLowerCase()}:${seasonId}`;
+}
+
+/**
+ * Group the rows into one mint per recipient, in the order of the file. Rows repeating an account and
+ * season are added up; merged counts them.
+ */
+export function groupAirdropMints(rows: AirdropRow[]): { mints: AirdropMint[]; merged: number } {
+  const byAccount = new Map<string, AirdropMint>();
+  let merged = 0;
+  for (const row of rows) {
+    let mint = byAccount.get(row.account);
+    if (!mint) {
+      mint = { account: row.account, seasonIds: [], amounts: [] };
+      byAccount.set(row.account, mint);
+    }
+    const i = mint.seasonIds.indexOf(row.seasonId);
+    if (i >= 0) {
+      mint.amounts[i] += row.amount;
+      merged++;
+    } else {
+      mint.seasonIds.push(row.seasonId);
+      mint.amounts.push(row.amount);
+    }
+  }
+  return { mints: [...byAccount.values()], merged };
+}
+
+export function mintCall(mint: AirdropMint): { method: "mint" | "mintBatch"; args: unknown[] } {
+  return mint.seasonIds.length === 1
+    ? { method: "mint", args: [mint.account, mint.seasonIds[0], mint.amounts[0], "0x"] }
+    : { method: "mintBatch", args: [mint.account, mint.seasonIds, mint.amounts, "0x"] };
+}
+
+// Operation journal step of a mint: the recipient and its seasons, so a resumed run finds it again
+export function mintStepId(mint: AirdropMint): string {
+  return `mint-${mint.account}-${mint.seasonIds.join("+")}`;
+}
+
+/**
+ * Account/season pairs minted by the finished steps of a resumed journal, from their TransferSingle and
+ * TransferBatch events. The plan of a resumed run leaves them out, whatever chunks the earlier run used.
+ */
+export function mintedByJournal(journal: OperationJournal): Set<string> {
+  const minted = new Set<string>();
+  for (const step of journal.steps.values()) {
+    if (step.status !== "done" || !step.step.startsWith("mint-")) continue;
+    for (const event of step.events) {
+      if (String(event.args.from) !== ethers.ZeroAddress) continue;
+      const to = String(event.args.to);
+      if (event.name === "TransferSingle") minted.add(pairKey(to, BigInt(String(event.args.id))));
+      if (event.name === "TransferBatch") {
+        for (const id of event.args.ids as string[]) minted.add(pairKey(to, BigInt(id)));
+      }
+    }
+  }
+  return minted;
+}
+
+// ---- Reconciliation ----
+
+export interface AirdropPair {
+  account: string;
+  seasonId: bigint;
+}
+
+// balanceOf of every pair, read with balanceOfBatch in pages
+export async function readBalances(fp1155: FP1155Contract, pairs: AirdropPair[]): Promise<Map<string, bigint>> {
+  const balances = new Map<string, bigint>();
+  for (let i = 0; i < pairs.length; i += BALANCE_PAGE) {
+    const page = pairs.slice(i, i + BALANCE_PAGE);
+    const values = await fp1155.balanceOfBatch(
+      page.map((pair) => pair.account),
+      page.map((pair) => pair.seasonId)
+    );
+    page.forEach((pair, j) => balances.set(pairKey(pair.account, pair.seasonId), values[j]));
+  }
+  return balances;
+}
+
+export interface ReconciliationRow {
+  account: string;
+  seasonId: bigint;
+  amount: bigint;
+  minted: "this run" | "earlier run" | "no";
+  before: bigint; // balance when this run started
+  expected: bigint;
+  actual: bigint;
+}
+
+export function writeReconciliationCsv(file: string, rows: ReconciliationRow[]): void {
+  const lines = ["account,seasonId,amount,minted,before,expected,actual,difference"];
+  for (const row of rows) {
+    lines.push(
+      [row.account, row.seasonId, row.amount, row.minted, row.before, row.expected, row.actual, row.actual - row.expected].join(",")
+    );
+  }
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, lines.join("\n") + "\n");
+}
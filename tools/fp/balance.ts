@@ -7,61 +7,31 @@
  *
  * @example Check balance using eventId (string) to get seasonId from Booster
  * ts-node tools/fp/balance.ts --network mainnet --to 0x4a40e8d757d7fb82825fe6be75a7f6aee733290d --seasonId ufc-fight-night-nov-22-2025
+ *
+ * @example Machine-readable output (schema fp.balance/1)
+ * ts-node tools/fp/balance.ts --network mainnet --to 0x4a40e8d757d7fb82825fe6be75a7f6aee733290d --seasonId 323 --json
  */
 import "dotenv/config";
 import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { getOutputFormat, jsonEnvelope, printJson } from "../cli/output";
+import { connectBooster } from "../contracts/booster";
+import { connectFP1155 } from "../contracts/fp1155";
 
-const FP1155_ABI = [
-  "function balanceOf(address account, uint256 id) external view returns (uint256)",
-];
-
-const BOOSTER_ABI = [
-  "function getEvent(string calldata eventId) external view returns (uint256 seasonId, uint256 numFights, bool exists, bool claimReady)",
-];
+// --json: schema fp.balance/1; eventId is set when --seasonId was given as a Booster eventId
+export interface BalanceJson {
+  wallet: string;
+  seasonId: bigint;
+  eventId: string | null;
+  balance: bigint;
+}
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const networkName = (args.network || args.net || "").toLowerCase();
-  
-  // Select RPC URL based on network
-  let rpcUrl: string | undefined = args.rpc;
-  if (!rpcUrl) {
-    if (networkName === "mainnet") {
-      rpcUrl = process.env.BSC_RPC_URL || process.env.MAINNET_BSC_RPC_URL || process.env.RPC_URL || undefined;
-    } else if (networkName === "testnet") {
-      rpcUrl = process.env.TESTNET_BSC_RPC_URL || process.env.RPC_URL || undefined;
-    } else {
-      // Default fallback
-      rpcUrl = process.env.RPC_URL || process.env.BSC_RPC_URL || process.env.TESTNET_BSC_RPC_URL || undefined;
-    }
-  }
-  
-  if (!rpcUrl) {
-    const envVar = networkName === "mainnet" 
-      ? "BSC_RPC_URL or MAINNET_BSC_RPC_URL"
-      : networkName === "testnet"
-      ? "TESTNET_BSC_RPC_URL"
-      : "RPC_URL, BSC_RPC_URL, or TESTNET_BSC_RPC_URL";
-    throw new Error(`Missing RPC URL for ${networkName || "default"} network (set --rpc or ${envVar} in .env)`);
-  }
-  
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-  const fp1155Address =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : process.env.FP1155_ADDRESS);
-  if (!fp1155Address) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_FP1155_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_FP1155_ADDRESS"
-        : "FP1155_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, false);
+  const { profile, provider } = await connectNetwork(args);
+  const fp1155Address = resolveContractAddress(profile, "fp1155", args);
 
   const addressInput = args.to || args.address || args.wallet;
   if (!addressInput) throw new Error("Missing --to (or --address or --wallet)");
@@ -81,42 +51,34 @@ async function main() {
     if (seasonId < 0n) throw new Error("--seasonId (or --season) must be >= 0");
   } else {
     // String eventId - get seasonId from Booster
-    const boosterAddress =
-      networkName === "testnet"
-        ? process.env.TESTNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-        : networkName === "mainnet"
-        ? process.env.MAINNET_BOOSTER_ADDRESS || process.env.BOOSTER_ADDRESS
-        : process.env.BOOSTER_ADDRESS;
-    if (!boosterAddress) {
-      throw new Error(
-        `Missing Booster address (set BOOSTER_ADDRESS or ${networkName === "testnet" ? "TESTNET_BOOSTER_ADDRESS" : networkName === "mainnet" ? "MAINNET_BOOSTER_ADDRESS" : "BOOSTER_ADDRESS"} in .env)`
-      );
-    }
-    const booster = new ethers.Contract(
-      ethers.getAddress(boosterAddress.trim().replace(/['"]/g, "")),
-      BOOSTER_ABI,
-      provider
-    );
+    const booster = connectBooster(resolveContractAddress(profile, "booster"), provider);
     const eventId = seasonIdInput;
-    console.log(`Getting seasonId from eventId: ${eventId}`);
-    const getEventFunc = booster.getFunction("getEvent");
-    const [eventSeasonId, numFights, exists, claimReady] = await getEventFunc(
-      eventId
-    );
+    if (format === "text") console.log(`Getting seasonId from eventId: ${eventId}`);
+    const { seasonId: eventSeasonId, numFights, exists, claimReady } = await booster.getFunction("getEvent")(eventId);
     if (!exists) {
       throw new Error(`Event "${eventId}" does not exist`);
     }
     seasonId = eventSeasonId;
-    console.log(
-      `Event found: seasonId=${seasonId.toString()}, numFights=${numFights.toString()}, claimReady=${claimReady}\n`
-    );
+    if (format === "text") {
+      console.log(
+        `Event found: seasonId=${seasonId.toString()}, numFights=${numFights.toString()}, claimReady=${claimReady}\n`
+      );
+    }
   }
 
-  const fp1155 = new ethers.Contract(
-    ethers.getAddress(fp1155Address.trim().replace(/['"]/g, "")),
-    FP1155_ABI,
-    provider
-  );
+  const fp1155 = connectFP1155(ethers.getAddress(fp1155Address.trim().replace(/['"]/g, "")), provider);
+
+  if (format === "json") {
+    const envelope = await jsonEnvelope("fp.balance/1", profile, provider, fp1155Address);
+    const report: BalanceJson = {
+      wallet: address,
+      seasonId,
+      eventId: numericSeasonId ? null : seasonIdInput,
+      balance: await fp1155.balanceOf(address, seasonId),
+    };
+    printJson(envelope, report);
+    return;
+  }
 
   console.log(`Checking FP token balance`);
   console.log(`Wallet: ${address}`);
@@ -144,7 +106,7 @@ async function main() {
     
     try {
       // Try direct call with encoded data
-      const iface = new ethers.Interface(FP1155_ABI);
+      const iface = fp1155.interface;
       const data = iface.encodeFunctionData("balanceOf", [normalizedWallet, seasonId]);
       
       console.log(`Encoded data: ${data}`);
@@ -169,22 +131,9 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
@@ -0,0 +1,233 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NetworkProfile } from "../cli/networks";
+import { parseCsv } from "../cli/output";
+
+export const DEFAULT_VOUCHER_DIR = path.join(__dirname, "..", "..", "vouchers");
+
+// ---- EIP-712 Claim (FP1155.claim) ----
+
+export const CLAIM_TYPES = {
+  Claim: [
+    { name: "account", type: "address" },
+    { name: "seasonId", type: "uint256" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export function claimDomain(chainId: bigint, contract: string): ethers.TypedDataDomain {
+  return { name: "FP1155", version: "1", chainId, verifyingContract: contract };
+}
+
+export interface ClaimMessage {
+  account: string;
+  seasonId: bigint;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+// ---- Claim requests (input of the batch signer) ----
+
+export interface ClaimRequest {
+  line: number; // row of the input file, for error messages
+  account: string;
+  seasonId: bigint;
+  amount: bigint;
+  deadline: bigint;
+}
+
+function parseDeadline(value: string, where: string): bigint {
+  if (/^\d+$/.test(value)) return BigInt(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`${where}: invalid deadline "${value}" (unix timestamp or ISO date)`);
+  return BigInt(Math.floor(ms / 1000));
+}
+
+function toClaimRequest(row: Record<string, unknown>, line: number, file: string): ClaimRequest {
+  const where = `${file}:${line}`;
+  const field = (name: string) => {
+    const value = row[name];
+    if (value === undefined || value === null || String(value).trim() === "") throw new Error(`${where}: missing ${name}`);
+    return String(value).trim();
+  };
+  const account = field("account");
+  if (!ethers.isAddress(account)) throw new Error(`${where}: invalid account "${account}"`);
+  const integer = (name: string) => {
+    const value = field(name);
+    if (!/^\d+$/.test(value)) throw new Error(`${where}: ${name} must be a non-negative integer, got "${value}"`);
+    return BigInt(value);
+  };
+  const request = {
+    line,
+    account: ethers.getAddress(account),
+    seasonId: integer("seasonId"),
+    amount: integer("amount"),
+    deadline: parseDeadline(field("deadline"), where),
+  };
+  if (request.seasonId <= 0n) throw new Error(`${where}: seasonId must be > 0`);
+  if (request.amount <= 0n) throw new Error(`${where}: amount must be > 0`);
+  return request;
+}
+
+/**
+ * Claim requests from a CSV file (header account,seasonId,amount,deadline) or a JSON array of objects
+ * with the same fields. Deadlines are unix timestamps or ISO dates.
+ */
+export function readClaimRequests(file: string): ClaimRequest[] {
+  if (!fs.existsSync(file)) throw new Error(`Claim request file not found: ${file}`);
+  const content = fs.readFileSync(file, "utf8");
+
+  if (file.toLowerCase().endsWith(".json")) {
+    const rows = JSON.parse(content);
+    if (!Array.isArray(rows)) throw new Error(`${file} must hold a JSON array of claim requests`);
+    return rows.map((row, i) => toClaimRequest(row, i + 1, file));
+  }
+
+  return parseCsv(content, file, ["account", "seasonId", "amount", "deadline"]).map(({ line, values }) =>
+    toClaimRequest(values, line, file)
+  );
+}
+
+// ---- Voucher ledger (JSON lines, append-only) ----
+
+// Every voucher signed by the batch signer, so the next run knows which nonces are already promised
+export interface LedgerVoucher {
+  contract: string;
+  chainId: string;
+  account: string;
+  seasonId: string;
+  amount: string;
+  nonce: string;
+  deadline: string;
+  signature: string;
+  file: string; // voucher file it was handed out in
+  signedAt: string;
+}
+
+export function defaultVoucherLedger(profile: NetworkProfile): string {
+  return path.join(DEFAULT_VOUCHER_DIR, `claims-${profile.name}.ledger.jsonl`);
+}
+
+export function readVoucherLedger(file: string): LedgerVoucher[] {
+  if (!fs.existsSync(file)) return [];
+  const vouchers: LedgerVoucher[] = [];
+  const lines = fs.readFileSync(file, "utf8").split("\n").filter((line) => line.trim());
+  for (const [i, line] of lines.entries()) {
+    try {
+      vouchers.push(JSON.parse(line));
+    } catch {
+      // A run killed while writing leaves a truncated last line
+      console.log(`⚠️  Ignoring unreadable line ${i + 1} of ${file}`);
+    }
+  }
+  return vouchers;
+}
+
+export function appendVoucherLedger(file: string, vouchers: LedgerVoucher[]): void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.appendFileSync(file, vouchers.map((voucher) => JSON.stringify(voucher) + "\n").join(""));
+}
+
+// ---- Nonce sequencing ----
+
+export interface PlannedVoucher {
+  request: ClaimRequest;
+  nonce: bigint;
+}
+
+export interface AccountPlan {
+  account: string;
+  onChainNonce: bigint;
+  outstanding: LedgerVoucher[]; // live vouchers of earlier runs, not claimed yet
+  replaced: LedgerVoucher[]; // expired, never claimed: their nonce is signed again
+  vouchers: PlannedVoucher[]; // in nonce order
+}
+
+function byNonce(a: { nonce: string }, b: { nonce: string }): number {
+  const diff = BigInt(a.nonce) - BigInt(b.nonce);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+/**
+ * Assign nonces to the requests, account by account, in file order. FP1155.claim consumes nonces strictly in
+ * order, so a new voucher takes the first nonce from the on-chain one that no live voucher of the ledger holds.
+ * An expired voucher can never be claimed and would block every later nonce, so its nonce is signed again.
+ */
+export function planClaimNonces(
+  requests: ClaimRequest[],
+  onChainNonces: Map<string, bigint>,
+  ledger: LedgerVoucher[],
+  contract: string,
+  now: bigint
+): AccountPlan[] {
+  const plans = new Map<string, AccountPlan>();
+  const expired = new Map<string, LedgerVoucher[]>();
+  const taken = new Map<string, Set<bigint>>();
+
+  for (const request of requests) {
+    let plan = plans.get(request.account);
+    if (!plan) {
+      const onChainNonce = onChainNonces.get(request.account);
+      if (onChainNonce === undefined) throw new Error(`No on-chain nonce read for ${request.account}`);
+      const unclaimed = ledger
+        .filter(
+          (voucher) =>
+            ethers.getAddress(voucher.account) === request.account &&
+            voucher.contract.toLowerCase() === contract.toLowerCase() &&
+            BigInt(voucher.nonce) >= onChainNonce
+        )
+        .sort(byNonce);
+      const live = unclaimed.filter((voucher) => BigInt(voucher.deadline) >= now);
+      plan = { account: request.account, onChainNonce, outstanding: live, replaced: [], vouchers: [] };
+      plans.set(request.account, plan);
+      expired.set(request.account, unclaimed.filter((voucher) => BigInt(voucher.deadline) < now));
+      taken.set(request.account, new Set(live.map((voucher) => BigInt(voucher.nonce))));
+    }
+
+    const nonces = taken.get(request.account)!;
+    let nonce = plan.onChainNonce;
+    while (nonces.has(nonce)) nonce++;
+    nonces.add(nonce);
+    plan.vouchers.push({ request, nonce });
+  }
+
+  for (const plan of plans.values()) {
+    const signed = new Set(plan.vouchers.map((voucher) => voucher.nonce));
+    plan.replaced = expired.get(plan.account)!.filter((voucher) => signed.has(BigInt(voucher.nonce)));
+  }
+  return [...plans.values()];
+}
+
+// ---- Voucher file (output of the batch signer) ----
+
+export interface ClaimVoucher {
+  seasonId: string;
+  amount: string;
+  nonce: string;
+  deadline: string;
+  signature: string;
+}
+
+export interface AccountVouchers {
+  account: string;
+  onChainNonce: string; // nonces(account) when the file was signed
+  // Every nonce from onChainNonce to the last voucher below, in the order the account must claim them,
+  // with the voucher file that holds it: null for this file, a path for a voucher handed out earlier
+  sequence: { nonce: string; file: string | null }[];
+  vouchers: ClaimVoucher[];
+}
+
+export interface ClaimVoucherFile {
+  kind: "fp-claim-vouchers";
+  version: 1;
+  network: string;
+  chainId: string;
+  contract: string;
+  signer: string;
+  createdAt: string;
+  accounts: AccountVouchers[];
+}
@@ -6,56 +6,27 @@
  */
 import "dotenv/config";
 import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectFP1155 } from "../contracts/fp1155";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = [
-  "function grantRole(bytes32 role, address account) external",
-  "function hasRole(bytes32 role, address account) external view returns (bool)",
-  "function MINTER_ROLE() external pure returns (bytes32)",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const safe = getSafeExport(args, profile, provider, "grant-minter-role");
+  const wallet = safe ? undefined : await loadSigner("admin", provider, args);
 
-  const pk = process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing PRIVATE_KEY in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : process.env.FP1155_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_FP1155_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_FP1155_ADDRESS"
-        : "FP1155_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const contract = resolveContractAddress(profile, "fp1155", args);
 
   const toAddress = args.to || args.address;
   if (!toAddress) throw new Error("Missing --to (or --address)");
   if (!ethers.isAddress(toAddress)) throw new Error("Invalid address format");
 
-  const fp1155 = new ethers.Contract(contract, ABI, wallet);
+  const fp1155 = connectFP1155(contract, wallet ?? provider);
 
   // Get the role hash
   const MINTER_ROLE = await fp1155.MINTER_ROLE();
@@ -69,10 +40,14 @@ async function main() {
   }
 
   console.log(`Granting MINTER_ROLE to ${toAddress}...`);
-  const tx = await fp1155.grantRole(MINTER_ROLE, toAddress);
-  console.log("Submitted grantRole tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  if (safe) {
+    await addSafeCall(safe, fp1155, "grantRole", [MINTER_ROLE, toAddress]);
+    writeSafeBatch(safe);
+    return;
+  }
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, fp1155, "grantRole", [MINTER_ROLE, toAddress]);
 
   // Verify
   const nowHasRole = await fp1155.hasRole(MINTER_ROLE, toAddress);
@@ -83,30 +58,10 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
-
-
-
-
-
-
-
-
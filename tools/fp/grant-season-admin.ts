@@ -5,60 +5,31 @@
  * ts-node tools/fp/grant-season-admin.ts --network testnet --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8
  *
  * @example With custom contract address
- * ts-node tools/fp/grant-season-admin.ts --contract 0x123... --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8
+ * ts-node tools/fp/grant-season-admin.ts --network testnet --contract 0x123... --to 0x3fDDF486b3f539F24aBD845674F18AE33Af668f8
  */
 import "dotenv/config";
 import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectFP1155 } from "../contracts/fp1155";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = [
-  "function grantRole(bytes32 role, address account) external",
-  "function hasRole(bytes32 role, address account) external view returns (bool)",
-  "function SEASON_ADMIN_ROLE() external pure returns (bytes32)",
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const safe = getSafeExport(args, profile, provider, "grant-season-admin");
+  const wallet = safe ? undefined : await loadSigner("admin", provider, args);
 
-  const pk = process.env.OPERATOR_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing OPERATOR_PK (or PRIVATE_KEY) in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : process.env.FP1155_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_FP1155_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_FP1155_ADDRESS"
-        : "FP1155_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+  const contract = resolveContractAddress(profile, "fp1155", args);
 
   const toAddress = args.to || args.address;
   if (!toAddress) throw new Error("Missing --to (or --address)");
   if (!ethers.isAddress(toAddress)) throw new Error("Invalid address format");
 
-  const fp1155 = new ethers.Contract(contract, ABI, wallet);
+  const fp1155 = connectFP1155(contract, wallet ?? provider);
 
   // Get the role hash
   const SEASON_ADMIN_ROLE = await fp1155.SEASON_ADMIN_ROLE();
@@ -72,10 +43,14 @@ async function main() {
   }
 
   console.log(`Granting SEASON_ADMIN_ROLE to ${toAddress}...`);
-  const tx = await fp1155.grantRole(SEASON_ADMIN_ROLE, toAddress);
-  console.log("Submitted grantRole tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  if (safe) {
+    await addSafeCall(safe, fp1155, "grantRole", [SEASON_ADMIN_ROLE, toAddress]);
+    writeSafeBatch(safe);
+    return;
+  }
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, fp1155, "grantRole", [SEASON_ADMIN_ROLE, toAddress]);
 
   // Verify
   const nowHasRole = await fp1155.hasRole(SEASON_ADMIN_ROLE, toAddress);
@@ -86,33 +61,10 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
-
-
-
-
-
-
-
-
-
-
-
@@ -0,0 +1,271 @@
+/**
+ * @notice List every FP1155 season with its status, supply and holders, and lock seasons nothing depends on anymore
+ *
+ * Seasons are found in the TransferSingle/TransferBatch/SeasonStatusUpdated logs of FP1155 (from --fromBlock,
+ * <NETWORK>_FP1155_FROM_BLOCK or the deployment block); supply and holder count are replayed from the transfers.
+ * For OPEN seasons the command also lists what still needs them OPEN, since LOCKED rejects every transfer:
+ * - Booster events of the season (EventCreated) with a fight not resolved yet, or a pool not fully claimed
+ *   or purged (claims, refunds and purgeEvent move FP out of the Booster)
+ * - DailyLottery: today's round while it takes entries in the season, and defaultSeasonId
+ *
+ * --lock locks the given seasons with the season admin (setSeasonStatus, irreversible), only when none of them
+ * has a dependency left; otherwise nothing is sent.
+ *
+ * @example List the seasons
+ * ts-node tools/fp/manage-seasons.ts --network mainnet
+ *
+ * @example Machine-readable output (schema fp.manage-seasons/1), or one CSV row per season
+ * ts-node tools/fp/manage-seasons.ts --network mainnet --json
+ * ts-node tools/fp/manage-seasons.ts --network mainnet --csv
+ *
+ * @example Lock two seasons once nothing depends on them
+ * ts-node tools/fp/manage-seasons.ts --network mainnet --lock 321,322
+ *
+ * @example Lock through the Safe
+ * ts-node tools/fp/manage-seasons.ts --network mainnet --lock 321 --export safe
+ */
+import "dotenv/config";
+import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { CsvColumn, EnumJson, enumColumns, enumJson, getOutputFormat, jsonEnvelope, printCsv, printJson } from "../cli/output";
+import { askConfirmation, resolveFromBlock } from "../booster/booster.utils";
+import { loadEventRegistry } from "../booster/event-registry.utils";
+import { enumName } from "../contracts/bindings.utils";
+import { connectBooster } from "../contracts/booster";
+import { connectDailyLottery } from "../contracts/daily-lottery";
+import { SeasonStatus, connectFP1155 } from "../contracts/fp1155";
+import { addSafeCall, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { journalSkip, journalStep, openOperationJournal } from "../tx/operation-journal.utils";
+import { openTxPipeline } from "../tx/send.utils";
+import {
+  SeasonDependency,
+  SeasonSummary,
+  findBoosterDependencies,
+  findLotteryDependencies,
+  resolveFp1155FromBlock,
+  scanSeasons,
+} from "./seasons.utils";
+
+// --json: one element of `seasons`
+export interface ManagedSeasonJson {
+  seasonId: bigint;
+  status: EnumJson;
+  supply: bigint;
+  holders: number;
+  minted: bigint;
+  burned: bigint;
+  transfers: number;
+  firstBlock: number;
+  lastBlock: number;
+  dependencies: { contract: string; subject: string; detail: string }[]; // empty for LOCKED seasons
+}
+
+// --json: schema fp.manage-seasons/1
+export interface ManagedSeasonsJson {
+  fromBlock: number;
+  toBlock: number;
+  checked: { booster: string | null; dailyLottery: string | null }; // contracts searched for dependencies
+  seasons: ManagedSeasonJson[];
+}
+
+const SEASON_CSV: CsvColumn<ManagedSeasonJson>[] = [
+  { header: "seasonId", value: (season) => season.seasonId },
+  ...enumColumns<ManagedSeasonJson>("status", SeasonStatus, (season) => season.status.value),
+  { header: "supply", value: (season) => season.supply },
+  { header: "holders", value: (season) => season.holders },
+  { header: "minted", value: (season) => season.minted },
+  { header: "burned", value: (season) => season.burned },
+  { header: "transfers", value: (season) => season.transfers },
+  { header: "firstBlock", value: (season) => season.firstBlock },
+  { header: "lastBlock", value: (season) => season.lastBlock },
+  { header: "dependencies", value: (season) => season.dependencies.length },
+];
+
+function optionalAddress(resolve: () => string): string | undefined {
+  try {
+    return resolve();
+  } catch {
+    return undefined;
+  }
+}
+
+function parseSeasonIds(value: string): bigint[] {
+  return [
+    ...new Set(
+      value
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+        .map((id) => {
+          if (!/^\d+$/.test(id)) throw new Error(`Invalid season ID "${id}" in --lock`);
+          return BigInt(id);
+        })
+    ),
+  ];
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, true);
+  const lockIds = args.lock ? parseSeasonIds(args.lock) : [];
+  if (lockIds.length > 0 && format !== "text") throw new Error("--json/--csv only list the seasons: drop them to --lock");
+
+  const { profile, provider } = await connectNetwork(args);
+  const safe = lockIds.length > 0 ? getSafeExport(args, profile, provider, "manage-seasons") : undefined;
+  const wallet = lockIds.length > 0 && !safe ? await loadSigner("seasonAdmin", provider, args) : undefined;
+
+  const contract = resolveContractAddress(profile, "fp1155", args);
+  const fp1155 = connectFP1155(contract, wallet ?? provider);
+  const reader = connectFP1155(contract, provider);
+
+  const toBlock = args.toBlock ? Number(args.toBlock) : await provider.getBlockNumber();
+  const blockRange = args.blockRange ? Number(args.blockRange) : undefined;
+  const fromBlock = resolveFp1155FromBlock(args, profile);
+  if (format === "text") console.log(`⏳ Scanning FP1155 logs from block ${fromBlock} to ${toBlock}...`);
+  const summaries = await scanSeasons(reader, provider, fromBlock, toBlock, blockRange);
+
+  const statuses = new Map<bigint, number>();
+  for (const seasonId of [...summaries.map((summary) => summary.seasonId), ...lockIds]) {
+    if (!statuses.has(seasonId)) statuses.set(seasonId, Number(await reader.seasonStatus(seasonId)));
+  }
+  const openIds = [...statuses].filter(([, status]) => status === SeasonStatus.OPEN).map(([seasonId]) => seasonId);
+
+  // Only contracts wired to this FP1155 can depend on its seasons
+  const notes: string[] = [];
+  const boosterAddress = optionalAddress(() => resolveContractAddress(profile, "booster", args, ["booster"]));
+  const lotteryAddress = optionalAddress(() => resolveContractAddress(profile, "dailyLottery", args, ["lottery"]));
+  const booster = boosterAddress ? connectBooster(boosterAddress, provider) : undefined;
+  const lottery = lotteryAddress ? connectDailyLottery(lotteryAddress, provider) : undefined;
+  const checked = {
+    booster: booster && ethers.getAddress(await booster.FP()) === contract ? boosterAddress! : null,
+    dailyLottery: lottery && ethers.getAddress(await lottery.fpToken()) === contract ? lotteryAddress! : null,
+  };
+  if (!boosterAddress) notes.push(`No Booster on ${profile.name}: events not checked`);
+  else if (!checked.booster) notes.push(`Booster ${boosterAddress} uses another FP1155: not checked`);
+  if (!lotteryAddress) notes.push(`No DailyLottery on ${profile.name}: rounds not checked`);
+  else if (!checked.dailyLottery) notes.push(`DailyLottery ${lotteryAddress} uses another FP1155: not checked`);
+
+  if (format === "text" && openIds.length > 0) console.log(`⏳ Checking what depends on ${openIds.length} OPEN season(s)...`);
+  const dependencies: SeasonDependency[] = [];
+  if (checked.booster) {
+    // --fromBlock applies to both scans; otherwise the Booster's own start block
+    const boosterFrom = resolveFromBlock(args, profile.name);
+    dependencies.push(
+      ...(await findBoosterDependencies(booster!, provider, loadEventRegistry(), openIds, boosterFrom, toBlock, blockRange))
+    );
+  }
+  if (checked.dailyLottery) dependencies.push(...(await findLotteryDependencies(lottery!, openIds)));
+  const dependenciesOf = (seasonId: bigint) => dependencies.filter((dependency) => dependency.seasonId === seasonId);
+
+  const toJson = (summary: SeasonSummary): ManagedSeasonJson => ({
+    seasonId: summary.seasonId,
+    status: enumJson(SeasonStatus, statuses.get(summary.seasonId)!),
+    supply: summary.supply,
+    holders: summary.holders,
+    minted: summary.minted,
+    burned: summary.burned,
+    transfers: summary.transfers,
+    firstBlock: summary.firstBlock,
+    lastBlock: summary.lastBlock,
+    dependencies: dependenciesOf(summary.seasonId).map(({ contract, subject, detail }) => ({ contract, subject, detail })),
+  });
+  const seasons = summaries.map(toJson);
+
+  if (format !== "text") {
+    if (format === "csv") {
+      printCsv(SEASON_CSV, seasons);
+      return;
+    }
+    const report: ManagedSeasonsJson = { fromBlock, toBlock, checked, seasons };
+    printJson(await jsonEnvelope("fp.manage-seasons/1", profile, provider, contract), report);
+    return;
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("FP1155 SEASONS");
+  console.log("=".repeat(60));
+  console.log(`Network:  ${formatNetwork(profile)}`);
+  console.log(`Contract: ${contract}`);
+  console.log(`Blocks:   ${fromBlock} - ${toBlock}`);
+  for (const note of notes) console.log(`⚠️  ${note}`);
+  console.log(
+    `\n${"Season".padStart(8)}  ${"Status".padEnd(7)} ${"Supply".padStart(16)} ${"Holders".padStart(8)} ${"Burned".padStart(14)} ${"Last block".padStart(11)}  In use`
+  );
+  for (const season of seasons) {
+    const open = season.status.value === SeasonStatus.OPEN;
+    console.log(
+      `${season.seasonId.toString().padStart(8)}  ${(open ? "🟢 OPEN" : "🔴 LOCKED").padEnd(8)}${season.supply.toString().padStart(16)} ` +
+        `${season.holders.toString().padStart(8)} ${season.burned.toString().padStart(14)} ${season.lastBlock.toString().padStart(11)}  ` +
+        (open ? (season.dependencies.length > 0 ? `${season.dependencies.length} dependenc${season.dependencies.length === 1 ? "y" : "ies"}` : "no") : "")
+    );
+  }
+  if (seasons.length === 0) console.log("  (no season in the scanned range)");
+  for (const seasonId of openIds) {
+    const list = dependenciesOf(seasonId);
+    if (list.length === 0) continue;
+    console.log(`\nSeason ${seasonId} is still needed OPEN by:`);
+    for (const dependency of list) console.log(`  - ${dependency.contract} ${dependency.subject}: ${dependency.detail}`);
+  }
+
+  if (lockIds.length === 0) return;
+
+  // ---- --lock ----
+  console.log("\n" + "=".repeat(60));
+  console.log("LOCK SEASONS (irreversible: no mint or transfer afterwards, burns only)");
+  console.log("=".repeat(60));
+  const toLock = lockIds.filter((seasonId) => statuses.get(seasonId) === SeasonStatus.OPEN);
+  for (const seasonId of lockIds) {
+    if (!toLock.includes(seasonId)) {
+      console.log(`Season ${seasonId}: already ${enumName(SeasonStatus, statuses.get(seasonId)!)}, skipped`);
+    } else if (!summaries.some((summary) => summary.seasonId === seasonId)) {
+      console.log(`Season ${seasonId}: ⚠️  never used in the scanned blocks`);
+    }
+  }
+  const blocked = toLock.filter((seasonId) => dependenciesOf(seasonId).length > 0);
+  if (blocked.length > 0) {
+    throw new Error(`Not locking anything: season(s) ${blocked.join(", ")} still in use (see above)`);
+  }
+  if (toLock.length === 0) {
+    console.log("\n✅ Nothing to lock.");
+    return;
+  }
+  // The Safe batch simulates each call from the Safe instead
+  if (wallet && !(await reader.hasRole(await reader.SEASON_ADMIN_ROLE(), wallet.address))) {
+    throw new Error(`${wallet.address} does not have SEASON_ADMIN_ROLE on ${contract}`);
+  }
+
+  if (safe) {
+    for (const seasonId of toLock) await addSafeCall(safe, fp1155, "setSeasonStatus", [seasonId, SeasonStatus.LOCKED]);
+    writeSafeBatch(safe);
+    return;
+  }
+
+  if (!args.yes) {
+    const confirmed = await askConfirmation(`\nLock season(s) ${toLock.join(", ")}? This cannot be undone (y/n): `);
+    if (!confirmed) {
+      console.log("\n❌ Lock cancelled by user.");
+      process.exit(0);
+    }
+  }
+
+  const txs = await openTxPipeline(wallet!, profile, args);
+  const journal = await openOperationJournal("manage-seasons", txs, profile, args, [fp1155]);
+  for (const seasonId of lockIds) {
+    if (!toLock.includes(seasonId)) {
+      journalSkip(journal, `season-${seasonId}`, "already locked");
+      continue;
+    }
+    console.log(`\nLocking season ${seasonId}...`);
+    await journalStep(journal, txs, `season-${seasonId}`, fp1155, "setSeasonStatus", [seasonId, SeasonStatus.LOCKED]);
+    console.log(`✓ Season ${seasonId} is now ${enumName(SeasonStatus, await reader.seasonStatus(seasonId))}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,188 @@
+import { ethers } from "ethers";
+import { NetworkProfile } from "../cli/networks";
+import { getLogsInChunks } from "../booster/booster.utils";
+import { EventRegistry, findSeasonEvents } from "../booster/event-registry.utils";
+import { BoosterContract, FightStatus } from "../contracts/booster";
+import { enumName } from "../contracts/bindings.utils";
+import { DailyLotteryContract } from "../contracts/daily-lottery";
+import { FP1155Contract } from "../contracts/fp1155";
+
+// First block to scan for FP1155 logs (--fromBlock, <NETWORK>_FP1155_FROM_BLOCK, or the known deployment block)
+export function resolveFp1155FromBlock(args: Record<string, string>, profile: NetworkProfile): number {
+  const envVar = `${profile.name.toUpperCase()}_FP1155_FROM_BLOCK`;
+  const value = args.fromBlock || process.env[envVar];
+  if (value) {
+    const block = Number(value);
+    if (!Number.isInteger(block) || block < 0) throw new Error(`Invalid --fromBlock: ${value}`);
+    return block;
+  }
+  const known = profile.name === "local" ? 0 : profile.contracts.fp1155.deployBlock;
+  if (known === undefined) throw new Error(`Missing log scan start block (set --fromBlock or ${envVar} in .env)`);
+  return known;
+}
+
+// ---- Seasons seen in FP1155 logs ----
+
+export interface SeasonSummary {
+  seasonId: bigint;
+  supply: bigint; // minted - burned
+  holders: number; // accounts with a non-zero balance, contracts included
+  minted: bigint;
+  burned: bigint;
+  transfers: number; // TransferSingle/TransferBatch entries, mints and burns included
+  firstBlock: number;
+  lastBlock: number;
+  statusUpdates: number; // SeasonStatusUpdated logs
+}
+
+/**
+ * Every season that appears in a TransferSingle, TransferBatch or SeasonStatusUpdated log of the range, with its
+ * supply and holders replayed from the transfers. Only exact when the range starts at the deployment.
+ */
+export async function scanSeasons(
+  fp1155: FP1155Contract,
+  provider: ethers.Provider,
+  fromBlock: number,
+  toBlock: number,
+  blockRange?: number
+): Promise<SeasonSummary[]> {
+  const iface = fp1155.interface;
+  const topics = ["TransferSingle", "TransferBatch", "SeasonStatusUpdated"].map((name) => iface.getEvent(name)!.topicHash);
+  const logs = await getLogsInChunks(provider, { address: await fp1155.getAddress(), topics: [topics] }, fromBlock, toBlock, blockRange);
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const seasons = new Map<bigint, SeasonSummary>();
+  const balances = new Map<bigint, Map<string, bigint>>();
+  const season = (seasonId: bigint, blockNumber: number): SeasonSummary => {
+    let summary = seasons.get(seasonId);
+    if (!summary) {
+      summary = {
+        seasonId,
+        supply: 0n,
+        holders: 0,
+        minted: 0n,
+        burned: 0n,
+        transfers: 0,
+        firstBlock: blockNumber,
+        lastBlock: blockNumber,
+        statusUpdates: 0,
+      };
+      seasons.set(seasonId, summary);
+      balances.set(seasonId, new Map());
+    }
+    summary.lastBlock = blockNumber;
+    return summary;
+  };
+  const move = (seasonId: bigint, from: string, to: string, value: bigint, blockNumber: number) => {
+    const summary = season(seasonId, blockNumber);
+    const held = balances.get(seasonId)!;
+    summary.transfers++;
+    if (from === ethers.ZeroAddress) summary.minted += value;
+    else held.set(from, (held.get(from) ?? 0n) - value);
+    if (to === ethers.ZeroAddress) summary.burned += value;
+    else held.set(to, (held.get(to) ?? 0n) + value);
+  };
+
+  for (const log of logs) {
+    const parsed = iface.parseLog(log);
+    if (!parsed) continue;
+    if (parsed.name === "SeasonStatusUpdated") {
+      season(parsed.args.seasonId, log.blockNumber).statusUpdates++;
+    } else if (parsed.name === "TransferSingle") {
+      move(parsed.args.id, parsed.args.from, parsed.args.to, parsed.args.value, log.blockNumber);
+    } else {
+      // TransferBatch(operator, from, to, ids, values): `values` is a method of the decoded Result
+      const [, from, to, ids, values] = parsed.args;
+      ids.forEach((id: bigint, i: number) => move(id, from, to, values[i], log.blockNumber));
+    }
+  }
+
+  for (const summary of seasons.values()) {
+    summary.supply = summary.minted - summary.burned;
+    summary.holders = [...balances.get(summary.seasonId)!.values()].filter((balance) => balance > 0n).length;
+  }
+  return [...seasons.values()].sort((a, b) => (a.seasonId < b.seasonId ? -1 : a.seasonId > b.seasonId ? 1 : 0));
+}
+
+// ---- What still needs a season OPEN ----
+
+// Something that moves FP of the season and would revert once it is LOCKED
+export interface SeasonDependency {
+  seasonId: bigint;
+  contract: "Booster" | "DailyLottery";
+  subject: string; // eventId or lottery day
+  detail: string;
+}
+
+/**
+ * Booster events of the seasons that still move FP: boosts and results need fights that are not resolved yet,
+ * and claims, refunds and purgeEvent transfer the unclaimed pool of resolved fights (agentTransferFrom, which
+ * a LOCKED season rejects). An event whose eventId cannot be recovered counts as a dependency.
+ */
+export async function findBoosterDependencies(
+  booster: BoosterContract,
+  provider: ethers.Provider,
+  registry: EventRegistry,
+  seasonIds: bigint[],
+  fromBlock: number,
+  toBlock: number,
+  blockRange?: number
+): Promise<SeasonDependency[]> {
+  const events = await findSeasonEvents(booster, provider, registry, seasonIds, fromBlock, toBlock, blockRange);
+  const dependencies: SeasonDependency[] = [];
+  for (const { seasonId, topic, eventId } of events) {
+    if (!eventId) {
+      dependencies.push({ seasonId, contract: "Booster", subject: topic, detail: "unknown eventId: its fights could not be checked" });
+      continue;
+    }
+
+    const { fightIds, statuses } = await booster.getEventFights(eventId);
+    for (const [i, fightId] of fightIds.entries()) {
+      if (Number(statuses[i]) !== FightStatus.RESOLVED) {
+        dependencies.push({ seasonId, contract: "Booster", subject: eventId, detail: `fight ${fightId} is ${enumName(FightStatus, statuses[i])}` });
+        continue;
+      }
+      const fight = await booster.getFight(eventId, fightId);
+      const unclaimed = fight.originalPool + fight.bonusPool - fight.claimedAmount;
+      if (unclaimed > 0n) {
+        dependencies.push({
+          seasonId,
+          contract: "Booster",
+          subject: eventId,
+          detail: `fight ${fightId}: ${unclaimed} FP not claimed${fight.cancelled ? " (refunds)" : ""} or purged yet`,
+        });
+      }
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * DailyLottery rounds of the seasons that still take entries: today's round until it is finalized, and the
+ * defaults every new day's round is created with (buyEntry pulls the entry price with agentTransferFrom).
+ */
+export async function findLotteryDependencies(lottery: DailyLotteryContract, seasonIds: bigint[]): Promise<SeasonDependency[]> {
+  const dependencies: SeasonDependency[] = [];
+  const defaultSeasonId = await lottery.defaultSeasonId();
+  const today = await lottery.getCurrentDayId();
+  const round = await lottery.getLotteryRound(today);
+  for (const seasonId of seasonIds) {
+    if (round.dayId === today && round.seasonId === seasonId && !round.finalized) {
+      dependencies.push({
+        seasonId,
+        contract: "DailyLottery",
+        subject: `day ${today}`,
+        detail: `today's round takes entries in this season (${round.totalEntries} so far)`,
+      });
+    }
+    if (defaultSeasonId === seasonId) {
+      dependencies.push({
+        seasonId,
+        contract: "DailyLottery",
+        subject: "defaults",
+        detail: "defaultSeasonId: every new day's round uses this season (setDefaults to move it)",
+      });
+    }
+  }
+  return dependencies;
+}
@@ -1,25 +1,31 @@
 import 'dotenv/config';
 import { ethers } from 'ethers';
+import { parseArgs } from '../cli/args';
+import { connectNetwork, resolveContractAddress } from '../cli/networks';
+import { connectFP1155 } from '../contracts/fp1155';
+import { loadSigner } from '../signers/signers.utils';
+import {
+  CLAIM_TYPES,
+  ClaimMessage,
+  appendVoucherLedger,
+  claimDomain,
+  defaultVoucherLedger,
+  planClaimNonces,
+  readVoucherLedger,
+} from './claim-vouchers.utils';
 
-const ABI = [
-  'function nonces(address) view returns (uint256)'
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl = args.rpc || process.env.RPC_URL || process.env.TESTNET_BSC_RPC_URL || process.env.BSC_RPC_URL;
-  if (!rpcUrl) throw new Error('Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)');
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const wallet = await loadSigner('claimSigner', provider, args);
 
-  const pk = process.env.CLAIM_SIGNER_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error('Missing CLAIM_SIGNER_PK (or PRIVATE_KEY) in .env');
-  const wallet = new ethers.Wallet(pk.startsWith('0x') ? pk : ('0x' + pk), provider);
-
-  const contract = args.contract || process.env.FP1155_ADDRESS;
-  if (!contract) throw new Error('Missing contract (set --contract or FP1155_ADDRESS)');
+  const contract = resolveContractAddress(profile, 'fp1155', args);
 
   const user = args.user;
   if (!user) throw new Error('Missing --user');
+  if (!ethers.isAddress(user)) throw new Error(`Invalid --user: ${user}`);
+  const account = ethers.getAddress(user);
 
   const seasonId = BigInt(args.season ?? 0);
   const amount = BigInt(args.amount ?? 0);
@@ -28,66 +34,47 @@ async function main() {
   if (amount <= 0n) throw new Error('--amount must be > 0');
   if (deadline <= 0n) throw new Error('--deadline must be > 0');
 
-  const chainId = (await provider.getNetwork()).chainId;
-  const fp = new ethers.Contract(contract, ABI, provider);
-  const nonce = await fp.nonces(user);
-
-  const domain = {
-    name: 'FP1155',
-    version: '1',
-    chainId,
-    verifyingContract: contract,
-  } as const;
+  // Deadlines are checked against the chain's clock, which claim() uses
+  const now = BigInt((await provider.getBlock('latest'))!.timestamp);
+  if (deadline <= now) throw new Error(`--deadline ${deadline} is already past (chain time ${now})`);
 
-  const types = {
-    Claim: [
-      { name: 'account', type: 'address' },
-      { name: 'seasonId', type: 'uint256' },
-      { name: 'amount', type: 'uint256' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'deadline', type: 'uint256' },
-    ],
-  } as const;
-
-  const message = {
-    account: user,
-    seasonId,
-    amount,
-    nonce,
-    deadline,
-  } as const;
+  // The nonce follows the vouchers sign-claims and the signing service handed out and are not claimed yet
+  const chainId = profile.chainId;
+  const fp = connectFP1155(contract, provider);
+  const ledgerFile = args.ledger || defaultVoucherLedger(profile);
+  const [plan] = planClaimNonces(
+    [{ line: 0, account, seasonId, amount, deadline }],
+    new Map([[account, await fp.nonces(account)]]),
+    readVoucherLedger(ledgerFile),
+    contract,
+    now
+  );
+  const { nonce } = plan.vouchers[0];
 
-  const signature = await wallet.signTypedData(domain as any, types as any, message as any);
+  const message: ClaimMessage = { account, seasonId, amount, nonce, deadline };
+  const signature = await wallet.signTypedData(claimDomain(chainId, contract), CLAIM_TYPES, message);
 
   const out = {
     contract,
     chainId: chainId.toString(),
-    account: user,
+    account,
     seasonId: seasonId.toString(),
     amount: amount.toString(),
     nonce: nonce.toString(),
     deadline: deadline.toString(),
     signature,
   };
+  // The voucher is only printed: its ledger entry names the command instead of a voucher file
+  appendVoucherLedger(ledgerFile, [{ ...out, file: 'sign-claim', signedAt: new Date().toISOString() }]);
+  if (plan.onChainNonce !== nonce) {
+    console.error(`Nonce ${nonce}: the account must claim its outstanding voucher(s) from nonce ${plan.onChainNonce} first`);
+  }
   console.log(JSON.stringify(out, null, 2));
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith('--')) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
@@ -0,0 +1,185 @@
+/**
+ * @notice Sign a batch of EIP-712 claim vouchers with the claim signer, assigning nonces per account
+ *
+ * FP1155.claim consumes nonces(account) strictly in order, so a second voucher for the same account has to be
+ * signed against the next nonce, after every voucher already handed out and not claimed yet. Each run appends
+ * its vouchers to a ledger (vouchers/claims-<network>.ledger.jsonl) that the next run reads to skip the nonces
+ * still promised; a voucher whose deadline passed unclaimed gets its nonce signed again.
+ *
+ * Input: a CSV file with the header account,seasonId,amount,deadline or a JSON array of the same objects.
+ * Deadlines are unix timestamps or ISO dates. Requests for a LOCKED season or with a past deadline are refused.
+ *
+ * The voucher file lists, per account, the vouchers in the order they must be claimed and the full nonce
+ * sequence from the current on-chain nonce, pointing to the earlier voucher files for nonces signed before.
+ *
+ * @example Sign the vouchers of a CSV file
+ * ts-node tools/fp/sign-claims.ts --network testnet --file claims.csv
+ *
+ * @example Show the nonce plan without signing
+ * ts-node tools/fp/sign-claims.ts --network mainnet --file claims.json --dryRun
+ *
+ * @example Choose the voucher file and ledger
+ * ts-node tools/fp/sign-claims.ts --network mainnet --file claims.csv --out vouchers/ufc-324.json --ledger vouchers/mainnet.ledger.jsonl
+ */
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { enumName } from "../contracts/bindings.utils";
+import { SeasonStatus, connectFP1155 } from "../contracts/fp1155";
+import { loadSigner } from "../signers/signers.utils";
+import {
+  AccountVouchers,
+  CLAIM_TYPES,
+  ClaimMessage,
+  ClaimVoucherFile,
+  DEFAULT_VOUCHER_DIR,
+  LedgerVoucher,
+  appendVoucherLedger,
+  claimDomain,
+  defaultVoucherLedger,
+  planClaimNonces,
+  readClaimRequests,
+  readVoucherLedger,
+} from "./claim-vouchers.utils";
+
+function timestampSlug(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  if (!args.file) throw new Error("Missing --file (CSV or JSON claim requests)");
+  const dryRun = !!args.dryRun;
+
+  const { profile, provider } = await connectNetwork(args);
+  const contract = resolveContractAddress(profile, "fp1155", args);
+  const fp1155 = connectFP1155(contract, provider);
+
+  const requests = readClaimRequests(args.file);
+  if (requests.length === 0) throw new Error(`${args.file} has no claim requests`);
+
+  // Deadlines are checked against the chain's clock, which claim() uses
+  const now = BigInt((await provider.getBlock("latest"))!.timestamp);
+  for (const request of requests) {
+    if (request.deadline <= now) {
+      throw new Error(`${args.file}:${request.line}: deadline ${request.deadline} is already past (chain time ${now})`);
+    }
+  }
+
+  for (const seasonId of new Set(requests.map((request) => request.seasonId))) {
+    const status = Number(await fp1155.seasonStatus(seasonId));
+    if (status !== SeasonStatus.OPEN) {
+      throw new Error(`Season ${seasonId} is ${enumName(SeasonStatus, status)}: claim() would revert`);
+    }
+  }
+
+  const onChainNonces = new Map<string, bigint>();
+  for (const account of new Set(requests.map((request) => request.account))) {
+    onChainNonces.set(account, await fp1155.nonces(account));
+  }
+
+  const ledgerFile = args.ledger || defaultVoucherLedger(profile);
+  const ledger = readVoucherLedger(ledgerFile);
+  const plans = planClaimNonces(requests, onChainNonces, ledger, contract, now);
+
+  console.log(`Network: ${formatNetwork(profile)}`);
+  console.log(`Contract: ${contract}`);
+  console.log(`Ledger: ${ledgerFile} (${ledger.length} voucher(s) signed before)`);
+  console.log(`Requests: ${requests.length} for ${plans.length} account(s)\n`);
+
+  for (const plan of plans) {
+    console.log(`${plan.account}: on-chain nonce ${plan.onChainNonce}`);
+    for (const voucher of plan.outstanding) {
+      console.log(`  nonce ${voucher.nonce}: outstanding (season ${voucher.seasonId}, amount ${voucher.amount}, ${voucher.file})`);
+    }
+    for (const voucher of plan.replaced) {
+      console.log(`  ⚠️  nonce ${voucher.nonce}: expired unclaimed voucher of ${voucher.file}, signed again below`);
+    }
+    for (const { request, nonce } of plan.vouchers) {
+      console.log(`  nonce ${nonce}: season ${request.seasonId}, amount ${request.amount}, deadline ${request.deadline} (line ${request.line})`);
+    }
+  }
+
+  if (dryRun) {
+    console.log("\nDry run: nothing signed");
+    return;
+  }
+
+  const signer = await loadSigner("claimSigner", provider, args);
+  if (!(await fp1155.hasRole(await fp1155.CLAIM_SIGNER_ROLE(), signer.address))) {
+    throw new Error(`${signer.address} does not have CLAIM_SIGNER_ROLE on ${contract}: its vouchers would be rejected`);
+  }
+
+  const createdAt = new Date();
+  const out = args.out || path.join(DEFAULT_VOUCHER_DIR, `claims-${profile.name}-${timestampSlug(createdAt)}.json`);
+  if (fs.existsSync(out)) throw new Error(`${out} already exists`);
+  const domain = claimDomain(profile.chainId, contract);
+
+  const accounts: AccountVouchers[] = [];
+  const signed: LedgerVoucher[] = [];
+  for (const plan of plans) {
+    const entry: AccountVouchers = { account: plan.account, onChainNonce: plan.onChainNonce.toString(), sequence: [], vouchers: [] };
+    for (const { request, nonce } of plan.vouchers) {
+      const message: ClaimMessage = {
+        account: plan.account,
+        seasonId: request.seasonId,
+        amount: request.amount,
+        nonce,
+        deadline: request.deadline,
+      };
+      const signature = await signer.signTypedData(domain, CLAIM_TYPES, message);
+      const voucher = {
+        seasonId: request.seasonId.toString(),
+        amount: request.amount.toString(),
+        nonce: nonce.toString(),
+        deadline: request.deadline.toString(),
+        signature,
+      };
+      entry.vouchers.push(voucher);
+      signed.push({
+        contract,
+        chainId: profile.chainId.toString(),
+        account: plan.account,
+        ...voucher,
+        file: out,
+        signedAt: new Date().toISOString(),
+      });
+    }
+
+    const last = plan.vouchers[plan.vouchers.length - 1].nonce;
+    for (let nonce = plan.onChainNonce; nonce <= last; nonce++) {
+      const earlier = plan.vouchers.some((voucher) => voucher.nonce === nonce)
+        ? undefined
+        : plan.outstanding.find((voucher) => BigInt(voucher.nonce) === nonce);
+      entry.sequence.push({ nonce: nonce.toString(), file: earlier ? earlier.file : null });
+    }
+    accounts.push(entry);
+  }
+
+  const voucherFile: ClaimVoucherFile = {
+    kind: "fp-claim-vouchers",
+    version: 1,
+    network: profile.name,
+    chainId: profile.chainId.toString(),
+    contract,
+    signer: signer.address,
+    createdAt: createdAt.toISOString(),
+    accounts,
+  };
+  fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify(voucherFile, null, 2) + "\n");
+  appendVoucherLedger(ledgerFile, signed);
+
+  console.log(`\n✅ ${signed.length} voucher(s) written to ${out}`);
+  console.log(`   Ledger updated: ${ledgerFile}`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
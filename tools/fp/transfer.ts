@@ -1,55 +1,26 @@
 /**
  * @notice Script to transfer FP tokens from one address to another
  *
- * @example Transfer 3M tokens from PRIVATE_KEY to another address
+ * @example Transfer 3M tokens from the admin signer to another address
  * ts-node tools/fp/transfer.ts --network testnet --to 0xf362fe668d93c43be16716a73702333795fbcea6 --seasonId 323 --amount 3000000
  */
 import "dotenv/config";
 import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { connectFP1155 } from "../contracts/fp1155";
+import { addSafeCall, formatSafe, getSafeExport, writeSafeBatch } from "../safe/safe-batch.utils";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
-const ABI = [
-  "function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes calldata data) external",
-  "function balanceOf(address account, uint256 id) external view returns (uint256)",
-  "function isOnAllowlist(address account) external view returns (bool)",
-];
-
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-  const pk = process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing PRIVATE_KEY in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : process.env.FP1155_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_FP1155_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_FP1155_ADDRESS"
-        : "FP1155_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
+
+  const safe = getSafeExport(args, profile, provider, "transfer");
+  const wallet = safe ? undefined : await loadSigner("admin", provider, args);
+
+  const contract = resolveContractAddress(profile, "fp1155", args);
 
   const toAddress = args.to || args.address;
   if (!toAddress) throw new Error("Missing --to (or --address)");
@@ -61,15 +32,19 @@ async function main() {
   const amount = BigInt(args.amount ?? 0);
   if (amount <= 0n) throw new Error("--amount must be > 0");
 
-  const fp1155 = new ethers.Contract(contract, ABI, wallet);
+  // The tokens leave the sender: the Safe when exporting, else the admin signer
+  if (safe && !safe.safeAddress) throw new Error("--export safe needs --safe (the Safe that holds the tokens)");
+  const from = safe ? safe.safeAddress! : wallet!.address;
+
+  const fp1155 = connectFP1155(contract, wallet ?? provider);
 
   console.log(`Transferring ${amount} FP tokens (season ${seasonId})`);
-  console.log(`From: ${wallet.address}`);
+  console.log(`From: ${safe ? formatSafe(safe) : from}`);
   console.log(`To: ${toAddress}`);
   console.log(`Contract: ${contract}\n`);
 
   // Check balance
-  const balance = await fp1155.balanceOf(wallet.address, seasonId);
+  const balance = await fp1155.balanceOf(from, seasonId);
   console.log(`Current balance: ${balance.toString()}`);
   if (balance < amount) {
     throw new Error(`Insufficient balance: have ${balance.toString()}, need ${amount.toString()}`);
@@ -77,7 +52,7 @@ async function main() {
 
   // Check allowlist status
   try {
-    const fromAllowed = await fp1155.isOnAllowlist(wallet.address);
+    const fromAllowed = await fp1155.isOnAllowlist(from);
     const toAllowed = await fp1155.isOnAllowlist(toAddress);
     console.log(`From allowlist: ${fromAllowed}`);
     console.log(`To allowlist: ${toAllowed}`);
@@ -85,50 +60,34 @@ async function main() {
     console.log("Could not check allowlist status");
   }
 
+  if (safe) {
+    await addSafeCall(safe, fp1155, "safeTransferFrom", [from, toAddress, seasonId, amount, "0x"]);
+    writeSafeBatch(safe);
+    return;
+  }
+
   console.log(`\nSending transaction...`);
-  const tx = await fp1155.safeTransferFrom(
-    wallet.address,
+  const txs = await openTxPipeline(wallet!, profile, args);
+  await sendTx(txs, fp1155, "safeTransferFrom", [
+    from,
     toAddress,
     seasonId,
     amount,
     "0x"
-  );
-  console.log("Submitted transfer tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  ]);
 
   // Verify new balances
-  const newFromBalance = await fp1155.balanceOf(wallet.address, seasonId);
+  const newFromBalance = await fp1155.balanceOf(from, seasonId);
   const newToBalance = await fp1155.balanceOf(toAddress, seasonId);
   console.log(`\n✓ Transfer complete!`);
   console.log(`New balance (from): ${newFromBalance.toString()}`);
   console.log(`New balance (to): ${newToBalance.toString()}`);
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
-
-
-
-
-
-
-
-
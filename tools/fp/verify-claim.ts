@@ -0,0 +1,350 @@
+/**
+ * @notice Explain whether a claim voucher (or a DailyLottery free-entry voucher) will be accepted, and why not
+ *
+ * The signer is recovered locally with the contract's DOMAIN_SEPARATOR(), then every condition of
+ * FP1155.claim is checked: the signer holds CLAIM_SIGNER_ROLE, the nonce is nonces(account), the deadline has
+ * not passed, the season is not LOCKED, the amount is not zero and the contract is not paused. When the
+ * signer has no role, nearby nonces are tried: a voucher signed against another nonce recovers to a random
+ * address. Finally the call is simulated from the account. Free-entry vouchers (--freeEntry, or a voucher
+ * with a dayId) get the same treatment against DailyLottery.claimFreeEntry: FREE_ENTRY_SIGNER_ROLE, today's
+ * dayId, getUserNonce and the round's entry limits.
+ *
+ * The voucher is given field by field, or with --voucher as a JSON file or inline JSON: the output of
+ * sign-claim, a response of the signing service, or a sign-claims voucher file (with --account, and --nonce to
+ * pick one of its vouchers, default the first). It is always checked against the network's contract (or
+ * --contract): a voucher that names another contract fails the "contract" check.
+ *
+ * @example A voucher given field by field
+ * ts-node tools/fp/verify-claim.ts --network mainnet --account 0x... --seasonId 323 --amount 100 --nonce 4 --deadline 1772323200 --signature 0x...
+ *
+ * @example The JSON a user was given
+ * ts-node tools/fp/verify-claim.ts --network mainnet --voucher voucher.json
+ *
+ * @example One voucher of a sign-claims file
+ * ts-node tools/fp/verify-claim.ts --network testnet --voucher vouchers/claims-testnet-20260301-120000.json --account 0x... --nonce 5
+ *
+ * @example A free-entry voucher (schema fp.verify-claim/1 with --json)
+ * ts-node tools/fp/verify-claim.ts --network testnet --freeEntry --account 0x... --dayId 20505 --nonce 0 --signature 0x... --json
+ */
+import "dotenv/config";
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { NetworkProfile, connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { getOutputFormat, jsonEnvelope, printJson } from "../cli/output";
+import { loadEventRegistry } from "../booster/event-registry.utils";
+import { enumName } from "../contracts/bindings.utils";
+import { connectDailyLottery } from "../contracts/daily-lottery";
+import { SeasonStatus, connectFP1155 } from "../contracts/fp1155";
+import { FREE_ENTRY_TYPES, freeEntryDomain } from "../lottery/free-entry.utils";
+import { createTxDecoder, decodeRevert } from "../tx/inspect.utils";
+import { CLAIM_TYPES, ClaimVoucherFile, claimDomain } from "./claim-vouchers.utils";
+
+// Nonces tried around the voucher's when its signer has no role
+const NONCE_SEARCH = 5n;
+
+export interface VoucherCheck {
+  check: string;
+  ok: boolean;
+  detail: string;
+}
+
+// --json: schema fp.verify-claim/1
+export interface VerifyVoucherJson {
+  type: "claim" | "free-entry";
+  voucher: Record<string, string>;
+  recoveredSigner: string | null;
+  checks: VoucherCheck[];
+  valid: boolean; // every check passed
+}
+
+type Voucher = Record<string, string>;
+
+// The voucher from --voucher (file or inline JSON) and the field options, which take precedence
+function readVoucher(args: Record<string, string>): Voucher {
+  let voucher: Voucher = {};
+  if (args.voucher) {
+    const text = args.voucher.trim().startsWith("{") ? args.voucher : fs.readFileSync(args.voucher, "utf8");
+    const data = JSON.parse(text);
+    if (data.kind === "fp-claim-vouchers") {
+      const file = data as ClaimVoucherFile;
+      if (!args.account) throw new Error("--account is required to pick a voucher of a sign-claims file");
+      const entry = file.accounts.find((account) => account.account.toLowerCase() === args.account.toLowerCase());
+      if (!entry) throw new Error(`${args.voucher} has no voucher for ${args.account}`);
+      const picked = args.nonce ? entry.vouchers.find((v) => v.nonce === args.nonce) : entry.vouchers[0];
+      if (!picked) throw new Error(`${args.voucher} has no voucher with nonce ${args.nonce} for ${args.account}`);
+      voucher = { contract: file.contract, chainId: file.chainId, account: entry.account, ...picked };
+    } else {
+      voucher = Object.fromEntries(Object.entries(data).map(([key, value]) => [key, String(value)]));
+    }
+  }
+  for (const field of ["account", "seasonId", "amount", "nonce", "deadline", "dayId", "signature"]) {
+    if (args[field]) voucher[field] = args[field];
+  }
+  if (args.sig && !voucher.signature) voucher.signature = args.sig;
+  return voucher;
+}
+
+function requireFields(voucher: Voucher, fields: string[]): void {
+  const missing = fields.filter((field) => !voucher[field]);
+  if (missing.length > 0) throw new Error(`The voucher has no ${missing.join(", ")}`);
+  if (!ethers.isAddress(voucher.account)) throw new Error(`Invalid account ${voucher.account}`);
+  for (const field of fields.filter((name) => name !== "account" && name !== "signature")) {
+    if (!/^\d+$/.test(voucher[field])) throw new Error(`${field} must be a non-negative integer, got "${voucher[field]}"`);
+  }
+}
+
+function recover(domainSeparator: string, types: Record<string, ethers.TypedDataField[]>, message: Record<string, unknown>, signature: string) {
+  const primaryType = Object.keys(types)[0];
+  const digest = ethers.keccak256(
+    ethers.concat(["0x1901", domainSeparator, ethers.TypedDataEncoder.hashStruct(primaryType, types, message)])
+  );
+  return ethers.recoverAddress(digest, signature);
+}
+
+// Domain, type hash and chain of the voucher against the contract's
+function domainChecks(
+  profile: NetworkProfile,
+  voucher: Voucher,
+  contract: string,
+  onChainSeparator: string,
+  localSeparator: string,
+  onChainTypehash: string,
+  typeString: string
+): VoucherCheck[] {
+  const checks: VoucherCheck[] = [];
+  if (voucher.chainId && voucher.chainId !== profile.chainId.toString()) {
+    checks.push({ check: "chain", ok: false, detail: `the voucher says chainId ${voucher.chainId}, not ${profile.chainId} (${profile.name})` });
+  }
+  if (voucher.contract && ethers.getAddress(voucher.contract) !== contract) {
+    checks.push({
+      check: "contract",
+      ok: false,
+      detail: `the voucher was signed for ${voucher.contract}, not ${contract}: its signature cannot verify on ${profile.name}`,
+    });
+  }
+  checks.push(
+    onChainSeparator === localSeparator
+      ? { check: "domain", ok: true, detail: `DOMAIN_SEPARATOR ${onChainSeparator}` }
+      : {
+          check: "domain",
+          ok: false,
+          detail: `DOMAIN_SEPARATOR ${onChainSeparator} differs from the tools' domain (${localSeparator}): vouchers from the tools will not verify`,
+        }
+  );
+  const typehash = ethers.id(typeString);
+  checks.push(
+    onChainTypehash === typehash
+      ? { check: "typehash", ok: true, detail: typeString }
+      : { check: "typehash", ok: false, detail: `the contract's type hash ${onChainTypehash} is not ${typeString}` }
+  );
+  return checks;
+}
+
+// eth_call of the claim from the account: the contract's own verdict
+async function simulate(profile: NetworkProfile, provider: ethers.Provider, from: string, to: string, data: string): Promise<VoucherCheck> {
+  try {
+    await provider.call({ from, to, data });
+    return { check: "simulation", ok: true, detail: `the call from ${from} succeeds` };
+  } catch (err: any) {
+    const revert = err?.data ?? err?.info?.error?.data;
+    if (typeof revert === "string" && ethers.isHexString(revert)) {
+      const decoder = createTxDecoder(profile, loadEventRegistry());
+      return { check: "simulation", ok: false, detail: `reverts: ${decodeRevert(decoder, to, revert)}` };
+    }
+    return { check: "simulation", ok: false, detail: `could not simulate: ${err?.shortMessage ?? err?.message ?? err}` };
+  }
+}
+
+async function verifyClaim(
+  profile: NetworkProfile,
+  provider: ethers.Provider,
+  args: Record<string, string>,
+  voucher: Voucher
+): Promise<{ contract: string; recovered: string | null; checks: VoucherCheck[] }> {
+  requireFields(voucher, ["account", "seasonId", "amount", "nonce", "deadline", "signature"]);
+  const contract = resolveContractAddress(profile, "fp1155", args);
+  const fp1155 = connectFP1155(contract, provider);
+  const account = ethers.getAddress(voucher.account);
+  const message = {
+    account,
+    seasonId: BigInt(voucher.seasonId),
+    amount: BigInt(voucher.amount),
+    nonce: BigInt(voucher.nonce),
+    deadline: BigInt(voucher.deadline),
+  };
+
+  const separator = await fp1155.DOMAIN_SEPARATOR();
+  const checks = domainChecks(
+    profile,
+    voucher,
+    contract,
+    separator,
+    ethers.TypedDataEncoder.hashDomain(claimDomain(profile.chainId, contract)),
+    await fp1155.CLAIM_TYPEHASH(),
+    "Claim(address account,uint256 seasonId,uint256 amount,uint256 nonce,uint256 deadline)"
+  );
+
+  let recovered: string | null = null;
+  try {
+    recovered = recover(separator, CLAIM_TYPES, message, voucher.signature);
+  } catch (err: any) {
+    checks.push({ check: "signature", ok: false, detail: `not a valid signature: ${err?.shortMessage ?? err?.message ?? err}` });
+  }
+  const signerRole = await fp1155.CLAIM_SIGNER_ROLE();
+  if (recovered) {
+    if (await fp1155.hasRole(signerRole, recovered)) {
+      checks.push({ check: "signer", ok: true, detail: `${recovered} holds CLAIM_SIGNER_ROLE` });
+    } else {
+      let hint = "the voucher was signed by another key, or for other values than these";
+      for (let delta = -NONCE_SEARCH; delta <= NONCE_SEARCH; delta++) {
+        const nonce = message.nonce + delta;
+        if (delta === 0n || nonce < 0n) continue;
+        const candidate = recover(separator, CLAIM_TYPES, { ...message, nonce }, voucher.signature);
+        if (await fp1155.hasRole(signerRole, candidate)) {
+          hint = `it was signed for nonce ${nonce}, not ${message.nonce} (by ${candidate})`;
+          break;
+        }
+      }
+      checks.push({ check: "signer", ok: false, detail: `claim: invalid signer — recovers to ${recovered}, which lacks CLAIM_SIGNER_ROLE: ${hint}` });
+    }
+  }
+
+  const onChainNonce = await fp1155.nonces(account);
+  if (message.nonce === onChainNonce) {
+    checks.push({ check: "nonce", ok: true, detail: `${message.nonce} is the account's next nonce` });
+  } else if (message.nonce < onChainNonce) {
+    checks.push({ check: "nonce", ok: false, detail: `nonce ${message.nonce} is already used (nonces(account) = ${onChainNonce}): claim: invalid signer` });
+  } else {
+    checks.push({
+      check: "nonce",
+      ok: false,
+      detail: `nonces(account) is ${onChainNonce}: the ${message.nonce - onChainNonce} voucher(s) before this one must be claimed first`,
+    });
+  }
+
+  const now = BigInt((await provider.getBlock("latest"))!.timestamp);
+  const when = new Date(Number(message.deadline) * 1000).toISOString();
+  checks.push(
+    message.deadline >= now
+      ? { check: "deadline", ok: true, detail: `${message.deadline} (${when}), ${message.deadline - now}s left` }
+      : { check: "deadline", ok: false, detail: `claim: expired — ${message.deadline} (${when}) passed ${now - message.deadline}s ago` }
+  );
+
+  const status = Number(await fp1155.seasonStatus(message.seasonId));
+  checks.push(
+    status === SeasonStatus.OPEN
+      ? { check: "season", ok: true, detail: `season ${message.seasonId} is OPEN` }
+      : { check: "season", ok: false, detail: `claim: season locked — season ${message.seasonId} is ${enumName(SeasonStatus, status)}` }
+  );
+  if (message.amount === 0n) checks.push({ check: "amount", ok: false, detail: "amount=0" });
+  if (await fp1155.paused()) checks.push({ check: "paused", ok: false, detail: "FP1155 is paused" });
+
+  const data = fp1155.interface.encodeFunctionData("claim", [message.seasonId, message.amount, message.deadline, voucher.signature]);
+  checks.push(await simulate(profile, provider, account, contract, data));
+  return { contract, recovered, checks };
+}
+
+async function verifyFreeEntry(
+  profile: NetworkProfile,
+  provider: ethers.Provider,
+  args: Record<string, string>,
+  voucher: Voucher
+): Promise<{ contract: string; recovered: string | null; checks: VoucherCheck[] }> {
+  requireFields(voucher, ["account", "dayId", "nonce", "signature"]);
+  const contract = resolveContractAddress(profile, "dailyLottery", args);
+  const lottery = connectDailyLottery(contract, provider);
+  const account = ethers.getAddress(voucher.account);
+  const message = { account, dayId: BigInt(voucher.dayId), nonce: BigInt(voucher.nonce) };
+
+  const separator = await lottery.DOMAIN_SEPARATOR();
+  const checks = domainChecks(
+    profile,
+    voucher,
+    contract,
+    separator,
+    ethers.TypedDataEncoder.hashDomain(freeEntryDomain(profile.chainId, contract)),
+    await lottery.FREE_ENTRY_TYPEHASH(),
+    "FreeEntry(address account,uint256 dayId,uint256 nonce)"
+  );
+
+  let recovered: string | null = null;
+  try {
+    recovered = recover(separator, FREE_ENTRY_TYPES, message, voucher.signature);
+  } catch (err: any) {
+    checks.push({ check: "signature", ok: false, detail: `Invalid signature: ${err?.shortMessage ?? err?.message ?? err}` });
+  }
+  if (recovered) {
+    checks.push(
+      (await lottery.hasRole(await lottery.FREE_ENTRY_SIGNER_ROLE(), recovered))
+        ? { check: "signer", ok: true, detail: `${recovered} holds FREE_ENTRY_SIGNER_ROLE` }
+        : { check: "signer", ok: false, detail: `Invalid signer — recovers to ${recovered}, which lacks FREE_ENTRY_SIGNER_ROLE` }
+    );
+  }
+
+  // claimFreeEntry() verifies the signature for the current day and the account's nonce of that day
+  const today = await lottery.getCurrentDayId();
+  checks.push(
+    message.dayId === today
+      ? { check: "day", ok: true, detail: `day ${today} is today` }
+      : { check: "day", ok: false, detail: `the voucher is for day ${message.dayId}, claimFreeEntry only accepts today's (${today}): Invalid signer` }
+  );
+  const onChainNonce = await lottery.getUserNonce(today, account);
+  checks.push(
+    message.nonce === onChainNonce
+      ? { check: "nonce", ok: true, detail: `${message.nonce} is the account's next free-entry nonce of day ${today}` }
+      : { check: "nonce", ok: false, detail: `getUserNonce(${today}, account) is ${onChainNonce}, not ${message.nonce}: Invalid signer` }
+  );
+
+  const round = await lottery.getLotteryRound(today);
+  if (round.dayId === today && round.finalized) checks.push({ check: "round", ok: false, detail: `Lottery not active — day ${today} is finalized` });
+  const { remainingFreeEntries, remainingTotalEntries } = await lottery.getRemainingEntries(today, account);
+  if (remainingFreeEntries === 0n) checks.push({ check: "free entries", ok: false, detail: "Max free entries exceeded" });
+  if (remainingTotalEntries === 0n) checks.push({ check: "entries", ok: false, detail: "Max entries exceeded" });
+  if (await lottery.paused()) checks.push({ check: "paused", ok: false, detail: "DailyLottery is paused" });
+
+  const data = lottery.interface.encodeFunctionData("claimFreeEntry", [voucher.signature]);
+  checks.push(await simulate(profile, provider, account, contract, data));
+  return { contract, recovered, checks };
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, false);
+  const voucher = readVoucher(args);
+  const type = args.freeEntry || voucher.dayId ? "free-entry" : "claim";
+
+  const { profile, provider } = await connectNetwork(args);
+  const { contract, recovered, checks } =
+    type === "claim" ? await verifyClaim(profile, provider, args, voucher) : await verifyFreeEntry(profile, provider, args, voucher);
+  const valid = checks.every((check) => check.ok);
+
+  if (format === "json") {
+    const report: VerifyVoucherJson = { type, voucher, recoveredSigner: recovered, checks, valid };
+    printJson(await jsonEnvelope("fp.verify-claim/1", profile, provider, contract), report);
+    return;
+  }
+
+  console.log(`Network: ${formatNetwork(profile)}`);
+  console.log(`Contract: ${contract}`);
+  console.log(`${type === "claim" ? "Claim" : "Free-entry"} voucher for ${voucher.account}`);
+  for (const field of type === "claim" ? ["seasonId", "amount", "nonce", "deadline"] : ["dayId", "nonce"]) {
+    console.log(`  ${field}: ${voucher[field]}`);
+  }
+  console.log(`Recovered signer: ${recovered ?? "(none)"}\n`);
+  for (const check of checks) console.log(`${check.ok ? "✓" : "✗"} ${check.check.padEnd(12)} ${check.detail}`);
+
+  const failed = checks.filter((check) => !check.ok);
+  console.log(
+    failed.length === 0
+      ? `\n✅ The voucher is valid: ${voucher.account} can submit it now`
+      : `\n❌ The voucher will be rejected (${failed.map((check) => check.check).join(", ")})`
+  );
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -6,76 +6,46 @@
  *
  * @example View multiple seasons
  * ts-node tools/fp/view-season.ts --network testnet --seasonId 323 --seasonId 322
+ *
+ * @example Machine-readable output (schema fp.view-season/1), or one CSV row per season
+ * ts-node tools/fp/view-season.ts --network testnet --seasonId 323 --seasonId 322 --json
+ * ts-node tools/fp/view-season.ts --network testnet --seasonId 323 --seasonId 322 --csv
  */
 import "dotenv/config";
-import { ethers } from "ethers";
+import { getArgValues, parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { CsvColumn, EnumJson, enumColumns, enumJson, getOutputFormat, jsonEnvelope, printCsv, printJson } from "../cli/output";
+import { SeasonStatus, connectFP1155 } from "../contracts/fp1155";
+
+// --json: one element of `seasons`
+export interface SeasonJson {
+  seasonId: bigint;
+  status: EnumJson;
+}
 
-const ABI = [
-  "function seasonStatus(uint256 seasonId) external view returns (uint8)",
-  "function balanceOf(address account, uint256 id) external view returns (uint256)",
-  "function totalSupply(uint256 id) external view returns (uint256)",
+// --json: schema fp.view-season/1
+export interface SeasonsJson {
+  seasons: SeasonJson[];
+}
+
+const SEASON_CSV: CsvColumn<SeasonJson>[] = [
+  { header: "seasonId", value: (season) => season.seasonId },
+  ...enumColumns<SeasonJson>("status", SeasonStatus, (season) => season.status.value),
 ];
 
-// SeasonStatus enum values
-const SeasonStatus = {
-  OPEN: 0,
-  LOCKED: 1,
-};
-
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const contract =
-    args.contract ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_FP1155_ADDRESS || process.env.FP1155_ADDRESS
-      : process.env.FP1155_ADDRESS);
-  if (!contract) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_FP1155_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_FP1155_ADDRESS"
-        : "FP1155_ADDRESS";
-    throw new Error(`Missing contract (set --contract or ${envVar} in .env)`);
-  }
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, true);
+  const { profile, provider } = await connectNetwork(args);
 
-  // Get network information
-  const network = await provider.getNetwork();
-  const displayNetwork = networkName || network.name || `Chain ID ${network.chainId}`;
+  const contract = resolveContractAddress(profile, "fp1155", args);
 
-  // Parse season IDs (support multiple)
+  // Parse season IDs (support multiple --seasonId / --season arguments)
   const seasonIds: bigint[] = [];
-  if (args.seasonId) {
-    seasonIds.push(BigInt(args.seasonId));
-  }
-  if (args.season) {
-    seasonIds.push(BigInt(args.season));
-  }
-  // Support multiple --seasonId arguments
-  const allArgs = process.argv.slice(2);
-  for (let i = 0; i < allArgs.length; i++) {
-    if (allArgs[i] === "--seasonId" || allArgs[i] === "--season") {
-      const val = allArgs[i + 1];
-      if (val && !val.startsWith("--")) {
-        const id = BigInt(val);
-        if (!seasonIds.includes(id)) {
-          seasonIds.push(id);
-        }
-      }
+  for (const val of getArgValues(argv, "seasonId", "season")) {
+    const id = BigInt(val);
+    if (!seasonIds.includes(id)) {
+      seasonIds.push(id);
     }
   }
 
@@ -83,11 +53,26 @@ async function main() {
     throw new Error("Missing --seasonId (or --season). At least one season ID is required.");
   }
 
-  const fp1155 = new ethers.Contract(contract, ABI, provider);
+  const fp1155 = connectFP1155(contract, provider);
+
+  if (format !== "text") {
+    const envelope = await jsonEnvelope("fp.view-season/1", profile, provider, contract);
+    const seasons: SeasonJson[] = [];
+    for (const seasonId of seasonIds) {
+      seasons.push({ seasonId, status: enumJson(SeasonStatus, await fp1155.seasonStatus(seasonId)) });
+    }
+    if (format === "csv") {
+      printCsv(SEASON_CSV, seasons);
+      return;
+    }
+    const report: SeasonsJson = { seasons };
+    printJson(envelope, report);
+    return;
+  }
 
   console.log("Season Status Information");
   console.log("=".repeat(60));
-  console.log(`Network: ${displayNetwork} (Chain ID: ${network.chainId})`);
+  console.log(`Network: ${formatNetwork(profile)}`);
   console.log(`Contract: ${contract}`);
   console.log();
 
@@ -115,14 +100,6 @@ async function main() {
         console.log(`  ✓ Burns: Allowed (always allowed)`);
       }
 
-      // Try to get total supply if available (ERC1155 doesn't have totalSupply by default, but some implementations do)
-      try {
-        const totalSupply = await fp1155.totalSupply(seasonId);
-        console.log(`Total Supply: ${totalSupply.toString()}`);
-      } catch {
-        // totalSupply might not be available, skip it
-      }
-
       console.log();
     } catch (err: any) {
       console.log(`Season ${seasonId}:`);
@@ -133,27 +110,10 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]): Record<string, string> {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      if (val && !val.startsWith("--")) {
-        out[key] = val;
-        i++;
-      } else {
-        out[key] = "true";
-      }
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
-
-
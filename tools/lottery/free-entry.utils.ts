@@ -0,0 +1,26 @@
+import { ethers } from "ethers";
+
+// ---- EIP-712 FreeEntry (DailyLottery.claimFreeEntry) ----
+
+// DailyLottery.FREE_ENTRY_TYPEHASH: FreeEntry(address account,uint256 dayId,uint256 nonce)
+export const FREE_ENTRY_TYPES = {
+  FreeEntry: [
+    { name: "account", type: "address" },
+    { name: "dayId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export function freeEntryDomain(chainId: bigint, contract: string): ethers.TypedDataDomain {
+  return { name: "DailyLottery", version: "1", chainId, verifyingContract: contract };
+}
+
+/**
+ * claimFreeEntry() only accepts a voucher for the current day (block.timestamp / 1 day) and the account's
+ * next free-entry nonce of that day (getUserNonce), below the round's maxFreeEntriesPerUser.
+ */
+export interface FreeEntryMessage {
+  account: string;
+  dayId: bigint;
+  nonce: bigint;
+}
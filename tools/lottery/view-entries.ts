@@ -1,70 +1,111 @@
 /**
  * @notice Script to view today's lottery entries and round info
  *
- * @example
- * ts-node tools/lottery/view-entries.ts
- *
- * @example With custom contract address
- * ts-node tools/lottery/view-entries.ts --contract 0x123...
- *
- * @example On mainnet (default)
- * ts-node tools/lottery/view-entries.ts --network mainnet
- *
  * @example On testnet
  * ts-node tools/lottery/view-entries.ts --network testnet
  *
- * @example With custom RPC URL
- * ts-node tools/lottery/view-entries.ts --rpc https://bsc-dataseed.binance.org
+ * @example With custom contract address
+ * ts-node tools/lottery/view-entries.ts --network mainnet --contract 0x123...
+ *
+ * @example With custom RPC URL (network picked from its chainId)
+ * ts-node tools/lottery/view-entries.ts --rpc https://bsc-testnet.publicnode.com
  *
  * @example View a specific day
- * ts-node tools/lottery/view-entries.ts --dayId 20505
+ * ts-node tools/lottery/view-entries.ts --network testnet --dayId 20505
+ *
+ * @example Machine-readable output (schema lottery.view-entries/1)
+ * ts-node tools/lottery/view-entries.ts --network testnet --dayId 20505 --json
  */
 import "dotenv/config";
-import { ethers } from "ethers";
-
-const ABI = [
-  "function getCurrentDayId() external view returns (uint256)",
-  "function getTotalEntries(uint256 dayId) external view returns (uint256)",
-  "function getLotteryRound(uint256 dayId) external view returns (tuple(uint256 dayId, uint256 seasonId, uint256 entryPrice, uint256 maxEntriesPerUser, uint256 maxFreeEntriesPerUser, uint256 totalEntries, uint256 totalPaid, address winner, bool finalized, uint8 prizeType, address prizeTokenAddress, uint256 prizeSeasonId, uint256 prizeAmount))",
-  "function defaultSeasonId() external view returns (uint256)",
-  "function defaultEntryPrice() external view returns (uint256)",
-  "function defaultMaxEntriesPerUser() external view returns (uint256)",
-  "function defaultMaxFreeEntriesPerUser() external view returns (uint256)",
-];
-
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const networkName = args.network || "mainnet";
-
-  let rpcUrl: string | undefined = args.rpc;
-  if (!rpcUrl) {
-    if (networkName === "mainnet") {
-      rpcUrl = process.env.MAINNET_BSC_RPC_URL || process.env.BSC_RPC_URL;
-    } else if (networkName === "testnet") {
-      rpcUrl = process.env.TESTNET_BSC_RPC_URL || process.env.BSC_TESTNET_RPC_URL;
-    }
-    rpcUrl = rpcUrl || process.env.RPC_URL;
-  }
-  if (!rpcUrl) {
-    console.error("Missing RPC URL");
-    console.error("\nOptions:");
-    console.error("  1. Pass --network mainnet|testnet");
-    console.error("  2. Pass --rpc <URL>");
-    console.error("  3. Set in .env: MAINNET_BSC_RPC_URL, TESTNET_BSC_RPC_URL, or RPC_URL");
-    process.exit(1);
-  }
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+import { parseArgs } from "../cli/args";
+import { connectNetwork, resolveContractAddress } from "../cli/networks";
+import { EnumJson, enumJson, getOutputFormat, jsonEnvelope, printJson } from "../cli/output";
+import { enumName } from "../contracts/bindings.utils";
+import { PrizeType, connectDailyLottery } from "../contracts/daily-lottery";
+
+// --json: the round of the day, null until its first entry creates it
+export interface LotteryRoundJson {
+  seasonId: bigint;
+  entryPrice: bigint;
+  maxEntriesPerUser: bigint;
+  maxFreeEntriesPerUser: bigint;
+  totalPaid: bigint; // FP burned
+  totalEntries: bigint;
+  finalized: boolean;
+  winner: string | null; // null until finalized
+  prize: {
+    type: EnumJson;
+    amount: bigint;
+    tokenAddress: string | null; // ERC20 prizes
+    seasonId: bigint | null; // FP prizes
+  } | null;
+}
 
-  const contract = args.contract || process.env.LOTTERY_ADDRESS;
-  if (!contract)
-    throw new Error("Missing contract (set --contract or LOTTERY_ADDRESS)");
+// --json: round settings used when a round is created
+export interface LotteryDefaultsJson {
+  seasonId: bigint;
+  entryPrice: bigint;
+  maxEntriesPerUser: bigint;
+  maxFreeEntriesPerUser: bigint;
+}
+
+// --json: schema lottery.view-entries/1; defaults is only set when round is null
+export interface LotteryEntriesJson {
+  currentDayId: bigint;
+  dayId: bigint;
+  round: LotteryRoundJson | null;
+  defaults: LotteryDefaultsJson | null;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const format = getOutputFormat(args, false);
+  const { profile, provider } = await connectNetwork(args);
 
-  const lottery = new ethers.Contract(contract, ABI, provider);
+  const contract = resolveContractAddress(profile, "dailyLottery", args);
+
+  const lottery = connectDailyLottery(contract, provider);
 
   // Get current day ID from contract
   const currentDayId = await lottery.getCurrentDayId();
   const dayId = args.dayId ? BigInt(args.dayId) : currentDayId;
 
+  if (format === "json") {
+    const envelope = await jsonEnvelope("lottery.view-entries/1", profile, provider, contract);
+    const round = await lottery.getLotteryRound(dayId);
+    const report: LotteryEntriesJson = { currentDayId, dayId, round: null, defaults: null };
+    if (round.dayId === dayId) {
+      const isErc20 = round.prizeType === BigInt(PrizeType.ERC20);
+      report.round = {
+        seasonId: round.seasonId,
+        entryPrice: round.entryPrice,
+        maxEntriesPerUser: round.maxEntriesPerUser,
+        maxFreeEntriesPerUser: round.maxFreeEntriesPerUser,
+        totalPaid: round.totalPaid,
+        totalEntries: round.totalEntries,
+        finalized: round.finalized,
+        winner: round.finalized ? round.winner : null,
+        prize: round.finalized
+          ? {
+              type: enumJson(PrizeType, round.prizeType),
+              amount: round.prizeAmount,
+              tokenAddress: isErc20 ? round.prizeTokenAddress : null,
+              seasonId: isErc20 ? null : round.prizeSeasonId,
+            }
+          : null,
+      };
+    } else {
+      report.defaults = {
+        seasonId: await lottery.defaultSeasonId(),
+        entryPrice: await lottery.defaultEntryPrice(),
+        maxEntriesPerUser: await lottery.defaultMaxEntriesPerUser(),
+        maxFreeEntriesPerUser: await lottery.defaultMaxFreeEntriesPerUser(),
+      };
+    }
+    printJson(envelope, report);
+    return;
+  }
+
   const isToday = dayId === currentDayId;
   const dateFromDayId = new Date(Number(dayId) * 86400 * 1000);
 
@@ -100,29 +141,17 @@ async function main() {
   console.log(`Finalized:          ${round.finalized}`);
   if (round.finalized) {
     console.log(`Winner:             ${round.winner}`);
-    const prizeType = round.prizeType === 0 ? "FP" : "ERC20";
-    console.log(`Prize:              ${round.prizeAmount} ${prizeType}${round.prizeType === 1 ? ` (${round.prizeTokenAddress})` : ` (Season ${round.prizeSeasonId})`}`);
+    const prizeType = enumName(PrizeType, round.prizeType);
+    console.log(`Prize:              ${round.prizeAmount} ${prizeType}${round.prizeType === BigInt(PrizeType.ERC20) ? ` (${round.prizeTokenAddress})` : ` (Season ${round.prizeSeasonId})`}`);
   }
 
   console.log(`\n=== Tickets ===`);
   console.log(`Total Tickets:      ${round.totalEntries}`);
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
@@ -0,0 +1,215 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NetworkProfile } from "../cli/networks";
+
+export const DEFAULT_SAFE_BATCH_DIR = path.join(__dirname, "..", "..", "safe-batches");
+
+// Transaction Builder version recorded in the batch meta (the format has been stable since 1.x)
+const TX_BUILDER_VERSION = "1.16.5";
+
+// ---- Safe{Wallet} Transaction Builder batch file (version 1.0) ----
+
+export interface SafeBatchInput {
+  internalType: string;
+  name: string;
+  type: string;
+  components?: SafeBatchInput[];
+}
+
+export interface SafeBatchTransaction {
+  to: string;
+  value: string; // wei, decimal
+  data: string | null; // null: the Transaction Builder encodes contractMethod + contractInputsValues
+  contractMethod: { inputs: SafeBatchInput[]; name: string; payable: boolean };
+  contractInputsValues: Record<string, string>;
+}
+
+export interface SafeBatchFile {
+  version: "1.0";
+  chainId: string;
+  createdAt: number; // ms
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+// A batch being collected by a command run with --export safe
+export interface SafeExport {
+  file: string;
+  safeAddress?: string; // when known, each call is simulated from it
+  provider: ethers.Provider;
+  batch: SafeBatchFile;
+  calls: string[]; // decoded calls, for the review printout
+}
+
+function timestampSlug(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+/**
+ * Start a Safe batch when the command runs with --export safe; undefined otherwise.
+ * The Safe is --safe (or <NETWORK>_SAFE_ADDRESS in .env) and the batch goes to --exportFile
+ * (default: safe-batches/<name>-<network>-<timestamp>.json).
+ */
+export function getSafeExport(
+  args: Record<string, string>,
+  profile: NetworkProfile,
+  provider: ethers.Provider,
+  name: string
+): SafeExport | undefined {
+  if (!args.export) return undefined;
+  if (args.export !== "safe") throw new Error(`Unknown --export "${args.export}" (expected safe)`);
+
+  const safeAddress = args.safe || process.env[`${profile.name.toUpperCase()}_SAFE_ADDRESS`]?.trim() || undefined;
+  if (safeAddress && !ethers.isAddress(safeAddress)) throw new Error(`Invalid Safe address: ${safeAddress}`);
+
+  const now = new Date();
+  const slug = name.replace(/[^A-Za-z0-9_-]+/g, "-");
+  const file = args.exportFile || path.join(DEFAULT_SAFE_BATCH_DIR, `${slug}-${profile.name}-${timestampSlug(now)}.json`);
+
+  return {
+    file,
+    safeAddress: safeAddress ? ethers.getAddress(safeAddress) : undefined,
+    provider,
+    calls: [],
+    batch: {
+      version: "1.0",
+      chainId: profile.chainId.toString(),
+      createdAt: now.getTime(),
+      meta: {
+        name: `${name} (${profile.name})`,
+        description: "",
+        txBuilderVersion: TX_BUILDER_VERSION,
+        createdFromSafeAddress: safeAddress ? ethers.getAddress(safeAddress) : "",
+        createdFromOwnerAddress: "",
+      },
+      transactions: [],
+    },
+  };
+}
+
+// Sender line for reviews printed in export mode
+export function formatSafe(safe: SafeExport): string {
+  return `Safe ${safe.safeAddress ?? "(address not set)"} (batch export, nothing is sent)`;
+}
+
+// Argument in the Transaction Builder's form: tuples as positional arrays, integers as decimal strings
+function toBuilderValue(param: ethers.ParamType, value: any): unknown {
+  if (param.isArray()) return Array.from(value as unknown[]).map((item) => toBuilderValue(param.arrayChildren, item));
+  if (param.isTuple()) {
+    return param.components.map((component, i) =>
+      toBuilderValue(component, Array.isArray(value) ? value[i] : value[component.name])
+    );
+  }
+  if (param.baseType === "bool") return Boolean(value);
+  if (param.baseType === "address") return ethers.getAddress(value);
+  if (/^u?int/.test(param.baseType)) return ethers.getBigInt(value).toString();
+  return ethers.isBytesLike(value) ? ethers.hexlify(value) : String(value);
+}
+
+// ABI-style type: "tuple[]" with components rather than ethers' expanded "tuple(uint256,...)[]"
+function toBuilderType(param: ethers.ParamType): string {
+  if (param.isArray()) return `${toBuilderType(param.arrayChildren)}[${param.arrayLength < 0 ? "" : param.arrayLength}]`;
+  return param.isTuple() ? "tuple" : param.type;
+}
+
+function toBuilderInput(param: ethers.ParamType): SafeBatchInput {
+  const type = toBuilderType(param);
+  const input: SafeBatchInput = { internalType: type, name: param.name, type };
+  const element = param.isArray() ? param.arrayChildren : param;
+  if (element.isTuple()) input.components = element.components.map(toBuilderInput);
+  return input;
+}
+
+/**
+ * Add a contract call to the batch instead of sending it. With a known Safe the call is simulated
+ * from the Safe first, so a missing role or a failing precondition shows up before the review.
+ */
+export async function addSafeCall(
+  safe: SafeExport,
+  contract: ethers.BaseContract,
+  method: string,
+  args: unknown[],
+  value: bigint = 0n
+): Promise<void> {
+  const fragment = contract.interface.getFunction(method, args as any[]);
+  if (!fragment) throw new Error(`Unknown contract method ${method}`);
+  const to = ethers.getAddress(await ethers.resolveAddress(contract.target));
+  const data = contract.interface.encodeFunctionData(fragment, args as any[]);
+
+  const contractInputsValues: Record<string, string> = {};
+  const shown: string[] = [];
+  fragment.inputs.forEach((param, i) => {
+    const builderValue = toBuilderValue(param, args[i]);
+    const text = typeof builderValue === "string" ? builderValue : JSON.stringify(builderValue);
+    contractInputsValues[param.name] = text;
+    shown.push(param.type === "string" ? JSON.stringify(text) : text);
+  });
+
+  safe.batch.transactions.push({
+    to,
+    value: value.toString(),
+    data: null,
+    contractMethod: { inputs: fragment.inputs.map(toBuilderInput), name: fragment.name, payable: fragment.payable },
+    contractInputsValues,
+  });
+  const call = `${fragment.name}(${shown.join(", ")})`;
+  safe.calls.push(`${call} → ${to}`);
+  console.log(`  + Safe tx ${safe.batch.transactions.length}: ${call}`);
+
+  if (safe.safeAddress) {
+    try {
+      await safe.provider.call({ from: safe.safeAddress, to, data, value });
+    } catch (err: any) {
+      console.log(`    ⚠️  Reverts when sent from the Safe: ${err?.reason ?? err?.shortMessage ?? err?.message ?? err}`);
+    }
+  }
+}
+
+// Canonical JSON used by the Transaction Builder for its checksum (sorted keys, undefined as null)
+function serializeForChecksum(json: unknown): string {
+  const replacer = (_key: string, value: unknown) => (value === undefined ? null : value);
+  if (Array.isArray(json)) return `[${json.map((item) => serializeForChecksum(item)).join(",")}]`;
+  if (typeof json === "object" && json !== null) {
+    const keys = Object.keys(json).sort();
+    let out = `{${JSON.stringify(keys, replacer)}`;
+    for (const key of keys) out += `${serializeForChecksum((json as Record<string, unknown>)[key])},`;
+    return `${out}}`;
+  }
+  return `${JSON.stringify(json, replacer)}`;
+}
+
+export function safeBatchChecksum(batch: SafeBatchFile): string {
+  const { checksum, ...meta } = batch.meta;
+  return ethers.keccak256(ethers.toUtf8Bytes(serializeForChecksum({ ...batch, meta: { ...meta, name: null } })));
+}
+
+// Write the batch for review and import in the Safe{Wallet} Transaction Builder
+export function writeSafeBatch(safe: SafeExport): void {
+  console.log("\n" + "=".repeat(60));
+  console.log("SAFE BATCH EXPORT");
+  console.log("=".repeat(60));
+  if (safe.batch.transactions.length === 0) {
+    console.log("Nothing to export: no transaction would be sent.");
+    return;
+  }
+
+  safe.batch.meta.description = safe.calls.join("\n");
+  safe.batch.meta.checksum = safeBatchChecksum(safe.batch);
+  fs.mkdirSync(path.dirname(path.resolve(safe.file)), { recursive: true });
+  fs.writeFileSync(safe.file, JSON.stringify(safe.batch, null, 2) + "\n");
+
+  console.log(`Safe:         ${safe.safeAddress ?? "(not set: pass --safe to simulate the calls from it)"}`);
+  console.log(`Chain ID:     ${safe.batch.chainId}`);
+  console.log(`Transactions: ${safe.batch.transactions.length}`);
+  for (const [i, call] of safe.calls.entries()) console.log(`  ${i + 1}. ${call}`);
+  console.log(`\n✓ Wrote ${path.relative(process.cwd(), path.resolve(safe.file))}`);
+  console.log("Nothing was sent. Load the file in the Safe{Wallet} Transaction Builder to review and propose it.");
+}
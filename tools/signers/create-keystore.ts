@@ -0,0 +1,63 @@
+/**
+ * @notice Encrypt a private key into a JSON keystore for the keystore signer backend
+ *
+ * The key is typed at a hidden prompt, read from a .env variable (--fromEnv, to migrate an existing
+ * plaintext key) or generated (--random). The passphrase is prompted twice, or read from --passwordFile.
+ * The keystore is written with mode 600; point <ROLE>_KEYSTORE (or --keystore) at it.
+ *
+ * @example Migrate OPERATOR_PK from .env, then remove it from .env
+ * ts-node tools/signers/create-keystore.ts --out keystores/operator.json --fromEnv OPERATOR_PK
+ *
+ * @example Generate a new claim signer key
+ * ts-node tools/signers/create-keystore.ts --out keystores/claim-signer.json --random
+ */
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { promptSecret, readPasswordFile } from "./signers.utils";
+
+async function readPrivateKey(args: Record<string, string>): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+  if (args.random) return ethers.Wallet.createRandom();
+  const raw = args.fromEnv ? process.env[args.fromEnv]?.trim() : await promptSecret("Private key: ");
+  if (!raw) throw new Error(args.fromEnv ? `Missing ${args.fromEnv} in .env` : "No private key given");
+  const pk = raw.startsWith("0x") ? raw : "0x" + raw;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(pk)) throw new Error("The private key must be 32 bytes of hex");
+  return new ethers.Wallet(pk);
+}
+
+async function readNewPassphrase(args: Record<string, string>): Promise<string> {
+  if (args.passwordFile) return readPasswordFile(args.passwordFile);
+  const passphrase = await promptSecret("New passphrase: ");
+  if (passphrase.length < 8) throw new Error("The passphrase must be at least 8 characters");
+  const repeated = await promptSecret("Repeat passphrase: ");
+  if (repeated !== passphrase) throw new Error("Passphrases do not match");
+  return passphrase;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const out = args.out;
+  if (!out) throw new Error("Missing --out <keystore.json>");
+  if (fs.existsSync(out) && !args.force) throw new Error(`${out} already exists (use --force to overwrite)`);
+
+  const wallet = await readPrivateKey(args);
+  const passphrase = await readNewPassphrase(args);
+
+  console.log(`Encrypting key for ${wallet.address}...`);
+  const json = await wallet.encrypt(passphrase);
+  fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+  fs.writeFileSync(out, json + "\n", { mode: 0o600 });
+
+  console.log(`✓ Wrote ${out}`);
+  console.log(`  Address: ${wallet.address}`);
+  if (args.fromEnv) console.log(`  You can now remove ${args.fromEnv} from .env`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,66 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import { NetworkProfile } from "../cli/networks";
+
+// Largest request body the signing servers read
+export const MAX_BODY_BYTES = 16 * 1024;
+
+// Error answered with its HTTP status; the message is returned to the client
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Request body as text. Past maxBytes, reading stops and the promise rejects with a 413: answer it with
+ * replyAndClose, which drops the connection instead of draining the rest of the body.
+ */
+export function readRequestBody(req: http.IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) {
+        chunks.push(chunk);
+        return;
+      }
+      req.off("data", onData);
+      req.pause();
+      reject(new HttpError(413, "Request body too large"));
+    };
+    req.on("data", onData);
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+// JSON reply; when the request body was not read to the end, the connection is closed once it is sent
+export function replyAndClose(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  const unread = !req.complete;
+  res.writeHead(status, { "content-type": "application/json", ...(unread ? { connection: "close" } : {}), ...headers });
+  res.end(JSON.stringify(body, null, 2), () => {
+    if (unread) req.destroy();
+  });
+}
+
+// Authorization: Bearer <token>, compared in constant time (both sides are hashed, so lengths do not leak either)
+export function hasBearerToken(req: http.IncomingMessage, token: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(req.headers.authorization ?? ""), digest(`Bearer ${token}`));
+}
+
+// --token is optional on the local network only: anywhere else anyone reaching the port could get signatures
+export function requireServerToken(token: string | undefined, profile: NetworkProfile): void {
+  if (!token && profile.name !== "local") {
+    throw new Error(`--token is required on ${profile.name} (only --network local may run without one)`);
+  }
+}
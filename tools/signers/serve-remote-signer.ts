@@ -0,0 +1,152 @@
+/**
+ * @notice Local stand-in for a remote signer: serves one key over JSON-RPC
+ *
+ * Answers eth_accounts, eth_signTransaction and eth_signTypedData_v4 (the methods used by the remote
+ * backend of tools/signers/signers.utils.ts) with a key loaded from a keystore, or from .env with
+ * --signer env. Use it to exercise the remote backend locally; production setups point
+ * <ROLE>_SIGNER_URL at their HSM or custody endpoint instead. Every request is logged.
+ *
+ * Only transactions and typed data for the chainId of --network are signed. A bearer token (--token; clients
+ * set --signerToken or <ROLE>_SIGNER_TOKEN) is required except on --network local.
+ *
+ * @example Serve the operator keystore on http://127.0.0.1:8550 for a local chain
+ * ts-node tools/signers/serve-remote-signer.ts --network local --role operator --keystore keystores/operator.json
+ *
+ * @example Testnet, with a bearer token
+ * ts-node tools/signers/serve-remote-signer.ts --network testnet --role claimSigner --keystore keystores/claim-signer.json --token s3cret
+ *
+ * @example Then, from another terminal
+ * ts-node tools/booster/create-event.ts --network local --signer remote --signerUrl http://127.0.0.1:8550 ...
+ */
+import "dotenv/config";
+import * as http from "http";
+import { ethers } from "ethers";
+import { parseArgs } from "../cli/args";
+import { NETWORK_NAMES, NetworkProfile, getNetworkProfile, getRequestedNetwork } from "../cli/networks";
+import { HttpError, hasBearerToken, readRequestBody, replyAndClose, requireServerToken } from "./http.utils";
+import {
+  RoleSigner,
+  SIGNER_ROLES,
+  SignerRole,
+  fromRpcTransaction,
+  loadSigner,
+  resolveSignerBackend,
+} from "./signers.utils";
+
+const DEFAULT_PORT = 8550;
+const DEFAULT_HOST = "127.0.0.1";
+
+// Handle one JSON-RPC call; throws on unsupported methods, foreign accounts and other chains
+async function handleCall(signer: RoleSigner, profile: NetworkProfile, method: string, params: any[]): Promise<unknown> {
+  if (method === "eth_accounts") return [signer.address];
+
+  if (method === "eth_signTransaction") {
+    const request = params[0] ?? {};
+    if (request.from && ethers.getAddress(request.from) !== signer.address) {
+      throw new Error(`Unknown account ${request.from}`);
+    }
+    const tx = fromRpcTransaction(request);
+    // Without a chainId the signature would be valid on every chain
+    if (tx.chainId == null || BigInt(tx.chainId) !== profile.chainId) {
+      throw new Error(`Refusing chainId ${tx.chainId ?? "(none)"}: this signer only signs for ${profile.name} (${profile.chainId})`);
+    }
+    return signer.signTransaction(tx);
+  }
+
+  if (method === "eth_signTypedData_v4") {
+    const [account, data] = params;
+    if (!account || ethers.getAddress(account) !== signer.address) throw new Error(`Unknown account ${account}`);
+    const payload = typeof data === "string" ? JSON.parse(data) : data;
+    const chainId = payload.domain?.chainId;
+    if (chainId != null && BigInt(chainId) !== profile.chainId) {
+      throw new Error(`Refusing domain chainId ${chainId}: this signer only signs for ${profile.name} (${profile.chainId})`);
+    }
+    const { EIP712Domain, ...types } = payload.types;
+    return signer.signTypedData(payload.domain, types, payload.message);
+  }
+
+  throw new Error(`Method ${method} is not supported`);
+}
+
+function summarize(method: string, params: any[]): string {
+  if (method === "eth_signTransaction") {
+    const tx = params[0] ?? {};
+    return `to ${tx.to ?? "(create)"} nonce ${tx.nonce === undefined ? "?" : Number(tx.nonce)} data ${String(tx.data ?? "0x").slice(0, 10)}`;
+  }
+  if (method === "eth_signTypedData_v4") {
+    try {
+      const payload = typeof params[1] === "string" ? JSON.parse(params[1]) : params[1];
+      return `${payload.primaryType} for ${payload.domain?.name ?? "?"} (chainId ${payload.domain?.chainId == null ? "?" : Number(payload.domain.chainId)})`;
+    } catch {
+      return "unparseable payload";
+    }
+  }
+  return "";
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const network = getRequestedNetwork(args);
+  if (!network) throw new Error(`Missing --network (${NETWORK_NAMES.join(", ")}): only its chainId is signed for`);
+  const profile = getNetworkProfile(network);
+  const role = (args.role || "operator") as SignerRole;
+  if (!SIGNER_ROLES[role]) {
+    throw new Error(`Unknown --role "${role}" (expected one of ${Object.keys(SIGNER_ROLES).join(", ")})`);
+  }
+  if (resolveSignerBackend(role, args) === "remote") {
+    throw new Error("The stand-in serves a local key: use --signer keystore (or env)");
+  }
+
+  const port = Number(args.port || DEFAULT_PORT);
+  if (!Number.isInteger(port) || port <= 0) throw new Error("--port must be a positive integer");
+  const host = args.host || DEFAULT_HOST;
+  const token = args.token;
+  requireServerToken(token, profile);
+
+  const signer = await loadSigner(role, null, args);
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: unknown) => replyAndClose(req, res, status, body);
+    if (req.method !== "POST") return reply(405, { error: "POST JSON-RPC requests only" });
+    if (token && !hasBearerToken(req, token)) return reply(401, { error: "Unauthorized" });
+
+    readRequestBody(req).then(
+      async (raw) => {
+        let id: unknown = null;
+        try {
+          const call = JSON.parse(raw);
+          id = call.id ?? null;
+          const params = Array.isArray(call.params) ? call.params : [];
+          console.log(`${new Date().toISOString()} ${call.method} ${summarize(call.method, params)}`.trimEnd());
+          const result = await handleCall(signer, profile, call.method, params);
+          reply(200, { jsonrpc: "2.0", id, result });
+        } catch (err: any) {
+          console.log(`${new Date().toISOString()}   ❌ ${err?.message ?? err}`);
+          reply(200, { jsonrpc: "2.0", id, error: { code: -32000, message: err?.message ?? String(err) } });
+        }
+      },
+      (err: any) => reply(err instanceof HttpError ? err.status : 400, { error: err?.message ?? String(err) })
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  console.log(`Serving the ${SIGNER_ROLES[role].label} key ${signer.address} for ${profile.name} (chainId ${profile.chainId})`);
+  console.log(`  URL:   http://${host}:${port}`);
+  console.log(`  Token: ${token ? "required" : "none"}`);
+  console.log("Press Ctrl+C to stop.");
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", () => server.close(() => resolve()));
+    process.once("SIGTERM", () => server.close(() => resolve()));
+  });
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
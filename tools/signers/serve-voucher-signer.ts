@@ -0,0 +1,262 @@
+/**
+ * @notice HTTP service that signs FP1155 claim vouchers and DailyLottery free-entry vouchers on demand
+ *
+ * POST /claim       {"account", "seasonId", "amount", "deadline"?}  → FP1155 Claim (claim signer)
+ * POST /free-entry  {"account", "dayId"?}                           → DailyLottery FreeEntry (free-entry signer)
+ * GET  /health      → signer addresses and contracts
+ *
+ * Every POST needs an Idempotency-Key header: a retry with the same key returns the same voucher, and a key
+ * reused for another request is refused (409). Each account is rate limited (429), claims are capped per
+ * season and free entries per lottery day (403). Claim nonces follow the vouchers already handed out (the
+ * voucher ledger shared with sign-claims.ts), so an account can hold several; the response says which nonce
+ * it must be claimed at. Every voucher is appended to an audit log, which also restores the idempotency keys
+ * and caps after a restart.
+ *
+ * The claim signer needs CLAIM_SIGNER_ROLE on FP1155 and the free-entry signer FREE_ENTRY_SIGNER_ROLE on
+ * DailyLottery (checked at start). An endpoint whose contract is not deployed on the network is disabled.
+ * --token is required on every network but local, since anyone reaching the port could otherwise get vouchers.
+ *
+ * @example Against a local chain (contracts deployed on anvil, LOCAL_*_ADDRESS in .env), keys from .env
+ * ts-node tools/signers/serve-voucher-signer.ts --network local --signer env
+ *
+ * @example Testnet, bearer token, 10 vouchers per account and hour, 1M FP per season, 500 free entries per day
+ * ts-node tools/signers/serve-voucher-signer.ts --network testnet --token s3cret --rateLimit 10 --seasonCap 1000000 --dayCap 500
+ *
+ * @example Request a claim voucher
+ * curl -s localhost:8551/claim -H 'Idempotency-Key: order-42' -d '{"account":"0x...","seasonId":"323","amount":"100"}'
+ */
+import "dotenv/config";
+import * as http from "http";
+import { parseArgs } from "../cli/args";
+import { NETWORK_NAMES, connectNetwork, formatNetwork, getNetworkProfile, getRequestedNetwork, resolveContractAddress } from "../cli/networks";
+import { connectDailyLottery } from "../contracts/daily-lottery";
+import { connectFP1155 } from "../contracts/fp1155";
+import { defaultVoucherLedger } from "../fp/claim-vouchers.utils";
+import { HttpError, hasBearerToken, readRequestBody, replyAndClose, requireServerToken } from "./http.utils";
+import { RoleSigner, loadSigner } from "./signers.utils";
+import {
+  ClaimRequestBody,
+  FreeEntryRequestBody,
+  ServiceError,
+  VoucherEndpoint,
+  VoucherService,
+  defaultAuditLog,
+  findIdempotentReplay,
+  issueClaimVoucher,
+  issueFreeEntryVoucher,
+  openVoucherService,
+  parseClaimBody,
+  parseFreeEntryBody,
+  requestFingerprint,
+} from "./voucher-service.utils";
+
+const DEFAULT_PORT = 8551;
+const DEFAULT_HOST = "127.0.0.1";
+
+function optionalAddress(resolve: () => string): string | undefined {
+  try {
+    return resolve();
+  } catch {
+    return undefined;
+  }
+}
+
+async function requireRole(
+  contract: { hasRole(role: string, account: string): Promise<boolean> },
+  role: string,
+  roleName: string,
+  signer: RoleSigner,
+  address: string
+): Promise<void> {
+  if (!(await contract.hasRole(role, signer.address))) {
+    throw new Error(`${signer.address} does not have ${roleName} on ${address}: its vouchers would be rejected`);
+  }
+}
+
+type VoucherRequest =
+  | { endpoint: "claim"; key: string; client: string; request: ClaimRequestBody }
+  | { endpoint: "free-entry"; key: string; client: string; request: FreeEntryRequestBody };
+
+// Read and validate a request on its own: a slow or malformed client never holds up the signing queue
+async function readVoucherRequest(endpoint: VoucherEndpoint, req: http.IncomingMessage): Promise<VoucherRequest> {
+  const key = req.headers["idempotency-key"];
+  if (typeof key !== "string" || !key.trim() || key.length > 200) {
+    throw new ServiceError(400, "Missing Idempotency-Key header (1-200 characters)");
+  }
+  const raw = await readRequestBody(req);
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(raw || "{}");
+  } catch {
+    throw new ServiceError(400, "The body must be a JSON object");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) throw new ServiceError(400, "The body must be a JSON object");
+
+  const client = req.socket.remoteAddress ?? "unknown";
+  return endpoint === "claim"
+    ? { endpoint, key, client, request: parseClaimBody(body) }
+    : { endpoint, key, client, request: parseFreeEntryBody(body) };
+}
+
+// Idempotency lookup, limits, nonce planning and signing, run one request at a time
+async function issueVoucher(service: VoucherService, { endpoint, key, client, request }: VoucherRequest) {
+  const replay = findIdempotentReplay(service, key, requestFingerprint(endpoint, request));
+  if (replay) return { replayed: true, voucher: replay.response };
+  const voucher =
+    endpoint === "claim"
+      ? await issueClaimVoucher(service, request as ClaimRequestBody, key, client)
+      : await issueFreeEntryVoucher(service, request as FreeEntryRequestBody, key, client);
+  return { replayed: false, voucher };
+}
+
+export interface VoucherServer {
+  url: string;
+  service: VoucherService;
+  close(): Promise<void>;
+}
+
+/**
+ * Connect to the network, check the signers' roles and start serving. main() runs it until Ctrl+C;
+ * close() stops the server and the provider.
+ */
+export async function startVoucherServer(args: Record<string, string>): Promise<VoucherServer> {
+  const network = getRequestedNetwork(args);
+  if (!network) throw new Error(`Missing --network (${NETWORK_NAMES.join(", ")}): vouchers are signed for its chainId`);
+  const port = Number(args.port || DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0) throw new Error("--port must be a non-negative integer (0 picks a free port)");
+  const host = args.host || DEFAULT_HOST;
+  const token = args.token;
+  requireServerToken(token, getNetworkProfile(network));
+
+  const positive = (name: string, fallback?: string) => {
+    const value = args[name] ?? fallback;
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value) || BigInt(value) <= 0n) throw new Error(`--${name} must be a positive integer`);
+    return BigInt(value);
+  };
+  const policy = {
+    rateLimit: Number(positive("rateLimit", "5")),
+    rateWindowMs: Number(positive("rateWindow", "3600")) * 1000,
+    maxClaimAmount: positive("maxAmount"),
+    seasonCap: positive("seasonCap"),
+    dayCap: args.dayCap === undefined ? undefined : Number(positive("dayCap")),
+    claimTtl: positive("claimTtl", "3600")!,
+    maxClaimTtl: positive("maxClaimTtl", "604800")!,
+  };
+  if (policy.claimTtl > policy.maxClaimTtl) throw new Error("--claimTtl must not exceed --maxClaimTtl");
+
+  const { profile, provider } = await connectNetwork(args);
+  const fp1155Address = optionalAddress(() => resolveContractAddress(profile, "fp1155", args, ["fp1155"]));
+  const lotteryAddress = optionalAddress(() => resolveContractAddress(profile, "dailyLottery", args, ["lottery"]));
+  if (!fp1155Address && !lotteryAddress) throw new Error(`No FP1155 or DailyLottery address for ${profile.name}`);
+
+  let fp1155: VoucherService["fp1155"];
+  if (fp1155Address) {
+    const contract = connectFP1155(fp1155Address, provider);
+    const signer = await loadSigner("claimSigner", provider, args);
+    await requireRole(contract, await contract.CLAIM_SIGNER_ROLE(), "CLAIM_SIGNER_ROLE", signer, fp1155Address);
+    fp1155 = { contract, address: fp1155Address, signer };
+  }
+  let lottery: VoucherService["lottery"];
+  if (lotteryAddress) {
+    const contract = connectDailyLottery(lotteryAddress, provider);
+    const signer = await loadSigner("freeEntrySigner", provider, args);
+    await requireRole(contract, await contract.FREE_ENTRY_SIGNER_ROLE(), "FREE_ENTRY_SIGNER_ROLE", signer, lotteryAddress);
+    lottery = { contract, address: lotteryAddress, signer };
+  }
+
+  const service = openVoucherService({
+    profile,
+    provider,
+    policy,
+    auditFile: args.auditLog || defaultAuditLog(profile),
+    ledgerFile: args.ledger || defaultVoucherLedger(profile),
+    fp1155,
+    lottery,
+  });
+
+  // One voucher at a time: two vouchers for the same account must not get the same nonce
+  let queue = Promise.resolve();
+  const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  };
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+      replyAndClose(req, res, status, body, headers);
+    const url = (req.url ?? "/").split("?")[0];
+    if (token && !hasBearerToken(req, token)) return reply(401, { error: "Unauthorized" });
+
+    if (req.method === "GET" && url === "/health") {
+      return reply(200, {
+        network: profile.name,
+        chainId: profile.chainId.toString(),
+        claim: fp1155 ? { contract: fp1155.address, signer: fp1155.signer.address } : null,
+        freeEntry: lottery ? { contract: lottery.address, signer: lottery.signer.address } : null,
+      });
+    }
+    const endpoint: VoucherEndpoint | undefined = url === "/claim" ? "claim" : url === "/free-entry" ? "free-entry" : undefined;
+    if (!endpoint) return reply(404, { error: `Unknown endpoint ${url}` });
+    if (req.method !== "POST") return reply(405, { error: "POST only" });
+
+    readVoucherRequest(endpoint, req)
+      .then((request) => serialized(() => issueVoucher(service, request)))
+      .then(
+        ({ replayed, voucher }) => {
+          console.log(
+            `${new Date().toISOString()} ${endpoint} ${voucher.account} nonce ${voucher.nonce}${replayed ? " (idempotent replay)" : ""}`
+          );
+          reply(200, voucher, replayed ? { "idempotent-replayed": "true" } : {});
+        },
+        (err: any) => {
+          const status = err instanceof HttpError ? err.status : 500;
+          console.log(`${new Date().toISOString()} ${endpoint}   ❌ ${status} ${err?.shortMessage ?? err?.message ?? err}`);
+          reply(status, { error: status === 500 ? "Internal error" : err.message });
+        }
+      );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  const url = `http://${host}:${(server.address() as { port: number }).port}`;
+  console.log(`Voucher signing service on ${formatNetwork(profile)}`);
+  console.log(`  URL:        ${url}`);
+  console.log(`  /claim:      ${fp1155 ? `FP1155 ${fp1155.address}, signer ${fp1155.signer.address}` : "disabled (no FP1155)"}`);
+  console.log(`  /free-entry: ${lottery ? `DailyLottery ${lottery.address}, signer ${lottery.signer.address}` : "disabled (no DailyLottery)"}`);
+  console.log(`  Token:      ${token ? "required" : "none"}`);
+  console.log(`  Audit log:  ${service.auditFile} (${service.byKey.size} voucher(s) issued before)`);
+
+  return {
+    url,
+    service,
+    close: async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      provider.destroy();
+    },
+  };
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const { close } = await startVoucherServer(parseArgs(argv));
+  console.log("Press Ctrl+C to stop.");
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  await close();
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,311 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { findProfileByChainId } from "../cli/networks";
+
+export type SignerRole = "admin" | "operator" | "seasonAdmin" | "claimSigner" | "freeEntrySigner" | "user";
+export type SignerBackend = "keystore" | "remote" | "env";
+
+export const SIGNER_BACKENDS: SignerBackend[] = ["keystore", "remote", "env"];
+
+export interface SignerRoleSpec {
+  label: string;
+  prefix: string; // per-role .env settings: <PREFIX>_SIGNER, <PREFIX>_KEYSTORE, <PREFIX>_SIGNER_URL, ...
+  keyEnv: string[]; // plaintext keys read by the env backend, first match wins
+}
+
+// Roles used by the tools. Every setting falls back to its unprefixed name (SIGNER, KEYSTORE, SIGNER_URL, ...).
+export const SIGNER_ROLES: Record<SignerRole, SignerRoleSpec> = {
+  admin: { label: "admin", prefix: "ADMIN", keyEnv: ["PRIVATE_KEY_ADMIN", "PRIVATE_KEY"] },
+  operator: { label: "operator", prefix: "OPERATOR", keyEnv: ["OPERATOR_PK", "PRIVATE_KEY"] },
+  seasonAdmin: {
+    label: "season admin",
+    prefix: "SEASON_ADMIN",
+    keyEnv: ["SEASON_ADMIN_PK", "ADMIN_PK", "OPERATOR_PK", "PRIVATE_KEY"],
+  },
+  claimSigner: { label: "claim signer", prefix: "CLAIM", keyEnv: ["CLAIM_SIGNER_PK", "PRIVATE_KEY"] },
+  freeEntrySigner: { label: "free-entry signer", prefix: "FREE_ENTRY", keyEnv: ["FREE_ENTRY_SIGNER_PK", "PRIVATE_KEY"] },
+  user: { label: "user", prefix: "USER", keyEnv: ["USER_PK"] },
+};
+
+// A signer whose address is known without a round trip (Wallet, HDNodeWallet or RemoteSigner)
+export type RoleSigner = ethers.Signer & { readonly address: string };
+
+// Command line option and .env suffix of each signer setting
+const SETTINGS = {
+  backend: { arg: "signer", env: "SIGNER" },
+  keystore: { arg: "keystore", env: "KEYSTORE" },
+  passwordFile: { arg: "passwordFile", env: "KEYSTORE_PASSWORD_FILE" },
+  url: { arg: "signerUrl", env: "SIGNER_URL" },
+  address: { arg: "signerAddress", env: "SIGNER_ADDRESS" },
+  token: { arg: "signerToken", env: "SIGNER_TOKEN" },
+} as const;
+
+export type SignerSetting = keyof typeof SETTINGS;
+
+// Command line option, then <PREFIX>_<NAME> in .env, then <NAME>
+export function getSignerSetting(
+  role: SignerRole,
+  setting: SignerSetting,
+  args: Record<string, string> = {}
+): string | undefined {
+  const { arg, env } = SETTINGS[setting];
+  const candidates = [args[arg], process.env[`${SIGNER_ROLES[role].prefix}_${env}`], process.env[env]];
+  return candidates.map((value) => value?.trim()).find((value) => value);
+}
+
+/**
+ * Backend of a role: --signer (or <PREFIX>_SIGNER / SIGNER in .env), else keystore when a keystore is
+ * configured, else remote when a signer URL is. Plaintext .env keys are never picked implicitly.
+ */
+export function resolveSignerBackend(role: SignerRole, args: Record<string, string> = {}): SignerBackend | undefined {
+  const backend = getSignerSetting(role, "backend", args);
+  if (backend) {
+    if (!SIGNER_BACKENDS.includes(backend as SignerBackend)) {
+      throw new Error(`Unknown signer "${backend}" (expected one of ${SIGNER_BACKENDS.join(", ")})`);
+    }
+    return backend as SignerBackend;
+  }
+  if (getSignerSetting(role, "keystore", args)) return "keystore";
+  if (getSignerSetting(role, "url", args)) return "remote";
+  return undefined;
+}
+
+/**
+ * Signer of a role, from an encrypted JSON keystore (passphrase prompt), a remote JSON-RPC signer
+ * (eth_signTransaction / eth_signTypedData_v4) or, when explicitly selected, a plaintext key from .env.
+ */
+export async function loadSigner(
+  role: SignerRole,
+  provider: ethers.Provider | null,
+  args: Record<string, string> = {}
+): Promise<RoleSigner> {
+  const spec = SIGNER_ROLES[role];
+  const backend = resolveSignerBackend(role, args);
+  if (backend === "keystore") return loadKeystoreSigner(role, provider, args);
+  if (backend === "remote") return loadRemoteSigner(role, provider, args);
+  if (backend === "env") return loadEnvSigner(role, provider);
+  throw new Error(
+    `No signer configured for the ${spec.label} role: set --signer keystore|remote|env ` +
+      `(or ${spec.prefix}_SIGNER / SIGNER in .env) and --keystore or --signerUrl ` +
+      `(or ${spec.prefix}_KEYSTORE / ${spec.prefix}_SIGNER_URL)`
+  );
+}
+
+// ---- Keystore ----
+
+async function loadKeystoreSigner(role: SignerRole, provider: ethers.Provider | null, args: Record<string, string>) {
+  const spec = SIGNER_ROLES[role];
+  const file = getSignerSetting(role, "keystore", args);
+  if (!file) throw new Error(`Missing --keystore (or ${spec.prefix}_KEYSTORE in .env) for the ${spec.label} signer`);
+  if (!fs.existsSync(file)) throw new Error(`Keystore not found: ${file}`);
+
+  const json = fs.readFileSync(file, "utf8");
+  const passwordFile = getSignerSetting(role, "passwordFile", args);
+  const passphrase = passwordFile
+    ? readPasswordFile(passwordFile)
+    : await promptSecret(`Passphrase for the ${spec.label} keystore (${path.basename(file)}): `);
+  try {
+    const wallet = await ethers.Wallet.fromEncryptedJson(json, passphrase);
+    return wallet.connect(provider);
+  } catch (err: any) {
+    throw new Error(`Could not decrypt ${file}: ${err?.shortMessage ?? err?.message ?? err}`);
+  }
+}
+
+export function readPasswordFile(file: string): string {
+  if (!fs.existsSync(file)) throw new Error(`Password file not found: ${file}`);
+  return fs.readFileSync(file, "utf8").replace(/\r?\n$/, "");
+}
+
+// Read a line from the terminal without echoing it
+export function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error(`${question.trim()} needs a terminal (use --passwordFile for non-interactive runs)`));
+  }
+
+  return new Promise((resolve, reject) => {
+    let value = "";
+    const finish = () => {
+      stdin.removeListener("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") {
+          finish();
+          resolve(value);
+          return;
+        }
+        if (char === "\u0003") {
+          finish();
+          reject(new Error("Cancelled"));
+          return;
+        }
+        if (char === "\u007f" || char === "\b") value = value.slice(0, -1);
+        else value += char;
+      }
+    };
+
+    process.stdout.write(question);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+// ---- Remote signer ----
+
+async function remoteCall(url: string, token: string | undefined, method: string, params: unknown[]): Promise<any> {
+  const request = new ethers.FetchRequest(url);
+  if (token) request.setHeader("authorization", `Bearer ${token}`);
+  request.body = { jsonrpc: "2.0", id: 1, method, params };
+  const response = await request.send();
+  if (!response.ok()) throw new Error(`Remote signer ${method} failed: HTTP ${response.statusCode} ${response.statusMessage}`);
+  const body = response.bodyJson;
+  if (body.error) throw new Error(`Remote signer ${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`);
+  return body.result;
+}
+
+// JSON-RPC form of a populated transaction (the eth_signTransaction / eth_sendTransaction object)
+export function toRpcTransaction(from: string, tx: ethers.Transaction): Record<string, unknown> {
+  const request: Record<string, unknown> = {
+    from,
+    to: tx.to ?? undefined,
+    data: tx.data,
+    value: ethers.toQuantity(tx.value),
+    gas: ethers.toQuantity(tx.gasLimit),
+    nonce: ethers.toQuantity(tx.nonce),
+    chainId: ethers.toQuantity(tx.chainId),
+    type: ethers.toQuantity(tx.type ?? 0),
+  };
+  if (tx.type === 2) {
+    request.maxFeePerGas = ethers.toQuantity(tx.maxFeePerGas ?? 0n);
+    request.maxPriorityFeePerGas = ethers.toQuantity(tx.maxPriorityFeePerGas ?? 0n);
+  } else {
+    request.gasPrice = ethers.toQuantity(tx.gasPrice ?? 0n);
+  }
+  if (tx.type === 1 || tx.type === 2) request.accessList = tx.accessList ?? [];
+  return request;
+}
+
+// Transaction from its JSON-RPC form (the inverse of toRpcTransaction)
+export function fromRpcTransaction(request: Record<string, any>): ethers.TransactionLike<string> {
+  const optional = (value: unknown) => (value == null ? undefined : ethers.getBigInt(value as ethers.BigNumberish));
+  return {
+    type: request.type == null ? undefined : Number(request.type),
+    to: request.to ?? null,
+    data: request.data ?? request.input ?? "0x",
+    value: optional(request.value),
+    gasLimit: optional(request.gas ?? request.gasLimit),
+    gasPrice: optional(request.gasPrice),
+    maxFeePerGas: optional(request.maxFeePerGas),
+    maxPriorityFeePerGas: optional(request.maxPriorityFeePerGas),
+    nonce: request.nonce == null ? undefined : Number(request.nonce),
+    chainId: optional(request.chainId),
+    accessList: request.accessList,
+  };
+}
+
+/**
+ * Signer backed by an external JSON-RPC endpoint (HSM or custody service, or the local stand-in
+ * tools/signers/serve-remote-signer.ts). Transactions are populated locally, signed remotely with
+ * eth_signTransaction and checked against the request before they are broadcast.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly url: string;
+  readonly address: string;
+  readonly token?: string;
+
+  constructor(url: string, address: string, token?: string, provider: ethers.Provider | null = null) {
+    super(provider);
+    this.url = url;
+    this.address = ethers.getAddress(address);
+    this.token = token;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, this.token, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const to = tx.to == null ? null : await ethers.resolveAddress(tx.to, this.provider);
+    const unsigned = ethers.Transaction.from({ ...tx, to, from: undefined } as ethers.TransactionLike<string>);
+    const result = await remoteCall(this.url, this.token, "eth_signTransaction", [toRpcTransaction(this.address, unsigned)]);
+    const raw: string = typeof result === "string" ? result : result?.raw;
+    if (!raw) throw new Error("Remote signer returned no signed transaction");
+
+    const signed = ethers.Transaction.from(raw);
+    if (signed.from !== this.address) throw new Error(`Remote signer signed as ${signed.from}, expected ${this.address}`);
+    if (signed.unsignedHash !== unsigned.unsignedHash) throw new Error("Remote signer returned a different transaction");
+    return raw;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    const resolved = await ethers.TypedDataEncoder.resolveNames(domain, types, value, async (name) =>
+      ethers.resolveAddress(name, this.provider)
+    );
+    const payload = ethers.TypedDataEncoder.getPayload(resolved.domain, types, resolved.value);
+    const signature = await remoteCall(this.url, this.token, "eth_signTypedData_v4", [this.address, JSON.stringify(payload)]);
+    const recovered = ethers.verifyTypedData(resolved.domain, types, resolved.value, signature);
+    if (recovered !== this.address) throw new Error(`Remote signer signed as ${recovered}, expected ${this.address}`);
+    return signature;
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error("Remote signer only supports eth_signTransaction and eth_signTypedData_v4");
+  }
+}
+
+async function loadRemoteSigner(role: SignerRole, provider: ethers.Provider | null, args: Record<string, string>) {
+  const spec = SIGNER_ROLES[role];
+  const url = getSignerSetting(role, "url", args);
+  if (!url) throw new Error(`Missing --signerUrl (or ${spec.prefix}_SIGNER_URL in .env) for the ${spec.label} signer`);
+  const token = getSignerSetting(role, "token", args);
+
+  let address = getSignerSetting(role, "address", args);
+  if (!address) {
+    const accounts: string[] = await remoteCall(url, token, "eth_accounts", []);
+    if (accounts.length !== 1) {
+      throw new Error(
+        `Remote signer at ${url} serves ${accounts.length} accounts; pick one with --signerAddress (or ${spec.prefix}_SIGNER_ADDRESS)`
+      );
+    }
+    address = accounts[0];
+  }
+  if (!ethers.isAddress(address)) throw new Error(`Invalid signer address: ${address}`);
+  return new RemoteSigner(url, address, token, provider);
+}
+
+// ---- Plaintext .env key (explicit opt-in) ----
+
+async function loadEnvSigner(role: SignerRole, provider: ethers.Provider | null) {
+  const { keyEnv } = SIGNER_ROLES[role];
+  const key = keyEnv.find((name) => process.env[name]?.trim());
+  if (!key) {
+    const alternatives = keyEnv.length > 1 ? ` (or ${keyEnv.slice(1).join(" / ")})` : "";
+    throw new Error(`Missing ${keyEnv[0]}${alternatives} in .env`);
+  }
+  const pk = process.env[key]!.trim();
+  const wallet = new ethers.Wallet(pk.startsWith("0x") ? pk : "0x" + pk, provider);
+
+  if (provider) {
+    const { chainId } = await provider.getNetwork();
+    if (findProfileByChainId(chainId)?.name === "mainnet") {
+      console.warn(`⚠️  Signing on mainnet with the plaintext ${key} from .env; prefer --signer keystore or remote`);
+    }
+  }
+  return wallet;
+}
@@ -0,0 +1,370 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NetworkProfile } from "../cli/networks";
+import { enumName } from "../contracts/bindings.utils";
+import { DailyLotteryContract } from "../contracts/daily-lottery";
+import { FP1155Contract, SeasonStatus } from "../contracts/fp1155";
+import {
+  CLAIM_TYPES,
+  ClaimMessage,
+  DEFAULT_VOUCHER_DIR,
+  appendVoucherLedger,
+  claimDomain,
+  planClaimNonces,
+  readVoucherLedger,
+} from "../fp/claim-vouchers.utils";
+import { FREE_ENTRY_TYPES, FreeEntryMessage, freeEntryDomain } from "../lottery/free-entry.utils";
+import { HttpError } from "./http.utils";
+import { RoleSigner } from "./signers.utils";
+
+// A request the service turns down: HTTP status and message returned to the client
+export class ServiceError extends HttpError {
+  constructor(status: number, message: string) {
+    super(status, message);
+    this.name = "ServiceError";
+  }
+}
+
+export type VoucherEndpoint = "claim" | "free-entry";
+
+// ---- Responses ----
+
+// Same fields as tools/fp/sign-claim.ts prints
+export interface ClaimVoucherResponse {
+  contract: string;
+  chainId: string;
+  account: string;
+  seasonId: string;
+  amount: string;
+  nonce: string;
+  deadline: string;
+  signature: string;
+}
+
+export interface FreeEntryVoucherResponse {
+  contract: string;
+  chainId: string;
+  account: string;
+  dayId: string;
+  nonce: string;
+  signature: string;
+}
+
+// ---- Audit log (JSON lines, append-only) ----
+
+// One line per voucher handed out; the service rebuilds its idempotency keys and caps from it on start
+export interface AuditRecord {
+  at: string;
+  endpoint: VoucherEndpoint;
+  idempotencyKey: string;
+  fingerprint: string; // normalized request, to tell a retry from a reused key
+  client: string;
+  signer: string;
+  reissued: boolean; // free entry: same voucher as an earlier request (nonce not used yet), not counted again
+  response: ClaimVoucherResponse | FreeEntryVoucherResponse;
+}
+
+export function defaultAuditLog(profile: NetworkProfile): string {
+  return path.join(DEFAULT_VOUCHER_DIR, `signing-service-${profile.name}.audit.jsonl`);
+}
+
+// ---- Policy ----
+
+export interface VoucherPolicy {
+  rateLimit: number; // requests per account and window (idempotent retries excluded)
+  rateWindowMs: number;
+  maxClaimAmount?: bigint; // per voucher
+  seasonCap?: bigint; // total amount signed per season
+  dayCap?: number; // free-entry vouchers per lottery day
+  claimTtl: bigint; // default deadline, seconds from now
+  maxClaimTtl: bigint; // latest deadline a client may ask for
+}
+
+export interface VoucherService {
+  profile: NetworkProfile;
+  provider: ethers.Provider;
+  policy: VoucherPolicy;
+  auditFile: string;
+  ledgerFile: string; // claim voucher ledger shared with tools/fp/sign-claims.ts
+  fp1155?: { contract: FP1155Contract; address: string; signer: RoleSigner };
+  lottery?: { contract: DailyLotteryContract; address: string; signer: RoleSigner };
+  // Rebuilt from the audit log
+  byKey: Map<string, AuditRecord>;
+  seasonTotals: Map<string, bigint>;
+  dayCounts: Map<string, number>;
+  freeEntries: Map<string, FreeEntryVoucherResponse>; // `${dayId}:${account}:${nonce}`
+  // In memory only: a restart resets the windows
+  recentRequests: Map<string, number[]>;
+}
+
+function freeEntryKey(dayId: string, account: string, nonce: string): string {
+  return `${dayId}:${account}:${nonce}`;
+}
+
+function track(service: VoucherService, record: AuditRecord): void {
+  service.byKey.set(record.idempotencyKey, record);
+  if (record.endpoint === "claim") {
+    const voucher = record.response as ClaimVoucherResponse;
+    service.seasonTotals.set(voucher.seasonId, (service.seasonTotals.get(voucher.seasonId) ?? 0n) + BigInt(voucher.amount));
+  } else if (!record.reissued) {
+    const voucher = record.response as FreeEntryVoucherResponse;
+    service.dayCounts.set(voucher.dayId, (service.dayCounts.get(voucher.dayId) ?? 0) + 1);
+    service.freeEntries.set(freeEntryKey(voucher.dayId, voucher.account, voucher.nonce), voucher);
+  }
+}
+
+// Service state from the audit log of earlier runs
+export function openVoucherService(
+  base: Omit<VoucherService, "byKey" | "seasonTotals" | "dayCounts" | "freeEntries" | "recentRequests">
+): VoucherService {
+  const service: VoucherService = {
+    ...base,
+    byKey: new Map(),
+    seasonTotals: new Map(),
+    dayCounts: new Map(),
+    freeEntries: new Map(),
+    recentRequests: new Map(),
+  };
+  if (fs.existsSync(service.auditFile)) {
+    const lines = fs.readFileSync(service.auditFile, "utf8").split("\n").filter((line) => line.trim());
+    for (const [i, line] of lines.entries()) {
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A service killed while writing leaves a truncated last line
+        console.log(`⚠️  Ignoring unreadable line ${i + 1} of ${service.auditFile}`);
+        continue;
+      }
+      track(service, record);
+    }
+  }
+  return service;
+}
+
+function audit(service: VoucherService, record: AuditRecord): void {
+  fs.mkdirSync(path.dirname(path.resolve(service.auditFile)), { recursive: true });
+  fs.appendFileSync(service.auditFile, JSON.stringify(record) + "\n");
+  track(service, record);
+}
+
+/**
+ * Earlier response for a retried idempotency key, undefined for a new key. A key reused for a different
+ * request is refused rather than answered with a voucher the client did not ask for.
+ */
+export function findIdempotentReplay(service: VoucherService, key: string, fingerprint: string): AuditRecord | undefined {
+  const record = service.byKey.get(key);
+  if (record && record.fingerprint !== fingerprint) {
+    throw new ServiceError(409, `Idempotency key ${key} was already used for a different request`);
+  }
+  return record;
+}
+
+// Sliding window per account
+function takeRateLimit(service: VoucherService, account: string): void {
+  const now = Date.now();
+  const { rateLimit, rateWindowMs } = service.policy;
+  const recent = (service.recentRequests.get(account) ?? []).filter((at) => at > now - rateWindowMs);
+  if (recent.length >= rateLimit) {
+    service.recentRequests.set(account, recent);
+    throw new ServiceError(429, `Rate limit: ${rateLimit} voucher(s) per ${rateWindowMs / 1000}s for ${account}`);
+  }
+  recent.push(now);
+  service.recentRequests.set(account, recent);
+}
+
+// ---- Request parsing ----
+
+function parseAccount(value: unknown): string {
+  if (typeof value !== "string" || !ethers.isAddress(value)) throw new ServiceError(400, "account must be an address");
+  return ethers.getAddress(value);
+}
+
+function parseInteger(name: string, value: unknown, required: boolean): bigint | undefined {
+  if (value === undefined || value === null) {
+    if (required) throw new ServiceError(400, `Missing ${name}`);
+    return undefined;
+  }
+  if (!/^\d+$/.test(String(value))) throw new ServiceError(400, `${name} must be a non-negative integer`);
+  return BigInt(String(value));
+}
+
+export interface ClaimRequestBody {
+  account: string;
+  seasonId: bigint;
+  amount: bigint;
+  deadline?: bigint;
+}
+
+export interface FreeEntryRequestBody {
+  account: string;
+  dayId?: bigint;
+}
+
+export function parseClaimBody(body: Record<string, unknown>): ClaimRequestBody {
+  const request = {
+    account: parseAccount(body.account),
+    seasonId: parseInteger("seasonId", body.seasonId, true)!,
+    amount: parseInteger("amount", body.amount, true)!,
+    deadline: parseInteger("deadline", body.deadline, false),
+  };
+  if (request.seasonId <= 0n) throw new ServiceError(400, "seasonId must be > 0");
+  if (request.amount <= 0n) throw new ServiceError(400, "amount must be > 0");
+  return request;
+}
+
+export function parseFreeEntryBody(body: Record<string, unknown>): FreeEntryRequestBody {
+  return { account: parseAccount(body.account), dayId: parseInteger("dayId", body.dayId, false) };
+}
+
+// Normalized request: a retry with the same key must ask for the same voucher
+export function requestFingerprint(endpoint: VoucherEndpoint, request: ClaimRequestBody | FreeEntryRequestBody): string {
+  return JSON.stringify({ endpoint, ...request }, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+async function chainTime(service: VoucherService): Promise<bigint> {
+  return BigInt((await service.provider.getBlock("latest"))!.timestamp);
+}
+
+// ---- Issuing ----
+
+/**
+ * Sign an FP1155 Claim. The nonce follows the vouchers already handed out (voucher ledger, also written by
+ * sign-claims), so an account can hold several vouchers and claim them in nonce order.
+ */
+export async function issueClaimVoucher(
+  service: VoucherService,
+  request: ClaimRequestBody,
+  key: string,
+  client: string
+): Promise<ClaimVoucherResponse> {
+  const fp = service.fp1155;
+  if (!fp) throw new ServiceError(404, `No FP1155 contract on ${service.profile.name}`);
+  const { policy } = service;
+  takeRateLimit(service, request.account);
+
+  if (policy.maxClaimAmount !== undefined && request.amount > policy.maxClaimAmount) {
+    throw new ServiceError(403, `amount exceeds the ${policy.maxClaimAmount} per-voucher limit`);
+  }
+  const signedForSeason = service.seasonTotals.get(request.seasonId.toString()) ?? 0n;
+  if (policy.seasonCap !== undefined && signedForSeason + request.amount > policy.seasonCap) {
+    throw new ServiceError(
+      403,
+      `Season ${request.seasonId} cap reached: ${signedForSeason} of ${policy.seasonCap} already signed`
+    );
+  }
+
+  const now = await chainTime(service);
+  const deadline = request.deadline ?? now + policy.claimTtl;
+  if (deadline <= now) throw new ServiceError(400, `deadline ${deadline} is already past (chain time ${now})`);
+  if (deadline > now + policy.maxClaimTtl) {
+    throw new ServiceError(400, `deadline is more than ${policy.maxClaimTtl}s away`);
+  }
+
+  const status = Number(await fp.contract.seasonStatus(request.seasonId));
+  if (status !== SeasonStatus.OPEN) {
+    throw new ServiceError(409, `Season ${request.seasonId} is ${enumName(SeasonStatus, status)}`);
+  }
+
+  const onChainNonce = await fp.contract.nonces(request.account);
+  const [plan] = planClaimNonces(
+    [{ line: 0, account: request.account, seasonId: request.seasonId, amount: request.amount, deadline }],
+    new Map([[request.account, onChainNonce]]),
+    readVoucherLedger(service.ledgerFile),
+    fp.address,
+    now
+  );
+  const { nonce } = plan.vouchers[0];
+
+  const message: ClaimMessage = { account: request.account, seasonId: request.seasonId, amount: request.amount, nonce, deadline };
+  const signature = await fp.signer.signTypedData(claimDomain(service.profile.chainId, fp.address), CLAIM_TYPES, message);
+  const response: ClaimVoucherResponse = {
+    contract: fp.address,
+    chainId: service.profile.chainId.toString(),
+    account: request.account,
+    seasonId: request.seasonId.toString(),
+    amount: request.amount.toString(),
+    nonce: nonce.toString(),
+    deadline: deadline.toString(),
+    signature,
+  };
+
+  const { contract, chainId, account, ...voucher } = response;
+  appendVoucherLedger(service.ledgerFile, [
+    { contract, chainId, account, ...voucher, file: service.auditFile, signedAt: new Date().toISOString() },
+  ]);
+  audit(service, {
+    at: new Date().toISOString(),
+    endpoint: "claim",
+    idempotencyKey: key,
+    fingerprint: requestFingerprint("claim", request),
+    client,
+    signer: fp.signer.address,
+    reissued: false,
+    response,
+  });
+  return response;
+}
+
+/**
+ * Sign a DailyLottery FreeEntry for today and the account's next free-entry nonce. Asking again before the
+ * voucher is used returns the same voucher, which does not count against the day cap a second time.
+ */
+export async function issueFreeEntryVoucher(
+  service: VoucherService,
+  request: FreeEntryRequestBody,
+  key: string,
+  client: string
+): Promise<FreeEntryVoucherResponse> {
+  const lottery = service.lottery;
+  if (!lottery) throw new ServiceError(404, `No DailyLottery contract on ${service.profile.name}`);
+  takeRateLimit(service, request.account);
+
+  // claimFreeEntry() only accepts today's day
+  const dayId = await lottery.contract.getCurrentDayId();
+  if (request.dayId !== undefined && request.dayId !== dayId) {
+    throw new ServiceError(400, `Free entries can only be claimed for the current day (${dayId})`);
+  }
+  const { remainingFreeEntries, remainingTotalEntries } = await lottery.contract.getRemainingEntries(dayId, request.account);
+  if (remainingFreeEntries === 0n) throw new ServiceError(409, `${request.account} has no free entry left on day ${dayId}`);
+  if (remainingTotalEntries === 0n) throw new ServiceError(409, `${request.account} has reached the entry limit of day ${dayId}`);
+
+  const nonce = await lottery.contract.getUserNonce(dayId, request.account);
+  const earlier = service.freeEntries.get(freeEntryKey(dayId.toString(), request.account, nonce.toString()));
+  let response: FreeEntryVoucherResponse;
+  if (earlier) {
+    response = earlier;
+  } else {
+    const signedToday = service.dayCounts.get(dayId.toString()) ?? 0;
+    if (service.policy.dayCap !== undefined && signedToday >= service.policy.dayCap) {
+      throw new ServiceError(403, `Day ${dayId} cap reached: ${signedToday} free-entry voucher(s) signed`);
+    }
+    const message: FreeEntryMessage = { account: request.account, dayId, nonce };
+    const signature = await lottery.signer.signTypedData(
+      freeEntryDomain(service.profile.chainId, lottery.address),
+      FREE_ENTRY_TYPES,
+      message
+    );
+    response = {
+      contract: lottery.address,
+      chainId: service.profile.chainId.toString(),
+      account: request.account,
+      dayId: dayId.toString(),
+      nonce: nonce.toString(),
+      signature,
+    };
+  }
+
+  audit(service, {
+    at: new Date().toISOString(),
+    endpoint: "free-entry",
+    idempotencyKey: key,
+    fingerprint: requestFingerprint("free-entry", request),
+    client,
+    signer: lottery.signer.address,
+    reissued: !!earlier,
+    response,
+  });
+  return response;
+}
@@ -9,57 +9,23 @@
  */
 import "dotenv/config";
 import { ethers } from "ethers";
-
-const ERC20_ABI = [
-  "function mint(address to, uint256 amount) external",
-  "function balanceOf(address account) external view returns (uint256)",
-  "function decimals() external view returns (uint8)",
-  "function symbol() external view returns (string)",
-];
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { connectFightToken } from "../contracts/fight-token";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
 
 // Default recipient address for staking
 const DEFAULT_RECIPIENT = "0xa6B215709D47B853cC44aa177F18B627Df0eee25";
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
   
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const { profile, provider } = await connectNetwork(args);
 
-  const pk = process.env.PRIVATE_KEY;
-  if (!pk) throw new Error("Missing PRIVATE_KEY in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
+  const wallet = await loadSigner("admin", provider, args);
 
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const fightTokenAddress =
-    args.contract ||
-    args.fight ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_FIGHT_TOKEN_ADDRESS || process.env.FIGHT_TOKEN_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_FIGHT_TOKEN_ADDRESS || process.env.FIGHT_TOKEN_ADDRESS
-      : process.env.FIGHT_TOKEN_ADDRESS);
-  
-  if (!fightTokenAddress) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_FIGHT_TOKEN_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_FIGHT_TOKEN_ADDRESS"
-        : "FIGHT_TOKEN_ADDRESS";
-    throw new Error(`Missing FIGHT token address (set --contract or ${envVar} in .env)`);
-  }
+  const fightTokenAddress = resolveContractAddress(profile, "fightToken", args, ["contract", "fight"]);
 
   // Get recipient address (default or from args)
   const toAddress = args.to || args.address || DEFAULT_RECIPIENT;
@@ -69,7 +35,7 @@ async function main() {
   const amountInput = args.amount;
   if (!amountInput) throw new Error("Missing --amount");
 
-  const fightToken = new ethers.Contract(fightTokenAddress, ERC20_ABI, wallet);
+  const fightToken = connectFightToken(fightTokenAddress, wallet);
 
   // Get token info
   const decimals = await fightToken.decimals();
@@ -91,7 +57,7 @@ async function main() {
   console.log(`FIGHT contract: ${fightTokenAddress}`);
   console.log(`Recipient: ${toAddress}`);
   console.log(`From wallet: ${wallet.address}`);
-  console.log(`Network: ${networkName || "default"}`);
+  console.log(`Network: ${formatNetwork(profile)}`);
   console.log(`Amount: ${ethers.formatUnits(mintAmount, decimals)} ${symbol} (${mintAmount.toString()} wei)\n`);
 
   // Check current balance
@@ -100,10 +66,8 @@ async function main() {
 
   // Mint tokens
   console.log("Sending mint transaction...");
-  const tx = await fightToken.mint(toAddress, mintAmount);
-  console.log("Submitted mint tx:", tx.hash);
-  const rcpt = await tx.wait();
-  console.log("Mined in block", rcpt.blockNumber);
+  const txs = await openTxPipeline(wallet, profile, args);
+  await sendTx(txs, fightToken, "mint", [toAddress, mintAmount]);
 
   // Verify new balance
   const balanceAfter = await fightToken.balanceOf(toAddress);
@@ -113,21 +77,9 @@ async function main() {
   console.log(`Minted: ${ethers.formatUnits(balanceAfter - balanceBefore, decimals)} ${symbol}`);
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
@@ -12,75 +12,32 @@
  */
 import "dotenv/config";
 import { ethers } from "ethers";
-
-const STAKING_ABI = [
-  "function stake(uint256 amount) external",
-  "function unstake(uint256 amount) external",
-  "function balances(address user) external view returns (uint256)",
-  "function totalStaked() external view returns (uint256)",
-  "function paused() external view returns (bool)",
-  "function FIGHT_TOKEN() external view returns (address)",
-];
-
-const ERC20_ABI = [
-  "function balanceOf(address account) external view returns (uint256)",
-  "function allowance(address owner, address spender) external view returns (uint256)",
-  "function approve(address spender, uint256 amount) external returns (bool)",
-  "function decimals() external view returns (uint8)",
-  "function symbol() external view returns (string)",
-];
-
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork, resolveContractAddress } from "../cli/networks";
+import { connectFightToken } from "../contracts/fight-token";
+import { connectStaking } from "../contracts/staking";
+import { loadSigner } from "../signers/signers.utils";
+import { openTxPipeline, sendTx } from "../tx/send.utils";
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
   const action = (args.action || "").toLowerCase();
   
   if (!action || !["stake", "unstake", "balance"].includes(action)) {
     throw new Error("Missing or invalid --action (must be: stake, unstake, or balance)");
   }
 
-  const rpcUrl =
-    args.rpc ||
-    process.env.RPC_URL ||
-    process.env.TESTNET_BSC_RPC_URL ||
-    process.env.BSC_RPC_URL;
-  if (!rpcUrl)
-    throw new Error(
-      "Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)"
-    );
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
-
-  const pk = process.env.USER_PK;
-  if (!pk) throw new Error("Missing USER_PK in .env");
-  const wallet = new ethers.Wallet(
-    pk.startsWith("0x") ? pk : "0x" + pk,
-    provider
-  );
-
-  const networkName = (args.network || args.net || "").toLowerCase();
-  const stakingAddress =
-    args.contract ||
-    args.staking ||
-    (networkName === "testnet"
-      ? process.env.TESTNET_STAKING_ADDRESS || process.env.STAKING_ADDRESS
-      : networkName === "mainnet"
-      ? process.env.MAINNET_STAKING_ADDRESS || process.env.STAKING_ADDRESS
-      : process.env.STAKING_ADDRESS);
-  
-  if (!stakingAddress) {
-    const envVar =
-      networkName === "testnet"
-        ? "TESTNET_STAKING_ADDRESS"
-        : networkName === "mainnet"
-        ? "MAINNET_STAKING_ADDRESS"
-        : "STAKING_ADDRESS";
-    throw new Error(`Missing staking contract (set --contract or ${envVar} in .env)`);
-  }
+  const { profile, provider } = await connectNetwork(args);
+
+  const wallet = await loadSigner("user", provider, args);
+
+  const stakingAddress = resolveContractAddress(profile, "staking", args, ["contract", "staking"]);
 
-  const staking = new ethers.Contract(stakingAddress, STAKING_ABI, wallet);
+  const staking = connectStaking(stakingAddress, wallet);
 
   // Get FIGHT token address
   const fightTokenAddress = await staking.FIGHT_TOKEN();
-  const fightToken = new ethers.Contract(fightTokenAddress, ERC20_ABI, wallet);
+  const fightToken = connectFightToken(fightTokenAddress, wallet);
 
   // Get token info
   const decimals = await fightToken.decimals();
@@ -90,7 +47,7 @@ async function main() {
   console.log(`Staking contract: ${stakingAddress}`);
   console.log(`FIGHT token: ${fightTokenAddress} (${symbol})`);
   console.log(`User wallet: ${wallet.address}`);
-  console.log(`Network: ${networkName || "default"}\n`);
+  console.log(`Network: ${formatNetwork(profile)}\n`);
 
   // Check if paused
   const isPaused = await staking.paused();
@@ -142,14 +99,14 @@ async function main() {
       );
     }
 
+    const txs = await openTxPipeline(wallet, profile, args);
+
     // Check and approve if needed
     const allowance = await fightToken.allowance(wallet.address, stakingAddress);
     if (allowance < amount) {
       console.log(`Approving ${symbol}...`);
       const approveAmount = amount * 2n; // Approve a bit more to avoid multiple approvals
-      const approveTx = await fightToken.approve(stakingAddress, approveAmount);
-      console.log("Submitted approve tx:", approveTx.hash);
-      await approveTx.wait();
+      await sendTx(txs, fightToken, "approve", [stakingAddress, approveAmount]);
       console.log("✓ Approval confirmed\n");
     } else {
       console.log(`✓ Sufficient allowance: ${ethers.formatUnits(allowance, decimals)} ${symbol}\n`);
@@ -157,10 +114,7 @@ async function main() {
 
     // Stake
     console.log("Sending stake transaction...");
-    const tx = await staking.stake(amount);
-    console.log("Submitted stake tx:", tx.hash);
-    const rcpt = await tx.wait();
-    console.log("Mined in block", rcpt.blockNumber);
+    await sendTx(txs, staking, "stake", [amount]);
 
     // Verify new balances
     const newTokenBalance = await fightToken.balanceOf(wallet.address);
@@ -182,10 +136,8 @@ async function main() {
 
     // Unstake
     console.log("Sending unstake transaction...");
-    const tx = await staking.unstake(amount);
-    console.log("Submitted unstake tx:", tx.hash);
-    const rcpt = await tx.wait();
-    console.log("Mined in block", rcpt.blockNumber);
+    const txs = await openTxPipeline(wallet, profile, args);
+    await sendTx(txs, staking, "unstake", [amount]);
 
     // Verify new balances
     const newTokenBalance = await fightToken.balanceOf(wallet.address);
@@ -200,21 +152,9 @@ async function main() {
   }
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith("--")) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
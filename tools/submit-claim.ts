@@ -1,22 +1,17 @@
 import 'dotenv/config';
-import { ethers } from 'ethers';
+import { parseArgs } from './cli/args';
+import { connectNetwork, resolveContractAddress } from './cli/networks';
+import { connectFP1155 } from './contracts/fp1155';
+import { loadSigner } from './signers/signers.utils';
+import { openTxPipeline, sendTx } from './tx/send.utils';
 
-const ABI = [
-  'function claim(uint256 seasonId,uint256 amount,uint256 deadline,bytes signature) external',
-];
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const { profile, provider } = await connectNetwork(args);
 
-async function main() {
-  const args = parseArgs(process.argv.slice(2));
-  const rpcUrl = args.rpc || process.env.RPC_URL || process.env.TESTNET_BSC_RPC_URL || process.env.BSC_RPC_URL;
-  if (!rpcUrl) throw new Error('Missing RPC URL (set --rpc or RPC_URL/TESTNET_BSC_RPC_URL/BSC_RPC_URL)');
-  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const wallet = await loadSigner('user', provider, args);
 
-  const pk = process.env.USER_PK || process.env.PRIVATE_KEY;
-  if (!pk) throw new Error('Missing USER_PK (or PRIVATE_KEY) in .env');
-  const wallet = new ethers.Wallet(pk.startsWith('0x') ? pk : ('0x' + pk), provider);
-
-  const contract = args.contract || process.env.FP1155_ADDRESS;
-  if (!contract) throw new Error('Missing contract (set --contract or FP1155_ADDRESS)');
+  const contract = resolveContractAddress(profile, 'fp1155', args);
 
   const seasonId = BigInt(args.season ?? 0);
   const amount = BigInt(args.amount ?? 0);
@@ -27,28 +22,14 @@ async function main() {
   if (deadline <= 0n) throw new Error('--deadline must be > 0');
   if (!signature) throw new Error('--sig (or --signature) is required');
 
-  const fp = new ethers.Contract(contract, ABI, wallet);
-  const tx = await fp.claim(seasonId, amount, deadline, signature);
-  console.log('Submitted claim tx:', tx.hash);
-  const rcpt = await tx.wait();
-  console.log('Mined in block', rcpt.blockNumber);
+  const fp = connectFP1155(contract, wallet);
+  const txs = await openTxPipeline(wallet, profile, args);
+  await sendTx(txs, fp, 'claim', [seasonId, amount, deadline, signature]);
 }
 
-function parseArgs(argv: string[]) {
-  const out: Record<string, string> = {};
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a.startsWith('--')) {
-      const key = a.slice(2);
-      const val = argv[i + 1];
-      out[key] = val;
-      i++;
-    }
-  }
-  return out;
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
 }
-
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
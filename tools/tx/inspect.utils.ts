@@ -0,0 +1,254 @@
+import { ethers } from "ethers";
+import { CONTRACT_LABELS, ContractName, NetworkProfile, resolveContractAddress } from "../cli/networks";
+import { EventRegistry, formatEventTopic, registerEventId } from "../booster/event-registry.utils";
+import { enumName } from "../contracts/bindings.utils";
+import { enumJson } from "../cli/output";
+import { BOOSTER_ABI, Corner, FightStatus, WinMethod } from "../contracts/booster";
+import { DAILY_LOTTERY_ABI, PrizeType } from "../contracts/daily-lottery";
+import { DEPOSIT_ABI } from "../contracts/deposit";
+import { FIGHT_TOKEN_ABI } from "../contracts/fight-token";
+import { FP1155_ABI, SeasonStatus } from "../contracts/fp1155";
+import { STAKING_ABI } from "../contracts/staking";
+
+type EnumValues = Readonly<Record<string, number>>;
+
+export interface KnownAbi {
+  label: string;
+  contract?: ContractName; // network profile entry holding its address
+  iface: ethers.Interface;
+  enums: Record<string, EnumValues>; // uint8 parameter name → enum
+}
+
+export const KNOWN_ABIS: KnownAbi[] = [
+  {
+    label: "Booster",
+    contract: "booster",
+    iface: new ethers.Interface(BOOSTER_ABI),
+    enums: {
+      winner: Corner,
+      predictedWinner: Corner,
+      actualWinner: Corner,
+      method: WinMethod,
+      predictedMethod: WinMethod,
+      actualMethod: WinMethod,
+      status: FightStatus,
+      newStatus: FightStatus,
+      statuses: FightStatus,
+    },
+  },
+  { label: "FP1155", contract: "fp1155", iface: new ethers.Interface(FP1155_ABI), enums: { status: SeasonStatus } },
+  { label: "DailyLottery", contract: "dailyLottery", iface: new ethers.Interface(DAILY_LOTTERY_ABI), enums: { prizeType: PrizeType } },
+  { label: "Staking", contract: "staking", iface: new ethers.Interface(STAKING_ABI), enums: {} },
+  { label: "Deposit", iface: new ethers.Interface(DEPOSIT_ABI), enums: {} },
+  { label: CONTRACT_LABELS.fightToken, contract: "fightToken", iface: new ethers.Interface(FIGHT_TOKEN_ABI), enums: {} },
+];
+
+// AccessControl roles of the contracts: keccak256 of the name, zero for the admin role
+const ROLE_NAMES = new Map<string, string>([
+  [ethers.ZeroHash, "DEFAULT_ADMIN_ROLE"],
+  ...[
+    "OPERATOR_ROLE",
+    "SEASON_ADMIN_ROLE",
+    "MINTER_ROLE",
+    "TRANSFER_AGENT_ROLE",
+    "PAUSER_ROLE",
+    "CLAIM_SIGNER_ROLE",
+    "LOTTERY_ADMIN_ROLE",
+    "FREE_ENTRY_SIGNER_ROLE",
+  ].map((name) => [ethers.id(name), name] as [string, string]),
+]);
+
+// Solidity panic codes (Panic(uint256))
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to an uninitialized function",
+};
+
+export interface TxDecoder {
+  byAddress: Map<string, KnownAbi>; // lowercase address → ABI of the network's deployments
+  registry: EventRegistry; // eventIds seen in calldata are added, so the logs of the same tx resolve
+}
+
+export function createTxDecoder(profile: NetworkProfile, registry: EventRegistry): TxDecoder {
+  const byAddress = new Map<string, KnownAbi>();
+  for (const abi of KNOWN_ABIS) {
+    if (!abi.contract) continue;
+    try {
+      byAddress.set(resolveContractAddress(profile, abi.contract).toLowerCase(), abi);
+    } catch {
+      // No address for this network: its calls and logs are still matched by selector
+    }
+  }
+  return { byAddress, registry };
+}
+
+// Label of a known deployment, e.g. "Booster"
+export function contractLabel(decoder: TxDecoder, address: string | null): string | undefined {
+  return address ? decoder.byAddress.get(address.toLowerCase())?.label : undefined;
+}
+
+// The ABI deployed at the address first, then every other one
+function candidates(decoder: TxDecoder, address: string | null): KnownAbi[] {
+  const own = address ? decoder.byAddress.get(address.toLowerCase()) : undefined;
+  return own ? [own, ...KNOWN_ABIS.filter((abi) => abi !== own)] : KNOWN_ABIS;
+}
+
+export interface DecodedCall {
+  abi: KnownAbi;
+  call: ethers.TransactionDescription;
+}
+
+export function decodeCall(decoder: TxDecoder, to: string | null, data: string): DecodedCall | undefined {
+  for (const abi of candidates(decoder, to)) {
+    const call = abi.iface.parseTransaction({ data });
+    if (!call) continue;
+    call.fragment.inputs.forEach((param, i) => {
+      if (param.name === "eventId" && typeof call.args[i] === "string") registerEventId(decoder.registry, call.args[i]);
+    });
+    return { abi, call };
+  }
+  return undefined;
+}
+
+export interface DecodedLog {
+  abi: KnownAbi;
+  event: ethers.LogDescription;
+}
+
+export function decodeLog(decoder: TxDecoder, log: { address: string; topics: readonly string[]; data: string }): DecodedLog | undefined {
+  for (const abi of candidates(decoder, log.address)) {
+    try {
+      const event = abi.iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (event) return { abi, event };
+    } catch {
+      // Same signature, different indexed layout (e.g. ERC20 vs ERC721 Transfer)
+    }
+  }
+  return undefined;
+}
+
+// Readable revert reason: require message, panic, or a custom error of the known ABIs
+export function decodeRevert(decoder: TxDecoder, to: string | null, data: string): string {
+  if (!data || data === "0x") return "reverted without a reason (empty revert data)";
+  for (const abi of candidates(decoder, to)) {
+    const error = abi.iface.parseError(data);
+    if (!error) continue;
+    if (error.name === "Error") return String(error.args[0]);
+    if (error.name === "Panic") {
+      const code = Number(error.args[0]);
+      return `panic 0x${code.toString(16)} (${PANIC_REASONS[code] ?? "unknown panic code"})`;
+    }
+    const args = error.fragment.inputs.map((param, i) => `${param.name || i}=${formatValue(decoder, abi, param, error.args[i])}`);
+    return `${error.name}(${args.join(", ")})`;
+  }
+  return `unknown error ${data.slice(0, 10)} (${data})`;
+}
+
+/**
+ * Readable value of a decoded parameter: enum names for uint8 fields of the contract's enums,
+ * role names for AccessControl roles, eventIds for indexed eventId topics, tuples as {field: value}.
+ */
+export function formatValue(decoder: TxDecoder, abi: KnownAbi, param: ethers.ParamType, value: unknown): string {
+  if (value instanceof ethers.Indexed) {
+    if (param.name === "eventId") return formatEventTopic(decoder.registry, value.hash!);
+    return `${value.hash} (indexed ${param.type})`;
+  }
+  if (param.isArray()) {
+    // Enum arrays (statuses) are looked up by the array's name: the elements have none
+    const enumValues = param.arrayChildren.type === "uint8" ? abi.enums[param.name] : undefined;
+    const items = Array.from(value as unknown[], (item) =>
+      enumValues ? `${item} (${enumName(enumValues, item as bigint)})` : formatValue(decoder, abi, param.arrayChildren, item)
+    );
+    return `[${items.join(", ")}]`;
+  }
+  if (param.isTuple()) {
+    const fields = param.components.map((component, i) => {
+      const field = Array.isArray(value) ? value[i] : (value as Record<string, unknown>)[component.name];
+      return `${component.name}: ${formatValue(decoder, abi, component, field)}`;
+    });
+    return `{${fields.join(", ")}}`;
+  }
+  if (param.type === "uint8" && abi.enums[param.name]) return `${value} (${enumName(abi.enums[param.name], value as bigint)})`;
+  if (param.type === "bytes32" && /role$/i.test(param.name)) {
+    const role = ROLE_NAMES.get(String(value).toLowerCase());
+    return role ? `${role} (${value})` : String(value);
+  }
+  if (param.type === "string") return JSON.stringify(value);
+  return String(value);
+}
+
+// "name: value" lines of a call, event or error; arrays of structs get one line per element
+export function formatParams(decoder: TxDecoder, abi: KnownAbi, params: readonly ethers.ParamType[], values: ethers.Result): string[] {
+  const lines: string[] = [];
+  params.forEach((param, i) => {
+    const name = param.name || `arg${i}`;
+    if (param.isArray() && param.arrayChildren.isTuple()) {
+      const items = Array.from(values[i] as unknown[]);
+      if (items.length === 0) lines.push(`${name}: []`);
+      items.forEach((item, j) => lines.push(`${name}[${j}]: ${formatValue(decoder, abi, param.arrayChildren, item)}`));
+      return;
+    }
+    lines.push(`${name}: ${formatValue(decoder, abi, param, values[i])}`);
+  });
+  return lines;
+}
+
+/**
+ * The same value for --json: integers as bigints (printed as decimal strings), enums as {value, name},
+ * tuples as objects, indexed strings as their hash. Role and eventId names are left to the text output.
+ */
+export function jsonValue(abi: KnownAbi, param: ethers.ParamType, value: unknown): unknown {
+  if (value instanceof ethers.Indexed) return value.hash;
+  if (param.isArray()) {
+    const enumValues = param.arrayChildren.type === "uint8" ? abi.enums[param.name] : undefined;
+    return Array.from(value as unknown[], (item) =>
+      enumValues ? enumJson(enumValues, item as bigint) : jsonValue(abi, param.arrayChildren, item)
+    );
+  }
+  if (param.isTuple()) {
+    return Object.fromEntries(
+      param.components.map((component, i) => {
+        const field = Array.isArray(value) ? value[i] : (value as Record<string, unknown>)[component.name];
+        return [component.name, jsonValue(abi, component, field)];
+      })
+    );
+  }
+  if (param.type === "uint8" && abi.enums[param.name]) return enumJson(abi.enums[param.name], value as bigint);
+  return value;
+}
+
+// Parameters of a call, event or error by name, for --json
+export function paramsJson(abi: KnownAbi, params: readonly ethers.ParamType[], values: ethers.Result): Record<string, unknown> {
+  return Object.fromEntries(params.map((param, i) => [param.name || `arg${i}`, jsonValue(abi, param, values[i])]));
+}
+
+export interface Replay {
+  reverted: boolean;
+  data?: string; // revert data
+  error?: string; // the node could not replay the call (e.g. no state for the block)
+}
+
+/**
+ * Replay a transaction mined in blockNumber as a call (same sender, calldata, value and gas limit) to recover
+ * the revert data, which receipts do not carry. A call at a block runs on the state after it, so the replay
+ * runs at blockNumber - 1: the state the block started from, without the transactions before it in the
+ * block. Needs a node with state for that block.
+ */
+export async function replayTransaction(provider: ethers.Provider, tx: ethers.TransactionResponse, blockNumber: number): Promise<Replay> {
+  try {
+    const blockTag = blockNumber - 1;
+    await provider.call({ from: tx.from, to: tx.to, data: tx.data, value: tx.value, gasLimit: tx.gasLimit, blockTag });
+    return { reverted: false };
+  } catch (err: any) {
+    const data = err?.data ?? err?.info?.error?.data;
+    if (typeof data === "string" && ethers.isHexString(data)) return { reverted: true, data };
+    if (err?.code === "CALL_EXCEPTION") return { reverted: true, data: "0x" };
+    return { reverted: false, error: err?.shortMessage ?? err?.message ?? String(err) };
+  }
+}
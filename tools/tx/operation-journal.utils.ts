@@ -0,0 +1,327 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NetworkProfile } from "../cli/networks";
+import { TxPipeline, encodeCall, submitTx, waitForTx } from "./send.utils";
+
+export const DEFAULT_OPERATION_JOURNAL_DIR = path.join(__dirname, "..", "..", "operations");
+
+// Options never written to the journal
+const REDACTED_OPTIONS = ["signerToken"];
+
+// ---- Operation journal (JSON lines, append-only) ----
+
+export interface DecodedEvent {
+  address: string;
+  name: string;
+  args: Record<string, unknown>; // integers as decimal strings
+}
+
+export type OperationRecord =
+  | {
+      kind: "run";
+      at: string;
+      command: string;
+      network: string;
+      chainId: string;
+      signer: string;
+      user: string;
+      host: string;
+      options: Record<string, string>;
+      resumed: boolean;
+    }
+  | { kind: "intent"; at: string; step: string; call: string; to: string; key: string }
+  | { kind: "sent"; at: string; step: string; hash: string; nonce: number }
+  | { kind: "done"; at: string; step: string; hash: string; blockNumber: number; events: DecodedEvent[] }
+  | { kind: "failed"; at: string; step: string; error: string; hash?: string; blockNumber?: number }
+  | { kind: "skipped"; at: string; step: string; reason: string };
+
+// One step of a run: the call it makes and what became of it
+export interface OperationStep {
+  step: string;
+  status: "pending" | "done" | "failed" | "skipped";
+  call?: string;
+  key?: string; // intent key of tools/tx/send.utils.ts
+  hashes: string[]; // every attempt sent for the current intent
+  hash?: string;
+  blockNumber?: number;
+  events: DecodedEvent[];
+  error?: string;
+}
+
+export interface OperationJournal {
+  file: string;
+  command: string;
+  signer: string;
+  provider: ethers.Provider;
+  steps: Map<string, OperationStep>;
+  interfaces: Map<string, ethers.Interface>; // by lowercase address, to decode receipt events
+}
+
+// Outcome of journalStep; resumed when an earlier run already got the step mined
+export interface StepResult {
+  hash: string;
+  blockNumber: number;
+  events: DecodedEvent[];
+  resumed: boolean;
+}
+
+// A step handed to the send pipeline by submitStep, for settleStep; result is set when an earlier run finished it
+export interface SubmittedStep {
+  step: OperationStep;
+  nonce?: number;
+  result?: StepResult;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function timestampSlug(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+}
+
+function append(journal: OperationJournal, record: OperationRecord): void {
+  fs.mkdirSync(path.dirname(path.resolve(journal.file)), { recursive: true });
+  fs.appendFileSync(journal.file, JSON.stringify(record) + "\n");
+}
+
+function readOperationJournal(file: string): { runs: Extract<OperationRecord, { kind: "run" }>[]; steps: Map<string, OperationStep> } {
+  const runs: Extract<OperationRecord, { kind: "run" }>[] = [];
+  const steps = new Map<string, OperationStep>();
+  const lines = fs.readFileSync(file, "utf8").split("\n").filter((line) => line.trim());
+  for (const [i, line] of lines.entries()) {
+    let record: OperationRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      console.log(`⚠️  Ignoring unreadable line ${i + 1} of ${file}`);
+      continue;
+    }
+    if (record.kind === "run") {
+      runs.push(record);
+      continue;
+    }
+    const step = steps.get(record.step) ?? { step: record.step, status: "pending", hashes: [], events: [] };
+    steps.set(record.step, step);
+    if (record.kind === "intent") {
+      Object.assign(step, { status: "pending", call: record.call, key: record.key, hashes: [], error: undefined });
+    } else if (record.kind === "sent") {
+      step.hashes.push(record.hash);
+    } else if (record.kind === "done") {
+      Object.assign(step, { status: "done", hash: record.hash, blockNumber: record.blockNumber, events: record.events });
+    } else if (record.kind === "failed") {
+      Object.assign(step, { status: "failed", error: record.error, hash: record.hash, blockNumber: record.blockNumber });
+    } else if (record.kind === "skipped" && step.status !== "done") {
+      step.status = "skipped";
+    }
+  }
+  return { runs, steps };
+}
+
+/**
+ * Open the operation journal of a multi-step command. A new run writes operations/<command>-<network>-<timestamp>.jsonl;
+ * --resume <file> continues an earlier run of the same command, network and signer: steps it finished are skipped,
+ * and the ones it left in flight are looked up on chain before anything is sent. Every run records who started it.
+ * The contracts are the ones the steps call, whose events are decoded into the journal.
+ */
+export async function openOperationJournal(
+  command: string,
+  txs: TxPipeline,
+  profile: NetworkProfile,
+  args: Record<string, string>,
+  contracts: ethers.BaseContract[]
+): Promise<OperationJournal> {
+  const signer = txs.signer.address;
+  const interfaces = new Map<string, ethers.Interface>();
+  for (const contract of contracts) {
+    interfaces.set((await ethers.resolveAddress(contract.target)).toLowerCase(), contract.interface);
+  }
+
+  let file = path.join(DEFAULT_OPERATION_JOURNAL_DIR, `${command}-${profile.name}-${timestampSlug(new Date())}.jsonl`);
+  let steps = new Map<string, OperationStep>();
+  if (args.resume) {
+    file = args.resume;
+    if (!fs.existsSync(file)) throw new Error(`Operation journal not found: ${file}`);
+    const earlier = readOperationJournal(file);
+    const first = earlier.runs[0];
+    if (!first) throw new Error(`${file} is not an operation journal`);
+    if (first.command !== command) throw new Error(`${file} is a journal of ${first.command}, not ${command}`);
+    if (first.network !== profile.name) throw new Error(`${file} was written on ${first.network}, not ${profile.name}`);
+    if (ethers.getAddress(first.signer) !== signer) {
+      throw new Error(`${file} was written by ${first.signer}: resume it with the same signer`);
+    }
+    steps = earlier.steps;
+  }
+
+  const options = Object.fromEntries(Object.entries(args).filter(([name]) => !REDACTED_OPTIONS.includes(name)));
+  const journal: OperationJournal = { file, command, signer, provider: txs.provider, steps, interfaces };
+  // Every attempt the pipeline signs (speed-ups and cancels included) belongs to the pending step of its call
+  txs.onSent = (entry, attempt) => {
+    const step = [...steps.values()].find((candidate) => candidate.status === "pending" && candidate.key === entry.key);
+    if (!step) return;
+    append(journal, { kind: "sent", at: now(), step: step.step, hash: attempt.hash, nonce: entry.nonce });
+    step.hashes.push(attempt.hash);
+  };
+  append(journal, {
+    kind: "run",
+    at: now(),
+    command,
+    network: profile.name,
+    chainId: profile.chainId.toString(),
+    signer,
+    user: os.userInfo().username,
+    host: os.hostname(),
+    options,
+    resumed: !!args.resume,
+  });
+  if (!args.resume) {
+    console.log(`Operation journal: ${file} (rerun with --resume ${file} to continue an interrupted run)`);
+    return journal;
+  }
+
+  // Steps left in flight: settle the ones mined since; the send pipeline resumes those still pending
+  for (const step of steps.values()) {
+    if (step.status !== "pending") continue;
+    for (const hash of [...step.hashes].reverse()) {
+      const receipt = await txs.provider.getTransactionReceipt(hash);
+      if (!receipt) continue;
+      if (receipt.status === 1) {
+        finish(journal, step, receipt);
+        console.log(`Journal: ${step.step} was mined after the earlier run stopped, in block ${receipt.blockNumber}`);
+      } else {
+        fail(journal, step, "transaction reverted", receipt);
+        console.log(`⚠️  Journal: ${step.step} reverted in block ${receipt.blockNumber}`);
+      }
+      break;
+    }
+  }
+  const count = (status: OperationStep["status"]) => [...steps.values()].filter((step) => step.status === status).length;
+  console.log(`Resuming ${file}: ${count("done")} step(s) done, ${count("pending")} in flight, ${count("failed")} failed`);
+  return journal;
+}
+
+// Event arguments as JSON: integers as decimal strings, structs and arrays as arrays, indexed strings as their hash
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof ethers.Indexed) return value.hash;
+  if (Array.isArray(value)) return Array.from(value, toJsonValue);
+  return value;
+}
+
+// Events of the receipt emitted by the run's contracts, decoded with their ABIs
+function decodeEvents(journal: OperationJournal, receipt: ethers.TransactionReceipt): DecodedEvent[] {
+  const events: DecodedEvent[] = [];
+  for (const log of receipt.logs) {
+    const parsed = journal.interfaces.get(log.address.toLowerCase())?.parseLog(log);
+    if (!parsed) continue;
+    const args: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, i) => (args[input.name || String(i)] = toJsonValue(parsed.args[i])));
+    events.push({ address: log.address, name: parsed.name, args });
+  }
+  return events;
+}
+
+function finish(journal: OperationJournal, step: OperationStep, receipt: ethers.TransactionReceipt): StepResult {
+  const events = decodeEvents(journal, receipt);
+  append(journal, { kind: "done", at: now(), step: step.step, hash: receipt.hash, blockNumber: receipt.blockNumber, events });
+  Object.assign(step, { status: "done", hash: receipt.hash, blockNumber: receipt.blockNumber, events });
+  return { hash: receipt.hash, blockNumber: receipt.blockNumber, events, resumed: false };
+}
+
+function fail(journal: OperationJournal, step: OperationStep, error: string, receipt?: ethers.TransactionReceipt): void {
+  append(journal, {
+    kind: "failed",
+    at: now(),
+    step: step.step,
+    error,
+    ...(receipt ? { hash: receipt.hash, blockNumber: receipt.blockNumber } : {}),
+  });
+  Object.assign(step, { status: "failed", error });
+}
+
+/**
+ * Send one step of the run through the send pipeline, journaling its intent, every hash sent for it, and
+ * its receipt with the decoded events. A step an earlier run finished is not sent again. Throws when the
+ * call fails, after journaling the failure.
+ */
+export async function journalStep(
+  journal: OperationJournal,
+  txs: TxPipeline,
+  stepId: string,
+  contract: ethers.BaseContract,
+  method: string,
+  args: unknown[],
+  value: bigint = 0n
+): Promise<StepResult> {
+  return settleStep(journal, txs, await submitStep(journal, txs, stepId, contract, method, args, value));
+}
+
+/**
+ * First half of journalStep: journal the intent and broadcast the call without waiting for it, so that
+ * several steps can be in flight at once. Settle each with settleStep, in the order they were submitted.
+ */
+export async function submitStep(
+  journal: OperationJournal,
+  txs: TxPipeline,
+  stepId: string,
+  contract: ethers.BaseContract,
+  method: string,
+  args: unknown[],
+  value: bigint = 0n
+): Promise<SubmittedStep> {
+  const { to, key, fragment } = await encodeCall(contract, method, args, value);
+  if (!journal.interfaces.has(to.toLowerCase())) journal.interfaces.set(to.toLowerCase(), contract.interface);
+  const prior = journal.steps.get(stepId);
+
+  if (prior && (prior.status === "done" || prior.status === "pending") && prior.key !== key) {
+    throw new Error(
+      `Step ${stepId} of ${journal.file} was sent as a different call (${prior.call}): start a new run instead of resuming`
+    );
+  }
+  if (prior?.status === "done") {
+    console.log(`  ✓ ${stepId}: done by an earlier run in block ${prior.blockNumber} (${prior.hash})`);
+    return { step: prior, result: { hash: prior.hash!, blockNumber: prior.blockNumber!, events: prior.events, resumed: true } };
+  }
+
+  // Still in flight: the send pipeline resumes the transaction from its own journal instead of sending it again
+  const step: OperationStep =
+    prior?.status === "pending" ? prior : { step: stepId, status: "pending", hashes: [], events: [] };
+  if (step !== prior) {
+    const call = `${fragment.name}(${args.map((arg) => JSON.stringify(arg, (_key, v) => (typeof v === "bigint" ? v.toString() : v))).join(", ")})`;
+    append(journal, { kind: "intent", at: now(), step: stepId, call, to, key });
+    Object.assign(step, { call, key });
+    journal.steps.set(stepId, step);
+  }
+
+  try {
+    return { step, nonce: await submitTx(txs, contract, method, args, value) };
+  } catch (err: any) {
+    fail(journal, step, err?.shortMessage ?? err?.message ?? String(err));
+    throw err;
+  }
+}
+
+/**
+ * Second half of journalStep: wait for a submitted step to be confirmed and journal its receipt.
+ * Throws when the call fails, after journaling the failure.
+ */
+export async function settleStep(journal: OperationJournal, txs: TxPipeline, submitted: SubmittedStep): Promise<StepResult> {
+  if (submitted.result) return submitted.result;
+  try {
+    const receipt = await waitForTx(txs, submitted.nonce!);
+    return finish(journal, submitted.step, receipt);
+  } catch (err: any) {
+    fail(journal, submitted.step, err?.shortMessage ?? err?.message ?? String(err));
+    throw err;
+  }
+}
+
+// Journal a step the run decided not to send (already on chain, declined at a prompt, ...)
+export function journalSkip(journal: OperationJournal, stepId: string, reason: string): void {
+  append(journal, { kind: "skipped", at: now(), step: stepId, reason });
+  const step = journal.steps.get(stepId);
+  if (step && step.status !== "done") step.status = "skipped";
+  else if (!step) journal.steps.set(stepId, { step: stepId, status: "skipped", hashes: [], events: [] });
+}
@@ -0,0 +1,68 @@
+/**
+ * @notice List the pending transactions of a signer's send journal, and speed them up or cancel them
+ *
+ * Every write tool sends through the journal of tools/tx/send.utils.ts (tx-journal/<network>-<address>.jsonl).
+ * Opening it reconciles the entries with the chain; the ones still pending are listed with their gas
+ * price. --speedUp replaces a pending transaction with the same call at a higher gas price, --cancel
+ * with a zero-value transfer to self; both stay under the --maxGasPrice cap.
+ *
+ * @example List the operator's pending transactions
+ * ts-node tools/tx/pending-txs.ts --network mainnet --role operator
+ *
+ * @example Speed up nonce 812, or cancel it
+ * ts-node tools/tx/pending-txs.ts --network mainnet --role operator --speedUp 812
+ * ts-node tools/tx/pending-txs.ts --network mainnet --role operator --cancel 812 --maxGasPrice 10
+ */
+import "dotenv/config";
+import { parseArgs } from "../cli/args";
+import { connectNetwork, formatNetwork } from "../cli/networks";
+import { SIGNER_ROLES, SignerRole, loadSigner } from "../signers/signers.utils";
+import { cancelTx, formatGwei, openTxPipeline, pendingEntries, speedUpTx } from "./send.utils";
+
+function parseNonce(value: string, option: string): number {
+  const nonce = Number(value);
+  if (!Number.isInteger(nonce) || nonce < 0) throw new Error(`--${option} must be a nonce`);
+  return nonce;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const args = parseArgs(argv);
+  const role = (args.role || "operator") as SignerRole;
+  if (!SIGNER_ROLES[role]) {
+    throw new Error(`Unknown --role "${role}" (expected one of ${Object.keys(SIGNER_ROLES).join(", ")})`);
+  }
+  if (args.speedUp && args.cancel) throw new Error("Use either --speedUp or --cancel");
+
+  const { profile, provider } = await connectNetwork(args);
+  const wallet = await loadSigner(role, provider, args);
+
+  console.log(`Network: ${formatNetwork(profile)}`);
+  console.log(`Signer:  ${wallet.address} (${SIGNER_ROLES[role].label})`);
+  const pipeline = await openTxPipeline(wallet, profile, args);
+  console.log(`Journal: ${pipeline.journalFile}`);
+
+  const pending = pendingEntries(pipeline);
+  console.log(`\nPending transactions: ${pending.length}`);
+  for (const entry of pending) {
+    const last = entry.attempts[entry.attempts.length - 1];
+    const replaced = entry.attempts.length > 1 ? `, ${entry.attempts.length - 1} replacement(s)` : "";
+    console.log(`  nonce ${entry.nonce}  ${entry.label}  ${formatGwei(last.gasPrice)}${replaced}  ${last.hash}`);
+  }
+
+  if (args.speedUp) {
+    const nonce = parseNonce(args.speedUp, "speedUp");
+    console.log(`\nSpeeding up nonce ${nonce}...`);
+    await speedUpTx(pipeline, nonce);
+  } else if (args.cancel) {
+    const nonce = parseNonce(args.cancel, "cancel");
+    console.log(`\nCancelling nonce ${nonce}...`);
+    await cancelTx(pipeline, nonce);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,570 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { NetworkProfile } from "../cli/networks";
+import { RoleSigner } from "../signers/signers.utils";
+
+export const DEFAULT_TX_JOURNAL_DIR = path.join(__dirname, "..", "..", "tx-journal");
+
+// Nodes only accept a replacement that raises the gas price by at least 10% (txpool price bump)
+const MIN_BUMP_PERCENT = 10n;
+const DEFAULT_BUMP_PERCENT = 20;
+const DEFAULT_STUCK_AFTER_SECONDS = 45;
+const GAS_LIMIT_MARGIN_PERCENT = 20n;
+const POLL_MS = 2000;
+
+// ---- Gas policy ----
+
+export interface GasPolicy {
+  gasPrice?: bigint; // fixed price; the node's suggestion when unset
+  minGasPrice: bigint;
+  maxGasPrice: bigint; // never paid above, even when speeding up
+  bumpPercent: number;
+  stuckAfterMs: number;
+  confirmations: number;
+}
+
+type SendSetting = "gasPrice" | "minGasPrice" | "maxGasPrice" | "bumpPercent" | "stuckAfter" | "confirmations";
+
+// Option name and .env suffix of each setting: --<arg>, then <NETWORK>_<ENV>, then <ENV>
+const SETTINGS: Record<SendSetting, { arg: string; env: string }> = {
+  gasPrice: { arg: "gasPrice", env: "GAS_PRICE_GWEI" },
+  minGasPrice: { arg: "minGasPrice", env: "MIN_GAS_PRICE_GWEI" },
+  maxGasPrice: { arg: "maxGasPrice", env: "MAX_GAS_PRICE_GWEI" },
+  bumpPercent: { arg: "bumpPercent", env: "TX_BUMP_PERCENT" },
+  stuckAfter: { arg: "stuckAfter", env: "TX_STUCK_AFTER" },
+  confirmations: { arg: "confirmations", env: "TX_CONFIRMATIONS" },
+};
+
+function getSendSetting(profile: NetworkProfile, setting: SendSetting, args: Record<string, string>): string | undefined {
+  const { arg, env } = SETTINGS[setting];
+  const candidates = [args[arg], process.env[`${profile.name.toUpperCase()}_${env}`], process.env[env]];
+  return candidates.map((value) => value?.trim()).find((value) => value);
+}
+
+function parseGwei(setting: SendSetting, value: string): bigint {
+  try {
+    return ethers.parseUnits(value, "gwei");
+  } catch {
+    throw new Error(`Invalid --${SETTINGS[setting].arg} "${value}" (expected gwei, e.g. 1 or 0.1)`);
+  }
+}
+
+function parseCount(setting: SendSetting, value: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) throw new Error(`--${SETTINGS[setting].arg} must be an integer >= ${min}`);
+  return parsed;
+}
+
+/**
+ * Gas policy of a run: the network profile defaults (cap, confirmations) overridden by the
+ * options or .env. Prices are in gwei; --stuckAfter is in seconds.
+ */
+export function resolveGasPolicy(profile: NetworkProfile, args: Record<string, string> = {}): GasPolicy {
+  const setting = (name: SendSetting) => getSendSetting(profile, name, args);
+  const fixed = setting("gasPrice");
+  const min = setting("minGasPrice");
+  const max = setting("maxGasPrice");
+  const bump = setting("bumpPercent");
+  const stuckAfter = setting("stuckAfter");
+  const confirmations = setting("confirmations");
+
+  const policy: GasPolicy = {
+    gasPrice: fixed ? parseGwei("gasPrice", fixed) : undefined,
+    minGasPrice: min ? parseGwei("minGasPrice", min) : 0n,
+    maxGasPrice: max ? parseGwei("maxGasPrice", max) : profile.send.maxGasPrice,
+    bumpPercent: bump ? parseCount("bumpPercent", bump, Number(MIN_BUMP_PERCENT)) : DEFAULT_BUMP_PERCENT,
+    stuckAfterMs: (stuckAfter ? parseCount("stuckAfter", stuckAfter, 1) : DEFAULT_STUCK_AFTER_SECONDS) * 1000,
+    confirmations: confirmations ? parseCount("confirmations", confirmations, 1) : profile.send.confirmations,
+  };
+  if (policy.minGasPrice > policy.maxGasPrice) throw new Error("--minGasPrice is above --maxGasPrice");
+  if (policy.gasPrice !== undefined && policy.gasPrice > policy.maxGasPrice) {
+    throw new Error(`--gasPrice ${formatGwei(policy.gasPrice)} is above the cap of ${formatGwei(policy.maxGasPrice)} (--maxGasPrice)`);
+  }
+  return policy;
+}
+
+export function formatGwei(wei: bigint): string {
+  return `${ethers.formatUnits(wei, "gwei").replace(/\.0$/, "")} gwei`;
+}
+
+export function formatGasPolicy(policy: GasPolicy): string {
+  const price = policy.gasPrice !== undefined ? formatGwei(policy.gasPrice) : "node price";
+  return `${price}, cap ${formatGwei(policy.maxGasPrice)}; speed-up +${policy.bumpPercent}% after ${policy.stuckAfterMs / 1000}s; ${policy.confirmations} confirmation(s)`;
+}
+
+// ---- Send journal (JSON lines, append-only) ----
+
+export type JournalRecord =
+  | { kind: "sent"; at: string; nonce: number; key: string; label: string; hash: string; raw: string; gasPrice: string; cancel?: boolean }
+  | { kind: "mined"; at: string; nonce: number; hash: string; blockNumber: number; status: number }
+  | { kind: "dropped"; at: string; nonce: number; reason: string };
+
+export interface SendAttempt {
+  hash: string;
+  raw: string; // signed transaction, for rebroadcasts and replacements
+  gasPrice: bigint;
+  cancel: boolean;
+}
+
+// One nonce: the intended call and every signed attempt (original, speed-ups, cancellation)
+export interface JournalEntry {
+  nonce: number;
+  key: string; // intent: keccak of to, data and value
+  label: string;
+  attempts: SendAttempt[];
+  outcome?: "mined" | "reverted" | "cancelled" | "dropped";
+  hash?: string;
+  blockNumber?: number;
+}
+
+function readJournal(file: string): Map<number, JournalEntry> {
+  const entries = new Map<number, JournalEntry>();
+  if (!fs.existsSync(file)) return entries;
+  const lines = fs.readFileSync(file, "utf8").split("\n").filter((line) => line.trim());
+  for (const [i, line] of lines.entries()) {
+    let record: JournalRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      // A run killed while writing leaves a truncated last line
+      console.log(`⚠️  Ignoring unreadable line ${i + 1} of ${file}`);
+      continue;
+    }
+    const entry = entries.get(record.nonce);
+    if (record.kind === "sent") {
+      const attempt = { hash: record.hash, raw: record.raw, gasPrice: BigInt(record.gasPrice), cancel: !!record.cancel };
+      if (entry && !entry.outcome) entry.attempts.push(attempt);
+      else entries.set(record.nonce, { nonce: record.nonce, key: record.key, label: record.label, attempts: [attempt] });
+    } else if (entry && record.kind === "mined") {
+      const cancelled = entry.attempts.find((attempt) => attempt.hash === record.hash)?.cancel;
+      entry.outcome = cancelled ? "cancelled" : record.status === 1 ? "mined" : "reverted";
+      entry.hash = record.hash;
+      entry.blockNumber = record.blockNumber;
+    } else if (entry && record.kind === "dropped") {
+      entry.outcome = "dropped";
+    }
+  }
+  return entries;
+}
+
+function intentKey(to: string, data: string, value: bigint): string {
+  return ethers.id(`${to.toLowerCase()}:${data.toLowerCase()}:${value}`);
+}
+
+export interface EncodedCall {
+  to: string;
+  data: string;
+  value: bigint;
+  key: string; // the journal's intent key: the same call always has the same key
+  fragment: ethers.FunctionFragment;
+}
+
+export async function encodeCall(
+  contract: ethers.BaseContract,
+  method: string,
+  args: unknown[],
+  value: bigint = 0n
+): Promise<EncodedCall> {
+  const to = ethers.getAddress(await ethers.resolveAddress(contract.target));
+  const fragment = contract.interface.getFunction(method, args as any[]);
+  if (!fragment) throw new Error(`Unknown contract method ${method}`);
+  const data = contract.interface.encodeFunctionData(fragment, args as any[]);
+  return { to, data, value, key: intentKey(to, data, value), fragment };
+}
+
+// ---- Pipeline ----
+
+export interface TxPipeline {
+  signer: RoleSigner;
+  provider: ethers.Provider;
+  chainId: bigint;
+  policy: GasPolicy;
+  journalFile: string;
+  entries: Map<number, JournalEntry>; // by nonce
+  recovered: JournalEntry[]; // sends an earlier run left pending, settled while opening the journal
+  nextNonce: number; // assigned locally, so consecutive sends need no delay between them
+  onSent?: (entry: JournalEntry, attempt: SendAttempt) => void; // after each signed attempt is journaled
+}
+
+function appendJournal(pipeline: TxPipeline, record: JournalRecord): void {
+  fs.mkdirSync(path.dirname(path.resolve(pipeline.journalFile)), { recursive: true });
+  fs.appendFileSync(pipeline.journalFile, JSON.stringify(record) + "\n");
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function pendingEntries(pipeline: TxPipeline): JournalEntry[] {
+  return [...pipeline.entries.values()].filter((entry) => !entry.outcome).sort((a, b) => a.nonce - b.nonce);
+}
+
+/**
+ * Open the send pipeline of a signer. The journal (--txJournal, default tx-journal/<network>-<address>.jsonl)
+ * is reconciled with the chain first: sends of an earlier run that were mined or replaced are closed, and
+ * the ones still pending are rebroadcast and resumed when the same call is sent again.
+ */
+export async function openTxPipeline(
+  signer: RoleSigner,
+  profile: NetworkProfile,
+  args: Record<string, string> = {}
+): Promise<TxPipeline> {
+  const provider = signer.provider;
+  if (!provider) throw new Error("The signer is not connected to a provider");
+  const journalFile =
+    args.txJournal || path.join(DEFAULT_TX_JOURNAL_DIR, `${profile.name}-${signer.address.toLowerCase()}.jsonl`);
+
+  const pipeline: TxPipeline = {
+    signer,
+    provider,
+    chainId: profile.chainId,
+    policy: resolveGasPolicy(profile, args),
+    journalFile,
+    entries: readJournal(journalFile),
+    recovered: [],
+    nextNonce: 0,
+  };
+
+  const minedNonce = await provider.getTransactionCount(signer.address, "latest");
+  for (const entry of pendingEntries(pipeline)) {
+    const receipt = await findReceipt(pipeline, entry);
+    if (receipt) {
+      recordMined(pipeline, entry, receipt);
+      pipeline.recovered.push(entry);
+      console.log(`Journal: nonce ${entry.nonce} (${entry.label}) was ${entry.outcome} in block ${receipt.blockNumber}`);
+    } else if (entry.nonce < minedNonce) {
+      recordDropped(pipeline, entry, "nonce used by another transaction");
+      console.log(`⚠️  Journal: nonce ${entry.nonce} (${entry.label}) was used by another transaction`);
+    } else {
+      // Already public: rebroadcasting cannot send anything the operator did not sign and send before
+      await rebroadcast(pipeline, entry);
+      console.log(`⚠️  Journal: nonce ${entry.nonce} (${entry.label}) from an earlier run is still pending: ${latest(entry).hash}`);
+    }
+  }
+
+  const pendingNonce = await provider.getTransactionCount(signer.address, "pending");
+  const journalNonce = Math.max(-1, ...pendingEntries(pipeline).map((entry) => entry.nonce)) + 1;
+  pipeline.nextNonce = Math.max(pendingNonce, journalNonce);
+  console.log(`Gas policy: ${formatGasPolicy(pipeline.policy)}`);
+  return pipeline;
+}
+
+// Gas price for a new send: the fixed price or the node's suggestion, clamped to [min, cap]
+async function currentGasPrice(pipeline: TxPipeline): Promise<bigint> {
+  const { policy } = pipeline;
+  if (policy.gasPrice !== undefined) return policy.gasPrice;
+  const suggested = (await pipeline.provider.getFeeData()).gasPrice;
+  if (suggested == null) throw new Error("The node does not report a gas price: set --gasPrice");
+  if (suggested > policy.maxGasPrice) {
+    console.log(`⚠️  Node gas price ${formatGwei(suggested)} is above the cap: using ${formatGwei(policy.maxGasPrice)}`);
+    return policy.maxGasPrice;
+  }
+  return suggested < policy.minGasPrice ? policy.minGasPrice : suggested;
+}
+
+function latest(entry: JournalEntry): SendAttempt {
+  return entry.attempts[entry.attempts.length - 1];
+}
+
+async function signAndBroadcast(
+  pipeline: TxPipeline,
+  entry: JournalEntry,
+  request: { to: string; data: string; value: bigint; gasLimit: bigint },
+  gasPrice: bigint,
+  cancel = false
+): Promise<SendAttempt> {
+  const raw = await pipeline.signer.signTransaction({
+    type: 0,
+    chainId: pipeline.chainId,
+    nonce: entry.nonce,
+    gasPrice,
+    ...request,
+  });
+  const attempt: SendAttempt = { hash: ethers.keccak256(raw), raw, gasPrice, cancel };
+  // Journaled before it is broadcast, so a crash right after sending still knows the hash
+  appendJournal(pipeline, {
+    kind: "sent",
+    at: now(),
+    nonce: entry.nonce,
+    key: entry.key,
+    label: entry.label,
+    hash: attempt.hash,
+    raw,
+    gasPrice: gasPrice.toString(),
+    ...(cancel ? { cancel } : {}),
+  });
+  entry.attempts.push(attempt);
+  pipeline.onSent?.(entry, attempt);
+  await pipeline.provider.broadcastTransaction(raw);
+  return attempt;
+}
+
+async function rebroadcast(pipeline: TxPipeline, entry: JournalEntry): Promise<void> {
+  try {
+    await pipeline.provider.broadcastTransaction(latest(entry).raw);
+  } catch {
+    // "already known" or "nonce too low": the transaction is in the pool or already mined
+  }
+}
+
+/**
+ * Send a contract call through the pipeline and wait for its confirmations. A call an earlier run
+ * left in the journal (same contract, calldata and value) is resumed instead of sent again: still
+ * pending, it is waited for; mined while no run was watching, its receipt is returned.
+ * Throws when the transaction reverts, is cancelled, or its nonce is used by another transaction.
+ */
+export async function sendTx(
+  pipeline: TxPipeline,
+  contract: ethers.BaseContract,
+  method: string,
+  args: unknown[],
+  value: bigint = 0n
+): Promise<ethers.TransactionReceipt> {
+  return waitForTx(pipeline, await submitTx(pipeline, contract, method, args, value));
+}
+
+/**
+ * Sign and broadcast a contract call without waiting for it, and return its nonce for waitForTx. Nonces are
+ * assigned locally, so several calls can be in flight at once. A call the journal already holds is not sent
+ * again (see sendTx). Throws when the call would revert or the node rejects the transaction.
+ */
+export async function submitTx(
+  pipeline: TxPipeline,
+  contract: ethers.BaseContract,
+  method: string,
+  args: unknown[],
+  value: bigint = 0n
+): Promise<number> {
+  const { to, data, key, fragment } = await encodeCall(contract, method, args, value);
+
+  const resumed = pendingEntries(pipeline).find((entry) => entry.key === key);
+  if (resumed) {
+    console.log(`Resuming ${resumed.label} tx from the journal: ${latest(resumed).hash} (nonce ${resumed.nonce})`);
+    return resumed.nonce;
+  }
+  const recovered = pipeline.recovered.findIndex((entry) => entry.key === key && entry.outcome === "mined");
+  if (recovered >= 0) {
+    const [entry] = pipeline.recovered.splice(recovered, 1);
+    console.log(`${entry.label} was already sent by an earlier run: ${entry.hash} (nonce ${entry.nonce})`);
+    return entry.nonce;
+  }
+
+  // Estimating first surfaces a revert before a nonce is used
+  const estimate = await pipeline.provider.estimateGas({ from: pipeline.signer.address, to, data, value });
+  const gasLimit = (estimate * (100n + GAS_LIMIT_MARGIN_PERCENT)) / 100n;
+  const gasPrice = await currentGasPrice(pipeline);
+
+  const entry: JournalEntry = { nonce: pipeline.nextNonce++, key, label: fragment.name, attempts: [] };
+  pipeline.entries.set(entry.nonce, entry);
+  try {
+    await signAndBroadcast(pipeline, entry, { to, data, value, gasLimit }, gasPrice);
+  } catch (err: any) {
+    const reason = err?.shortMessage ?? err?.message ?? String(err);
+    if (entry.attempts.length === 0) {
+      // Not signed: nothing left this process
+      pipeline.entries.delete(entry.nonce);
+      releaseNonce(pipeline, entry.nonce);
+      throw err;
+    }
+    const rejection = broadcastRejection(err);
+    if (!rejection) {
+      // A timeout or RPC error does not mean the node refused it: the nonce stays taken until the chain settles it
+      console.log(`⚠️  Broadcast of ${entry.label} tx ${latest(entry).hash} (nonce ${entry.nonce}) failed: ${reason}; waiting for it`);
+      await rebroadcast(pipeline, entry);
+      return entry.nonce;
+    }
+    recordDropped(pipeline, entry, `rejected by the node: ${reason}`);
+    if (rejection === "nonce") {
+      // Another transaction holds the nonce: continue after everything the node knows of
+      const pendingNonce = await pipeline.provider.getTransactionCount(pipeline.signer.address, "pending");
+      pipeline.nextNonce = Math.max(pipeline.nextNonce, pendingNonce);
+    } else {
+      releaseNonce(pipeline, entry.nonce);
+    }
+    throw err;
+  }
+  console.log(`Submitted ${entry.label} tx: ${latest(entry).hash} (nonce ${entry.nonce}, ${formatGwei(gasPrice)})`);
+  return entry.nonce;
+}
+
+/**
+ * Broadcast errors after which the node certainly does not hold the transaction: "nonce" when the nonce is
+ * taken by another transaction, "refused" when the transaction itself is invalid (funds, gas). Undefined for
+ * anything else (timeouts, RPC and network errors), which may have reached the pool anyway.
+ */
+function broadcastRejection(err: any): "nonce" | "refused" | undefined {
+  const message = `${err?.error?.message ?? ""} ${err?.info?.error?.message ?? ""} ${err?.message ?? ""}`.toLowerCase();
+  if (err?.code === "NONCE_EXPIRED" || err?.code === "REPLACEMENT_UNDERPRICED") return "nonce";
+  if (/nonce too low|nonce has already been used|replacement transaction underpriced/.test(message)) return "nonce";
+  if (err?.code === "INSUFFICIENT_FUNDS") return "refused";
+  if (/insufficient funds|intrinsic gas too low|exceeds block gas limit|gas limit reached|invalid sender/.test(message)) {
+    return "refused";
+  }
+  return undefined;
+}
+
+// Hand a nonce back when it was the last one assigned (a later send may already hold the next one)
+function releaseNonce(pipeline: TxPipeline, nonce: number): void {
+  if (pipeline.nextNonce === nonce + 1) pipeline.nextNonce = nonce;
+}
+
+async function findReceipt(pipeline: TxPipeline, entry: JournalEntry): Promise<ethers.TransactionReceipt | null> {
+  for (const attempt of [...entry.attempts].reverse()) {
+    const receipt = await pipeline.provider.getTransactionReceipt(attempt.hash);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+function recordMined(pipeline: TxPipeline, entry: JournalEntry, receipt: ethers.TransactionReceipt): void {
+  const status = receipt.status ?? 0;
+  appendJournal(pipeline, { kind: "mined", at: now(), nonce: entry.nonce, hash: receipt.hash, blockNumber: receipt.blockNumber, status });
+  const cancelled = entry.attempts.find((attempt) => attempt.hash === receipt.hash)?.cancel;
+  entry.outcome = cancelled ? "cancelled" : status === 1 ? "mined" : "reverted";
+  entry.hash = receipt.hash;
+  entry.blockNumber = receipt.blockNumber;
+}
+
+function recordDropped(pipeline: TxPipeline, entry: JournalEntry, reason: string): void {
+  appendJournal(pipeline, { kind: "dropped", at: now(), nonce: entry.nonce, reason });
+  entry.outcome = "dropped";
+}
+
+// Receipt once it has the policy's confirmations; null when it was reorged out meanwhile
+async function waitForConfirmations(
+  pipeline: TxPipeline,
+  receipt: ethers.TransactionReceipt
+): Promise<ethers.TransactionReceipt | null> {
+  const { confirmations } = pipeline.policy;
+  let reported = false;
+  while ((await pipeline.provider.getBlockNumber()) - receipt.blockNumber + 1 < confirmations) {
+    if (!reported) console.log(`  Mined in block ${receipt.blockNumber}, waiting for ${confirmations} confirmations...`);
+    reported = true;
+    await sleep(POLL_MS);
+  }
+  if (confirmations <= 1) return receipt;
+  const current = await pipeline.provider.getTransactionReceipt(receipt.hash);
+  return current && current.blockHash === receipt.blockHash ? current : null;
+}
+
+/**
+ * Wait until the transaction at a nonce of the journal is confirmed, speeding it up when it stays
+ * pending longer than the policy's stuckAfter (capped at maxGasPrice).
+ */
+export async function waitForTx(pipeline: TxPipeline, nonce: number): Promise<ethers.TransactionReceipt> {
+  const entry = pipeline.entries.get(nonce);
+  if (!entry) throw new Error(`Nonce ${nonce} is not in ${pipeline.journalFile}`);
+  let waitingSince = Date.now();
+  let receipt: ethers.TransactionReceipt | null = null;
+
+  while (!entry.outcome) {
+    const mined = await findReceipt(pipeline, entry);
+    if (mined) {
+      receipt = await waitForConfirmations(pipeline, mined);
+      if (!receipt) {
+        console.log(`⚠️  ${entry.label} tx ${mined.hash} was reorged out: waiting for it to be mined again`);
+        await rebroadcast(pipeline, entry);
+        continue;
+      }
+      recordMined(pipeline, entry, receipt);
+      break;
+    }
+
+    const minedNonce = await pipeline.provider.getTransactionCount(pipeline.signer.address, "latest");
+    if (minedNonce > nonce) {
+      // Mined between the two calls?
+      if (await findReceipt(pipeline, entry)) continue;
+      recordDropped(pipeline, entry, "nonce used by another transaction");
+      break;
+    }
+
+    if (Date.now() - waitingSince >= pipeline.policy.stuckAfterMs) {
+      await replaceTx(pipeline, entry, false);
+      waitingSince = Date.now();
+    }
+    await sleep(POLL_MS);
+  }
+
+  return settledReceipt(pipeline, entry, receipt);
+}
+
+// Receipt of a settled entry; throws unless its own call was mined successfully
+async function settledReceipt(
+  pipeline: TxPipeline,
+  entry: JournalEntry,
+  receipt: ethers.TransactionReceipt | null
+): Promise<ethers.TransactionReceipt> {
+  if (entry.outcome === "dropped") {
+    throw new Error(
+      `Nonce ${entry.nonce} (${entry.label}) was used by another transaction of ${pipeline.signer.address}: check it on the explorer before retrying`
+    );
+  }
+  if (entry.outcome === "cancelled") throw new Error(`${entry.label} at nonce ${entry.nonce} was cancelled (tx ${entry.hash})`);
+  if (entry.outcome === "reverted") throw new Error(`${entry.label} reverted in block ${entry.blockNumber} (tx ${entry.hash})`);
+  console.log(`Mined in block ${entry.blockNumber}`);
+  return receipt ?? (await pipeline.provider.getTransactionReceipt(entry.hash!))!;
+}
+
+/**
+ * Replace a pending transaction with the same nonce at a higher gas price: the same call (speed-up)
+ * or a zero-value transfer to self (cancel). At the cap the last attempt is only rebroadcast.
+ */
+async function replaceTx(pipeline: TxPipeline, entry: JournalEntry, cancel: boolean): Promise<void> {
+  const { policy } = pipeline;
+  const last = latest(entry);
+  const minimum = (last.gasPrice * (100n + MIN_BUMP_PERCENT) + 99n) / 100n;
+  let target = (last.gasPrice * BigInt(100 + policy.bumpPercent) + 99n) / 100n;
+  const market = policy.gasPrice ?? (await pipeline.provider.getFeeData()).gasPrice ?? 0n;
+  if (market > target) target = market;
+  if (target > policy.maxGasPrice) target = policy.maxGasPrice;
+
+  if (target < minimum) {
+    console.log(
+      `⚠️  ${entry.label} tx at nonce ${entry.nonce} is pending at ${formatGwei(last.gasPrice)}: ` +
+        `cannot ${cancel ? "cancel" : "speed it up"} under the cap of ${formatGwei(policy.maxGasPrice)}, rebroadcasting`
+    );
+    await rebroadcast(pipeline, entry);
+    return;
+  }
+
+  const request = cancel
+    ? { to: pipeline.signer.address, data: "0x", value: 0n, gasLimit: 21000n }
+    : (({ to, data, value, gasLimit }) => ({ to: to!, data, value, gasLimit }))(ethers.Transaction.from(last.raw));
+  try {
+    const attempt = await signAndBroadcast(pipeline, entry, request, target, cancel);
+    console.log(
+      `${cancel ? "Cancelling" : "Speeding up"} ${entry.label} tx at nonce ${entry.nonce}: ` +
+        `${formatGwei(last.gasPrice)} → ${formatGwei(target)} (${attempt.hash})`
+    );
+  } catch (err: any) {
+    // e.g. "replacement transaction underpriced": the next round bumps again
+    console.log(`⚠️  Replacement of nonce ${entry.nonce} was rejected: ${err?.shortMessage ?? err?.message ?? err}`);
+  }
+}
+
+// Speed up a pending transaction of the journal now (instead of waiting for stuckAfter)
+export async function speedUpTx(pipeline: TxPipeline, nonce: number): Promise<ethers.TransactionReceipt> {
+  const entry = pipeline.entries.get(nonce);
+  if (!entry || entry.outcome) throw new Error(`Nonce ${nonce} has no pending transaction in ${pipeline.journalFile}`);
+  await replaceTx(pipeline, entry, false);
+  return waitForTx(pipeline, nonce);
+}
+
+// Cancel a pending transaction of the journal: a zero-value transfer to self takes its nonce
+export async function cancelTx(pipeline: TxPipeline, nonce: number): Promise<void> {
+  const entry = pipeline.entries.get(nonce);
+  if (!entry || entry.outcome) throw new Error(`Nonce ${nonce} has no pending transaction in ${pipeline.journalFile}`);
+  await replaceTx(pipeline, entry, true);
+  try {
+    await waitForTx(pipeline, nonce);
+  } catch (err) {
+    if (entry.outcome !== "cancelled") throw err;
+  }
+  if (entry.outcome === "cancelled") console.log(`✓ Nonce ${nonce} cancelled (tx ${entry.hash})`);
+  else console.log(`⚠️  The original ${entry.label} tx was mined before the cancellation (tx ${entry.hash})`);
+}
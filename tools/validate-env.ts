@@ -1,5 +1,7 @@
 import 'dotenv/config';
+import * as fs from 'fs';
 import { ethers } from 'ethers';
+import { SIGNER_ROLES, SignerRole, getSignerSetting, resolveSignerBackend } from './signers/signers.utils';
 
 type Profile = 'deploy' | 'sign-claim' | 'submit-claim' | 'verify';
 
@@ -32,6 +34,30 @@ function assertAddress(name: string, value: string) {
   try { ethers.getAddress(value); } catch { throw new Error(`${name} must be a valid address`); }
 }
 
+// Keystore present, remote signer URL set, or (explicit --signer env opt-in) a well-formed plaintext key
+function checkSigner(role: SignerRole) {
+  const { label, prefix, keyEnv } = SIGNER_ROLES[role];
+  const backend = resolveSignerBackend(role);
+  if (!backend) {
+    throw new Error(`No ${label} signer: set ${prefix}_KEYSTORE, ${prefix}_SIGNER_URL, or ${prefix}_SIGNER=env with ${keyEnv[0]}`);
+  }
+  if (backend === 'keystore') {
+    const file = getSignerSetting(role, 'keystore');
+    if (!file) throw new Error(`Missing required env: ${prefix}_KEYSTORE (or KEYSTORE)`);
+    if (!fs.existsSync(file)) throw new Error(`${prefix}_KEYSTORE not found: ${file}`);
+    const { address } = JSON.parse(fs.readFileSync(file, 'utf8'));
+    console.log(`Signer (${label}) ok: keystore ${file}${address ? ` (${ethers.getAddress('0x' + String(address).replace(/^0x/, ''))})` : ''}`);
+  } else if (backend === 'remote') {
+    const url = getSignerSetting(role, 'url');
+    if (!url) throw new Error(`Missing required env: ${prefix}_SIGNER_URL (or SIGNER_URL)`);
+    console.log(`Signer (${label}) ok: remote ${url}`);
+  } else {
+    const pk = requireVar(keyEnv[0], keyEnv.slice(1));
+    assertHexPrivateKey(pk.key, pk.value);
+    console.log(`Signer (${label}) ok: plaintext ${pk.key} (env opt-in)`);
+  }
+}
+
 function checkRpc() {
   // Accept RPC_URL or TESTNET_BSC_RPC_URL or BSC_RPC_URL
   const rpc = requireVar('RPC_URL', ['TESTNET_BSC_RPC_URL', 'BSC_RPC_URL']);
@@ -51,21 +77,17 @@ function checkDeploy() {
 
 function checkSignClaim() {
   checkRpc();
-  const pk = requireVar('CLAIM_SIGNER_PK', ['PRIVATE_KEY']);
-  assertHexPrivateKey(pk.key, pk.value);
-  console.log(`${pk.key} ok`);
+  checkSigner('claimSigner');
   const addr = optionalVar('FP1155_ADDRESS');
   if (addr) { assertAddress('FP1155_ADDRESS', addr); console.log('FP1155_ADDRESS ok'); }
 }
 
 function checkSubmitClaim() {
   checkRpc();
-  const pk = requireVar('USER_PK', ['PRIVATE_KEY']);
-  assertHexPrivateKey(pk.key, pk.value);
-  console.log(`${pk.key} ok`);
-  const addr = requireVar('FP1155_ADDRESS');
-  assertAddress(addr.key, addr.value);
-  console.log('FP1155_ADDRESS ok');
+  checkSigner('user');
+  // Optional: the network registry (tools/cli/networks.ts) knows the deployed FP1155 proxies
+  const addr = optionalVar('FP1155_ADDRESS');
+  if (addr) { assertAddress('FP1155_ADDRESS', addr); console.log('FP1155_ADDRESS ok'); }
 }
 
 function checkVerify() {
@@ -74,8 +96,8 @@ function checkVerify() {
   console.log('BSCSCAN_API_KEY ok');
 }
 
-async function main() {
-  const profile = (process.argv[2] ?? '').trim() as Profile;
+export async function main(argv: string[] = process.argv.slice(2)) {
+  const profile = (argv[0] ?? '').trim() as Profile;
   if (!profile || !['deploy', 'sign-claim', 'submit-claim', 'verify'].includes(profile)) usage();
   try {
     if (profile === 'deploy') checkDeploy();
@@ -89,4 +111,6 @@ async function main() {
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}